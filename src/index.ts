@@ -6,7 +6,9 @@ import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
 
 // Import our existing types and utilities
 import {
+  FullDocsArgs,
   SearchDocsArgs,
+  SearchAllArgs,
   CatalystComponentArgs,
   PatternArgs,
   StarterKitArgs,
@@ -14,44 +16,235 @@ import {
   QuestionnaireArgs,
   LibraryDocsArgs,
   AnalyzeSiteArgs,
-  ServerConfig
+  DocsSectionArgs,
+  DocsOutlineArgs,
+  FindCodeExamplesArgs,
+  DiffDocsVersionsArgs,
+  MigrateTailwindConfigArgs,
+  MigratePagesRouterArgs,
+  LookupTailwindClassArgs,
+  LintTailwindClassesArgs,
+  CssToTailwindArgs,
+  GenerateTailwindThemeArgs,
+  GetColorDesignGuidanceArgs,
+  CheckContrastArgs,
+  InstallCatalystComponentsArgs,
+  ThemeCatalystComponentArgs,
+  DocSection,
+  ServerConfig,
+  COLOR_MOODS,
+  CONTENT_SOURCE_TYPES,
+  ContentSourceType,
+  INDUSTRY_NAMES,
+  RADIUS_STEPS
 } from './types.js';
 import { validateToolInput } from './utils/security.js';
 import { ErrorHandler, createAuditLog } from './utils/errorHandler.js';
 import { SecureFileService } from './services/fileService.js';
+import { DocsIndexService } from './services/docsIndexService.js';
+import { IndexCacheService } from './services/indexCacheService.js';
+import { BUNDLED_DOCS_VERSIONS, DocsVersionService } from './services/docsVersionService.js';
+import { ParsedDocument } from './services/docsParser.js';
+import { SearchHit } from './services/searchIndex.js';
+import { CodeExample, CodeExampleService } from './services/codeExampleService.js';
+import { DocsDiff, diffSections } from './services/docsDiff.js';
+import { TailwindMigrationResult, migrateTailwind } from './services/tailwindMigration.js';
+import { PagesMigrationPlan, planPagesMigration } from './services/pagesRouterMigration.js';
+import { ResolvedClass, TailwindClassResolver, splitClassList } from './services/tailwindClasses.js';
+import { ClassListLint, LintRule, TailwindClassLinter } from './services/tailwindLint.js';
+import { CssConversion, CssToTailwindConverter, MatchKind } from './services/cssToTailwind.js';
+import { GeneratedTheme, TailwindThemeGenerator } from './services/themeGenerator.js';
+import { ColorAdvice, ColorPaletteAdvisor, INDUSTRIES } from './services/colorGuidance.js';
+import { ContrastChecker, ContrastResult, WCAG_THRESHOLDS } from './services/contrastChecker.js';
+import { CatalystComponentApi, CatalystComponentLibrary, ComponentBundle, formatPropValues } from './services/catalystComponents.js';
+import { CatalystExampleGenerator, ComponentExamples } from './services/catalystExamples.js';
+import { CatalystInstaller, DEFAULT_COMPONENTS_DIR, FileAction, InstallReport } from './services/catalystInstaller.js';
+import { CatalystThemer, ThemedComponent } from './services/catalystTheme.js';
+import { UnifiedSearchHit, UnifiedSearchService } from './services/unifiedSearchService.js';
+import { DEFAULT_PAGE_TOKENS, DocsPage, decodeCursor, paginateDocument } from './utils/pagination.js';
+import { QueryExpansion, expandQuery } from './utils/queryAliases.js';
+import { findTermOffsets } from './utils/textAnalysis.js';
+import { formatHex, formatOklch } from './utils/color.js';
 
 // Export configSchema for Smithery quality scoring (all fields optional)
 export const configSchema = z.object({
   cacheTimeout: z.number().optional().default(300000)
     .describe("Cache timeout in milliseconds (default: 5 minutes)"),
   maxSearchResults: z.number().min(1).max(20).optional().default(5)
-    .describe("Default maximum search results (1-20)")
+    .describe("Default maximum search results (1-20)"),
+  nextjsDocsVersion: z.string().optional().default(BUNDLED_DOCS_VERSIONS.nextjs)
+    .describe(`Next.js docs version served when a tool call does not pass one (bundled: ${BUNDLED_DOCS_VERSIONS.nextjs}; others go in content/docs/nextjs/<version>/)`),
+  tailwindDocsVersion: z.string().optional().default(BUNDLED_DOCS_VERSIONS.tailwind)
+    .describe(`Tailwind CSS docs version served when a tool call does not pass one (bundled: ${BUNDLED_DOCS_VERSIONS.tailwind}; others go in content/docs/tailwind/<version>/)`),
+  indexCacheDir: z.string().optional()
+    .describe("Directory for the persistent search index cache (default: .cache/search-index in the working directory; empty string disables it)")
 });
 
 export type Config = z.infer<typeof configSchema>;
 
+// Structured output shared by the search tools; returned as structuredContent on every call
+// and as the text content when the caller asks for format "json"
+const searchHitSchema = z.object({
+  title: z.string(),
+  breadcrumb: z.array(z.string()),
+  sourceFile: z.string(),
+  startLine: z.number(),
+  endLine: z.number(),
+  score: z.number(),
+  snippet: z.string(),
+  snippetStartLine: z.number(),
+  matchedTerms: z.array(z.string()),
+  highlights: z.array(z.object({ start: z.number(), end: z.number() }))
+    .describe("Character offsets of matched words within the snippet"),
+  expansion: z.string().optional().describe("Alias query that found this hit, when not the original query")
+});
+
+const searchOutputSchema = {
+  query: z.string(),
+  suggestions: z.array(z.string()),
+  expansions: z.array(z.object({ alias: z.string(), queries: z.array(z.string()), note: z.string() })),
+  hits: z.array(searchHitSchema)
+};
+
+const unifiedSearchOutputSchema = {
+  ...searchOutputSchema,
+  hits: z.array(searchHitSchema.extend({
+    sourceType: z.enum(CONTENT_SOURCE_TYPES),
+    fetchWith: z.object({ tool: z.string(), arguments: z.record(z.string()) })
+  }))
+};
+
+const docsVersionSchema = (framework: 'nextjs' | 'tailwind') => z.string().optional()
+  .describe(`Docs version to use (e.g. '${BUNDLED_DOCS_VERSIONS[framework]}'); defaults to the server's configured ${framework} docs version`);
+
+const searchFormatSchema = z.enum(['markdown', 'json']).optional()
+  .describe("Response format: 'markdown' (default) for reading, or 'json' for hits with breadcrumbs, line ranges, scores and highlight offsets");
+
 export default function createServer(config?: Config) {
   // Apply config with defaults
   const configuredCacheTimeout = config?.cacheTimeout ?? 300000;
   const defaultSearchLimit = config?.maxSearchResults ?? 5;
+  const configuredIndexCacheDir = config?.indexCacheDir ?? path.join(process.cwd(), '.cache', 'search-index');
+
+  // Bundled docs sit at the top of each framework's docs directory; other versions
+  // live in version-named subdirectories next to them
+  const docsVersionService = new DocsVersionService({
+    nextjs: path.join(process.cwd(), 'content', 'docs', 'nextjs', 'nextjs-full.txt'),
+    tailwind: path.join(process.cwd(), 'content', 'docs', 'tailwind', 'tailwind-docs-full.txt')
+  }, {
+    nextjs: config?.nextjsDocsVersion ?? BUNDLED_DOCS_VERSIONS.nextjs,
+    tailwind: config?.tailwindDocsVersion ?? BUNDLED_DOCS_VERSIONS.tailwind
+  });
+  const nextjsDocsVersion = docsVersionService.getDefaultVersion('nextjs');
+  const tailwindDocsVersion = docsVersionService.getDefaultVersion('tailwind');
 
   // Server configuration with secure defaults - using process.cwd() for Smithery compatibility
   const CONFIG: ServerConfig = {
     contentBasePath: path.join(process.cwd(), 'content'),
-    nextjsDocsPath: path.join(process.cwd(), 'content', 'docs', 'nextjs', 'nextjs-full.txt'),
-    tailwindDocsPath: path.join(process.cwd(), 'content', 'docs', 'tailwind', 'tailwind-docs-full.txt'),
+    nextjsDocsPath: docsVersionService.pathFor('nextjs', nextjsDocsVersion),
+    tailwindDocsPath: docsVersionService.pathFor('tailwind', tailwindDocsVersion),
     catalystComponentsPath: path.join(process.cwd(), 'content', 'components', 'catalyst'),
     patternsPath: path.join(process.cwd(), 'content', 'patterns'),
     templatesPath: path.join(process.cwd(), 'content', 'templates', 'starter-kits.json'),
     libraryDocsPath: path.join(process.cwd(), 'content', 'docs', 'libraries'),
     maxFileSize: 1 * 1024 * 1024, // 1MB for components and patterns
     largeFileSize: 5 * 1024 * 1024, // 5MB for large documentation files
-    cacheTimeout: configuredCacheTimeout // Use config or default
+    cacheTimeout: configuredCacheTimeout, // Use config or default
+    indexCachePath: configuredIndexCacheDir || null,
+    nextjsDocsVersion,
+    tailwindDocsVersion
   };
 
   // Initialize secure file service
   const fileService = new SecureFileService(CONFIG.maxFileSize, CONFIG.cacheTimeout);
 
+  // Search indexes are persisted here so restarts skip tokenizing unchanged content
+  const indexCache = new IndexCacheService(CONFIG.indexCachePath);
+
+  // Section trees and search indexes are built lazily, once per documentation file
+  const docsIndexService = new DocsIndexService(fileService, CONFIG.largeFileSize, indexCache);
+
+  // Documentation corpora addressable by the section-aware tools; any other
+  // corpus name refers to a file in the library docs directory
+  const docsCorpora: Record<string, string> = {
+    nextjs: CONFIG.nextjsDocsPath,
+    tailwind: CONFIG.tailwindDocsPath
+  };
+
+  // One index spanning docs, patterns, components and starter kits for search_all
+  const unifiedSearchService = new UnifiedSearchService(docsIndexService, fileService, CONFIG, indexCache);
+
+  const resolveDocsCorpus = async (corpus: string): Promise<string> => {
+    if (docsCorpora[corpus]) {
+      return docsCorpora[corpus];
+    }
+
+    // "nextjs@14" and "tailwind@3" select a specific installed docs version
+    const [name, version] = corpus.split('@', 2);
+    if (version !== undefined && (name === 'nextjs' || name === 'tailwind')) {
+      return (await docsVersionService.resolve(name, version)).filePath;
+    }
+
+    const libraryPath = path.join(CONFIG.libraryDocsPath, `${corpus}.txt`);
+    try {
+      await fs.access(libraryPath);
+    } catch {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Unknown documentation corpus '${corpus}'. Use 'nextjs', 'tailwind', or a library from list_library_docs.`
+      );
+    }
+    return libraryPath;
+  };
+
+  // Every documentation corpus: the two framework docs plus each library docs file
+  const listDocsCorpora = async (): Promise<Record<string, string>> => {
+    const corpora = { ...docsCorpora };
+    try {
+      for (const file of (await fs.readdir(CONFIG.libraryDocsPath)).sort()) {
+        if (file.endsWith('.txt')) {
+          corpora[file.replace(/\.txt$/, '')] = path.join(CONFIG.libraryDocsPath, file);
+        }
+      }
+    } catch {
+      // Without a library docs directory only the framework docs are available
+    }
+    return corpora;
+  };
+
+  // Fenced code blocks from every documentation corpus, indexed for find_code_examples
+  const codeExampleService = new CodeExampleService(docsIndexService, listDocsCorpora, indexCache);
+
+  // Load the persisted indexes now rather than on the first search; searches that arrive
+  // while they load wait for the same work
+  if (CONFIG.indexCachePath) {
+    Promise.all([
+      docsIndexService.preload([CONFIG.nextjsDocsPath, CONFIG.tailwindDocsPath]),
+      unifiedSearchService.preload(),
+      codeExampleService.preload()
+    ]).catch((error: any) => {
+      createAuditLog('warn', 'index_preload_failed', { error: error.message });
+    });
+  }
+
+  // Catalyst component files, read with the sibling files they import
+  const catalystLibrary = new CatalystComponentLibrary(CONFIG.catalystComponentsPath);
+  const catalystInstaller = new CatalystInstaller(catalystLibrary);
+  const catalystExamples = new CatalystExampleGenerator(catalystLibrary);
+
+  // Class resolvers read the utility reference tables and default theme of the bundled Tailwind docs
+  const tailwindResolvers = new WeakMap<ParsedDocument, TailwindClassResolver>();
+  const getTailwindResolver = async (): Promise<{ resolver: TailwindClassResolver; document: ParsedDocument; corpus: string }> => {
+    const bundledVersion = BUNDLED_DOCS_VERSIONS.tailwind;
+    const document = await docsIndexService.getDocument(docsVersionService.pathFor('tailwind', bundledVersion));
+    let resolver = tailwindResolvers.get(document);
+    if (!resolver) {
+      resolver = new TailwindClassResolver(document);
+      tailwindResolvers.set(document, resolver);
+    }
+    return { resolver, document, corpus: CONFIG.tailwindDocsVersion === bundledVersion ? 'tailwind' : `tailwind@${bundledVersion}` };
+  };
+
   const server = new McpServer({
     name: "nextjs-react-tailwind-assistant-mcp-server",
     version: "0.5.7",
@@ -505,38 +698,70 @@ What type of project are you building? I'll help you find the best match.`
   /**
    * Tool: get_nextjs_full_docs
    * Returns the complete Next.js 15+ documentation
-   * WARNING: ~2.5MB, ~320k tokens - use with LLMs supporting 100k+ token contexts
+   * WARNING: ~2.5MB, ~320k tokens - use with LLMs supporting 100k+ token contexts,
+   * or page through it with cursor/maxTokens
    */
   server.registerTool(
     "get_nextjs_full_docs",
     {
       title: "Get Complete Next.js Documentation",
-      description: "Get the complete Next.js 15+ documentation (~2.5MB, ~320,000 tokens). WARNING: This returns ~320,000 tokens. Only use with LLMs that support large context windows (100k+ tokens). For smaller contexts, use 'search_nextjs_docs' instead. Covers: App Router, Server Components, Client Components, routing, layouts, pages, data fetching, Server Actions, middleware, deployment, and optimization.",
+      description: "Get the complete Next.js 15+ documentation (~2.5MB, ~320,000 tokens). WARNING: This returns ~320,000 tokens. Only use with LLMs that support large context windows (100k+ tokens), or pass maxTokens to read it in pages using the returned cursor. For smaller contexts, use 'search_nextjs_docs' instead. Covers: App Router, Server Components, Client Components, routing, layouts, pages, data fetching, Server Actions, middleware, deployment, and optimization.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true
       },
-      inputSchema: {}
+      inputSchema: {
+        cursor: z.string().optional().describe("Continuation cursor from a previous page. Omit to start at the beginning."),
+        maxTokens: z.number().optional().describe(`Approximate token budget per page (1000-200000). When set (or when a cursor is given) the docs are returned in pages of this size, default ${DEFAULT_PAGE_TOKENS}.`),
+        version: docsVersionSchema('nextjs')
+      }
     },
-    async (request) => {
+    async (args: FullDocsArgs) => {
       createAuditLog('info', 'tool_request', {
         tool: 'get_nextjs_full_docs',
+        cursor: args?.cursor,
+        maxTokens: args?.maxTokens,
+        version: args?.version,
         timestamp: new Date().toISOString()
       });
 
       try {
-        const content = await fileService.readFullDocsFile(CONFIG.nextjsDocsPath, CONFIG.largeFileSize);
+        validateToolInput('get_nextjs_full_docs', args ?? {});
+
+        const { version, filePath } = await docsVersionService.resolve('nextjs', args?.version);
+
+        if (args?.cursor === undefined && args?.maxTokens === undefined) {
+          const content = await fileService.readFullDocsFile(filePath, CONFIG.largeFileSize);
+
+          createAuditLog('info', 'operation_completed', {
+            tool: 'get_nextjs_full_docs',
+            contentSize: content.length
+          });
+
+          return {
+            content: [{
+              type: "text" as const,
+              text: content
+            }]
+          };
+        }
+
+        const document = await docsIndexService.getDocument(filePath);
+        const startLine = args.cursor ? decodeCursor(args.cursor, document.lines.length) : 1;
+        const page = paginateDocument(document, startLine, args.maxTokens ?? DEFAULT_PAGE_TOKENS);
 
         createAuditLog('info', 'operation_completed', {
           tool: 'get_nextjs_full_docs',
-          contentSize: content.length
+          startLine: page.startLine,
+          endLine: page.endLine,
+          contentSize: page.text.length
         });
 
         return {
           content: [{
             type: "text" as const,
-            text: content
+            text: formatDocsPage(`Next.js ${version}`, page)
           }]
         };
       } catch (error: any) {
@@ -561,38 +786,70 @@ What type of project are you building? I'll help you find the best match.`
   /**
    * Tool: get_tailwind_full_docs
    * Returns the complete Tailwind CSS documentation
-   * WARNING: ~2.1MB, ~730k tokens - use with LLMs supporting 200k+ token contexts
+   * WARNING: ~2.1MB, ~730k tokens - use with LLMs supporting 200k+ token contexts,
+   * or page through it with cursor/maxTokens
    */
   server.registerTool(
     "get_tailwind_full_docs",
     {
       title: "Get Complete Tailwind CSS Documentation",
-      description: "Get the complete Tailwind CSS documentation (~2.1MB, ~730,000 tokens). WARNING: This returns ~730,000 tokens. Only use with LLMs that support very large context windows (200k+ tokens). For smaller contexts, use 'search_tailwind_docs' instead. Covers all utility classes, concepts, responsive design, dark mode, customization, and plugins.",
+      description: "Get the complete Tailwind CSS documentation (~2.1MB, ~730,000 tokens). WARNING: This returns ~730,000 tokens. Only use with LLMs that support very large context windows (200k+ tokens), or pass maxTokens to read it in pages using the returned cursor. For smaller contexts, use 'search_tailwind_docs' instead. Covers all utility classes, concepts, responsive design, dark mode, customization, and plugins.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true
       },
-      inputSchema: {}
+      inputSchema: {
+        cursor: z.string().optional().describe("Continuation cursor from a previous page. Omit to start at the beginning."),
+        maxTokens: z.number().optional().describe(`Approximate token budget per page (1000-200000). When set (or when a cursor is given) the docs are returned in pages of this size, default ${DEFAULT_PAGE_TOKENS}.`),
+        version: docsVersionSchema('tailwind')
+      }
     },
-    async (request) => {
+    async (args: FullDocsArgs) => {
       createAuditLog('info', 'tool_request', {
         tool: 'get_tailwind_full_docs',
+        cursor: args?.cursor,
+        maxTokens: args?.maxTokens,
+        version: args?.version,
         timestamp: new Date().toISOString()
       });
 
       try {
-        const content = await fileService.readFullDocsFile(CONFIG.tailwindDocsPath, CONFIG.largeFileSize);
+        validateToolInput('get_tailwind_full_docs', args ?? {});
+
+        const { version, filePath } = await docsVersionService.resolve('tailwind', args?.version);
+
+        if (args?.cursor === undefined && args?.maxTokens === undefined) {
+          const content = await fileService.readFullDocsFile(filePath, CONFIG.largeFileSize);
+
+          createAuditLog('info', 'operation_completed', {
+            tool: 'get_tailwind_full_docs',
+            contentSize: content.length
+          });
+
+          return {
+            content: [{
+              type: "text" as const,
+              text: content
+            }]
+          };
+        }
+
+        const document = await docsIndexService.getDocument(filePath);
+        const startLine = args.cursor ? decodeCursor(args.cursor, document.lines.length) : 1;
+        const page = paginateDocument(document, startLine, args.maxTokens ?? DEFAULT_PAGE_TOKENS);
 
         createAuditLog('info', 'operation_completed', {
           tool: 'get_tailwind_full_docs',
-          contentSize: content.length
+          startLine: page.startLine,
+          endLine: page.endLine,
+          contentSize: page.text.length
         });
 
         return {
           content: [{
             type: "text" as const,
-            text: content
+            text: formatDocsPage(`Tailwind CSS ${version}`, page)
           }]
         };
       } catch (error: any) {
@@ -616,13 +873,13 @@ What type of project are you building? I'll help you find the best match.`
 
   /**
    * Tool: search_nextjs_docs
-   * Searches within Next.js documentation with keyword matching
+   * Searches within Next.js documentation using a BM25-ranked section index
    */
   server.registerTool(
     "search_nextjs_docs",
     {
       title: "Search Next.js Documentation",
-      description: "Search within the Next.js documentation for specific topics or keywords. Returns relevant excerpts matching the query. Recommended for most use cases as it provides targeted results without the full 320k token context.",
+      description: "Search within the Next.js documentation for specific topics or keywords. Returns excerpts from the most relevant sections, ranked by relevance; multi-word queries match sections where the terms appear together, and misspelled terms are matched fuzzily with 'did you mean' suggestions, and Pages Router names (getServerSideProps, middleware, API routes) also find their App Router equivalents. Recommended for most use cases as it provides targeted results without the full 320k token context.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -631,8 +888,11 @@ What type of project are you building? I'll help you find the best match.`
       },
       inputSchema: {
         query: z.string().describe("The search query (e.g., 'routing', 'server actions', 'middleware')"),
-        limit: z.number().describe("Maximum number of results to return (default: 5, max: 20)")
-      }
+        limit: z.number().describe("Maximum number of results to return (default: 5, max: 20)"),
+        format: searchFormatSchema,
+        version: docsVersionSchema('nextjs')
+      },
+      outputSchema: searchOutputSchema
     },
     async (args: SearchDocsArgs) => {
       const limit = args?.limit ?? 5;
@@ -640,27 +900,43 @@ What type of project are you building? I'll help you find the best match.`
         tool: 'search_nextjs_docs',
         query: args?.query || 'undefined',
         limit: limit,
+        version: args?.version,
         timestamp: new Date().toISOString()
       });
 
       try {
         validateToolInput('search_nextjs_docs', args);
 
-        const content = await fileService.readFullDocsFile(CONFIG.nextjsDocsPath, CONFIG.largeFileSize);
-        const results = searchInContent(content, args.query, args.limit || 5);
+        const { filePath } = await docsVersionService.resolve('nextjs', args.version);
+        const index = await docsIndexService.getIndex(filePath);
+        const expansions = expandQuery(args.query, ['nextjs']);
+        const results = index.searchWithExpansions(args.query, expansions.flatMap(expansion => expansion.queries), args.limit || 5);
+        const suggestions = index.suggest(args.query);
 
         createAuditLog('info', 'operation_completed', {
           tool: 'search_nextjs_docs',
-          resultsFound: results.length
+          resultsFound: results.length,
+          suggestions: suggestions.length,
+          expansions: expansions.length
         });
 
+        const structured = {
+          query: args.query,
+          suggestions,
+          expansions,
+          hits: results.map(toSearchHitJson)
+        };
+
         return {
           content: [{
             type: "text" as const,
-            text: results.length > 0
-              ? `Found ${results.length} result(s) for "${args.query}":\n\n${results.join('\n\n---\n\n')}`
-              : `No results found for "${args.query}". Try different keywords or use get_nextjs_full_docs for complete documentation.`
-          }]
+            text: args.format === 'json'
+              ? JSON.stringify(structured, null, 2)
+              : formatSuggestions(suggestions) + formatExpansions(expansions) + (results.length > 0
+                ? `Found ${results.length} result(s) for "${args.query}":\n\n${formatSearchHits(results)}`
+                : `No results found for "${args.query}". Try different keywords or use get_nextjs_full_docs for complete documentation.`)
+          }],
+          structuredContent: structured
         };
       } catch (error: any) {
         createAuditLog('error', 'tool_request_failed', {
@@ -683,13 +959,13 @@ What type of project are you building? I'll help you find the best match.`
 
   /**
    * Tool: search_tailwind_docs
-   * Searches within Tailwind CSS documentation with keyword matching
+   * Searches within Tailwind CSS documentation using a BM25-ranked section index
    */
   server.registerTool(
     "search_tailwind_docs",
     {
       title: "Search Tailwind CSS Documentation",
-      description: "Search within the Tailwind CSS documentation for specific utility classes or concepts. Returns relevant excerpts matching the query. Recommended for most use cases as it provides targeted results without the full 730k token context.",
+      description: "Search within the Tailwind CSS documentation for specific utility classes or concepts. Returns excerpts from the most relevant sections, ranked by relevance; multi-word queries match sections where the terms appear together, and misspelled terms are matched fuzzily with 'did you mean' suggestions, and Tailwind CSS v3 names (tailwind.config.js, darkMode class, shadow-sm) also find their v4 equivalents. Recommended for most use cases as it provides targeted results without the full 730k token context.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
@@ -698,51 +974,1311 @@ What type of project are you building? I'll help you find the best match.`
       },
       inputSchema: {
         query: z.string().describe("The search query (e.g., 'padding', 'flex', 'dark mode')"),
-        limit: z.number().describe("Maximum number of results to return (default: 5, max: 20)")
-      }
+        limit: z.number().describe("Maximum number of results to return (default: 5, max: 20)"),
+        format: searchFormatSchema,
+        version: docsVersionSchema('tailwind')
+      },
+      outputSchema: searchOutputSchema
     },
     async (args: SearchDocsArgs) => {
       const limit = args?.limit ?? 5;
       createAuditLog('info', 'tool_request', {
-        tool: 'search_tailwind_docs',
-        query: args?.query || 'undefined',
-        limit: limit,
+        tool: 'search_tailwind_docs',
+        query: args?.query || 'undefined',
+        limit: limit,
+        version: args?.version,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('search_tailwind_docs', args);
+
+        const { filePath } = await docsVersionService.resolve('tailwind', args.version);
+        const index = await docsIndexService.getIndex(filePath);
+        const expansions = expandQuery(args.query, ['tailwind']);
+        const results = index.searchWithExpansions(args.query, expansions.flatMap(expansion => expansion.queries), args.limit || 5);
+        const suggestions = index.suggest(args.query);
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'search_tailwind_docs',
+          resultsFound: results.length,
+          suggestions: suggestions.length,
+          expansions: expansions.length
+        });
+
+        const structured = {
+          query: args.query,
+          suggestions,
+          expansions,
+          hits: results.map(toSearchHitJson)
+        };
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: args.format === 'json'
+              ? JSON.stringify(structured, null, 2)
+              : formatSuggestions(suggestions) + formatExpansions(expansions) + (results.length > 0
+                ? `Found ${results.length} result(s) for "${args.query}":\n\n${formatSearchHits(results)}`
+                : `No results found for "${args.query}". Try different keywords or use get_tailwind_full_docs for complete documentation.`)
+          }],
+          structuredContent: structured
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'search_tailwind_docs',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'search_tailwind_docs')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: search_all
+   * Searches every content source at once with a shared relevance ranking
+   */
+  server.registerTool(
+    "search_all",
+    {
+      title: "Search All Content",
+      description: "Search the Next.js docs, Tailwind CSS docs, library docs, design patterns, Catalyst component sources and starter kits in one call. Results are ranked together by relevance and tagged with their source type, along with the exact tool call that fetches the full item. Use this first when you don't know where a topic (e.g. 'dark mode') is covered.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true,
+        openWorldHint: true
+      },
+      inputSchema: {
+        query: z.string().describe("The search query (e.g., 'dark mode', 'form validation', 'sidebar')"),
+        limit: z.number().optional().describe("Maximum number of results to return (default: 10, max: 20)"),
+        sources: z.array(z.enum(CONTENT_SOURCE_TYPES)).optional().describe(`Restrict results to these source types: ${CONTENT_SOURCE_TYPES.join(', ')}`),
+        format: searchFormatSchema
+      },
+      outputSchema: unifiedSearchOutputSchema
+    },
+    async (args: SearchAllArgs) => {
+      const limit = args?.limit ?? 10;
+      createAuditLog('info', 'tool_request', {
+        tool: 'search_all',
+        query: args?.query || 'undefined',
+        limit: limit,
+        sources: args?.sources,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('search_all', args);
+
+        const expansions = expandQuery(args.query, ['nextjs', 'tailwind']);
+        const results = await unifiedSearchService.search(
+          args.query,
+          limit,
+          args.sources as ContentSourceType[] | undefined,
+          expansions.flatMap(expansion => expansion.queries)
+        );
+        const suggestions = await unifiedSearchService.suggest(args.query);
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'search_all',
+          resultsFound: results.length,
+          suggestions: suggestions.length,
+          expansions: expansions.length
+        });
+
+        const structured = {
+          query: args.query,
+          suggestions,
+          expansions,
+          hits: results.map(hit => ({ ...toSearchHitJson(hit), sourceType: hit.sourceType, fetchWith: hit.fetchWith }))
+        };
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: args.format === 'json'
+              ? JSON.stringify(structured, null, 2)
+              : formatSuggestions(suggestions) + formatExpansions(expansions) + (results.length > 0
+                ? `Found ${results.length} result(s) for "${args.query}" across all content:\n\n${formatUnifiedSearchHits(results)}`
+                : `No results found for "${args.query}" in any content source. Try different keywords.`)
+          }],
+          structuredContent: structured
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'search_all',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'search_all')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: get_docs_section
+   * Returns one coherent section of the Next.js or Tailwind docs by breadcrumb path
+   */
+  server.registerTool(
+    "get_docs_section",
+    {
+      title: "Get Documentation Section",
+      description: "Retrieve a single section of the Next.js, Tailwind CSS or library documentation by its breadcrumb path (e.g. 'Getting Started > Installation > Manual installation' or 'padding > Examples'). Returns the section with all of its nested subsections, plus links to child pages. Use the breadcrumbs shown by get_docs_outline or the search tools to pull a complete chunk instead of the full documentation dump.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        corpus: z.string().describe("Documentation corpus: 'nextjs', 'tailwind', or a library name from list_library_docs (e.g. 'headless-ui')"),
+        path: z.string().describe("Breadcrumb path with segments separated by '>' (e.g. 'Getting Started > Installation'). Trailing segments alone also match, e.g. 'Manual installation'.")
+      }
+    },
+    async (args: DocsSectionArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'get_docs_section',
+        corpus: args?.corpus || 'undefined',
+        path: args?.path || 'undefined',
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('get_docs_section', args);
+
+        const document = await docsIndexService.getDocument(await resolveDocsCorpus(args.corpus));
+        const matches = document.findByPath(args.path);
+
+        if (matches.length === 0) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `No section found at path '${args.path}' in ${args.corpus} docs. Use the breadcrumbs from the search tools to locate sections.`
+          );
+        }
+
+        const section = matches[0];
+        let output = `# ${section.title}\n\n`;
+        output += `**Path**: ${section.path.join(' > ')}\n`;
+        if (section.sourceFile) {
+          output += `**Source**: ${section.sourceFile}\n`;
+        }
+        output += `**Lines**: ${section.startLine}-${section.endLine}\n\n`;
+        output += `---\n\n${document.getBody(section)}\n`;
+
+        const childPages = section.children.filter(child => child.level === 0);
+        if (childPages.length > 0) {
+          output += `\n---\n\n## Child pages\n${childPages.map(child => `- ${child.path.join(' > ')}`).join('\n')}\n`;
+        }
+
+        if (matches.length > 1) {
+          output += `\n---\n\n**Other sections matching this path**:\n`;
+          output += matches.slice(1, 6).map(match => `- ${match.path.join(' > ')} (${match.sourceFile})`).join('\n');
+          output += '\n';
+        }
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'get_docs_section',
+          corpus: args.corpus,
+          matches: matches.length,
+          contentSize: output.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'get_docs_section',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'get_docs_section')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: get_docs_outline
+   * Returns the heading tree of a documentation corpus with token estimates
+   */
+  server.registerTool(
+    "get_docs_outline",
+    {
+      title: "Get Documentation Outline",
+      description: "Get the table of contents for the Next.js docs, the Tailwind CSS docs, or any library documentation file. Returns the heading tree with an estimated token cost per section, so you can browse topics like a book and then fetch exactly the section you need with get_docs_section. Use maxDepth to limit nesting and path to expand a single subtree.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        corpus: z.string().describe("Documentation corpus: 'nextjs', 'tailwind', or a library name from list_library_docs (e.g. 'tanstack-query')"),
+        path: z.string().optional().describe("Optional breadcrumb path to outline only that subtree (e.g. 'Getting Started')"),
+        maxDepth: z.number().int().optional().describe("Maximum nesting depth to include (default: 2, max: 6)")
+      }
+    },
+    async (args: DocsOutlineArgs) => {
+      const maxDepth = args?.maxDepth ?? 2;
+      createAuditLog('info', 'tool_request', {
+        tool: 'get_docs_outline',
+        corpus: args?.corpus || 'undefined',
+        path: args?.path,
+        maxDepth,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('get_docs_outline', args);
+
+        const document = await docsIndexService.getDocument(await resolveDocsCorpus(args.corpus));
+
+        let roots = document.roots;
+        if (args.path) {
+          const matches = document.findByPath(args.path);
+          if (matches.length === 0) {
+            throw new McpError(
+              ErrorCode.InvalidRequest,
+              `No section found at path '${args.path}' in ${args.corpus} docs. Call get_docs_outline without a path to see top-level sections.`
+            );
+          }
+          roots = [matches[0]];
+        }
+
+        let output = `# ${args.corpus} Documentation Outline\n\n`;
+        if (args.path) {
+          output += `**Subtree**: ${roots[0].path.join(' > ')}\n`;
+        }
+        output += `**Depth**: ${maxDepth} · token estimates cover the text get_docs_section returns for each entry\n\n`;
+        output += formatOutline(document, roots, maxDepth);
+        output += `\n\nUse get_docs_section with corpus "${args.corpus}" and a path like "${roots[0].path.join(' > ')}" to read a section.`;
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'get_docs_outline',
+          corpus: args.corpus,
+          sections: document.sections.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'get_docs_outline',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'get_docs_outline')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: find_code_examples
+   * Finds fenced code blocks in the documentation by API, filename or topic
+   */
+  server.registerTool(
+    "find_code_examples",
+    {
+      title: "Find Code Examples",
+      description: "Find code snippets in the Next.js, Tailwind CSS and library documentation without the surrounding prose. Every fenced code block is indexed with its language, filename (e.g. 'app/page.tsx'), the heading it appears under and the APIs it imports, so queries like 'revalidatePath route handler' or 'useQuery mutation' return matching snippets. Filter by language or corpus to narrow results.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        query: z.string().describe("What the code should contain or demonstrate (e.g., 'revalidatePath in a route handler', '@theme colors')"),
+        language: z.string().optional().describe("Only return blocks in this language (e.g., 'tsx', 'ts', 'js', 'css', 'html', 'bash')"),
+        corpus: z.string().optional().describe("Only search this corpus: 'nextjs', 'tailwind', or a library name from list_library_docs"),
+        limit: z.number().optional().describe("Maximum number of examples to return (default: 5, max: 20)")
+      }
+    },
+    async (args: FindCodeExamplesArgs) => {
+      const limit = args?.limit ?? 5;
+      createAuditLog('info', 'tool_request', {
+        tool: 'find_code_examples',
+        query: args?.query || 'undefined',
+        language: args?.language,
+        corpus: args?.corpus,
+        limit,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('find_code_examples', args);
+
+        if (args.corpus) {
+          // Rejects unknown corpora with the same message as the section tools
+          await resolveDocsCorpus(args.corpus);
+        }
+
+        const examples = await codeExampleService.search(args.query, limit, {
+          language: args.language,
+          corpus: args.corpus
+        });
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'find_code_examples',
+          resultsFound: examples.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: examples.length > 0
+              ? `Found ${examples.length} code example(s) for "${args.query}":\n\n${formatCodeExamples(examples)}`
+              : `No code examples found for "${args.query}". Try naming an API or file (e.g. 'generateMetadata', 'layout.tsx'), or drop the language and corpus filters.`
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'find_code_examples',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'find_code_examples')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: diff_docs_versions
+   * Compares a documentation topic between two installed framework versions
+   */
+  server.registerTool(
+    "diff_docs_versions",
+    {
+      title: "Diff Documentation Versions",
+      description: "Show what changed about a topic between two installed versions of the Next.js or Tailwind CSS docs: added, removed and renamed sections, sections whose text changed, and code examples that were added or removed. Scope the comparison with a section path (e.g. 'Dark mode') or a free-text topic. Older versions are installed as content/docs/<framework>/<version>/; the error message lists the versions available.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        framework: z.enum(['nextjs', 'tailwind']).describe("Which documentation to compare"),
+        from: z.string().describe("Older version (e.g. '14' or '3')"),
+        to: z.string().optional().describe("Newer version; defaults to the server's configured docs version"),
+        path: z.string().optional().describe("Breadcrumb path of the section to compare (e.g. 'Dark mode' or 'Guides > Caching')"),
+        topic: z.string().optional().describe("Free-text topic used to find the section to compare when no path is given (e.g. 'dark mode class')")
+      }
+    },
+    async (args: DiffDocsVersionsArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'diff_docs_versions',
+        framework: args?.framework || 'undefined',
+        from: args?.from,
+        to: args?.to,
+        path: args?.path,
+        topic: args?.topic,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('diff_docs_versions', args);
+
+        const older = await docsVersionService.resolve(args.framework, args.from);
+        const newer = await docsVersionService.resolve(args.framework, args.to);
+        if (older.filePath === newer.filePath) {
+          throw new McpError(
+            ErrorCode.InvalidParams,
+            `Both versions resolve to the ${older.version} docs. Available versions: ${(await docsVersionService.listVersions(args.framework)).join(', ')}`
+          );
+        }
+
+        const before = await docsIndexService.getDocument(older.filePath);
+        const after = await docsIndexService.getDocument(newer.filePath);
+
+        // Locate the subtree in the newer docs first, then the same breadcrumb in the older docs
+        const findRoot = async (document: ParsedDocument, filePath: string, breadcrumb?: string): Promise<DocSection | undefined> => {
+          if (breadcrumb) {
+            const match = document.findByPath(breadcrumb)[0];
+            if (match) return match;
+          }
+          if (args.path) {
+            return document.findByPath(args.path)[0];
+          }
+          // Alias expansions map old API names onto the pages that replaced them. The page with the most
+          // matching weight wins, and blog posts only when no docs page matches
+          const expansions = expandQuery(args.topic!, [args.framework]).flatMap(expansion => expansion.queries);
+          const hits = (await docsIndexService.getIndex(filePath)).searchWithExpansions(args.topic!, expansions, 20);
+          const pages = new Map<DocSection, number>();
+          for (const hit of hits) {
+            const page = enclosingPage(document, hit.section);
+            pages.set(page, (pages.get(page) ?? 0) + hit.score);
+          }
+          const candidates = [...pages].filter(([page]) => !isBlogPage(page));
+          return (candidates.length > 0 ? candidates : [...pages])
+            .reduce<[DocSection, number] | undefined>((top, entry) => !top || entry[1] > top[1] ? entry : top, undefined)?.[0];
+        };
+
+        const afterRoot = await findRoot(after, newer.filePath);
+        const beforeRoot = await findRoot(before, older.filePath, afterRoot?.path.join(' > '));
+        const scope = args.path ?? args.topic!;
+        const label = args.framework === 'nextjs' ? 'Next.js' : 'Tailwind CSS';
+
+        let output = `# ${label} docs: ${older.version} → ${newer.version}\n\n`;
+        if (!beforeRoot && !afterRoot) {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `No section matching '${scope}' in either version. Use get_docs_outline with corpus "${args.framework}@${newer.version}" to browse paths.`
+          );
+        } else if (!beforeRoot || !afterRoot) {
+          const [present, presentVersion, missingVersion] = afterRoot
+            ? [afterRoot, newer.version, older.version]
+            : [beforeRoot!, older.version, newer.version];
+          output += `**${present.path.join(' > ')}** exists in ${presentVersion} but has no counterpart in ${missingVersion}.\n`;
+          output += `Use get_docs_section with corpus "${args.framework}@${presentVersion}" and path "${present.path.join(' > ')}" to read it.`;
+        } else {
+          const diff = diffSections(before, beforeRoot, after, afterRoot);
+          output += `**Compared**: ${beforeRoot.path.join(' > ')} (${older.version}) with ${afterRoot.path.join(' > ')} (${newer.version})\n\n`;
+          output += formatDocsDiff(diff, args.framework, older.version, newer.version);
+        }
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'diff_docs_versions',
+          framework: args.framework,
+          from: older.version,
+          to: newer.version
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: output
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'diff_docs_versions',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'diff_docs_versions')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: migrate_tailwind_config
+   * Translates a Tailwind CSS v3 config, stylesheet and markup to v4
+   */
+  server.registerTool(
+    "migrate_tailwind_config",
+    {
+      title: "Migrate Tailwind CSS v3 to v4",
+      description: "Convert a Tailwind CSS v3 project to v4. Pass the tailwind.config.js source to get the equivalent CSS-first setup (@import \"tailwindcss\", @theme variables, @plugin, @source, @custom-variant and @utility), pass the main stylesheet to have @tailwind directives, @layer rules, @screen and theme() calls rewritten, and pass markup or components to rename v3 utilities (shadow-sm → shadow-xs, outline-none → outline-hidden, bg-opacity-* → color/opacity modifiers). Nothing is executed: config values computed by code are listed as warnings to translate by hand.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        config: z.string().optional().describe("Source of tailwind.config.js or tailwind.config.ts"),
+        css: z.string().optional().describe("Main stylesheet containing the @tailwind directives"),
+        source: z.string().optional().describe("HTML, JSX or component source whose class names should be updated")
+      }
+    },
+    async (args: MigrateTailwindConfigArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'migrate_tailwind_config',
+        configLength: args?.config?.length ?? 0,
+        cssLength: args?.css?.length ?? 0,
+        sourceLength: args?.source?.length ?? 0,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('migrate_tailwind_config', args);
+
+        const result = migrateTailwind({ config: args.config, css: args.css, source: args.source });
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'migrate_tailwind_config',
+          renames: result.renames.length,
+          warnings: result.warnings.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatTailwindMigration(result)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'migrate_tailwind_config',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'migrate_tailwind_config')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: migrate_pages_router
+   * Proposes the App Router files for a Pages Router file, citing the Next.js migration docs
+   */
+  server.registerTool(
+    "migrate_pages_router",
+    {
+      title: "Migrate Pages Router File to App Router",
+      description: "Analyze a Next.js Pages Router file and propose its App Router equivalent. Pages with getServerSideProps, getStaticProps and getStaticPaths become async Server Component pages with generateStaticParams and route segment config (interactive components move to a 'use client' file), _app and _document become app/layout with a providers component, 404/500 pages become not-found and error files, and API routes become route handlers with one function per HTTP method. next/head and next/router usage is rewritten too. Each step cites the section of the bundled Next.js docs that describes it; patterns that cannot be translated are listed for manual review.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        source: z.string().describe("Source of the pages/ file"),
+        path: z.string().optional().describe("Path of the file, e.g. 'pages/blog/[slug].tsx' or 'src/pages/api/users.ts'; determines the route. Without it the kind of file is inferred from the source")
+      }
+    },
+    async (args: MigratePagesRouterArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'migrate_pages_router',
+        path: args?.path,
+        sourceLength: args?.source?.length ?? 0,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('migrate_pages_router', args);
+
+        const plan = planPagesMigration(args.path, args.source);
+
+        // Citations point into the bundled docs, which hold the migration guide the steps follow
+        const bundledVersion = BUNDLED_DOCS_VERSIONS.nextjs;
+        const document = await docsIndexService.getDocument(docsVersionService.pathFor('nextjs', bundledVersion));
+        const corpus = CONFIG.nextjsDocsVersion === bundledVersion ? 'nextjs' : `nextjs@${bundledVersion}`;
+        const citations = new Map<string, DocSection | undefined>();
+        for (const breadcrumb of plan.steps.flatMap(step => step.docs)) {
+          if (!citations.has(breadcrumb)) {
+            citations.set(breadcrumb, document.findByPath(breadcrumb)[0]);
+          }
+        }
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'migrate_pages_router',
+          kind: plan.kind,
+          files: plan.files.length,
+          warnings: plan.warnings.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatPagesMigration(plan, citations, corpus)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'migrate_pages_router',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'migrate_pages_router')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: lookup_tailwind_class
+   * Resolves Tailwind CSS class names to the CSS they generate and the docs that describe them
+   */
+  server.registerTool(
+    "lookup_tailwind_class",
+    {
+      title: "Look Up Tailwind CSS Classes",
+      description: "Explain what Tailwind CSS v4 classes do. Each class is split into its variant stack (md:, hover:, dark:, group-data-open:, *:, [&_p]: and the rest), its utility and any modifier, then resolved to the exact CSS declarations using the utility reference tables and default theme in the Tailwind docs. Handles arbitrary values like px-[calc(--spacing(3.5)-1px)], custom properties like bg-(--btn-bg), opacity modifiers like bg-blue-500/50, negative values, arbitrary properties and the important flag. Returns the generated CSS with theme values resolved, and the docs section that documents each utility with an excerpt.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        classes: z.string().describe("One or more class names separated by spaces or commas, e.g. 'md:hover:bg-blue-500/50 text-base/6'")
+      }
+    },
+    async (args: LookupTailwindClassArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'lookup_tailwind_class',
+        classesLength: args?.classes?.length ?? 0,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('lookup_tailwind_class', args);
+
+        const classNames = splitClassList(args.classes);
+        if (classNames.length > 50) {
+          throw new McpError(ErrorCode.InvalidParams, `Too many classes (${classNames.length}); look up at most 50 at a time`);
+        }
+
+        const { resolver, document, corpus } = await getTailwindResolver();
+        const results = classNames.map(className => resolver.resolve(className));
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'lookup_tailwind_class',
+          classes: results.length,
+          unresolved: results.filter(result => result.error).length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatClassLookup(results, resolver, document, corpus)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'lookup_tailwind_class',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'lookup_tailwind_class')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: lint_tailwind_classes
+   * Checks class lists for unknown, deprecated, conflicting, redundant and out-of-order classes
+   */
+  server.registerTool(
+    "lint_tailwind_classes",
+    {
+      title: "Lint Tailwind CSS Classes",
+      description: "Check Tailwind CSS v4 class lists for problems, with a suggested fix for each: unknown utilities and variants (with likely intended classes), deprecated v3 names (flex-grow, bg-gradient-to-r, bg-opacity-50 and the rest) and v3 names v4 kept with another meaning (shadow-sm, rounded-sm, outline-none, ring), conflicting classes that set the same properties under the same variants (p-2 p-4, flex block), duplicates, redundant variants (hover:hover:, md:p-4 next to p-4) and classes out of Tailwind's variant order (classes under the same variants are left as written). Pass a single class list, or a JSX/TSX snippet to check every className, clsx() argument and class-like string in it. Returns the findings and each list with all fixes applied.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        classes: z.string().optional().describe("A class list, e.g. 'p-2 p-4 flex block'"),
+        source: z.string().optional().describe("A JSX/TSX snippet or component file; every class list in it is checked")
+      }
+    },
+    async (args: LintTailwindClassesArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'lint_tailwind_classes',
+        classesLength: args?.classes?.length ?? 0,
+        sourceLength: args?.source?.length ?? 0,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('lint_tailwind_classes', args);
+
+        const { resolver } = await getTailwindResolver();
+        const linter = new TailwindClassLinter(resolver);
+        const result = args.classes !== undefined
+          ? { checked: 1, lists: [linter.lintClassList(args.classes)] }
+          : linter.lintSource(args.source!);
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'lint_tailwind_classes',
+          lists: result.checked,
+          findings: result.lists.reduce((total, list) => total + list.findings.length, 0)
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatClassLint(result.lists, result.checked, args.source !== undefined)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'lint_tailwind_classes',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'lint_tailwind_classes')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: css_to_tailwind
+   * Converts CSS or a React style object to the closest Tailwind CSS v4 classes
+   */
+  server.registerTool(
+    "css_to_tailwind",
+    {
+      title: "Convert CSS to Tailwind CSS",
+      description: "Convert CSS to Tailwind CSS v4 classes deterministically, for example the CSS Figma dev mode exports for a layer. Accepts a declaration list (`padding: 8px 16px; gap: 10px`), rules with selectors (`:hover`, `::before` and `@media (min-width: 768px)` become variants) or a React style object (`{ paddingTop: 8, color: 'var(--text)' }`). Each value is matched against the utilities and default theme in the Tailwind docs: lengths to the spacing scale and theme tokens, colors to the nearest palette color, shorthands split and sides folded back together (px-4 py-2, size-6, text-sm/6, truncate). Where no token matches it uses an arbitrary value and names the nearest token. Returns the class list per element and how every declaration was matched: exact, approximate, arbitrary or omitted.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        css: z.string().describe("CSS declarations or rules, or a React style object, e.g. 'display: flex; padding: 8px 16px; border-radius: 8px; background: #FFF;'")
+      }
+    },
+    async (args: CssToTailwindArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'css_to_tailwind',
+        cssLength: args?.css?.length ?? 0,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('css_to_tailwind', args);
+
+        const { resolver } = await getTailwindResolver();
+        const conversion = new CssToTailwindConverter(resolver).convert(args.css);
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'css_to_tailwind',
+          elements: conversion.elements.length,
+          declarations: conversion.elements.reduce((total, element) => total + element.declarations.length, 0)
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatCssConversion(conversion)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'css_to_tailwind',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'css_to_tailwind')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: generate_tailwind_theme
+   * Generates a Tailwind CSS v4 theme from brand colors, fonts, radius and density
+   */
+  server.registerTool(
+    "generate_tailwind_theme",
+    {
+      title: "Generate Tailwind CSS Theme",
+      description: "Generate a complete Tailwind CSS v4 theme to paste into globals.css from brand inputs. Builds 50-950 OKLCH ramps for the primary and optional secondary color, shaped like the default palette family nearest in hue with your color kept exactly on the step it matches; semantic aliases (--color-brand, --color-brand-foreground, --color-surface, --color-foreground, --color-border, --color-ring, success/warning/error/info) with light and dark values; font families; a scaled --radius-* set; and a --spacing unit for the chosen density. Dark mode can follow the OS setting, a .dark class or a data-theme attribute. Returns the CSS, the ramps, an alias table and contrast warnings.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        primary: z.string().describe("Primary brand color as hex, rgb(), hsl() or oklch(), e.g. '#4f46e5'"),
+        secondary: z.string().optional().describe("Secondary brand color, used for the accent aliases"),
+        fontSans: z.string().optional().describe("Body font family, e.g. 'Inter' or 'var(--font-inter)' for a next/font variable"),
+        fontDisplay: z.string().optional().describe("Heading font family, exposed as the font-display utility"),
+        fontMono: z.string().optional().describe("Code font family"),
+        radius: z.enum(['none', 'subtle', 'default', 'rounded', 'extra-rounded']).optional().describe("Corner radius scale relative to Tailwind's defaults (default: 'default')"),
+        density: z.enum(['compact', 'default', 'comfortable']).optional().describe("Spacing density: sets the --spacing unit to 3.5px, 4px or 4.5px (default: 'default')"),
+        darkMode: z.enum(['media', 'class', 'attribute']).optional().describe("How dark mode is switched: OS setting, a .dark class (next-themes default) or [data-theme=dark] (default: 'class')")
+      }
+    },
+    async (args: GenerateTailwindThemeArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'generate_tailwind_theme',
+        primary: args?.primary,
+        secondary: args?.secondary,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('generate_tailwind_theme', args);
+
+        const { resolver } = await getTailwindResolver();
+        const theme = new TailwindThemeGenerator(resolver).generate({
+          primary: args.primary,
+          secondary: args.secondary,
+          fonts: { sans: args.fontSans, display: args.fontDisplay, mono: args.fontMono },
+          radius: args.radius,
+          density: args.density,
+          darkMode: args.darkMode
+        });
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'generate_tailwind_theme',
+          ramps: theme.ramps.length,
+          aliases: theme.aliases.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatGeneratedTheme(theme)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'generate_tailwind_theme',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'generate_tailwind_theme')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: check_contrast
+   * Checks color pairs against WCAG 2 and APCA and suggests passing alternatives
+   */
+  server.registerTool(
+    "check_contrast",
+    {
+      title: "Check Color Contrast",
+      description: "Check foreground/background color pairs for accessibility before suggesting them. Colors can be hex, rgb(), hsl(), oklch() or Tailwind CSS palette tokens with opacity modifiers (`zinc-500`, `text-zinc-950/5`, `bg-white/10`, `[#f5f5f5]`); translucent colors are composited first. Returns the WCAG 2 contrast ratio with AA/AAA pass or fail for normal and large text, the APCA Lc value and what it is sufficient for, and for failing pairs the nearest foreground in the same hue that passes both WCAG 2 and APCA (Lc 60 for AA, 75 for AAA): a higher opacity or nearby palette step for tokens, a lightness-adjusted color otherwise.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        pairs: z.array(z.object({
+          foreground: z.string().describe("Text or icon color, e.g. 'zinc-500' or '#71717a'"),
+          background: z.string().describe("Color behind it, e.g. 'white' or 'zinc-950/5'")
+        })).describe("Color pairs to check (up to 50)"),
+        level: z.enum(['AA', 'AAA']).optional().describe("WCAG level suggestions must meet for normal-size text (default: 'AA')"),
+        backdrop: z.string().optional().describe("What translucent backgrounds sit on (default: 'white'); use e.g. 'zinc-900' for dark mode")
+      }
+    },
+    async (args: CheckContrastArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'check_contrast',
+        pairs: args?.pairs?.length ?? 0,
+        level: args?.level,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('check_contrast', args);
+
+        const { resolver } = await getTailwindResolver();
+        const checker = new ContrastChecker(resolver);
+        const results = args.pairs.map(pair => checker.check(pair, args.level, args.backdrop));
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'check_contrast',
+          pairs: results.length,
+          failing: results.filter(result => result.suggestion).length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatContrastResults(results, args.level ?? 'AA')
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'check_contrast',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'check_contrast')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: get_component_api
+   * Extracts the props, imports, Headless UI primitives and slots of a Catalyst UI component
+   */
+  server.registerTool(
+    "get_component_api",
+    {
+      title: "Get Catalyst Component API",
+      description: "Get the public API of a Catalyst UI component file without reading its source: a props table for every exported component (types, required, defaults and the allowed values of variant props such as Button's `color` or Dialog's `size`), the props it extends (e.g. `Headless.ButtonProps`), mutually exclusive props, forwarded refs, local imports it needs (e.g. button → `./link`), npm packages, Headless UI primitives and the `data-slot` names it sets or styles. Use get_catalyst_component when you need the full source.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        component_name: z.string().describe("Name of the Catalyst component file (e.g., 'button', 'dialog', 'table')")
+      }
+    },
+    async (args: CatalystComponentArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'get_component_api',
+        component_name: args?.component_name || 'undefined',
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('get_component_api', args);
+
+        const { api } = await catalystLibrary.read(args.component_name);
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'get_component_api',
+          component: args.component_name,
+          exports: api.components.length
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatComponentApi(api)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'get_component_api',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error.code === 'ENOENT') {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Catalyst component '${args.component_name}' not found. Use list_catalyst_components to see available components.`
+          );
+        }
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'get_component_api')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: install_catalyst_components
+   * Writes Catalyst components and the files they import into a local project
+   */
+  server.registerTool(
+    "install_catalyst_components",
+    {
+      title: "Install Catalyst Components",
+      description: "Copy Catalyst UI components into a local project instead of pasting them by hand. Resolves the Catalyst files each component imports (button needs link, the layouts need navbar), writes them all to one folder (default components/ui), and rewrites their imports of each other to the project's tsconfig.json path alias (e.g. `./link` → `@/components/ui/link`). Existing files that differ are skipped unless overwrite is set; use dry_run to see what would be created, overwritten or skipped without writing anything. Returns the install command for the npm packages they need.",
+      annotations: {
+        readOnlyHint: false,
+        destructiveHint: true,
+        idempotentHint: true
+      },
+      inputSchema: {
+        components: z.array(z.string()).describe("Catalyst component names (e.g., ['button', 'dialog'])"),
+        project_path: z.string().describe("Absolute path of the project root, where tsconfig.json and package.json live"),
+        target_dir: z.string().optional().describe(`Folder for the components, relative to the project root (default: '${DEFAULT_COMPONENTS_DIR}')`),
+        dry_run: z.boolean().optional().describe("Report what would be written without touching the project (default: false)"),
+        overwrite: z.boolean().optional().describe("Replace existing files that differ instead of skipping them (default: false)")
+      }
+    },
+    async (args: InstallCatalystComponentsArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'install_catalyst_components',
+        components: args?.components,
+        project_path: args?.project_path || 'undefined',
+        dry_run: args?.dry_run ?? false,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('install_catalyst_components', args);
+
+        const report = await catalystInstaller.install({
+          components: args.components,
+          projectPath: args.project_path,
+          targetDir: args.target_dir,
+          dryRun: args.dry_run,
+          overwrite: args.overwrite
+        });
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'install_catalyst_components',
+          files: report.files.length,
+          written: report.dryRun ? 0 : report.files.filter(file => file.action === 'create' || file.action === 'overwrite').length,
+          dryRun: report.dryRun
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatInstallReport(report)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'install_catalyst_components',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'install_catalyst_components')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: theme_catalyst_component
+   * Rewrites a Catalyst UI component with a brand palette and radius
+   */
+  server.registerTool(
+    "theme_catalyst_component",
+    {
+      title: "Theme Catalyst UI Component",
+      description: "Restyle a Catalyst UI component for a brand without a manual find-and-replace pass. Swaps palette colors consistently across class strings (`bg-zinc-950/5`, `outline-blue-500`) and CSS variables (`[--btn-bg:var(--color-zinc-900)]`), including the per-color variant maps in button.tsx and badge.tsx, and moves the border radius scale so Catalyst's `rounded-lg` controls become the radius you pick (other steps and `var(--radius-*)` shift with it). Map whole families (`zinc` → `slate`, `blue` → `brand` for a custom @theme ramp) or single shades (`blue-500` → `indigo-600`). Returns the rewritten source, a table of substitutions and notes on anything that needs attention.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        component_name: z.string().describe("Name of the Catalyst component (e.g., 'button', 'badge', 'input')"),
+        palette: z.record(z.string()).optional().describe("Colors to replace, e.g. { 'zinc': 'slate', 'blue': 'indigo', 'red-600': 'rose-700' }"),
+        radius: z.enum(RADIUS_STEPS).optional().describe("Radius step for Catalyst's controls, which use 'lg' (e.g., 'none', 'md', 'xl')"),
+        preserve_variants: z.boolean().optional().describe("Leave color variants named after a replaced color, such as Button's color=\"blue\", as they were (default: false)")
+      }
+    },
+    async (args: ThemeCatalystComponentArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'theme_catalyst_component',
+        component_name: args?.component_name || 'undefined',
+        palette: args?.palette,
+        radius: args?.radius,
+        timestamp: new Date().toISOString()
+      });
+
+      try {
+        validateToolInput('theme_catalyst_component', args);
+
+        const [{ resolver }, file] = await Promise.all([getTailwindResolver(), catalystLibrary.read(args.component_name)]);
+        const themed = new CatalystThemer(resolver).apply(`${args.component_name}.tsx`, file.source, {
+          palette: args.palette,
+          radius: args.radius,
+          preserveVariants: args.preserve_variants
+        });
+
+        createAuditLog('info', 'operation_completed', {
+          tool: 'theme_catalyst_component',
+          component: args.component_name,
+          substitutions: themed.substitutions.reduce((total, entry) => total + entry.count, 0)
+        });
+
+        return {
+          content: [{
+            type: "text" as const,
+            text: formatThemedComponent(args.component_name, themed)
+          }]
+        };
+      } catch (error: any) {
+        createAuditLog('error', 'tool_request_failed', {
+          tool: 'theme_catalyst_component',
+          error: error.message,
+          code: error.code
+        });
+
+        if (error.code === 'ENOENT') {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Catalyst component '${args.component_name}' not found. Use list_catalyst_components to see available components.`
+          );
+        }
+
+        if (error instanceof McpError) {
+          throw error;
+        }
+
+        throw new McpError(
+          ErrorCode.InternalError,
+          ErrorHandler.formatSafeErrorMessage(error, 'theme_catalyst_component')
+        );
+      }
+    }
+  );
+
+  /**
+   * Tool: get_component_examples
+   * Generates JSX examples of a Catalyst UI component's composition and variants
+   */
+  server.registerTool(
+    "get_component_examples",
+    {
+      title: "Get Catalyst Component Examples",
+      description: "Get ready-to-use JSX for a Catalyst UI component file, generated from its parsed props rather than hand-written. Shows how the file's components nest (Table → TableHead/TableBody → TableRow → TableHeader/TableCell, Dropdown → DropdownButton/DropdownMenu → DropdownItem, Field with Label, a control and Description) and one element per variant value: every Button color plus outline and plain, Dialog and Alert sizes, Table dense/striped/grid/bleed, Heading levels. Includes the import lines and the props each element needs, such as Dialog's open and onClose. Use get_component_api for the full props tables.",
+      annotations: {
+        readOnlyHint: true,
+        destructiveHint: false,
+        idempotentHint: true
+      },
+      inputSchema: {
+        component_name: z.string().describe("Name of the Catalyst component file (e.g., 'button', 'dialog', 'table')")
+      }
+    },
+    async (args: CatalystComponentArgs) => {
+      createAuditLog('info', 'tool_request', {
+        tool: 'get_component_examples',
+        component_name: args?.component_name || 'undefined',
         timestamp: new Date().toISOString()
       });
 
       try {
-        validateToolInput('search_tailwind_docs', args);
+        validateToolInput('get_component_examples', args);
 
-        const content = await fileService.readFullDocsFile(CONFIG.tailwindDocsPath, CONFIG.largeFileSize);
-        const results = searchInContent(content, args.query, args.limit || 5);
+        const examples = await catalystExamples.generate(args.component_name);
 
         createAuditLog('info', 'operation_completed', {
-          tool: 'search_tailwind_docs',
-          resultsFound: results.length
+          tool: 'get_component_examples',
+          component: args.component_name,
+          compositions: examples.compositions.length,
+          variants: examples.variants.length
         });
 
         return {
           content: [{
             type: "text" as const,
-            text: results.length > 0
-              ? `Found ${results.length} result(s) for "${args.query}":\n\n${results.join('\n\n---\n\n')}`
-              : `No results found for "${args.query}". Try different keywords or use get_tailwind_full_docs for complete documentation.`
+            text: formatComponentExamples(examples)
           }]
         };
       } catch (error: any) {
         createAuditLog('error', 'tool_request_failed', {
-          tool: 'search_tailwind_docs',
+          tool: 'get_component_examples',
           error: error.message,
           code: error.code
         });
 
+        if (error.code === 'ENOENT') {
+          throw new McpError(
+            ErrorCode.InvalidRequest,
+            `Catalyst component '${args.component_name}' not found. Use list_catalyst_components to see available components.`
+          );
+        }
+
         if (error instanceof McpError) {
           throw error;
         }
 
         throw new McpError(
           ErrorCode.InternalError,
-          ErrorHandler.formatSafeErrorMessage(error, 'search_tailwind_docs')
+          ErrorHandler.formatSafeErrorMessage(error, 'get_component_examples')
         );
       }
     }
@@ -756,26 +2292,46 @@ What type of project are you building? I'll help you find the best match.`
     "get_catalyst_component",
     {
       title: "Get Catalyst UI Component",
-      description: "Retrieve the TypeScript source code for a specific Catalyst UI component. Components include forms (button, checkbox, input, etc.), navigation (navbar, sidebar, dropdown), layout (divider, heading), feedback (alert, badge, dialog), and data display (avatar, table, pagination). All components are production-ready TypeScript React components with Tailwind styling and Headless UI integration.",
+      description: "Retrieve the TypeScript source code for a specific Catalyst UI component. Components include forms (button, checkbox, input, etc.), navigation (navbar, sidebar, dropdown), layout (divider, heading), feedback (alert, badge, dialog), and data display (avatar, table, pagination). All components are production-ready TypeScript React components with Tailwind styling and Headless UI integration. Several files import siblings (button imports ./link, the layouts import ./navbar); set include_dependencies to also get every file it imports, directly or transitively, plus the npm packages and an install command.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true
       },
       inputSchema: {
-        component_name: z.string().describe("Name of the Catalyst component (e.g., 'button', 'dialog', 'table')")
+        component_name: z.string().describe("Name of the Catalyst component (e.g., 'button', 'dialog', 'table')"),
+        include_dependencies: z.boolean().optional().describe("Also return the Catalyst files it imports and the npm install command (default: false)")
       }
     },
     async (args: CatalystComponentArgs) => {
       createAuditLog('info', 'tool_request', {
         tool: 'get_catalyst_component',
         component_name: args?.component_name || 'undefined',
+        include_dependencies: args?.include_dependencies ?? false,
         timestamp: new Date().toISOString()
       });
 
       try {
         validateToolInput('get_catalyst_component', args);
 
+        if (args.include_dependencies) {
+          const bundle = await catalystLibrary.bundle([args.component_name]);
+
+          createAuditLog('info', 'operation_completed', {
+            tool: 'get_catalyst_component',
+            component: args.component_name,
+            files: bundle.files.length,
+            packages: bundle.packages.length
+          });
+
+          return {
+            content: [{
+              type: "text" as const,
+              text: formatComponentBundle(args.component_name, bundle)
+            }]
+          };
+        }
+
         const componentPath = path.join(CONFIG.catalystComponentsPath, `${args.component_name}.tsx`);
         const content = await fs.readFile(componentPath, 'utf-8');
 
@@ -868,7 +2424,7 @@ What type of project are you building? I'll help you find the best match.`
           }
         }
 
-        output += `\nUse get_catalyst_component with component_name to retrieve the source code.`;
+        output += `\nUse get_catalyst_component with component_name to retrieve the source code, get_component_api for a props table, or get_component_examples for JSX examples.`;
 
         createAuditLog('info', 'operation_completed', {
           tool: 'list_catalyst_components',
@@ -1052,33 +2608,61 @@ What type of project are you building? I'll help you find the best match.`
 
   /**
    * Tool: get_color_design_guidance
-   * Retrieves comprehensive color design patterns and psychology guide
-   * RECOMMENDED: Use with a subagent for color selection workflow
+   * Computes color palettes from the color design guide, or returns the full guide
    */
   server.registerTool(
     "get_color_design_guidance",
     {
       title: "Get Color Design Guidance",
-      description: "Retrieve comprehensive color design patterns documentation (~20KB). Covers color psychology, premium vs cheap distinctions, harmony systems, industry-specific guidance, and 2024-2025 modern trends. **RECOMMENDED WORKFLOW**: Due to the comprehensive nature of this content, consider using a subagent to execute the color selection workflow with full context. The subagent can analyze the guidance and make informed color decisions for your specific project.",
+      description: "Get a concrete color palette decision for a project. Pass an industry, a mood and/or a base color and it computes, in OKLCH against the Tailwind palette: a light- or dark-mode palette assigned to 60-30-10 roles (background, surface, text, primary, accent) with WCAG contrast, complementary, analogous, triadic and split-complementary harmonies with the recommended one first, and 50-950 tints and shades of the base color. Each decision comes with the rationale from the color design guide (color psychology, industry conventions, premium vs cheap) and warnings for colors the guide advises against. Called without inputs it returns the full guide (~20KB). Pass the chosen colors to generate_tailwind_theme for a paste-ready @theme.",
       annotations: {
         readOnlyHint: true,
         destructiveHint: false,
         idempotentHint: true
       },
-      inputSchema: {}
+      inputSchema: {
+        industry: z.enum(INDUSTRY_NAMES).optional().describe("Industry, for its color conventions and colors to avoid"),
+        mood: z.enum(COLOR_MOODS).optional().describe("Feel the palette should have; picks the harmony and how muted companion colors are"),
+        baseColor: z.string().optional().describe("Brand or starting color as hex, rgb(), hsl() or oklch(); defaults to the industry's or mood's example color"),
+        mode: z.enum(['light', 'dark']).optional().describe("Which mode to assign palette roles for (default: 'light')")
+      }
     },
-    async (request) => {
+    async (args: GetColorDesignGuidanceArgs) => {
       createAuditLog('info', 'tool_request', {
         tool: 'get_color_design_guidance',
+        industry: args?.industry,
+        mood: args?.mood,
+        baseColor: args?.baseColor,
         timestamp: new Date().toISOString()
       });
 
       try {
+        validateToolInput('get_color_design_guidance', args);
+
         const colorPatternsPath = path.join(CONFIG.patternsPath, 'features', 'color-design-patterns.md');
         const content = await fs.readFile(colorPatternsPath, 'utf-8');
 
+        if (args?.industry || args?.mood || args?.baseColor) {
+          const { resolver } = await getTailwindResolver();
+          const advice = new ColorPaletteAdvisor(content, resolver).advise(args);
+
+          createAuditLog('info', 'operation_completed', {
+            tool: 'get_color_design_guidance',
+            harmony: advice.harmonies[0].kind,
+            warnings: advice.warnings.length
+          });
+
+          return {
+            content: [{
+              type: "text" as const,
+              text: formatColorAdvice(advice, args)
+            }]
+          };
+        }
+
         // Add subagent recommendation header
         const header = `# Color Design Guidance\n\n` +
+          `> **🎯 Want a decision instead?** Call this tool with \`industry\`, \`mood\` or \`baseColor\` for computed palettes.\n>\n` +
           `> **💡 RECOMMENDED WORKFLOW**: This is comprehensive guidance (~20KB) for making professional color choices.\n` +
           `> For best results, consider using a subagent/agent workflow:\n` +
           `> 1. Launch an agent with access to this color design guidance\n` +
@@ -1957,35 +3541,836 @@ function calculateRecommendations(data: any, criteria: RecommendTemplateArgs): a
   return recommendations;
 }
 
-// =========================
-// HELPER FUNCTIONS
-// =========================
+/**
+ * Formats ranked search hits as Markdown excerpts with section breadcrumbs
+ * @param hits - Ranked hits from a search index
+ * @returns Markdown string with one block per hit
+ */
+function formatSearchHits(hits: SearchHit[]): string {
+  return hits.map((hit, i) => {
+    return `### ${i + 1}. ${hit.section.path.join(' > ')}\n` +
+      `_Lines ${hit.section.startLine}-${hit.section.endLine} · score ${hit.score}${formatExpansionSource(hit)}_\n\n` +
+      `\`\`\`\n${hit.snippet}\n\`\`\``;
+  }).join('\n\n---\n\n');
+}
+
+/**
+ * Converts a search hit into the plain JSON shape of searchHitSchema
+ * @param hit - Hit returned by a search index
+ * @returns Serializable hit with breadcrumb, line range and highlight offsets within the snippet
+ */
+function toSearchHitJson(hit: SearchHit): z.infer<typeof searchHitSchema> {
+  return {
+    title: hit.section.title,
+    breadcrumb: hit.section.path,
+    sourceFile: hit.section.sourceFile,
+    startLine: hit.section.startLine,
+    endLine: hit.section.endLine,
+    score: hit.score,
+    snippet: hit.snippet,
+    snippetStartLine: hit.snippetStartLine,
+    matchedTerms: hit.matchedTerms,
+    highlights: findTermOffsets(hit.snippet, new Set(hit.matchedTerms)),
+    ...(hit.expansion ? { expansion: hit.expansion } : {})
+  };
+}
+
+/**
+ * Formats "did you mean" suggestions for queries containing unknown words
+ * @param suggestions - Corrected queries from a search index
+ * @returns A suggestion line followed by a blank line, or an empty string
+ */
+function formatSuggestions(suggestions: string[]): string {
+  if (suggestions.length === 0) {
+    return '';
+  }
+  return `Did you mean: ${suggestions.map(suggestion => `"${suggestion}"`).join(', ')}? ` +
+    `Results below include close matches for unrecognized words.\n\n`;
+}
+
+/**
+ * Formats the alias expansions applied to a query, so callers can see why other names matched
+ * @param expansions - Expansions returned by expandQuery
+ * @returns A bulleted list followed by a blank line, or an empty string
+ */
+function formatExpansions(expansions: QueryExpansion[]): string {
+  if (expansions.length === 0) {
+    return '';
+  }
+  const lines = expansions.map(expansion =>
+    `- "${expansion.alias}" → ${expansion.queries.map(query => `"${query}"`).join(', ')} (${expansion.note})`);
+  return `Also searched for equivalent terms:\n${lines.join('\n')}\n\n`;
+}
+
+/**
+ * Labels a hit that was found through an alias expansion rather than the original query
+ */
+function formatExpansionSource(hit: SearchHit): string {
+  return hit.expansion ? ` · via "${hit.expansion}"` : '';
+}
+
+/**
+ * Formats cross-source search hits with their source type and the tool call that fetches each item
+ * @param hits - Ranked hits from the unified search service
+ * @returns Markdown string with one block per hit
+ */
+function formatUnifiedSearchHits(hits: UnifiedSearchHit[]): string {
+  const sourceLabels: Record<ContentSourceType, string> = {
+    'nextjs-docs': 'Next.js docs',
+    'tailwind-docs': 'Tailwind docs',
+    'library-docs': 'Library docs',
+    'pattern': 'Pattern',
+    'catalyst-component': 'Catalyst component',
+    'starter-kit': 'Starter kit'
+  };
+
+  return hits.map((hit, i) => {
+    return `### ${i + 1}. [${sourceLabels[hit.sourceType]}] ${hit.section.path.join(' > ')}\n` +
+      `_Score ${hit.score}${formatExpansionSource(hit)} · fetch with \`${hit.fetchWith.tool}\` ${JSON.stringify(hit.fetchWith.arguments)}_\n\n` +
+      `\`\`\`\n${hit.snippet}\n\`\`\``;
+  }).join('\n\n---\n\n');
+}
+
+/**
+ * Formats code examples with their location, filename and imports
+ * @param examples - Examples returned by CodeExampleService
+ * @returns Markdown with one fenced block per example
+ */
+function formatCodeExamples(examples: CodeExample[]): string {
+  const MAX_EXAMPLE_LINES = 80;
+
+  return examples.map((example, i) => {
+    const lines = example.code.split('\n');
+    const shown = lines.slice(0, MAX_EXAMPLE_LINES);
+    const breadcrumb = example.section.path.join(' > ');
+
+    let output = `### ${i + 1}. ${example.title} (${example.corpus})\n`;
+    output += `_${breadcrumb} · lines ${example.startLine}-${example.endLine} · ${example.language}_\n`;
+
+    const imports = new Map<string, string[]>();
+    for (const { name, module } of example.imports) {
+      const names = imports.get(module) ?? [];
+      if (name) names.push(name);
+      imports.set(module, names);
+    }
+    if (imports.size > 0) {
+      const described = [...imports].map(([module, names]) =>
+        names.length > 0 ? `${names.join(', ')} from \`${module}\`` : `\`${module}\``);
+      output += `Imports: ${described.join('; ')}\n`;
+    }
+
+    output += `\n\`\`\`${example.language}\n${shown.join('\n')}\n\`\`\``;
+    if (shown.length < lines.length) {
+      output += `\n\n_${lines.length - shown.length} more lines; use get_docs_section with corpus "${example.corpus}" and path "${breadcrumb}" for the full example._`;
+    }
+    return output;
+  }).join('\n\n---\n\n');
+}
+
+/**
+ * Finds the page a section belongs to, so topic diffs compare whole pages rather than a single paragraph
+ * @param document - Document containing the section
+ * @param section - Any section of the page
+ * @returns The nearest enclosing page node, or the section itself when it has none
+ */
+function enclosingPage(document: ParsedDocument, section: DocSection): DocSection {
+  for (let depth = section.path.length; depth > 0; depth--) {
+    const prefix = section.path.slice(0, depth);
+    const page = document.sections.find(candidate =>
+      candidate.level === 0 &&
+      candidate.path.length === depth &&
+      candidate.path.every((segment, i) => segment === prefix[i]));
+    if (page) {
+      return page;
+    }
+  }
+  return section;
+}
+
+/**
+ * Tells whether a page is a blog post rather than reference documentation
+ * (e.g. Tailwind's "src/blog/…" files or a nextjs.org/blog URL)
+ */
+function isBlogPage(page: DocSection): boolean {
+  return /(?:^|\/)blog\//.test(page.sourceFile);
+}
+
+/**
+ * Formats a section diff between two docs versions
+ * @param diff - Result of diffSections
+ * @param framework - Corpus name used in follow-up tool hints
+ * @param fromVersion - Older version label
+ * @param toVersion - Newer version label
+ * @returns Markdown report grouped by kind of change
+ */
+function formatDocsDiff(diff: DocsDiff, framework: string, fromVersion: string, toVersion: string): string {
+  const MAX_LISTED = 30;
+  const MAX_CODE_EXAMPLES = 6;
+  const MAX_CODE_LINES = 15;
+
+  const list = <T>(items: T[], render: (item: T) => string) => {
+    const lines = items.slice(0, MAX_LISTED).map(item => `- ${render(item)}`);
+    if (items.length > MAX_LISTED) {
+      lines.push(`- …and ${items.length - MAX_LISTED} more`);
+    }
+    return lines.join('\n');
+  };
+  const percent = (similarity: number) => `${Math.round(similarity * 100)}% similar`;
+
+  let output = `**Summary**: ${diff.added.length} added · ${diff.removed.length} removed · ` +
+    `${diff.renamed.length} renamed · ${diff.changed.length} changed · ${diff.unchangedCount} unchanged\n`;
+
+  if (diff.added.length > 0) {
+    output += `\n## Added in ${toVersion}\n${list(diff.added, section => section.path.join(' > '))}\n`;
+  }
+  if (diff.removed.length > 0) {
+    output += `\n## Removed since ${fromVersion}\n${list(diff.removed, section => section.path.join(' > '))}\n`;
+  }
+  if (diff.renamed.length > 0) {
+    output += `\n## Renamed or moved\n${list(diff.renamed, change =>
+      `${change.before.path.join(' > ')} → ${change.after.path.join(' > ')} (${percent(change.similarity)})`)}\n`;
+  }
+  if (diff.changed.length > 0) {
+    output += `\n## Changed\n${list(diff.changed, change => {
+      const code = change.addedCode.length + change.removedCode.length > 0
+        ? ` · code examples +${change.addedCode.length} / -${change.removedCode.length}`
+        : '';
+      return `${change.after.path.join(' > ')} (${percent(change.similarity)}${code})`;
+    })}\n`;
+  }
+
+  const codeChanges = [...diff.changed, ...diff.renamed]
+    .flatMap(change => [
+      ...change.removedCode.map(example => ({ section: change.before, example, kind: `Removed from ${fromVersion}` })),
+      ...change.addedCode.map(example => ({ section: change.after, example, kind: `Added in ${toVersion}` }))
+    ]);
+  if (codeChanges.length > 0) {
+    output += `\n## Code example changes\n`;
+    for (const { section, example, kind } of codeChanges.slice(0, MAX_CODE_EXAMPLES)) {
+      const lines = example.code.split('\n');
+      output += `\n### ${kind}: ${example.title}${example.title === section.title ? '' : ` · ${section.title}`}\n`;
+      output += `\`\`\`${example.language}\n${lines.slice(0, MAX_CODE_LINES).join('\n')}` +
+        `${lines.length > MAX_CODE_LINES ? '\n…' : ''}\n\`\`\`\n`;
+    }
+    if (codeChanges.length > MAX_CODE_EXAMPLES) {
+      output += `\n_${codeChanges.length - MAX_CODE_EXAMPLES} more code changes not shown; narrow the path to see them._\n`;
+    }
+  }
+
+  if (diff.added.length + diff.removed.length + diff.renamed.length + diff.changed.length === 0) {
+    output += `\nNo differences found in this section.\n`;
+  }
+
+  output += `\nRead either side with get_docs_section using corpus "${framework}@${fromVersion}" or "${framework}@${toVersion}".`;
+  return output;
+}
+
+/**
+ * Formats the result of a Tailwind CSS v3 to v4 migration
+ * @param result - Migrated stylesheet and source with the renames, warnings and notes collected
+ * @returns Markdown report with the migrated files first
+ */
+function formatTailwindMigration(result: TailwindMigrationResult): string {
+  let output = `# Tailwind CSS v3 → v4 migration\n`;
+
+  if (result.css !== undefined) {
+    output += `\n## CSS\n\`\`\`css\n${result.css.trimEnd()}\n\`\`\`\n`;
+  }
+  if (result.source !== undefined) {
+    output += `\n## Updated source\n\`\`\`\n${result.source.trimEnd()}\n\`\`\`\n`;
+  }
+
+  if (result.renames.length > 0) {
+    output += `\n## Class changes\n`;
+    output += result.renames.map(rename =>
+      `- \`${rename.from}\` → \`${rename.to}\`${rename.count > 1 ? ` (${rename.count}×)` : ''}`).join('\n') + '\n';
+  }
+  if (result.warnings.length > 0) {
+    output += `\n## Needs manual review\n${result.warnings.map(warning => `- ${warning}`).join('\n')}\n`;
+  }
+  if (result.notes.length > 0) {
+    output += `\n## Notes\n${result.notes.map(note => `- ${note}`).join('\n')}\n`;
+  }
+
+  output += `\nInstall \`tailwindcss@4\` with \`@tailwindcss/postcss\` (or \`@tailwindcss/vite\`) and delete the JavaScript config once the CSS builds. ` +
+    `Read the full list of changes with get_docs_section using corpus "tailwind" and path "Upgrade guide > Changes from v3".`;
+  return output;
+}
+
+/**
+ * Formats a Pages Router to App Router migration plan
+ * @param plan - Proposed files, steps and warnings for one pages/ file
+ * @param citations - Docs section for each breadcrumb the steps cite; undefined when it is missing from the docs
+ * @param corpus - Corpus name to pass to get_docs_section for the cited sections
+ * @returns Markdown report with the proposed files first
+ */
+function formatPagesMigration(plan: PagesMigrationPlan, citations: Map<string, DocSection | undefined>, corpus: string): string {
+  const kinds: Record<PagesMigrationPlan['kind'], string> = {
+    page: 'Page',
+    api: 'API route',
+    app: 'Custom App',
+    document: 'Custom Document',
+    'not-found': '404 page',
+    error: 'Error page'
+  };
+
+  let output = `# Pages Router → App Router: ${plan.sourcePath}\n\n`;
+  output += `**Kind**: ${kinds[plan.kind]}`;
+  output += plan.kind === 'page' || plan.kind === 'api' ? ` · **Route**: \`${plan.route}\`\n` : '\n';
+  if (plan.detected.length > 0) {
+    output += `**Detected**: ${plan.detected.join(', ')}\n`;
+  }
+
+  output += `\n## Proposed files\n`;
+  for (const file of plan.files) {
+    const language = /\.tsx?$/.test(file.path) ? 'tsx' : 'jsx';
+    output += `\n### ${file.path}\n\`\`\`${language}\n${file.code.trimEnd()}\n\`\`\`\n`;
+  }
+
+  output += `\n## Steps\n`;
+  output += plan.steps.map((step, i) => {
+    const sources = step.docs.map(breadcrumb => {
+      const section = citations.get(breadcrumb);
+      return section
+        ? `  - ${section.path.join(' > ')} (lines ${section.startLine}-${section.endLine})`
+        : `  - ${breadcrumb} (not found in the installed docs)`;
+    });
+    return [`${i + 1}. ${step.change}`, ...sources].join('\n');
+  }).join('\n') + '\n';
+
+  if (plan.warnings.length > 0) {
+    output += `\n## Needs manual review\n${plan.warnings.map(warning => `- ${warning}`).join('\n')}\n`;
+  }
+
+  output += `\nRead a cited section with get_docs_section using corpus "${corpus}" and its path. ` +
+    `The proposal is a starting point: pages/ and app/ can coexist, so routes can move one at a time.`;
+  return output;
+}
+
+/**
+ * Formats resolved Tailwind CSS classes with their generated CSS and documentation
+ * @param results - One resolution per class, in the order given
+ * @param resolver - Resolver the results came from, used to render CSS
+ * @param document - Parsed Tailwind docs the cited sections belong to
+ * @param corpus - Corpus name to pass to get_docs_section for the cited sections
+ * @returns Markdown report with one entry per class and an excerpt per cited example
+ */
+function formatClassLookup(results: ResolvedClass[], resolver: TailwindClassResolver, document: ParsedDocument, corpus: string): string {
+  const EXCERPT_LINES = 25;
+  const cite = (section: DocSection) => `${section.path.join(' > ')} (lines ${section.startLine}-${section.endLine})`;
+  const excerpts: DocSection[] = [];
+
+  let output = `# Tailwind CSS classes\n`;
+  for (const result of results) {
+    output += `\n## \`${result.className}\`\n`;
+
+    if (result.resolvedVariants.length > 0) {
+      output += `**Variants**:\n`;
+      output += result.resolvedVariants.map(variant =>
+        `- \`${variant.name}:\` → ${variant.headers.map(header => `\`${header}\``).join(' › ')}${variant.docs ? ` — ${variant.docs.path.join(' > ')}` : ''}`).join('\n') + '\n';
+    }
+
+    if (result.error) {
+      output += `**Not resolved**: ${result.error}\n`;
+      if (result.suggestions?.length) {
+        output += `Did you mean ${result.suggestions.map(suggestion => `\`${suggestion}\``).join(', ')}?\n`;
+      } else {
+        const prefix = /^-?[a-z]+/.exec(result.utility)?.[0];
+        // Value-taking patterns such as bg-<color> say more about what fits than a list of keywords
+        const similar = prefix
+          ? resolver.patternsStartingWith(`${prefix}-`).sort((a, b) => Number(!a.includes('<')) - Number(!b.includes('<'))).slice(0, 10)
+          : [];
+        if (similar.length > 0) {
+          output += `Utilities starting with \`${prefix}-\`: ${similar.map(pattern => `\`${pattern}\``).join(', ')}\n`;
+        }
+      }
+      continue;
+    }
+
+    if (result.pattern) {
+      output += `**Utility**: \`${result.utility}\` matches \`${result.pattern}\`${result.important ? ' (important)' : ''}\n`;
+    }
+    if (result.note) {
+      output += `${result.note}\n`;
+    }
+
+    const css = resolver.toCss(result);
+    if (css) {
+      output += `\`\`\`css\n${css}\n\`\`\`\n`;
+    }
+
+    if (result.page) {
+      output += `**Docs**: ${cite(result.example ?? result.page)}\n`;
+    }
+    const excerpt = result.example ?? result.page;
+    if (excerpt && !excerpts.includes(excerpt)) {
+      excerpts.push(excerpt);
+    }
+  }
+
+  if (excerpts.length > 0) {
+    output += `\n# Docs excerpts\n`;
+    for (const section of excerpts) {
+      // The rendered demos are JSX for the docs site; the code blocks after them show the markup
+      const lines = document.getOwnContent(section)
+        .replace(/<Example>[\s\S]*?<\/Example>\n?/g, '')
+        .replace(/^<\/?Figure[^>]*>\n?/gm, '')
+        .replace(/\n{3,}/g, '\n\n')
+        .split('\n');
+      const shown = lines.slice(0, EXCERPT_LINES).join('\n').trimEnd();
+      output += `\n## ${section.path.join(' > ')}\n${shown}\n`;
+      if (lines.length > EXCERPT_LINES) {
+        output += `\n_${lines.length - EXCERPT_LINES} more lines._\n`;
+      }
+    }
+  }
+
+  output += `\nRead a cited section with get_docs_section using corpus "${corpus}" and its path.`;
+  return output;
+}
+
+/**
+ * Formats lint results for one class list or every class list in a snippet
+ * @param lists - Class lists with findings (for a single list, that list whether or not it has findings)
+ * @param checked - Number of class lists examined
+ * @param fromSource - Whether the lists came from a snippet, so their line numbers are shown
+ * @returns Markdown report grouped by class list
+ */
+function formatClassLint(lists: ClassListLint[], checked: number, fromSource: boolean): string {
+  const labels: Record<LintRule, string> = {
+    'unknown-class': 'unknown',
+    deprecated: 'deprecated',
+    duplicate: 'duplicate',
+    conflict: 'conflict',
+    'redundant-variant': 'redundant variant',
+    'variant-order': 'variant order'
+  };
+  const withFindings = lists.filter(list => list.findings.length > 0);
+  const counts = new Map<LintRule, number>();
+  for (const finding of withFindings.flatMap(list => list.findings)) {
+    counts.set(finding.rule, (counts.get(finding.rule) ?? 0) + 1);
+  }
+
+  let output = `# Tailwind CSS class lint\n\n`;
+  if (withFindings.length === 0) {
+    return output + `No problems found in ${checked} class list${checked === 1 ? '' : 's'}.`;
+  }
+  output += `Checked ${checked} class list${checked === 1 ? '' : 's'}: ` +
+    [...counts].map(([rule, count]) => `${count} ${labels[rule]}`).join(', ') + '\n';
+
+  for (const list of withFindings) {
+    output += fromSource ? `\n## Line ${list.line}\n\`${list.text}\`\n\n` : '\n';
+    for (const finding of list.findings) {
+      output += `- **${labels[finding.rule]}** (${finding.severity}): ${finding.message}`;
+      if (finding.rule !== 'variant-order' && finding.fix !== undefined) {
+        output += finding.fix ? ` Fix: \`${finding.fix}\`` : ' Fix: remove it';
+      }
+      if (finding.suggestions) {
+        output += ` Did you mean ${finding.suggestions.map(suggestion => `\`${suggestion}\``).join(', ')}?`;
+      }
+      output += '\n';
+    }
+    output += `\n**Fixed**: \`${list.fixed}\`\n`;
+  }
+
+  output += `\nUnknown classes are left in place in the fixed lists; they may come from your own CSS. ` +
+    `Use lookup_tailwind_class to see the CSS any class generates.`;
+  return output;
+}
+
+/**
+ * Formats a CSS conversion as a class list per element with a table of how each declaration mapped
+ * @param conversion - Result of CssToTailwindConverter.convert()
+ * @returns Markdown text
+ */
+function formatCssConversion(conversion: CssConversion): string {
+  const declarations = conversion.elements.flatMap(element => element.declarations);
+  const counts = new Map<MatchKind, number>();
+  for (const declaration of declarations) {
+    counts.set(declaration.kind, (counts.get(declaration.kind) ?? 0) + 1);
+  }
+
+  let output = `# CSS to Tailwind CSS v4\n\n`;
+  if (declarations.length === 0) {
+    output += `No CSS declarations found. Pass declarations such as \`padding: 8px 16px;\`, rules with selectors, or a React style object.\n`;
+  } else {
+    output += `Converted ${declarations.length} declaration${declarations.length === 1 ? '' : 's'}` +
+      `${conversion.source === 'style-object' ? ' from a style object' : ''}: ` +
+      (['exact', 'approximate', 'arbitrary', 'omitted'] as MatchKind[])
+        .filter(kind => counts.has(kind))
+        .map(kind => `${counts.get(kind)} ${kind}`)
+        .join(', ') + '\n';
+  }
+
+  for (const element of conversion.elements) {
+    output += element.selector ? `\n## \`${element.selector}\`\n\n` : '\n';
+    if (element.classes.length > 0) {
+      output += '```\n' + element.classes.join(' ') + '\n```\n\n';
+    }
+
+    if (element.declarations.length > 0) {
+      output += `| CSS | Classes | Match |\n|-----|---------|-------|\n`;
+      for (const declaration of element.declarations) {
+        const css = `${declaration.context ? `${declaration.context} ` : ''}${declaration.css}`.replace(/\|/g, '\\|');
+        const classes = declaration.classes.length > 0 ? declaration.classes.map(name => `\`${name}\``).join(' ') : '—';
+        output += `| \`${css}\` | ${classes} | ${declaration.kind} |\n`;
+      }
+    }
+
+    const notes = [
+      ...element.declarations
+        .filter(declaration => declaration.note)
+        .map(declaration => `\`${declaration.classes[0] ?? declaration.css}\`: ${declaration.note}`),
+      ...element.notes
+    ];
+    if (notes.length > 0) {
+      output += `\n**Notes**\n` + notes.map(note => `- ${note}`).join('\n') + '\n';
+    }
+  }
+
+  output += `\nUse lookup_tailwind_class to check the CSS any of these classes generates.`;
+  return output;
+}
+
+/**
+ * Formats a generated theme as paste-ready CSS followed by the ramps, aliases and notes
+ * @param theme - Result of TailwindThemeGenerator.generate()
+ * @returns Markdown text
+ */
+function formatGeneratedTheme(theme: GeneratedTheme): string {
+  let output = `# Tailwind CSS v4 theme\n\n`;
+  output += `Paste into your main stylesheet (e.g. \`app/globals.css\`), replacing the existing \`@import "tailwindcss";\`.\n\n`;
+  output += '```css\n' + theme.css + '\n```\n';
+
+  output += `\n## Color ramps\n\n`;
+  output += `| Step | ${theme.ramps.map(ramp => `${ramp.name} (${ramp.reference} curve)`).join(' | ')} |\n`;
+  output += `|------|${theme.ramps.map(() => '------').join('|')}|\n`;
+  theme.ramps[0].steps.forEach((step, i) => {
+    const cells = theme.ramps.map(ramp => {
+      const hex = `\`${formatHex(ramp.steps[i].color)}\``;
+      return ramp.steps[i].input ? `**${hex}** (input)` : hex;
+    });
+    output += `| ${step.step} | ${cells.join(' | ')} |\n`;
+  });
+
+  output += `\n## Semantic aliases\n\n`;
+  output += `Each alias works with every color utility (\`bg-brand\`, \`text-foreground-muted\`, \`border-border\`, \`ring-ring/50\`) and switches value in dark mode.\n\n`;
+  output += `| Color | Light | Dark | Use |\n|-------|-------|------|-----|\n`;
+  for (const alias of theme.aliases) {
+    output += `| \`--color-${alias.name}\` | ${alias.light.source} | ${alias.dark.source} | ${alias.purpose} |\n`;
+  }
+
+  output += `\n## Notes\n\n` + theme.notes.map(note => `- ${note}`).join('\n') + '\n';
+  output += `\nSwap hard-coded palette classes (\`bg-white dark:bg-zinc-950\`) for the aliases so components follow dark mode without \`dark:\` variants.`;
+  return output;
+}
+
+/**
+ * Formats computed color advice: the role palette, harmonies, tints and shades, and the guide's reasoning
+ * @param advice - Result of ColorPaletteAdvisor.advise()
+ * @param args - Tool arguments, echoed in the heading
+ * @returns Markdown text
+ */
+function formatColorAdvice(advice: ColorAdvice, args: GetColorDesignGuidanceArgs): string {
+  const swatch = (color: ColorAdvice['base']['color']) => `\`${formatHex(color)}\``;
+  const context = [args.industry && INDUSTRIES[args.industry].heading, args.mood].filter(Boolean).join(', ');
+
+  let output = `# Color palette${context ? `: ${context}` : ''}\n\n`;
+  output += `**Base color**: ${swatch(advice.base.color)} \`${formatOklch(advice.base.color)}\` — ${advice.base.family.toLowerCase()}, from ${advice.base.source}\n`;
+
+  const [recommended] = advice.harmonies;
+  output += `\n## Palette (${advice.mode} mode, ${recommended.kind})\n\n`;
+  output += `| Role | Color | OKLCH | Contrast | Use |\n|------|-------|-------|----------|-----|\n`;
+  for (const role of advice.palette) {
+    const contrast = role.contrast === undefined ? '—' : `${role.contrast.toFixed(1)}:1`;
+    output += `| ${role.role} | ${swatch(role.color)} (${role.source}) | \`${formatOklch(role.color)}\` | ${contrast} | ${role.use} |\n`;
+  }
+
+  output += `\n## Harmonies\n`;
+  for (const harmony of advice.harmonies) {
+    output += `\n**${harmony.kind}**${harmony.recommended ? ' (recommended)' : ''}: ${harmony.colors.map(swatch).join(' ')}\n`;
+    output += harmony.rationale.map(line => `- ${line}`).join('\n') + '\n';
+  }
+
+  output += `\n## Tints and shades\n\n| Step | Hex | OKLCH |\n|------|-----|-------|\n`;
+  for (const step of advice.ramp.steps) {
+    const hex = step.input ? `**${swatch(step.color)}** (base)` : swatch(step.color);
+    output += `| ${step.step} | ${hex} | \`${formatOklch(step.color)}\` |\n`;
+  }
+
+  output += `\n## Rationale\n\n` + advice.rationale.map(line => `- ${line}`).join('\n') + '\n';
+  if (advice.warnings.length > 0) {
+    output += `\n## Warnings\n\n` + advice.warnings.map(line => `- ⚠️ ${line}`).join('\n') + '\n';
+  }
+
+  const themeArgs = { primary: formatHex(advice.base.color), ...(recommended.colors[1] ? { secondary: formatHex(recommended.colors[1]) } : {}) };
+  output += `\nNext: call generate_tailwind_theme with \`${JSON.stringify(themeArgs)}\` for a paste-ready \`@theme\` with full ramps and dark-mode aliases.`;
+  return output;
+}
+
+/**
+ * Formats contrast results as a summary table followed by suggestions and notes per failing pair
+ * @param results - One ContrastChecker.check() result per pair
+ * @param level - Level the suggestions target
+ * @returns Markdown text
+ */
+function formatContrastResults(results: ContrastResult[], level: 'AA' | 'AAA'): string {
+  const mark = (pass: boolean) => pass ? '✅' : '❌';
+  const target = level === 'AAA' ? WCAG_THRESHOLDS.aaa : WCAG_THRESHOLDS.aa;
+  const failing = results.filter(result => result.passes && (level === 'AAA' ? !result.passes.aaa : !result.passes.aa)).length;
+
+  let output = `# Contrast check\n\n`;
+  output += `${results.length} pair${results.length === 1 ? '' : 's'} checked; ${failing} below ${level} (${target}:1) for normal text.\n\n`;
+  output += `| Foreground | Background | WCAG | AA | AA large | AAA | AAA large | APCA Lc |\n`;
+  output += `|------------|------------|------|----|----------|-----|-----------|---------|\n`;
+  for (const result of results) {
+    if (!result.passes) {
+      output += `| \`${result.foreground}\` | \`${result.background}\` | — | — | — | — | — | — |\n`;
+      continue;
+    }
+    const { aa, aaLarge, aaa, aaaLarge } = result.passes;
+    output += `| \`${result.foreground}\` | \`${result.background}\` | ${result.ratio!.toFixed(2)}:1 | ${mark(aa)} | ${mark(aaLarge)} | ${mark(aaa)} | ${mark(aaaLarge)} | ${result.apca!.toFixed(1)} |\n`;
+  }
+
+  const details = results.filter(result => result.error || result.suggestion || result.notes.length > 0);
+  for (const result of details) {
+    output += `\n## \`${result.foreground}\` on \`${result.background}\`\n\n`;
+    if (result.error) {
+      output += `⚠️ ${result.error}\n`;
+      continue;
+    }
+    output += `- APCA Lc ${Math.abs(result.apca!).toFixed(1)}: ${ContrastChecker.describeApca(result.apca!)}\n`;
+    if (result.suggestion) {
+      const { value, ratio, apca } = result.suggestion;
+      output += `- Nearest passing foreground for ${level}: \`${value}\` (${ratio.toFixed(2)}:1, APCA Lc ${Math.abs(apca).toFixed(1)})\n`;
+    }
+    output += result.notes.map(note => `- ${note}\n`).join('');
+  }
+
+  output += `\nWCAG large text is 24px+, or 18.66px+ bold (\`text-2xl\`, or \`text-xl font-bold\` and up). APCA Lc is signed: negative means light text on a dark background.`;
+  return output;
+}
+
+/**
+ * Formats a component file's API as a props table per exported component
+ * @param api - Parsed component file
+ * @returns Markdown text
+ */
+function formatComponentApi(api: CatalystComponentApi): string {
+  const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\s+/g, ' ');
+  const code = (items: string[]) => items.map(item => `\`${item}\``).join(', ');
+
+  let output = `# Catalyst Component API: ${api.name}\n\n`;
+  output += `Exports: ${code(api.components.map(component => component.name))}\n`;
+  if (api.localImports.length > 0) {
+    output += `Local imports: ${api.localImports.map(entry => `\`${entry.module}\` (${entry.names.join(', ')})`).join(', ')}\n`;
+  }
+  output += `npm packages: ${code(api.packages)}\n`;
+  if (api.primitives.length > 0) {
+    output += `Headless UI primitives: ${code(api.primitives)}\n`;
+  }
+  if (api.styledSlots.length > 0) {
+    output += `Styles children with \`data-slot\`: ${code(api.styledSlots)}\n`;
+  }
+
+  for (const component of api.components) {
+    output += `\n## ${component.name}${component.typeParameters ?? ''}\n\n`;
+    const facts = [
+      component.ref && `Forwards its ref to \`${component.ref}\``,
+      component.slots.length > 0 && `Sets \`data-slot\` ${code(component.slots)}`,
+      component.primitives.length > 0 && `Built on ${code(component.primitives.map(name => `Headless.${name}`))}`,
+      component.renders.length > 0 && `Renders ${code(component.renders)}`
+    ].filter(Boolean);
+    if (facts.length > 0) {
+      output += `${facts.join('. ')}.\n\n`;
+    }
+
+    if (component.props.length > 0) {
+      output += `| Prop | Type | Required | Default | Notes |\n`;
+      output += `|------|------|----------|---------|-------|\n`;
+      for (const prop of component.props) {
+        const notes = prop.exclusiveWith ? `Not with ${code(prop.exclusiveWith)}` : prop.type === 'inherited' ? 'Catalyst default for an inherited prop' : '';
+        output += `| \`${prop.name}\` | ${cell(formatPropValues(prop))} | ${prop.required ? 'yes' : 'no'} | ${prop.default ? `\`${cell(prop.default)}\`` : '—'} | ${notes} |\n`;
+      }
+      output += '\n';
+    }
+    if (component.inherits.length > 0) {
+      output += `Also accepts:\n`;
+      output += component.inherits.map(inherited => `- \`${inherited.type}\`${inherited.when ? ` (${inherited.when})` : ''}\n`).join('');
+    }
+  }
+
+  output += `\nUse get_catalyst_component with component_name "${api.name}" for the full source.`;
+  return output;
+}
+
+/**
+ * Formats a component with the Catalyst files it imports, dependencies first
+ * @param name - Requested component
+ * @param bundle - Files and packages from CatalystComponentLibrary.bundle()
+ * @returns Markdown text
+ */
+function formatComponentBundle(name: string, bundle: ComponentBundle): string {
+  const dependencies = bundle.files.filter(file => file.name !== name);
+
+  let output = `# Catalyst UI Component: ${name} (with dependencies)\n\n`;
+  output += bundle.packages.length > 0
+    ? `Install:\n\n\`\`\`bash\nnpm install ${bundle.packages.join(' ')}\n\`\`\`\n\n`
+    : `No npm packages needed beyond React.\n\n`;
+  output += dependencies.length > 0
+    ? `${name}.tsx needs ${dependencies.map(file => `${file.name}.tsx`).join(', ')}. Save all ${bundle.files.length} files in the same directory; they import each other as \`./name\`.\n`
+    : `${name}.tsx imports no other Catalyst files.\n`;
+
+  for (const file of bundle.files) {
+    const imports = file.api.localImports.map(entry => `\`${entry.module}\``);
+    output += `\n## ${file.name}.tsx${imports.length > 0 ? ` (imports ${imports.join(', ')})` : ''}\n\n`;
+    output += `\`\`\`typescript\n${file.source}\n\`\`\`\n`;
+  }
+  return output;
+}
+
+/**
+ * Formats an install report as a table of files and what happened to each
+ * @param report - Result of CatalystInstaller.install()
+ * @returns Markdown text
+ */
+function formatInstallReport(report: InstallReport): string {
+  const labels: Record<FileAction, [string, string]> = {
+    create: ['Created', 'Would create'],
+    overwrite: ['Overwritten', 'Would overwrite'],
+    unchanged: ['Unchanged', 'Unchanged'],
+    skip: ['Skipped: exists and differs', 'Would skip: exists and differs']
+  };
+  const skipped = report.files.filter(file => file.action === 'skip');
+
+  let output = `# ${report.dryRun ? 'Dry run: ' : ''}Catalyst components in ${report.targetDir}\n\n`;
+  output += report.importBase === '.'
+    ? `Imports between the components stay relative (\`./link\`).\n\n`
+    : `Imports between the components point at \`${report.importBase}/\`.\n\n`;
+  output += `| File | Result | Imports rewritten |\n`;
+  output += `|------|--------|-------------------|\n`;
+  for (const file of report.files) {
+    output += `| \`${file.path}\` | ${labels[file.action][report.dryRun ? 1 : 0]} | ${file.rewrittenImports} |\n`;
+  }
+
+  output += report.installCommand
+    ? `\nInstall the packages they import:\n\n\`\`\`bash\n${report.installCommand}\n\`\`\`\n`
+    : `\nNo npm packages needed beyond React.\n`;
+  if (skipped.length > 0) {
+    output += `\n${skipped.length} existing file${skipped.length === 1 ? ' was' : 's were'} left alone because ${skipped.length === 1 ? 'it differs' : 'they differ'} from Catalyst; pass \`overwrite: true\` to replace ${skipped.length === 1 ? 'it' : 'them'}.\n`;
+  }
+  if (report.notes.length > 0) {
+    output += `\n${report.notes.map(note => `- ${note}\n`).join('')}`;
+  }
+  if (report.dryRun) {
+    output += `\nNothing was written. Call again without \`dry_run\` to write the files.`;
+  }
+  return output;
+}
+
+/**
+ * Formats a themed component as a substitution table, notes and the rewritten source
+ * @param name - Component name
+ * @param themed - Result of CatalystThemer.apply()
+ * @returns Markdown text
+ */
+function formatThemedComponent(name: string, themed: ThemedComponent): string {
+  const total = themed.substitutions.reduce((sum, entry) => sum + entry.count, 0);
+
+  let output = `# Themed Catalyst UI Component: ${name}\n\n`;
+  if (total === 0) {
+    output += `Nothing matched; the source below is unchanged.\n`;
+  } else {
+    output += `${total} substitution${total === 1 ? '' : 's'}:\n\n`;
+    output += `| From | To | Count |\n`;
+    output += `|------|----|-------|\n`;
+    for (const entry of [...themed.substitutions].sort((a, b) => b.count - a.count)) {
+      output += `| \`${entry.from}\` | \`${entry.to}\` | ${entry.count} |\n`;
+    }
+  }
+  if (themed.notes.length > 0) {
+    output += `\n${themed.notes.map(note => `- ${note}\n`).join('')}`;
+  }
+  output += `\n\`\`\`typescript\n${themed.source}\n\`\`\``;
+  return output;
+}
+
+/**
+ * Formats generated examples as imports, composition trees, variant groups and usage
+ * @param examples - Result of CatalystExampleGenerator.generate()
+ * @returns Markdown text
+ */
+function formatComponentExamples(examples: ComponentExamples): string {
+  const block = (lines: string[]) => `\`\`\`tsx\n${lines.join('\n')}\n\`\`\`\n`;
+
+  let output = `# Catalyst Component Examples: ${examples.name}\n\n`;
+  output += block(examples.imports);
+  if (examples.compositions.length > 0) {
+    output += `\n## Composition\n\n${block(examples.compositions.flatMap((tree, index) => index > 0 ? ['', tree] : [tree]))}`;
+  }
+  if (examples.variants.length > 0) {
+    output += `\n## Variants\n`;
+    for (const variant of examples.variants) {
+      const details = [
+        variant.default && `default \`${variant.default}\``,
+        variant.exclusiveWith && `not with ${variant.exclusiveWith.map(name => `\`${name}\``).join(', ')}`
+      ].filter(Boolean);
+      output += `\n### ${variant.component} \`${variant.prop}\`${details.length > 0 ? ` (${details.join('; ')})` : ''}\n\n`;
+      output += block(variant.examples);
+    }
+  }
+  if (examples.usage.length > 0) {
+    output += `\n## Usage\n\n${block(examples.usage)}`;
+  }
+  if (examples.notes.length > 0) {
+    output += `\n${examples.notes.map(note => `- ${note}\n`).join('')}`;
+  }
+  output += `\nUse get_component_api with component_name "${examples.name}" for every prop.`;
+  return output;
+}
 
 /**
- * Searches content for query and returns relevant excerpts
- * @param content - The full content to search
- * @param query - The search query
- * @param limit - Maximum number of results
- * @returns Array of relevant excerpts
+ * Renders a section tree as an indented Markdown list with token estimates
+ * @param document - Parsed document the sections belong to
+ * @param sections - Sections to render at the top level
+ * @param maxDepth - Number of tree levels to include
+ * @returns Markdown outline
  */
-function searchInContent(content: string, query: string, limit: number): string[] {
-  const lines = content.split('\n');
-  const queryLower = query.toLowerCase();
-  const results: string[] = [];
-  const contextLines = 3; // Lines of context before and after match
-
-  for (let i = 0; i < lines.length && results.length < limit; i++) {
-    if (lines[i].toLowerCase().includes(queryLower)) {
-      // Get context around the match
-      const start = Math.max(0, i - contextLines);
-      const end = Math.min(lines.length, i + contextLines + 1);
-      const excerpt = lines.slice(start, end).join('\n');
-      results.push(`\`\`\`\n${excerpt}\n\`\`\``);
-
-      // Skip ahead to avoid duplicate context
-      i += contextLines;
+function formatOutline(document: ParsedDocument, sections: DocSection[], maxDepth: number): string {
+  const lines: string[] = [];
+
+  const visit = (section: DocSection, depth: number) => {
+    const tokens = document.getTokenEstimate(section).toLocaleString('en-US');
+    const hidden = depth === maxDepth && section.children.length > 0
+      ? ` (+${section.children.length} subsections)`
+      : '';
+    lines.push(`${'  '.repeat(depth - 1)}- ${section.title} — ~${tokens} tokens${hidden}`);
+
+    if (depth < maxDepth) {
+      for (const child of section.children) {
+        visit(child, depth + 1);
+      }
     }
+  };
+
+  for (const section of sections) {
+    visit(section, 1);
   }
 
-  return results;
+  return lines.join('\n');
+}
+
+/**
+ * Formats one page of a paginated documentation file with its position and continuation cursor
+ * @param label - Human-readable corpus name
+ * @param page - Page produced by paginateDocument
+ * @returns Page text preceded by a navigation header
+ */
+function formatDocsPage(label: string, page: DocsPage): string {
+  const percent = Math.round((page.endLine / page.totalLines) * 100);
+  let header = `[${label} docs · lines ${page.startLine}-${page.endLine} of ${page.totalLines} (${percent}%) · ~${page.tokenEstimate.toLocaleString('en-US')} tokens]\n`;
+  header += page.nextCursor
+    ? `[Next page: call again with cursor "${page.nextCursor}"]\n`
+    : `[End of documentation]\n`;
+  return `${header}\n${page.text}`;
 }
@@ -0,0 +1,525 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { JsValue, findClosingBracket, isJsObject, parseJsLiteral } from '../utils/jsLiteral.js';
+import { parseImports } from './codeExampleService.js';
+
+const EXPORT_PATTERN = /^export\s+(?:function\s+([A-Z]\w*)|const\s+([A-Z]\w*)\s*=\s*forwardRef\(\s*function\s+\w+)\s*(<[^(]*>)?\s*\(/gm;
+const CONST_PATTERN = /^const\s+(\w+)\s*=\s*(?=[[{])/gm;
+const TYPE_ALIAS_PATTERN = /^type\s+(\w+)\s*=\s*/gm;
+const MEMBER_PATTERN = /^(['"]?)([\w-]+)\1(\?)?\s*:\s*([\s\S]+)$/;
+const LITERAL_PATTERN = /^(?:'[^']*'|"[^"]*"|-?\d+(?:\.\d+)?|true|false|null)$/;
+const HEADLESS_JSX_PATTERN = /<Headless\.(\w+)(?<!Props)[\s/>]/g;
+const HEADLESS_TYPE_PATTERN = /Headless\.(\w+?)Props\b/g;
+const SLOT_ATTRIBUTE_PATTERN = /data-slot="([\w-]+)"/g;
+const SLOT_SELECTOR_PATTERN = /slot=([\w-]+)\]/g;
+// A JSX tag name in a position where it cannot be a type argument, e.g. after `(` or `return`
+const JSX_TAG_PATTERN = /(?:[(>}?:&|,=]|\breturn)\s*<(\/?)([A-Za-z][\w.]*)?(?=[\s/>])/g;
+
+// Elements that never render children; `Headless.Textarea` takes its value, not children
+const VOID_ELEMENTS = new Set(['hr', 'img', 'input', 'br', 'Headless.Input', 'Headless.Textarea', 'Headless.MenuSeparator']);
+
+// Packages every Next.js project already has, left out of install commands
+const PREINSTALLED_PACKAGES = new Set(['react', 'react-dom']);
+
+export interface ComponentProp {
+  name: string;
+  type: string; // As written, e.g. `keyof typeof styles.colors`
+  values?: string[]; // Finite values the type allows, e.g. `'dark/zinc'`, `'sm'`, `1`
+  required: boolean;
+  default?: string; // Source text of the default, from the parameter list or a `?? x` fallback
+  exclusiveWith?: string[]; // Props that cannot be set together with this one
+}
+
+export interface InheritedProps {
+  type: string; // e.g. `Omit<Headless.ButtonProps, 'as' | 'className'>`
+  when?: string; // Condition for union members, e.g. "with `href`"
+}
+
+export interface ComponentApi {
+  name: string;
+  typeParameters?: string; // e.g. `<T>`
+  ref?: string; // Element type the ref is forwarded to
+  props: ComponentProp[];
+  inherits: InheritedProps[];
+  primitives: string[]; // Headless UI components it renders or takes props from
+  renders: string[]; // Components from this file or its local imports that it renders
+  slots: string[]; // `data-slot` values it sets
+  styledSlots: string[]; // `data-slot` values of children it styles
+  element?: string; // Tag its remaining props are spread onto, e.g. `thead` or `Headless.MenuItem`
+  container?: string; // Tag its children end up in; undefined when it renders no children
+}
+
+export interface CatalystComponentApi {
+  name: string; // File name without extension, e.g. `button`
+  components: ComponentApi[];
+  localImports: Array<{ module: string; names: string[] }>; // e.g. `./link` → Link
+  packages: string[]; // npm packages imported
+  primitives: string[]; // Every Headless UI primitive the file uses
+  styledSlots: string[]; // `data-slot` values of children the file styles, e.g. `icon`
+}
+
+export interface ComponentFile {
+  name: string; // File name without extension
+  source: string;
+  api: CatalystComponentApi;
+}
+
+export interface ComponentBundle {
+  files: ComponentFile[]; // Every file needed, each after the files it imports
+  packages: string[]; // npm packages to install, e.g. `@headlessui/react`, `motion`
+}
+
+interface PropSet {
+  props: ComponentProp[];
+  inherits: InheritedProps[];
+}
+
+interface Declarations {
+  values: Map<string, JsValue>; // Top-level `const` object and array literals
+  aliases: Map<string, string>; // Top-level `type` aliases
+}
+
+/**
+ * Reads Catalyst component files from disk, following their imports of sibling files
+ */
+export class CatalystComponentLibrary {
+  constructor(private readonly directory: string) {}
+
+  /**
+   * Lists the available component files
+   * @returns File names without extension, sorted
+   */
+  async list(): Promise<string[]> {
+    const files = await fs.readdir(this.directory);
+    return files.filter(file => file.endsWith('.tsx')).map(file => file.slice(0, -'.tsx'.length)).sort();
+  }
+
+  /**
+   * Reads and parses one component file
+   * @param name - File name without extension, e.g. `button`
+   */
+  async read(name: string): Promise<ComponentFile> {
+    const source = await fs.readFile(path.join(this.directory, `${name}.tsx`), 'utf-8');
+    return { name, source, api: parseComponentApi(name, source) };
+  }
+
+  /**
+   * Collects the requested files with every file they import, directly or through other files
+   * @param names - File names without extension
+   * @returns Files in dependency order and the npm packages they import
+   */
+  async bundle(names: string[]): Promise<ComponentBundle> {
+    const files: ComponentFile[] = [];
+    const visited = new Set<string>();
+    const visit = async (name: string) => {
+      if (visited.has(name)) {
+        return;
+      }
+      visited.add(name);
+      const file = await this.read(name);
+      for (const entry of file.api.localImports) {
+        await visit(path.posix.basename(entry.module).replace(/\.tsx?$/, ''));
+      }
+      files.push(file);
+    };
+    for (const name of names) {
+      await visit(name);
+    }
+
+    const packages = unique(files.flatMap(file => file.api.packages.map(packageName)))
+      .filter(name => !PREINSTALLED_PACKAGES.has(name))
+      .sort();
+    return { files, packages };
+  }
+}
+
+/**
+ * Reads the public API of a Catalyst component file without compiling it: every exported
+ * component's props with their types, defaults and allowed values, plus the file's imports,
+ * Headless UI primitives and `data-slot` names
+ * @param name - File name without extension
+ * @param source - Source of the `.tsx` file
+ */
+export function parseComponentApi(name: string, source: string): CatalystComponentApi {
+  const declarations = readDeclarations(source);
+  const localImports: CatalystComponentApi['localImports'] = [];
+  const packages: string[] = [];
+  for (const { name: binding, module } of parseImports(source)) {
+    if (module.startsWith('.')) {
+      const entry = localImports.find(candidate => candidate.module === module);
+      entry ? entry.names.push(binding) : localImports.push({ module, names: [binding] });
+    } else if (!packages.includes(module)) {
+      packages.push(module);
+    }
+  }
+
+  const localNames = new Set(localImports.flatMap(entry => entry.names));
+  for (const match of source.matchAll(/^(?:export\s+)?(?:function\s+([A-Z]\w*)|const\s+([A-Z]\w*)\s*=)/gm)) {
+    localNames.add(match[1] ?? match[2]);
+  }
+
+  const components: ComponentApi[] = [];
+  for (const match of source.matchAll(EXPORT_PATTERN)) {
+    const component = parseComponent(source, match, declarations, localNames);
+    if (component) {
+      components.push(component);
+    }
+  }
+
+  const primitives = unique([...source.matchAll(HEADLESS_JSX_PATTERN)].map(match => match[1])
+    .concat([...source.matchAll(HEADLESS_TYPE_PATTERN)].map(match => match[1])));
+  const styledSlots = unique([...source.matchAll(SLOT_SELECTOR_PATTERN)].map(match => match[1]));
+  return { name, components, localImports, packages, primitives, styledSlots };
+}
+
+/**
+ * Formats the values a prop allows the way they are written in TypeScript
+ */
+export function formatPropValues(prop: ComponentProp): string {
+  return prop.values ? prop.values.join(' | ') : prop.type;
+}
+
+/**
+ * Reduces an import specifier to the package it comes from, e.g. `motion/react` → `motion`
+ */
+export function packageName(module: string): string {
+  const parts = module.split('/');
+  return module.startsWith('@') ? parts.slice(0, 2).join('/') : parts[0];
+}
+
+function parseComponent(
+  source: string,
+  match: RegExpMatchArray,
+  declarations: Declarations,
+  localNames: Set<string>
+): ComponentApi | undefined {
+  const name = match[1] ?? match[2];
+  const open = match.index! + match[0].length - 1;
+  const close = findClosingBracket(source, open);
+  if (close < 0) {
+    return undefined;
+  }
+  const [first = '', second] = splitTopLevel(source.slice(open + 1, close), ',').filter(part => part.trim());
+  const bodyOpen = source.indexOf('{', close);
+  const bodyClose = bodyOpen < 0 ? -1 : findClosingBracket(source, bodyOpen);
+  const body = bodyClose < 0 ? '' : source.slice(bodyOpen, bodyClose + 1);
+
+  // `{ a, b = 1, ...props }: Type` or `props: Type`
+  let pattern = '';
+  let type = first.trim();
+  if (type.startsWith('{')) {
+    const patternClose = findClosingBracket(type, 0);
+    pattern = type.slice(1, patternClose);
+    type = type.slice(patternClose + 1);
+  }
+  type = type.replace(/^[^:]*:/, '').trim();
+
+  const { props, inherits } = collectProps(type, declarations);
+  const byName = new Map(props.map(prop => [prop.name, prop]));
+  for (const binding of splitTopLevel(pattern, ',')) {
+    const parsed = /^\s*(?:(['"]?)([\w-]+)\1\s*:\s*)?([\w$]+)\s*(?:=\s*([\s\S]+?))?\s*$/.exec(binding);
+    if (!parsed || binding.trim().startsWith('...')) {
+      continue;
+    }
+    const propName = parsed[2] ?? parsed[3];
+    const local = parsed[3];
+    const fallback = new RegExp(`\\b${local}\\s*\\?\\?\\s*('[^']*'|"[^"]*"|[\\w.]+)`).exec(body);
+    const defaultValue = parsed[4]?.trim() ?? fallback?.[1];
+    if (defaultValue === undefined) {
+      continue;
+    }
+    const prop = byName.get(propName);
+    if (prop) {
+      prop.default = defaultValue;
+      prop.required = false;
+    } else {
+      // Inherited props only get a row when Catalyst changes their default
+      props.push({ name: propName, type: 'inherited', required: false, default: defaultValue });
+    }
+  }
+
+  const ref = second ? /ForwardedRef<([^>]+)>/.exec(second)?.[1].trim() : undefined;
+  const primitives = unique([...body.matchAll(HEADLESS_JSX_PATTERN)].map(entry => entry[1])
+    .concat([...type.matchAll(HEADLESS_TYPE_PATTERN)].map(entry => entry[1])));
+  const renders = unique([...body.matchAll(/<([A-Z]\w*)[\s/>]/g)].map(entry => entry[1])
+    .filter(rendered => localNames.has(rendered) && rendered !== name));
+  const slots = unique([...body.matchAll(SLOT_ATTRIBUTE_PATTERN)].map(entry => entry[1]));
+  const styledSlots = unique([...body.matchAll(SLOT_SELECTOR_PATTERN)].map(entry => entry[1]));
+  const rest = /\.\.\.(\w+)\s*$/.exec(pattern)?.[1] ?? (pattern ? undefined : first.trim().split(/[\s:]/)[0]);
+  const children = /(?:^|,)\s*children\s*:\s*(\w+)/.exec(pattern)?.[1] ?? 'children';
+
+  return {
+    name,
+    typeParameters: match[3]?.trim(),
+    ref,
+    props,
+    inherits,
+    primitives,
+    renders,
+    slots,
+    styledSlots,
+    ...findChildPlacement(body, rest, children)
+  };
+}
+
+/**
+ * Walks the JSX of a component body to find the tag its rest props are spread onto and the
+ * tag `children` ends up in, either written out as `{children}` or passed inside the rest props
+ * @param rest - Name of the rest parameter, e.g. `props`
+ * @param children - Local name of the `children` prop, which Listbox renames to `options`
+ */
+function findChildPlacement(body: string, rest: string | undefined, children: string): { element?: string; container?: string } {
+  const stack: string[] = [];
+  let element: string | undefined;
+  let spreadClosed = false; // The spread element is self-closing, so `children` in the rest props reach it
+  let container: string | undefined;
+  let position = 0;
+
+  const pattern = new RegExp(JSX_TAG_PATTERN.source, 'g');
+  for (let match = pattern.exec(body); match; match = pattern.exec(body)) {
+    const start = match.index + match[0].length;
+    if (container === undefined && stack.length > 0 && new RegExp(`(?<![\\w.])${children}\\b(?!\\s*[=:])`).test(body.slice(position, match.index + match[0].lastIndexOf('<')))) {
+      container = stack[stack.length - 1];
+    }
+
+    const tag = match[2] ?? 'Fragment';
+    if (match[1]) {
+      stack.pop();
+      position = body.indexOf('>', start) + 1;
+      pattern.lastIndex = position - 1;
+      continue;
+    }
+
+    // Attributes run to the first `>` outside braces and strings
+    let i = start;
+    let spread = false;
+    while (i < body.length && body[i] !== '>') {
+      if (body[i] === '{') {
+        const close = findClosingBracket(body, i);
+        if (close < 0) {
+          return { element, container };
+        }
+        spread ||= rest !== undefined && new RegExp(`^\\{\\s*\\.\\.\\.${rest}\\s*\\}$`).test(body.slice(i, close + 1));
+        i = close + 1;
+      } else if (body[i] === '"' || body[i] === "'") {
+        i = body.indexOf(body[i], i + 1) + 1 || body.length;
+      } else {
+        i++;
+      }
+    }
+    const selfClosing = body[i - 1] === '/';
+    if (spread && element === undefined) {
+      element = tag;
+      // Decorative elements such as spacers take no content even though children would pass
+      spreadClosed = selfClosing && !/\baria-hidden="true"/.test(body.slice(start, i));
+    }
+    if (!selfClosing) {
+      stack.push(tag);
+    }
+    position = i + 1;
+    pattern.lastIndex = i;
+  }
+
+  if (container === undefined && element !== undefined && spreadClosed && !VOID_ELEMENTS.has(element)) {
+    container = element;
+  }
+  return { element, container };
+}
+
+/**
+ * Collects the props a type declares itself and the prop types it extends. Union members
+ * are merged: props only some members allow become optional and record what they exclude.
+ */
+function collectProps(type: string, declarations: Declarations): PropSet {
+  const result: PropSet = { props: [], inherits: [] };
+  for (const part of splitTopLevel(unwrap(type), '&').map(unwrap).filter(Boolean)) {
+    const members = splitTopLevel(part, '|').map(unwrap).filter(Boolean);
+    const set = members.length > 1 ? mergeUnion(members.map(member => collectProps(member, declarations))) : collectPart(part, declarations);
+    result.props.push(...set.props.filter(prop => !result.props.some(existing => existing.name === prop.name)));
+    result.inherits.push(...set.inherits);
+  }
+  return result;
+}
+
+function collectPart(part: string, declarations: Declarations): PropSet {
+  if (part.startsWith('{')) {
+    return { props: parseObjectType(part.slice(1, -1), declarations), inherits: [] };
+  }
+  const alias = declarations.aliases.get(part);
+  if (alias) {
+    return collectProps(alias, declarations);
+  }
+  const withChildren = /^(?:React\.)?PropsWithChildren<([\s\S]+)>$/.exec(part);
+  if (withChildren) {
+    const inner = collectProps(withChildren[1], declarations);
+    if (!inner.props.some(prop => prop.name === 'children')) {
+      inner.props.push({ name: 'children', type: 'React.ReactNode', required: false });
+    }
+    return inner;
+  }
+  return { props: [], inherits: [{ type: part.replace(/\s+/g, ' ').replace(/<\s+/g, '<').replace(/\s+>/g, '>') }] };
+}
+
+function mergeUnion(members: PropSet[]): PropSet {
+  const allows = (member: PropSet, name: string) => member.props.some(prop => prop.name === name && prop.type !== 'never');
+  const names = unique(members.flatMap(member => member.props.map(prop => prop.name)));
+  const props: ComponentProp[] = [];
+
+  for (const name of names) {
+    const allowedIn = members.filter(member => allows(member, name));
+    if (allowedIn.length === 0) {
+      continue;
+    }
+    const variants = allowedIn.map(member => member.props.find(prop => prop.name === name)!);
+    const types = unique(variants.map(prop => prop.type));
+    const values = variants.every(prop => prop.values) ? unique(variants.flatMap(prop => prop.values!)) : undefined;
+    const prop: ComponentProp = {
+      name,
+      type: types.join(' | '),
+      values,
+      required: allowedIn.length === members.length && variants.every(variant => variant.required)
+    };
+    if (allowedIn.length < members.length) {
+      const exclusive = names.filter(other => other !== name
+        && members.some(member => allows(member, other))
+        && !allowedIn.some(member => allows(member, other))
+        && allowedIn.every(member => member.props.some(entry => entry.name === other)));
+      if (exclusive.length > 0) {
+        prop.exclusiveWith = exclusive;
+      }
+    }
+    props.push(prop);
+  }
+
+  // Members that extend different props are told apart by the props they require or forbid
+  const inherits = members.flatMap(member => {
+    const required = member.props.filter(prop => prop.required && prop.type !== 'never').map(prop => `\`${prop.name}\``);
+    const forbidden = member.props.filter(prop => prop.type === 'never').map(prop => `\`${prop.name}\``);
+    const when = required.length > 0 ? `with ${required.join(', ')}` : forbidden.length > 0 ? `without ${forbidden.join(', ')}` : undefined;
+    return member.inherits.map(inherited => ({ ...inherited, when: inherited.when ?? when }));
+  });
+  return { props, inherits };
+}
+
+function parseObjectType(body: string, declarations: Declarations): ComponentProp[] {
+  const props: ComponentProp[] = [];
+  for (const member of splitTopLevel(body, ';\n,')) {
+    const parsed = MEMBER_PATTERN.exec(member.replace(/\/\/.*$/gm, '').trim());
+    if (!parsed) {
+      continue;
+    }
+    const type = parsed[4].replace(/\s+/g, ' ').trim();
+    props.push({ name: parsed[2], type, values: resolveValues(type, declarations), required: !parsed[3] && type !== 'never' });
+  }
+  return props;
+}
+
+/**
+ * Expands a prop type into the literal values it allows, following `keyof typeof` lookups
+ * into the file's style maps, `(typeof list)[number]` and local type aliases
+ * @returns The values, or undefined when the type allows more than a fixed set
+ */
+function resolveValues(type: string, declarations: Declarations, depth = 0): string[] | undefined {
+  if (depth > 5) {
+    return undefined;
+  }
+  const keyOf = /^keyof\s+typeof\s+([\w.]+)$/.exec(type);
+  if (keyOf) {
+    const value = lookup(keyOf[1], declarations);
+    return isJsObject(value) ? Object.keys(value).map(key => `'${key}'`) : undefined;
+  }
+  const element = /^\(\s*typeof\s+([\w.]+)\s*\)\[number\]$/.exec(type);
+  if (element) {
+    const value = lookup(element[1], declarations);
+    return Array.isArray(value) && value.every(item => typeof item === 'string')
+      ? value.map(item => `'${item}'`)
+      : undefined;
+  }
+
+  const parts = splitTopLevel(type, '|').map(part => part.trim()).filter(Boolean);
+  if (parts.length === 1 && !declarations.aliases.has(parts[0])) {
+    return LITERAL_PATTERN.test(parts[0]) && !/^(?:true|false)$/.test(parts[0]) ? [parts[0]] : undefined;
+  }
+  const values: string[] = [];
+  for (const part of parts) {
+    const alias = declarations.aliases.get(part);
+    const expanded = alias ? resolveValues(alias, declarations, depth + 1) : LITERAL_PATTERN.test(part) ? [part] : undefined;
+    if (!expanded) {
+      return undefined;
+    }
+    values.push(...expanded);
+  }
+  return unique(values);
+}
+
+function lookup(path: string, declarations: Declarations): JsValue | undefined {
+  const [root, ...keys] = path.split('.');
+  let value = declarations.values.get(root);
+  for (const key of keys) {
+    value = isJsObject(value) ? value[key] : undefined;
+  }
+  return value;
+}
+
+function readDeclarations(source: string): Declarations {
+  const values = new Map<string, JsValue>();
+  for (const match of source.matchAll(CONST_PATTERN)) {
+    values.set(match[1], parseJsLiteral(source.slice(match.index! + match[0].length)));
+  }
+
+  // An alias runs until the next top-level statement
+  const aliases = new Map<string, string>();
+  for (const match of source.matchAll(TYPE_ALIAS_PATTERN)) {
+    const start = match.index! + match[0].length;
+    const next = /\n(?=\S)(?![)\]}|&>])/g;
+    next.lastIndex = start;
+    const end = next.exec(source)?.index ?? source.length;
+    aliases.set(match[1], source.slice(start, end).trim());
+  }
+  return { values, aliases };
+}
+
+/**
+ * Splits type or parameter text at separators outside brackets, strings and `=>` arrows
+ * @param separators - Characters that separate parts
+ */
+function splitTopLevel(text: string, separators: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let start = 0;
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quote) {
+      if (char === quote && text[i - 1] !== '\\') {
+        quote = '';
+      }
+    } else if (char === "'" || char === '"' || char === '`') {
+      quote = char;
+    } else if ('([{<'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char) || (char === '>' && text[i - 1] !== '=')) {
+      depth--;
+    } else if (depth === 0 && separators.includes(char)) {
+      parts.push(text.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(text.slice(start));
+  return parts;
+}
+
+/**
+ * Trims text and removes parentheses that wrap all of it
+ */
+function unwrap(text: string): string {
+  let result = text.trim();
+  while (result.startsWith('(') && findClosingBracket(result, 0) === result.length - 1) {
+    result = result.slice(1, -1).trim();
+  }
+  return result;
+}
+
+function unique<T>(items: T[]): T[] {
+  return [...new Set(items)];
+}
@@ -0,0 +1,535 @@
+import { CatalystComponentLibrary, ComponentApi, ComponentFile, ComponentProp } from './catalystComponents.js';
+
+// Where HTML requires an element to sit, by the parent's tag; `thead>tr` also checks the grandparent
+const CONTENT_MODEL: Record<string, string[]> = {
+  thead: ['table'],
+  tbody: ['table'],
+  tfoot: ['table'],
+  tr: ['thead', 'tbody', 'tfoot'],
+  th: ['thead>tr'],
+  td: ['tbody>tr', 'tfoot>tr'],
+  dt: ['dl'],
+  dd: ['dl'],
+  li: ['ul', 'ol']
+};
+
+// Elements repeated in examples so rows, cells and list entries read as a list
+const REPEATED_ELEMENTS = new Set(['tr', 'th', 'td', 'dt', 'dd', 'li']);
+const REPEATED_NAME_PATTERN = /(?:Item|Option|Page|Field)$/;
+// Parts that open or close their container wherever the file declares them
+const LEADING_NAME_PATTERN = /(?:Heading|Header|Title|Legend|Previous)$/;
+const TRAILING_NAME_PATTERN = /(?:Footer|Actions|Next)$/;
+
+// Headless UI primitives that only work inside another primitive, most specific parent first
+const HEADLESS_PARENTS: Record<string, string[]> = {
+  MenuButton: ['Menu'],
+  MenuItems: ['Menu'],
+  MenuSection: ['MenuItems'],
+  MenuSeparator: ['MenuItems'],
+  MenuItem: ['MenuSection', 'MenuItems'],
+  MenuHeading: ['MenuSection'],
+  ListboxOption: ['Listbox'],
+  ComboboxOption: ['Combobox'],
+  DialogTitle: ['Dialog'],
+  Description: ['MenuItem', 'Dialog', 'Field'],
+  Label: ['Field'],
+  Legend: ['Fieldset']
+};
+
+// Primitives whose panel, rather than the primitive itself, holds the rest of the content
+const HEADLESS_PANELS: Record<string, string> = {
+  Menu: 'MenuItems'
+};
+
+// Props Headless UI requires that Catalyst passes through; `#` is replaced by the item number
+const HEADLESS_REQUIRED_PROPS: Record<string, Array<[string, string]>> = {
+  Dialog: [['open', '{isOpen}'], ['onClose', '{setIsOpen}']],
+  ListboxOption: [['value', '"option-#"']],
+  ComboboxOption: [['value', '"option-#"']],
+  Radio: [['value', '"option-#"']]
+};
+
+const HEADLESS_NOTES: Record<string, string> = {
+  Dialog: '`open` and `onClose` come from state, e.g. `const [isOpen, setIsOpen] = useState(false)`.'
+};
+
+// Children some containers need instead of text
+const CONTAINER_CHILDREN: Record<string, string> = {
+  'Headless.Select': 'option'
+};
+
+// Optional decorations items style; listed in notes rather than added to every example
+const DECORATION_SLOTS = new Set(['icon', 'avatar']);
+
+// Props that are not variants even when they are booleans or unions
+const NON_VARIANT_PROPS = new Set(['className', 'children', 'autoFocus', 'anchor']);
+
+const STRING_PLACEHOLDERS: Record<string, string> = {
+  href: '#',
+  src: '/avatar.jpg',
+  alt: '',
+  initials: 'AB',
+  keys: '⌘K'
+};
+
+const REPEAT_COUNT = 2;
+
+export interface PropVariants {
+  component: string;
+  prop: string;
+  default?: string;
+  exclusiveWith?: string[];
+  examples: string[]; // One JSX element per value
+}
+
+export interface ComponentExamples {
+  name: string; // File name without extension
+  imports: string[]; // Import statements every example below needs
+  compositions: string[]; // How the file's components nest, one JSX tree per outermost component
+  variants: PropVariants[];
+  usage: string[]; // Components that neither nest nor have variants, other than helpers the file renders itself
+  notes: string[];
+}
+
+interface Placement {
+  parent: string;
+  ancestor?: string; // Container tag the parent itself must sit in, e.g. `thead`
+  repeated: boolean;
+}
+
+interface ExampleContext {
+  file: ComponentFile;
+  owners: Map<string, { api: ComponentApi; module: string }>; // Every component in the library
+  placements: Map<string, Placement[]>;
+  used: Map<string, Set<string>>; // Module → names the examples render
+  notes: string[];
+}
+
+interface RenderScope {
+  containers: string[]; // Container tags of the enclosing components, innermost last
+  names: string[]; // Enclosing components
+  parameter?: string; // Argument of an enclosing render function, e.g. Combobox's `children`
+  number?: number; // Position of the nearest repeated ancestor
+}
+
+/**
+ * Writes JSX examples for Catalyst components from their parsed APIs: how a file's components
+ * nest, worked out from HTML content rules, Headless UI primitives, `data-slot` styling and
+ * naming, and one element for each value of each variant prop
+ */
+export class CatalystExampleGenerator {
+  constructor(private readonly library: CatalystComponentLibrary) {}
+
+  /**
+   * Builds the examples for one component file
+   * @param name - File name without extension, e.g. `table`
+   */
+  async generate(name: string): Promise<ComponentExamples> {
+    const file = await this.library.read(name);
+    const owners: ExampleContext['owners'] = new Map();
+    for (const other of await this.library.list()) {
+      const { api } = other === name ? file : await this.library.read(other);
+      for (const component of api.components) {
+        if (!owners.has(component.name) || other === name) {
+          owners.set(component.name, { api: component, module: `./${other}` });
+        }
+      }
+    }
+
+    const notes: string[] = [];
+    const context: ExampleContext = { file, owners, placements: placeComponents(file.api.components, notes), used: new Map(), notes };
+    const components = file.api.components;
+    const placed = new Set(context.placements.keys());
+    const nested = new Set(placed);
+
+    const compositions: string[] = [];
+    for (const component of components) {
+      if (placed.has(component.name)) {
+        continue;
+      }
+      const children = [...context.placements].filter(([, entries]) => entries.some(entry => entry.parent === component.name));
+      if (children.length > 0) {
+        compositions.push(renderComponent(component, context, { containers: [], names: [] }).join('\n'));
+        nested.add(component.name);
+      }
+    }
+
+    const variants = components.flatMap(component => buildVariants(component, context, nested.has(component.name)));
+    // Helpers another component renders for you, like Button's TouchTarget, get a note rather than an example
+    const standalone = components.filter(component => !nested.has(component.name) && !variants.some(entry => entry.component === component.name));
+    const helpers = standalone.filter(component => components.some(other => other.renders.includes(component.name)));
+    for (const helper of helpers) {
+      const renderedBy = components.filter(other => other.renders.includes(helper.name)).map(other => `\`${other.name}\``);
+      context.notes.push(`\`${helper.name}\` is rendered inside ${renderedBy.join(' and ')} already; import it only when building a component of your own.`);
+    }
+    const usage = standalone
+      .filter(component => !helpers.includes(component))
+      .map(component => renderComponent(component, context, { containers: [], names: [] }).join('\n'));
+
+    const decorated = components.filter(component => component.styledSlots.some(slot => DECORATION_SLOTS.has(slot)));
+    if (decorated.length > 0) {
+      const slots = [...new Set(decorated.flatMap(component => component.styledSlots.filter(slot => DECORATION_SLOTS.has(slot))))];
+      context.notes.push(`${decorated.map(component => `\`${component.name}\``).join(', ')} also ${decorated.length === 1 ? 'styles' : 'style'} children with ${slots.map(slot => `\`data-slot="${slot}"\``).join(' or ')}${slots.includes('icon') ? ', such as a Heroicon' : ''}${slots.includes('avatar') && owners.has('Avatar') ? ' or `<Avatar>`' : ''}.`);
+    }
+
+    const imports = [...context.used]
+      .sort(([a], [b]) => a === `./${name}` ? -1 : b === `./${name}` ? 1 : a.localeCompare(b))
+      .map(([module, names]) => `import { ${[...names].sort().join(', ')} } from '${module}'`);
+    return { name, imports, compositions, variants, usage, notes: [...new Set(context.notes)] };
+  }
+}
+
+/**
+ * Decides which components of a file go inside which, trying the rules from most to least
+ * specific: HTML content rules, Headless UI parents, `data-slot` styling, `XGroup` wrappers,
+ * naming (`…Label` in `…Item`, `…Item` in `…Section`) and finally the file's first component
+ * @param notes - Receives placements that cannot be shown in a single tree
+ * @returns Placements by component name; components without one stand on their own
+ */
+function placeComponents(components: ComponentApi[], notes: string[]): Map<string, Placement[]> {
+  const placements = new Map<string, Placement[]>();
+  const root = components[0];
+  const related = (a: ComponentApi, b: ComponentApi) => a.renders.includes(b.name) || b.renders.includes(a.name);
+  const hosts = (component: ComponentApi) => components.filter(candidate => candidate !== component
+    && candidate.container !== undefined
+    && !related(component, candidate)
+    && !isGroupOf(component, candidate));
+  const primitive = (component: ComponentApi) => component.element?.startsWith('Headless.') ? component.element.slice('Headless.'.length) : undefined;
+  const place = (component: ComponentApi, parents: ComponentApi[], options: { ancestor?: (parent: ComponentApi) => string | undefined; repeated?: (parent: ComponentApi) => boolean } = {}) => {
+    placements.set(component.name, parents.map(parent => ({
+      parent: parent.name,
+      ancestor: options.ancestor?.(parent),
+      repeated: options.repeated?.(parent) ?? REPEATED_NAME_PATTERN.test(component.name)
+    })));
+  };
+
+  const deferred: ComponentApi[] = [];
+  for (const component of components) {
+    const candidates = hosts(component);
+    const model = component.element ? CONTENT_MODEL[component.element] : undefined;
+    if (model) {
+      const parents = candidates.filter(candidate => model.some(entry => entry.split('>').pop() === candidate.container));
+      if (parents.length > 0) {
+        const ancestor = (parent: ComponentApi) => model.find(entry => entry.endsWith(`>${parent.container}`))?.split('>')[0];
+        // A table has one header row but several body rows
+        const repeated = (parent: ComponentApi) => REPEATED_ELEMENTS.has(component.element!) && !(component.element === 'tr' && parent.container === 'thead');
+        place(component, parents, { ancestor, repeated });
+        continue;
+      }
+    }
+
+    const headlessParent = (HEADLESS_PARENTS[primitive(component) ?? ''] ?? [])
+      .map(parentPrimitive => candidates.find(candidate => candidate.primitives.includes(parentPrimitive)))
+      .find(Boolean);
+    if (headlessParent) {
+      place(component, [headlessParent]);
+      continue;
+    }
+
+    const styling = candidates.filter(candidate => candidate.styledSlots.some(slot => component.slots.includes(slot)));
+    if (styling.length > 0) {
+      place(component, styling);
+      continue;
+    }
+
+    const group = candidates.find(candidate => candidate.name === `${component.name}Group` || candidate.name === `${component.name.replace(/Field$/, '')}Group`);
+    if (group) {
+      place(component, [group]);
+      continue;
+    }
+
+    const named = /(?:Label|Description|Shortcut)$/.test(component.name)
+      ? candidates.find(candidate => /(?:Item|Option)$/.test(candidate.name))
+      : /(?:Item|Option|Page|Gap|Heading)$/.test(component.name)
+        ? candidates.find(candidate => /(?:Section|List)$/.test(candidate.name))
+        : undefined;
+    if (named) {
+      place(component, [named]);
+    } else if (component !== root) {
+      deferred.push(component);
+    }
+  }
+
+  // Dividers and spacers sit between sections; anything else named after the file's first
+  // component goes in it, or in its panel
+  const panelPrimitive = HEADLESS_PANELS[primitive(root) ?? ''];
+  const panel = (panelPrimitive && components.find(component => primitive(component) === panelPrimitive)) || root;
+  for (const component of deferred) {
+    const section = components.find(candidate => candidate.name.endsWith('Section'));
+    const sectionParents = section ? placements.get(section.name) : undefined;
+    if (/(?:Divider|Spacer)$/.test(component.name) && sectionParents?.length === 1) {
+      placements.set(component.name, sectionParents.map(entry => ({ ...entry, repeated: false })));
+    } else if (/(?:Divider|Spacer)$/.test(component.name) && sectionParents) {
+      const parents = sectionParents.map(entry => `\`${entry.parent}\``);
+      notes.push(`\`${component.name}\` goes between \`${section!.name}\` elements in ${parents.slice(0, -1).join(', ')} or ${parents[parents.length - 1]}.`);
+    } else if (root.container !== undefined && component.name.startsWith(root.name) && !related(component, root) && component !== panel) {
+      place(component, [panel]);
+    }
+  }
+  return placements;
+}
+
+/**
+ * Checks whether a component is the `XGroup` wrapper of another, e.g. FieldGroup of Field or
+ * CheckboxGroup of CheckboxField, which never goes inside what it groups
+ */
+function isGroupOf(group: ComponentApi, component: ComponentApi): boolean {
+  const base = group.name.replace(/Group$/, '');
+  return base !== group.name && (component.name === base || component.name === `${base}Field`);
+}
+
+/**
+ * Renders a component with the components placed inside it
+ * @param position - Position among repeated siblings, used in placeholder text and values
+ * @returns JSX lines, indented from column 0
+ */
+function renderComponent(component: ComponentApi, context: ExampleContext, scope: RenderScope, position?: number): string[] {
+  use(component.name, context);
+  const number = position ?? scope.number;
+  const attributes = requiredAttributes(component, context, scope, number);
+  const tag = [component.name, ...attributes].join(' ');
+  if (component.container === undefined || component.props.some(prop => prop.name === 'children' && prop.default !== undefined)) {
+    return [`<${tag} />`];
+  }
+
+  const inner: RenderScope = {
+    containers: [...scope.containers, component.container],
+    names: [...scope.names, component.name],
+    parameter: scope.parameter,
+    number
+  };
+  const render = renderFunction(component);
+  if (render) {
+    inner.parameter = render;
+  }
+  const lines = renderChildren(component, context, inner);
+  if (lines.length === 0) {
+    return [`<${tag}>${placeholderText(component, scope, number)}</${component.name}>`];
+  }
+  const body = render ? [`{(${render}) => (`, ...indent(lines), ')}'] : lines;
+  return [`<${tag}>`, ...indent(body), `</${component.name}>`];
+}
+
+function renderChildren(parent: ComponentApi, context: ExampleContext, scope: RenderScope): string[] {
+  const children: Array<{ component: ComponentApi; repeated: boolean; order: number }> = [];
+  const slotOrder = (component: ComponentApi) => {
+    const indexes = component.slots.map(slot => parent.styledSlots.indexOf(slot)).filter(index => index >= 0);
+    return indexes.length > 0 ? Math.min(...indexes) : undefined;
+  };
+
+  let order = -1;
+  for (const component of context.file.api.components) {
+    const placement = context.placements.get(component.name)?.find(entry => entry.parent === parent.name
+      && (entry.ancestor === undefined || scope.containers[scope.containers.length - 2] === entry.ancestor));
+    if (placement && !scope.names.includes(component.name)) {
+      order = slotOrder(component) ?? order;
+      children.push({ component, repeated: placement.repeated && scope.parameter === undefined, order });
+    }
+  }
+
+  // Slots the parent styles that nothing inside it fills come from the rest of the library
+  const filled = (slot: string) => children.some(child => child.component.slots.includes(slot)
+    || child.component.styledSlots.includes(slot)
+    || setsSlotInside(child.component, slot, context));
+  for (const [index, slot] of parent.styledSlots.entries()) {
+    if (DECORATION_SLOTS.has(slot) || filled(slot)) {
+      continue;
+    }
+    const filler = findSlotFiller(slot, parent, context);
+    if (filler) {
+      children.push({ component: filler, repeated: false, order: index });
+    }
+  }
+
+  const container = CONTAINER_CHILDREN[parent.container ?? ''];
+  if (children.length === 0 && container && scope.parameter === undefined) {
+    return Array.from({ length: REPEAT_COUNT }, (_, i) => `<${container} value="option-${i + 1}">${humanize(container)} ${i + 1}</${container}>`);
+  }
+
+  // Runs of repeated siblings, such as a term and its details, repeat together
+  const position = ({ component }: { component: ComponentApi }) => LEADING_NAME_PATTERN.test(component.name) ? 0
+    : TRAILING_NAME_PATTERN.test(component.name) ? 2 : 1;
+  const sorted = children.map((child, index) => ({ ...child, index }))
+    .sort((a, b) => position(a) - position(b) || a.order - b.order || a.index - b.index);
+  const lines: string[] = [];
+  for (let i = 0; i < sorted.length;) {
+    let end = i + 1;
+    while (sorted[i].repeated && end < sorted.length && sorted[end].repeated) {
+      end++;
+    }
+    const run = sorted.slice(i, end);
+    const count = sorted[i].repeated ? REPEAT_COUNT : 1;
+    for (let n = 1; n <= count; n++) {
+      for (const child of run) {
+        lines.push(...renderComponent(child.component, context, scope, count > 1 ? n : undefined));
+      }
+    }
+    i = end;
+  }
+  return lines;
+}
+
+/**
+ * Checks whether a component nests something that sets a slot, so that slot is already taken care of
+ */
+function setsSlotInside(component: ComponentApi, slot: string, context: ExampleContext): boolean {
+  return [...context.placements].some(([name, entries]) => entries.some(entry => entry.parent === component.name)
+    && (context.owners.get(name)?.api.slots.includes(slot) || context.owners.get(name)?.api.styledSlots.includes(slot)));
+}
+
+/**
+ * Picks a component from another file to fill a styled slot: the one named after the slot
+ * (`label` → Label), otherwise the simplest control that no other component wraps
+ */
+function findSlotFiller(slot: string, parent: ComponentApi, context: ExampleContext): ComponentApi | undefined {
+  const named = context.owners.get(slot[0].toUpperCase() + slot.slice(1));
+  if (named && named.api !== parent && named.api.slots.includes(slot)) {
+    return named.api;
+  }
+
+  const wrapped = new Set([...context.owners.values()].filter(owner => owner.api.styledSlots.includes(slot)).map(owner => owner.module));
+  const candidates = [...context.owners.values()]
+    .filter(owner => owner.api.slots.includes(slot) && !wrapped.has(owner.module) && owner.module !== `./${context.file.name}`)
+    .map(owner => owner.api)
+    .sort((a, b) => a.props.filter(prop => prop.required).length - b.props.filter(prop => prop.required).length || a.name.localeCompare(b.name));
+  if (candidates.length === 0) {
+    return undefined;
+  }
+  if (candidates.length > 1) {
+    context.notes.push(`\`${parent.name}\` takes any component that sets \`data-slot="${slot}"\`: ${candidates.map(candidate => `\`${candidate.name}\``).join(', ')}.`);
+  }
+  return candidates[0];
+}
+
+/**
+ * Lists one example per value of each variant prop: every finite union value and each boolean flag
+ * @param nested - Whether the component has other components placed inside it
+ */
+function buildVariants(component: ComponentApi, context: ExampleContext, nested: boolean): PropVariants[] {
+  const hasChildren = [...context.placements.values()].some(entries => entries.some(entry => entry.parent === component.name));
+  const variants: PropVariants[] = [];
+  for (const prop of component.props) {
+    if (NON_VARIANT_PROPS.has(prop.name) || prop.name.startsWith('aria-') || prop.type === 'inherited') {
+      continue;
+    }
+    const values = prop.values && prop.values.length > 1 ? prop.values.map(value => [prop.name, jsxValue(value)])
+      : /^(?:boolean|true)$/.test(prop.type) ? [[prop.name, undefined]]
+      : undefined;
+    if (!values) {
+      continue;
+    }
+
+    const examples = values.map(([name, value]) => {
+      const attributes = requiredAttributes(component, context, { containers: [], names: [] }, undefined, prop.name);
+      const tag = [component.name, ...attributes, value === undefined ? name : `${name}=${value}`].join(' ');
+      use(component.name, context);
+      if (component.container === undefined) {
+        return `<${tag} />`;
+      }
+      const content = hasChildren || nested ? '{/* … */}' : placeholderText(component, { containers: [], names: [] });
+      return `<${tag}>${content}</${component.name}>`;
+    });
+    variants.push({ component: component.name, prop: prop.name, default: prop.default, exclusiveWith: prop.exclusiveWith, examples });
+  }
+  return variants;
+}
+
+/**
+ * Fills the props a component cannot go without: its own required props, those of the library
+ * component it extends and the ones the Headless UI primitive it wraps requires
+ * @param skip - Prop the caller sets itself
+ */
+function requiredAttributes(component: ComponentApi, context: ExampleContext, scope: RenderScope, number?: number, skip?: string): string[] {
+  // Its own props, then those of a library component it extends, e.g. TextLink's `href` from Link
+  const props = [...component.props];
+  for (const inherited of component.inherits) {
+    const base = inherited.when ? undefined : /typeof (\w+)>/.exec(inherited.type)?.[1];
+    props.push(...(context.owners.get(base ?? '')?.api.props ?? []).filter(prop => !props.some(own => own.name === prop.name)));
+  }
+  const attributes: string[] = [];
+  for (const prop of props) {
+    if (prop.required && prop.name !== 'children' && prop.name !== skip) {
+      attributes.push(`${prop.name}=${placeholderValue(prop, context)}`);
+    }
+  }
+
+  const primitive = component.element?.replace(/^Headless\./, '') ?? '';
+  for (const [name, value] of HEADLESS_REQUIRED_PROPS[primitive] ?? []) {
+    if (!component.props.some(prop => prop.name === name) && name !== skip) {
+      attributes.push(`${name}=${scope.parameter && name === 'value' ? `{${scope.parameter}}` : value.replace('#', String(number ?? 1))}`);
+    }
+  }
+  if (HEADLESS_NOTES[primitive]) {
+    context.notes.push(`\`${component.name}\`: ${HEADLESS_NOTES[primitive]}`);
+  }
+  return attributes;
+}
+
+/**
+ * Makes up a value for a required prop from its type, e.g. `href="#"` or a Navbar for `navbar`
+ */
+function placeholderValue(prop: ComponentProp, context: ExampleContext): string {
+  if (prop.values) {
+    return jsxValue(prop.values[0]);
+  }
+  const type = prop.type;
+  const component = context.owners.get(prop.name[0].toUpperCase() + prop.name.slice(1));
+  if (/React\.React(?:Node|Element)/.test(type) && component) {
+    use(component.api.name, context);
+    return `{<${component.api.name}>{/* … */}</${component.api.name}>}`;
+  }
+  const parameter = /^\(\s*(\w+)/.exec(type)?.[1];
+  if (parameter && type.includes('=>')) {
+    return /=>[^=]*\bstring\b/.test(type) ? `{(${parameter}) => ${parameter} ?? ''}` : '{() => {}}';
+  }
+  if (type.split('|').some(part => part.trim() === 'string')) {
+    return `"${STRING_PLACEHOLDERS[prop.name] ?? humanize(prop.name)}"`;
+  }
+  if (type.endsWith('[]')) {
+    const item = humanize(prop.name.replace(/s$/, ''));
+    return `{[${Array.from({ length: 3 }, (_, i) => `'${item} ${i + 1}'`).join(', ')}]}`;
+  }
+  return type === 'number' ? '{0}' : '{null}';
+}
+
+function placeholderText(component: ComponentApi, scope: RenderScope, number?: number): string {
+  if (scope.parameter && !component.name.endsWith('Description')) {
+    return `{${scope.parameter}}`;
+  }
+  return number === undefined ? humanize(component.name) : `${humanize(component.name)} ${number}`;
+}
+
+/**
+ * Names the argument of a component's render-function `children`, e.g. `value` in
+ * `(value: NonNullable<T>) => React.ReactElement`
+ */
+function renderFunction(component: ComponentApi): string | undefined {
+  const children = component.props.find(prop => prop.name === 'children');
+  return children && children.type.includes('=>') ? /^\(\s*(\w+)/.exec(children.type)?.[1] : undefined;
+}
+
+function use(name: string, context: ExampleContext): void {
+  const module = context.owners.get(name)?.module ?? `./${context.file.name}`;
+  const names = context.used.get(module) ?? new Set<string>();
+  names.add(name);
+  context.used.set(module, names);
+}
+
+/**
+ * Writes a literal type value as a JSX attribute value: `'sm'` → `"sm"`, `2` → `{2}`
+ */
+function jsxValue(value: string): string {
+  return /^['"]/.test(value) ? `"${value.slice(1, -1)}"` : `{${value}}`;
+}
+
+/**
+ * Turns a component name into placeholder text: `TableHeader` → `Table header`
+ */
+function humanize(name: string): string {
+  const words = name.replace(/([a-z0-9])([A-Z])/g, '$1 $2').toLowerCase();
+  return words[0].toUpperCase() + words.slice(1);
+}
+
+function indent(lines: string[]): string[] {
+  return lines.map(line => `  ${line}`);
+}
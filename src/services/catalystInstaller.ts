@@ -0,0 +1,182 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { isJsObject, parseJsLiteral } from '../utils/jsLiteral.js';
+import { isPathWithinBase } from '../utils/security.js';
+import { CatalystComponentLibrary } from './catalystComponents.js';
+
+export const DEFAULT_COMPONENTS_DIR = 'components/ui';
+
+const LOCAL_IMPORT_PATTERN = /(from\s+['"])\.\/([\w-]+)(['"])/g;
+
+// Lockfiles checked in order, with the command that adds packages for that package manager
+const PACKAGE_MANAGERS: Array<[string, string]> = [
+  ['pnpm-lock.yaml', 'pnpm add'],
+  ['yarn.lock', 'yarn add'],
+  ['bun.lockb', 'bun add'],
+  ['bun.lock', 'bun add'],
+  ['package-lock.json', 'npm install']
+];
+
+export type FileAction = 'create' | 'overwrite' | 'unchanged' | 'skip';
+
+export interface InstallOptions {
+  components: string[];
+  projectPath: string; // Absolute path of the project root
+  targetDir?: string; // Relative to the project root; DEFAULT_COMPONENTS_DIR when omitted
+  dryRun?: boolean;
+  overwrite?: boolean; // Replace existing files that differ instead of skipping them
+}
+
+export interface PlannedFile {
+  component: string;
+  path: string; // Relative to the project root
+  action: FileAction;
+  rewrittenImports: number;
+}
+
+export interface InstallReport {
+  targetDir: string;
+  importBase: string; // What sibling imports were rewritten to, e.g. `@/components/ui`; `.` when kept relative
+  files: PlannedFile[]; // Dependencies first
+  packages: string[];
+  installCommand?: string;
+  dryRun: boolean;
+  notes: string[];
+}
+
+interface PathAlias {
+  prefix: string; // e.g. `@/`
+  directory: string; // Absolute directory the prefix maps to
+}
+
+/**
+ * Copies Catalyst components and the sibling files they import into a project, pointing
+ * their imports of each other at the project's path alias from tsconfig.json
+ */
+export class CatalystInstaller {
+  constructor(private readonly library: CatalystComponentLibrary) {}
+
+  /**
+   * Plans the install and, unless it is a dry run, writes the files
+   * @throws McpError if a component does not exist or the project directory is unusable
+   */
+  async install(options: InstallOptions): Promise<InstallReport> {
+    const available = await this.library.list();
+    const unknown = options.components.filter(name => !available.includes(name));
+    if (unknown.length > 0) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Unknown Catalyst component${unknown.length === 1 ? '' : 's'}: ${unknown.join(', ')}. Use list_catalyst_components to see available components.`
+      );
+    }
+
+    const projectPath = path.resolve(options.projectPath);
+    const stat = await fs.stat(projectPath).catch(() => undefined);
+    if (!stat?.isDirectory()) {
+      throw new McpError(ErrorCode.InvalidRequest, `Project directory '${options.projectPath}' does not exist`);
+    }
+    const targetDir = (options.targetDir ?? DEFAULT_COMPONENTS_DIR).replace(/\\/g, '/').replace(/^\.\/|\/+$/g, '');
+    const targetPath = path.resolve(projectPath, targetDir);
+    if (!isPathWithinBase(targetPath, projectPath)) {
+      throw new McpError(ErrorCode.InvalidParams, `target_dir '${targetDir}' must stay inside the project directory`);
+    }
+
+    const notes: string[] = [];
+    if (!existsSync(path.join(projectPath, 'package.json'))) {
+      notes.push('No package.json found in the project directory; check that project_path is the project root.');
+    }
+    const aliases = await readPathAliases(projectPath, notes);
+    const importBase = aliasFor(targetPath, aliases) ?? '.';
+    if (importBase === '.' && aliases.length > 0) {
+      notes.push(`No tsconfig.json path alias covers ${targetDir}, so the components keep their relative imports of each other.`);
+    }
+
+    const bundle = await this.library.bundle(options.components);
+    const installed = new Set(bundle.files.map(file => file.name));
+    const files: PlannedFile[] = [];
+    const writes: Array<[string, string]> = [];
+    for (const file of bundle.files) {
+      let rewrittenImports = 0;
+      const source = importBase === '.' ? file.source : file.source.replace(LOCAL_IMPORT_PATTERN, (match, before: string, name: string, after: string) => {
+        if (!installed.has(name)) {
+          return match;
+        }
+        rewrittenImports++;
+        return `${before}${importBase}/${name}${after}`;
+      });
+
+      const filePath = path.join(targetPath, `${file.name}.tsx`);
+      const existing = await fs.readFile(filePath, 'utf-8').catch(() => undefined);
+      const action: FileAction = existing === undefined ? 'create'
+        : existing === source ? 'unchanged'
+        : options.overwrite ? 'overwrite' : 'skip';
+      files.push({ component: file.name, path: path.relative(projectPath, filePath).split(path.sep).join('/'), action, rewrittenImports });
+      if (action === 'create' || action === 'overwrite') {
+        writes.push([filePath, source]);
+      }
+    }
+
+    if (!options.dryRun && writes.length > 0) {
+      await fs.mkdir(targetPath, { recursive: true });
+      for (const [filePath, source] of writes) {
+        await fs.writeFile(filePath, source, 'utf-8');
+      }
+    }
+
+    const manager = PACKAGE_MANAGERS.find(([lockfile]) => existsSync(path.join(projectPath, lockfile)))?.[1] ?? 'npm install';
+    return {
+      targetDir,
+      importBase,
+      files,
+      packages: bundle.packages,
+      installCommand: bundle.packages.length > 0 ? `${manager} ${bundle.packages.join(' ')}` : undefined,
+      dryRun: options.dryRun ?? false,
+      notes
+    };
+  }
+}
+
+/**
+ * Reads `compilerOptions.paths` wildcard aliases such as `"@/*": ["./src/*"]` from the
+ * project's tsconfig.json, which may contain comments and trailing commas
+ */
+async function readPathAliases(projectPath: string, notes: string[]): Promise<PathAlias[]> {
+  const source = await fs.readFile(path.join(projectPath, 'tsconfig.json'), 'utf-8').catch(() => undefined);
+  if (source === undefined) {
+    notes.push('No tsconfig.json found; the components keep their relative imports of each other.');
+    return [];
+  }
+
+  const config = parseJsLiteral(source);
+  const options = isJsObject(config) ? config.compilerOptions : undefined;
+  if (!isJsObject(options) || !isJsObject(options.paths)) {
+    notes.push('tsconfig.json defines no `compilerOptions.paths`; the components keep their relative imports of each other.');
+    return [];
+  }
+
+  const baseUrl = typeof options.baseUrl === 'string' ? options.baseUrl : '.';
+  const aliases: PathAlias[] = [];
+  for (const [pattern, targets] of Object.entries(options.paths)) {
+    const target = Array.isArray(targets) ? targets[0] : undefined;
+    if (pattern.endsWith('/*') && typeof target === 'string' && target.endsWith('/*')) {
+      aliases.push({ prefix: pattern.slice(0, -1), directory: path.resolve(projectPath, baseUrl, target.slice(0, -2)) });
+    }
+  }
+  return aliases;
+}
+
+/**
+ * Builds the aliased import path of a directory, preferring the alias that maps closest to it
+ * @returns e.g. `@/components/ui`, or undefined when no alias covers the directory
+ */
+function aliasFor(directory: string, aliases: PathAlias[]): string | undefined {
+  const alias = aliases
+    .filter(candidate => isPathWithinBase(directory, candidate.directory))
+    .sort((a, b) => b.directory.length - a.directory.length)[0];
+  if (!alias) {
+    return undefined;
+  }
+  const relative = path.relative(alias.directory, directory).split(path.sep).join('/');
+  return relative ? `${alias.prefix}${relative}` : alias.prefix.replace(/\/$/, '');
+}
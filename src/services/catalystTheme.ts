@@ -0,0 +1,151 @@
+import { RADIUS_STEPS, RadiusStep } from '../types.js';
+import { findClosingBracket } from '../utils/jsLiteral.js';
+import { TailwindClassResolver } from './tailwindClasses.js';
+
+// Radius of Catalyst's buttons, inputs and menus; the other steps move by the same amount
+const CATALYST_RADIUS: RadiusStep = 'lg';
+
+// A palette color inside a class (`bg-zinc-950/5`) or a variable (`var(--color-blue-500)`)
+const COLOR_TOKEN_PATTERN = /(?<=[-:\s'"`([]|^)([a-z]+)-(50|[1-9]00|950)(?![\w.])/g;
+const ROUNDED_PATTERN = /(?<![\w-])rounded(-(?:[trblse]|t[lr]|b[lr]|s[se]|e[se]))?-(xs|sm|md|lg|xl|2xl|3xl|4xl)(?![\w-])/g;
+const RADIUS_VARIABLE_PATTERN = /var\(--radius-(xs|sm|md|lg|xl|2xl|3xl|4xl)\)/g;
+// Entries of variant maps such as `styles.colors` in button.tsx: `'dark/zinc': [` or `blue: '...'`
+const VARIANT_ENTRY_PATTERN = /^[ \t]*(['"]?)([a-z]+(?:\/[a-z]+)?)\1:\s*(?=[['"])/gm;
+
+export interface CatalystThemeOptions {
+  palette?: Record<string, string>; // `zinc` → `slate`, `blue-500` → `indigo-600`, `blue` → `brand`
+  radius?: RadiusStep; // Replaces Catalyst's `lg` control radius
+  preserveVariants?: boolean; // Leave variants named after a remapped color, such as Button's `blue`, as they are
+}
+
+export interface ThemeSubstitution {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface ThemedComponent {
+  source: string;
+  substitutions: ThemeSubstitution[];
+  notes: string[];
+}
+
+/**
+ * Restyles Catalyst component sources: swaps palette colors in class strings and CSS
+ * variables and moves the border radius scale, keeping every other class as it is
+ */
+export class CatalystThemer {
+  constructor(private readonly resolver: TailwindClassResolver) {}
+
+  /**
+   * Lists the palette families of the default theme, such as `zinc` and `blue`
+   */
+  families(): string[] {
+    return this.resolver.themeKeys('color')
+      .filter(key => key.endsWith('-500'))
+      .map(key => key.slice(0, -'-500'.length));
+  }
+
+  /**
+   * Rewrites one component file
+   * @param fileName - Used in notes, e.g. `button.tsx`
+   * @param source - Component source
+   */
+  apply(fileName: string, source: string, options: CatalystThemeOptions): ThemedComponent {
+    const palette = options.palette ?? {};
+    const families = new Set(this.families());
+    const counts = new Map<string, ThemeSubstitution>();
+    const notes: string[] = [];
+    const count = (from: string, to: string) => {
+      const key = `${from}→${to}`;
+      const entry = counts.get(key) ?? { from, to, count: 0 };
+      entry.count++;
+      counts.set(key, entry);
+    };
+
+    // Variant entries named after a color, e.g. Button's `blue` or `dark/zinc`
+    const variants = findColorVariants(source, families);
+    const mappedFamily = (token: string) => token.replace(/-(?:50|[1-9]00|950)$/, '');
+    const isAffected = (key: string) => key.split('/').some(part => Object.keys(palette).some(from => mappedFamily(from) === part));
+    const preserved = options.preserveVariants ? variants.filter(variant => isAffected(variant.key)) : [];
+    const changedVariants = new Set<string>();
+
+    const used = new Set<string>();
+    let result = source.replace(COLOR_TOKEN_PATTERN, (match, family: string, step: string, offset: number) => {
+      const key = palette[match] !== undefined ? match : family;
+      if (palette[key] === undefined || preserved.some(variant => offset >= variant.start && offset < variant.end)) {
+        return match;
+      }
+      used.add(key);
+      const target = key === match ? palette[key] : `${palette[key]}-${step}`;
+      if (target === match) {
+        return match;
+      }
+      const variant = variants.find(entry => offset >= entry.start && offset < entry.end);
+      if (variant && isAffected(variant.key)) {
+        changedVariants.add(variant.key);
+      }
+      count(match, target);
+      return target;
+    });
+
+    if (options.radius !== undefined) {
+      const shift = RADIUS_STEPS.indexOf(options.radius) - RADIUS_STEPS.indexOf(CATALYST_RADIUS);
+      const moved = (step: RadiusStep) => RADIUS_STEPS[Math.min(RADIUS_STEPS.length - 1, Math.max(0, RADIUS_STEPS.indexOf(step) + shift))];
+      result = result
+        .replace(ROUNDED_PATTERN, (match, side: string | undefined, step: RadiusStep) => {
+          const target = `rounded${side ?? ''}-${moved(step)}`;
+          if (target !== match) {
+            count(match, target);
+          }
+          return target;
+        })
+        .replace(RADIUS_VARIABLE_PATTERN, (match, step: RadiusStep) => {
+          // There is no --radius-none; calc() clamps the negative results of `0px - 1px` to 0
+          const target = moved(step) === 'none' ? '0px' : `var(--radius-${moved(step)})`;
+          if (target !== match) {
+            count(match, target);
+          }
+          return target;
+        });
+      if (/rounded-\[[\d.]+(?:rem|px)\]|rounded-\[calc\([\d.]+(?:rem|px)/.test(result)) {
+        notes.push(`Fixed arbitrary radii such as \`rounded-[0.3125rem]\` were left as they are.`);
+      }
+    }
+
+    for (const [from, to] of Object.entries(palette)) {
+      if (!used.has(from)) {
+        notes.push(`${fileName} has no \`${from}\` colors${options.preserveVariants ? ' outside the preserved variants' : ''}.`);
+      }
+      const targetFamily = mappedFamily(to);
+      if (!families.has(targetFamily)) {
+        notes.push(`\`${targetFamily}\` is not a default Tailwind CSS palette; define \`--color-${targetFamily}-50\` through \`--color-${targetFamily}-950\` in \`@theme\` (generate_tailwind_theme builds these ramps).`);
+      }
+    }
+    if (changedVariants.size > 0) {
+      const keys = [...changedVariants].map(key => `\`${key}\``).join(', ');
+      notes.push(`The ${keys} variant${changedVariants.size === 1 ? ' keeps its name but now renders' : 's keep their names but now render'} the new colors, so existing \`color=\` props change with them. Set preserve_variants to keep named colors as they were.`);
+    }
+
+    return { source: result, substitutions: [...counts.values()], notes };
+  }
+}
+
+/**
+ * Finds variant map entries named after palette colors, with the source range of their value
+ */
+function findColorVariants(source: string, families: Set<string>): Array<{ key: string; start: number; end: number }> {
+  const variants: Array<{ key: string; start: number; end: number }> = [];
+  for (const match of source.matchAll(VARIANT_ENTRY_PATTERN)) {
+    const key = match[2];
+    if (!key.split('/').some(part => families.has(part))) {
+      continue;
+    }
+    const start = match.index! + match[0].length;
+    const end = source[start] === '[' ? findClosingBracket(source, start) : source.indexOf('\n', start);
+    if (end > start) {
+      variants.push({ key, start, end });
+    }
+  }
+  return variants;
+}
@@ -0,0 +1,290 @@
+import { DocSection } from '../types.js';
+import { DocsIndexService } from './docsIndexService.js';
+import { IndexCacheService } from './indexCacheService.js';
+import { ParsedDocument, createSingleSectionDocument } from './docsParser.js';
+import { SearchIndex } from './searchIndex.js';
+
+const PACKED_FILE_PATTERN = /^<file path="/;
+const FENCE_OPEN_PATTERN = /^\s*(```+|~~~+)\s*([^\s`{]*)(.*)$/;
+const INFO_FILENAME_PATTERN = /(?:filename|title)\s*[=:]\s*["']([^"']+)["']/;
+const ANNOTATION_FILENAME_PATTERN = /\[!code filename:([^\]]+)\]/;
+const ANNOTATION_LINE_PATTERN = /^\s*(?:\/\/|\/\*|<!--|\{\/\*|#)\s*\[!code [^\]]*\]\s*(?:\*\/\}?|-->)?\s*$/;
+const COMMENT_FILENAME_PATTERN = /^\s*(?:\/\/|\/\*|<!--|#)\s*([\w@.\-/[\]()]+\.[a-z]{1,5})\s*(?:\*\/|-->)?\s*$/i;
+
+const ES_IMPORT_PATTERN = /import\s+(?:type\s+)?([\w*{}\s,$]+?)\s+from\s+['"]([^'"]+)['"]/g;
+const SIDE_EFFECT_IMPORT_PATTERN = /^\s*import\s+['"]([^'"]+)['"]/gm;
+const REQUIRE_PATTERN = /(?:const|let|var)\s+(\{[^}]*\}|[\w$]+)\s*=\s*require\(\s*['"]([^'"]+)['"]\s*\)/g;
+const CSS_IMPORT_PATTERN = /@(?:import|plugin|reference)\s+["']([^"']+)["']/g;
+
+// Canonical names for the language tags used across the docs
+const LANGUAGE_ALIASES: Record<string, string> = {
+  ts: 'typescript',
+  js: 'javascript',
+  mjs: 'javascript',
+  cjs: 'javascript',
+  sh: 'bash',
+  shell: 'bash',
+  zsh: 'bash',
+  terminal: 'bash',
+  yml: 'yaml',
+  md: 'markdown'
+};
+
+// Words that describe the request rather than the code ("examples that use X")
+const QUERY_FILLER_WORDS = /\b(?:code|examples?|snippets?|samples?|uses?|using|show(?:ing)?)\b/gi;
+
+export interface ImportedApi {
+  name: string; // Imported binding; empty for side-effect imports
+  module: string;
+}
+
+export interface CodeExample {
+  corpus: string;
+  language: string;
+  filename?: string;
+  title: string; // Filename or caption, else the title of the section the block appears in
+  code: string;
+  section: DocSection; // Innermost section the block appears in
+  startLine: number; // Line of the opening fence
+  endLine: number; // Line of the closing fence
+  imports: ImportedApi[];
+}
+
+export interface CodeExampleFilter {
+  language?: string;
+  corpus?: string;
+}
+
+/**
+ * Extracts fenced code blocks from the documentation corpora and ranks them against queries.
+ * Each block is indexed with its filename, heading breadcrumb and imported APIs, so
+ * "revalidatePath route handler" finds a route.ts snippet under a Route Handlers heading.
+ */
+export class CodeExampleService {
+  private extracted = new WeakMap<ParsedDocument, CodeExample[]>();
+  private cached?: { documents: ParsedDocument[]; index: Promise<SearchIndex>; examples: Map<ParsedDocument, CodeExample> };
+
+  constructor(
+    private readonly docsIndexService: DocsIndexService,
+    private readonly listCorpora: () => Promise<Record<string, string>>,
+    private readonly indexCache: IndexCacheService = new IndexCacheService(null)
+  ) {}
+
+  /**
+   * Finds code examples relevant to a query
+   * @param query - Free-text query; names of APIs, files and headings all match
+   * @param limit - Maximum number of examples to return
+   * @param filter - Optional language and corpus restrictions
+   * @returns Matching examples, most relevant first
+   */
+  async search(query: string, limit: number, filter: CodeExampleFilter = {}): Promise<CodeExample[]> {
+    const { index, examples } = await this.getIndex();
+    const language = filter.language ? normalizeLanguage(filter.language) : undefined;
+    const cleanedQuery = query.replace(QUERY_FILLER_WORDS, ' ').trim() || query;
+
+    const hits = index.search(cleanedQuery, limit, document => {
+      const example = examples.get(document)!;
+      return (!language || example.language === language) &&
+        (!filter.corpus || example.corpus === filter.corpus);
+    });
+
+    return hits.map(hit => examples.get(hit.document)!);
+  }
+
+  /**
+   * Loads the code example index ahead of the first search
+   */
+  async preload(): Promise<void> {
+    await this.getIndex();
+  }
+
+  private async getIndex() {
+    const corpora = await this.listCorpora();
+    const documents: ParsedDocument[] = [];
+    const sources: Array<{ corpus: string; document: ParsedDocument }> = [];
+
+    for (const [corpus, filePath] of Object.entries(corpora)) {
+      const document = await this.docsIndexService.getDocument(filePath);
+      documents.push(document);
+      sources.push({ corpus, document });
+    }
+
+    if (this.cached &&
+        this.cached.documents.length === documents.length &&
+        this.cached.documents.every((document, i) => document === documents[i])) {
+      return { index: await this.cached.index, examples: this.cached.examples };
+    }
+
+    const examples = new Map<ParsedDocument, CodeExample>();
+    for (const { corpus, document } of sources) {
+      let extracted = this.extracted.get(document);
+      if (!extracted) {
+        extracted = extractCodeExamples(document, corpus);
+        this.extracted.set(document, extracted);
+      }
+      for (const example of extracted) {
+        examples.set(toSearchDocument(example), example);
+      }
+    }
+
+    // The pending index is cached too, so searches during a preload wait for it instead of building another
+    this.cached = { documents, index: this.indexCache.getOrBuild('code-examples', [...examples.keys()]), examples };
+    return { index: await this.cached.index, examples };
+  }
+}
+
+/**
+ * Extracts every fenced code block from a parsed documentation file
+ * @param document - Parsed documentation file
+ * @param corpus - Corpus name recorded on each example
+ * @returns Examples in document order; empty blocks are skipped
+ */
+export function extractCodeExamples(document: ParsedDocument, corpus: string): CodeExample[] {
+  const { lines, sections } = document;
+  const examples: CodeExample[] = [];
+  let sectionIndex = 0;
+
+  for (let i = 0; i < lines.length; i++) {
+    const open = FENCE_OPEN_PATTERN.exec(lines[i]);
+    if (!open) {
+      continue;
+    }
+
+    const fence = open[1];
+    let close = i + 1;
+    // A packed file boundary also ends the block, so one unclosed fence cannot swallow the next file
+    while (close < lines.length && !lines[close].trimStart().startsWith(fence) && !PACKED_FILE_PATTERN.test(lines[close])) {
+      close++;
+    }
+
+    const body = lines.slice(i + 1, close);
+    const startLine = i + 1;
+    i = close;
+
+    const filename = INFO_FILENAME_PATTERN.exec(open[3])?.[1] ?? findFilenameInCode(body);
+    const code = dedent(body.filter(line => !ANNOTATION_LINE_PATTERN.test(line))).join('\n').trimEnd();
+    if (code.trim().length === 0) {
+      continue;
+    }
+
+    // Sections are in document order, so the innermost one is the last that starts before the fence
+    while (sectionIndex + 1 < sections.length && sections[sectionIndex + 1].startLine <= startLine) {
+      sectionIndex++;
+    }
+    const section = sections[sectionIndex];
+    if (!section) {
+      continue;
+    }
+
+    examples.push({
+      corpus,
+      language: normalizeLanguage(open[2] || 'text'),
+      filename,
+      title: filename ?? section.title,
+      code,
+      section,
+      startLine,
+      endLine: Math.min(close + 1, lines.length),
+      imports: parseImports(code)
+    });
+  }
+
+  return examples;
+}
+
+/**
+ * Lists the modules and bindings a snippet imports, from ES imports, require calls and CSS imports
+ * @param code - Source code of a snippet
+ * @returns Imported APIs in order of appearance, without duplicates
+ */
+export function parseImports(code: string): ImportedApi[] {
+  const imports: ImportedApi[] = [];
+  const add = (name: string, module: string) => {
+    if (!imports.some(entry => entry.name === name && entry.module === module)) {
+      imports.push({ name, module });
+    }
+  };
+
+  for (const [, clause, module] of code.matchAll(ES_IMPORT_PATTERN)) {
+    for (const name of parseBindings(clause)) {
+      add(name, module);
+    }
+  }
+  for (const [, module] of code.matchAll(SIDE_EFFECT_IMPORT_PATTERN)) {
+    add('', module);
+  }
+  for (const [, clause, module] of code.matchAll(REQUIRE_PATTERN)) {
+    for (const name of parseBindings(clause)) {
+      add(name, module);
+    }
+  }
+  for (const [, module] of code.matchAll(CSS_IMPORT_PATTERN)) {
+    add('', module);
+  }
+
+  return imports;
+}
+
+/**
+ * Splits an import clause such as `Image, { useState as state, type Foo }` into the imported names
+ */
+function parseBindings(clause: string): string[] {
+  const names: string[] = [];
+  const braced = /\{([^}]*)\}/.exec(clause);
+  const outside = clause.replace(/\{[^}]*\}/, '');
+
+  const namespace = /\*\s+as\s+([\w$]+)/.exec(outside);
+  if (namespace) {
+    names.push(namespace[1]);
+  } else {
+    const defaultName = outside.split(',')[0].trim();
+    if (/^[\w$]+$/.test(defaultName)) {
+      names.push(defaultName);
+    }
+  }
+
+  for (const part of braced?.[1].split(',') ?? []) {
+    const name = part.trim().replace(/^type\s+/, '').split(/\s+as\s+/)[0].trim();
+    if (/^[\w$]+$/.test(name)) {
+      names.push(name);
+    }
+  }
+  return names;
+}
+
+function findFilenameInCode(body: string[]): string | undefined {
+  for (const line of body.slice(0, 3)) {
+    const annotation = ANNOTATION_FILENAME_PATTERN.exec(line);
+    if (annotation) {
+      return annotation[1].trim();
+    }
+  }
+  const firstLine = body.find(line => line.trim().length > 0);
+  return firstLine ? COMMENT_FILENAME_PATTERN.exec(firstLine)?.[1] : undefined;
+}
+
+/**
+ * Wraps an example in a single-section document so it can be ranked by a SearchIndex.
+ * The filename and breadcrumb form the title, so they carry heading weight.
+ */
+function toSearchDocument(example: CodeExample): ParsedDocument {
+  const title = [example.filename, ...example.section.path].filter(Boolean).join(' ');
+  const importLine = example.imports.map(entry => `${entry.name} ${entry.module}`).join(' ');
+  return createSingleSectionDocument(`${importLine}\n${example.code}`, example.section.sourceFile, title);
+}
+
+function normalizeLanguage(language: string): string {
+  const lower = language.toLowerCase();
+  return LANGUAGE_ALIASES[lower] ?? lower;
+}
+
+/**
+ * Removes the common leading indentation, for blocks nested inside JSX or list items
+ */
+function dedent(lines: string[]): string[] {
+  const indents = lines
+    .filter(line => line.trim().length > 0)
+    .map(line => /^\s*/.exec(line)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return common > 0 ? lines.map(line => line.slice(common)) : lines;
+}
@@ -0,0 +1,296 @@
+import { ColorMood, Industry } from '../types.js';
+import { Color, Oklch, clampToSrgb, contrastRatio, formatHex, fromOklch, parseColor, toOklch } from '../utils/color.js';
+import { TailwindClassResolver } from './tailwindClasses.js';
+import { ColorRamp, TailwindThemeGenerator } from './themeGenerator.js';
+
+export type HarmonyKind = 'complementary' | 'analogous' | 'triadic' | 'split-complementary';
+
+export interface ColorAdviceOptions {
+  industry?: Industry;
+  mood?: ColorMood;
+  baseColor?: string; // Any CSS color parseColor accepts
+  mode?: 'light' | 'dark';
+}
+
+export interface Harmony {
+  kind: HarmonyKind;
+  colors: Color[]; // Base color first
+  recommended: boolean;
+  rationale: string[]; // Definition, best-for and tip from the guidance doc
+}
+
+export interface PaletteRole {
+  role: string; // Background, Text, Primary...
+  color: Color;
+  source: string; // Where the value comes from, e.g. `stone-50` or `primary-500`
+  use: string;
+  contrast?: number; // Against the background role, for roles that sit on it
+}
+
+export interface ColorAdvice {
+  base: { color: Color; family: string; source: string };
+  mode: 'light' | 'dark';
+  neutral: string;
+  palette: PaletteRole[];
+  harmonies: Harmony[];
+  ramp: ColorRamp;
+  rationale: string[];
+  warnings: string[];
+}
+
+// Industry headings in color-design-patterns.md, with the harmony their guidance leans toward
+export const INDUSTRIES: Record<Industry, { heading: string; harmony: HarmonyKind }> = {
+  'finance': { heading: 'Finance & Banking', harmony: 'complementary' },
+  'healthcare': { heading: 'Healthcare & Wellness', harmony: 'analogous' },
+  'ecommerce': { heading: 'E-commerce & Retail', harmony: 'complementary' },
+  'technology': { heading: 'Technology & SaaS', harmony: 'split-complementary' },
+  'creative': { heading: 'Creative & Agency', harmony: 'triadic' },
+  'education': { heading: 'Education & Learning', harmony: 'triadic' },
+  'food': { heading: 'Food & Beverage', harmony: 'analogous' },
+  'real-estate': { heading: 'Real Estate & Architecture', harmony: 'complementary' }
+};
+
+// Moods mapped onto the doc's harmony "best for" lines; chroma scales the companion colors,
+// and the base colors are the doc's "premium approach" examples for the matching hue
+export const MOODS: Record<ColorMood, { harmony: HarmonyKind; chroma: number; baseColor: string }> = {
+  trustworthy: { harmony: 'complementary', chroma: 0.7, baseColor: '#1E3A8A' },
+  calm: { harmony: 'analogous', chroma: 0.75, baseColor: '#60A5FA' },
+  energetic: { harmony: 'complementary', chroma: 1, baseColor: '#EA580C' },
+  luxurious: { harmony: 'analogous', chroma: 0.6, baseColor: '#6B21A8' },
+  playful: { harmony: 'triadic', chroma: 1, baseColor: '#EC4899' },
+  minimal: { harmony: 'analogous', chroma: 0.5, baseColor: '#475569' },
+  natural: { harmony: 'analogous', chroma: 0.7, baseColor: '#065F46' }
+};
+
+const HARMONIES: Record<HarmonyKind, { heading: string; offsets: number[]; muted: number[] }> = {
+  'complementary': { heading: 'Complementary Scheme', offsets: [180], muted: [0] }, // "mute the complement"
+  'analogous': { heading: 'Analogous Scheme', offsets: [-30, 30], muted: [] },
+  'triadic': { heading: 'Triadic Scheme', offsets: [120, 240], muted: [1] }, // "mute at least one of the three"
+  'split-complementary': { heading: 'Split-Complementary Scheme', offsets: [150, 210], muted: [] }
+};
+
+const HARMONY_ORDER: HarmonyKind[] = ['split-complementary', 'complementary', 'analogous', 'triadic'];
+
+// Chroma kept when the doc asks for a color to be muted
+const MUTED_CHROMA = 0.6;
+
+// Share of the maximum sRGB chroma above which a color reads as "overly saturated": the gamut
+// edge, where #FF0000 and #00BFFF sit
+const CHEAP_SATURATION = 0.995;
+
+/**
+ * Turns the color design guide into concrete palettes: picks a base color from the inputs,
+ * computes harmonies and tints in OKLCH against the default Tailwind palette, assigns 60-30-10
+ * roles for light or dark mode and quotes the guide's reasoning next to each decision.
+ */
+export class ColorPaletteAdvisor {
+  private readonly generator: TailwindThemeGenerator;
+
+  /**
+   * @param guide - Markdown of color-design-patterns.md
+   */
+  constructor(private readonly guide: string, private readonly resolver: TailwindClassResolver) {
+    this.generator = new TailwindThemeGenerator(resolver);
+  }
+
+  advise(options: ColorAdviceOptions): ColorAdvice {
+    const mode = options.mode ?? 'light';
+    const rationale: string[] = [];
+    const warnings: string[] = [];
+    const industry = options.industry ? INDUSTRIES[options.industry] : undefined;
+    const industrySection = industry ? this.section(industry.heading) : undefined;
+    const mood = options.mood ? MOODS[options.mood] : undefined;
+
+    // Base color: the caller's, else the industry example's first color, else the mood's
+    const exampleColors = industrySection ? [...(field(industrySection, 'Example') ?? '').matchAll(/#[0-9a-f]{6}\b/gi)].map(match => match[0]) : [];
+    const [baseText, baseSource] = options.baseColor
+      ? [options.baseColor, 'your base color']
+      : exampleColors.length > 0
+        ? [exampleColors[0], `the ${industry!.heading} example in the guide`]
+        : [mood?.baseColor ?? '#3B82F6', mood ? `the guide's premium approach for the ${options.mood} mood` : 'the guide\'s default brand blue'];
+    const base = { ...parseColor(baseText)!, alpha: 1 };
+    const baseLch = toOklch(base);
+    const family = hueFamily(baseLch);
+
+    const psychology = this.psychology(family);
+    if (psychology) {
+      rationale.push(`**${family}** — ${psychology.title}: ${psychology.fields['Psychology'] ?? ''}`.trim());
+      if (psychology.fields['Premium approach']) {
+        rationale.push(`Premium ${family.toLowerCase()}: ${psychology.fields['Premium approach']}.`);
+      }
+    }
+    if (industrySection && industry) {
+      const lines = ['Primary', 'Accent', 'Avoid'].map(label => field(industrySection, label) && `${label}: ${field(industrySection, label)}`).filter(Boolean);
+      rationale.push(`${industry.heading} — ${lines.join('; ')}.`);
+      const avoid = field(industrySection, 'Avoid') ?? '';
+      if (new RegExp(`\\b${family}\\b`, 'i').test(avoid)) {
+        warnings.push(`The guide says to avoid ${family.toLowerCase()} in ${industry.heading}: "${avoid}".`);
+      }
+    }
+    if (psychology && options.industry) {
+      const avoidFor = psychology.fields['Avoid for'] ?? '';
+      const keyword = industry!.heading.split(/[ &]+/)[0];
+      if (avoidFor.toLowerCase().includes(keyword.toLowerCase())) {
+        warnings.push(`${family} is listed as "avoid for: ${avoidFor}" in the color psychology section.`);
+      }
+    }
+
+    const maxChroma = toOklch(clampToSrgb(fromOklch({ l: baseLch.l, c: 0.4, h: baseLch.h }))).c;
+    if (baseLch.c > 0.05 && baseLch.c >= maxChroma * CHEAP_SATURATION) {
+      const muted = clampToSrgb(fromOklch({ ...baseLch, c: baseLch.c * 0.7 }));
+      warnings.push(`The base color is near full saturation, which the guide lists under cheap-looking palettes ("Pure, bright colors at 100% saturation"). A 30% desaturated version is ${formatHex(muted)}.`);
+    }
+
+    // Harmonies, the recommended one first. Companions come from the 400-600 steps so a navy
+    // base still gets accents bright enough for CTAs
+    const ramp = this.generator.buildRamp('primary', base);
+    const anchor = ramp.steps.findIndex(step => step.input);
+    const seed = ramp.steps[Math.min(6, Math.max(4, anchor))].color;
+    const preferred = mood?.harmony ?? industry?.harmony ?? 'split-complementary';
+    const chroma = mood?.chroma ?? 0.85;
+    const harmonies = [preferred, ...HARMONY_ORDER.filter(kind => kind !== preferred)].map(kind => this.harmony(kind, base, seed, chroma, kind === preferred));
+    if (baseLch.c < 0.03) {
+      warnings.push('The base color is nearly gray, so rotating its hue gives little color; pass a chromatic baseColor for distinct harmonies, or use the gray with a single accent.');
+    }
+    if (chroma < 1) {
+      rationale.push(`Companion colors keep ${Math.round(chroma * 100)}% of the base chroma: "Use desaturated versions of colors (reduce saturation by 20-40%)".`);
+    }
+    const rule = this.section('60-30-10 Rule');
+    if (rule) {
+      rationale.push('Roles follow the 60-30-10 rule: 60% dominant neutral, 30% primary, 10% accent for CTAs.');
+    }
+
+    const neutral = this.generator.pickNeutral(baseLch);
+    const palette = this.palette(ramp, harmonies[0], neutral, mode);
+    if (mode === 'dark') {
+      rationale.push('Dark mode: "Reduce saturation in dark mode (colors look brighter)" and "Use softer blacks (#1A1A1A not #000000)", so the background is a near-black gray and brand colors step lighter and lose some chroma.');
+    } else {
+      rationale.push('Light mode: the background is an off-white rather than pure #FFFFFF, which the guide calls out as cheap-looking and straining when used everywhere.');
+    }
+    for (const role of palette) {
+      const minimum = role.role.endsWith('text') || role.role === 'Text' ? 4.5 : 3;
+      if (role.contrast !== undefined && role.contrast < minimum) {
+        warnings.push(`${role.role} (${role.source}) has ${role.contrast.toFixed(1)}:1 contrast against the background, below the ${minimum}:1 WCAG AA minimum${minimum === 3 ? ' for large text and UI components' : ''}.`);
+      }
+    }
+
+    return { base: { color: base, family, source: baseSource }, mode, neutral, palette, harmonies, ramp, rationale, warnings };
+  }
+
+  private harmony(kind: HarmonyKind, base: Color, seed: Color, chroma: number, recommended: boolean): Harmony {
+    const { heading, offsets, muted } = HARMONIES[kind];
+    const colors = [base, ...offsets.map((offset, i) => {
+      const rotated = toOklch(this.generator.rotateHue(seed, offset));
+      return clampToSrgb(fromOklch({ ...rotated, c: rotated.c * chroma * (muted.includes(i) ? MUTED_CHROMA : 1) }));
+    })];
+
+    const section = this.section(heading) ?? '';
+    const rationale = ['Definition', 'Best for', 'Pro tip']
+      .map(label => field(section, label) && `${label}: ${field(section, label)}`)
+      .filter((line): line is string => Boolean(line));
+    return { kind, colors, recommended, rationale };
+  }
+
+  /**
+   * Assigns colors to roles. Light mode sits on an off-white neutral; dark mode on a soft black,
+   * with dark brand colors a step lighter and all of them 15% less chroma, per the guide's dark
+   * mode principles.
+   */
+  private palette(ramp: ColorRamp, harmony: Harmony, neutral: string, mode: 'light' | 'dark'): PaletteRole[] {
+    const gray = (step: string) => ({ color: parseColor(this.resolver.themeValue(`--color-${neutral}-${step}`) ?? '')!, source: `${neutral}-${step}` });
+    const anchor = ramp.steps.findIndex(step => step.input);
+    const soften = (color: Color): Color => {
+      const lch = toOklch(color);
+      return clampToSrgb(fromOklch({ l: Math.max(lch.l, 0.65), c: lch.c * 0.85, h: lch.h }));
+    };
+    const darkStep = anchor >= 5 ? anchor - 1 : anchor;
+
+    const [background, surface, text, muted] = mode === 'light'
+      ? [gray('50'), { color: parseColor('#ffffff')!, source: 'white' }, gray('900'), gray('600')]
+      : [gray('900'), gray('800'), gray('50'), gray('400')];
+    const primary = mode === 'light'
+      ? { color: ramp.steps[anchor].color, source: `primary-${ramp.steps[anchor].step}` }
+      : { color: soften(ramp.steps[darkStep].color), source: `primary-${ramp.steps[darkStep].step}, adjusted for dark mode` };
+    const accents = harmony.colors.slice(1).map(color => mode === 'light' ? color : soften(color));
+
+    const roles: PaletteRole[] = [
+      { role: 'Background', ...background, use: '60% — page and section backgrounds' },
+      { role: 'Surface', ...surface, use: 'Cards, popovers and inputs' },
+      { role: 'Text', ...text, use: 'Body text and headings' },
+      { role: 'Muted text', ...muted, use: 'Secondary text, captions' },
+      { role: 'Primary', ...primary, use: '30% — navigation, links, selected states, primary buttons' }
+    ];
+    accents.forEach((color, i) => {
+      roles.push({
+        role: i === 0 ? 'Accent' : 'Second accent',
+        color,
+        source: `${harmony.kind} ${i + 1}`,
+        use: i === 0 ? '10% — CTAs and highlights' : 'Sparingly: illustrations, charts, tags'
+      });
+    });
+    for (const role of roles.slice(2)) {
+      role.contrast = contrastRatio(role.color, background.color);
+    }
+    return roles;
+  }
+
+  /**
+   * Body of a `###` section of the guide, up to the next heading
+   */
+  private section(heading: string): string | undefined {
+    const start = this.guide.indexOf(`### ${heading}\n`);
+    if (start === -1) {
+      return undefined;
+    }
+    const body = this.guide.slice(start + heading.length + 5);
+    const end = body.search(/^#{2,3} /m);
+    return end === -1 ? body : body.slice(0, end);
+  }
+
+  /**
+   * Entry of the "Emotional Impact by Color" list, e.g. `**Blue - Trust & Professionalism**`
+   */
+  private psychology(family: string): { title: string; fields: Record<string, string> } | undefined {
+    const match = new RegExp(`\\*\\*${family} - ([^*]+)\\*\\*\\n((?:- .*\\n?)+)`).exec(this.guide);
+    if (!match) {
+      return undefined;
+    }
+    const fields: Record<string, string> = {};
+    for (const line of match[2].split('\n')) {
+      const entry = /^- \*\*([^*]+)\*\*:\s*(.+)$/.exec(line.trim());
+      if (entry) {
+        fields[entry[1]] = entry[2];
+      }
+    }
+    return { title: match[1], fields };
+  }
+}
+
+/**
+ * Reads a `**Label**: value` line
+ */
+function field(section: string, label: string): string | undefined {
+  return new RegExp(`\\*\\*${label}\\*\\*:?\\s*:?\\s*(.+)`).exec(section)?.[1].trim();
+}
+
+/**
+ * Names a color the way the guide's psychology section does
+ */
+function hueFamily({ l, c, h }: Oklch): string {
+  if (c < 0.03) {
+    return l < 0.3 ? 'Black' : l > 0.93 ? 'White' : 'Gray';
+  }
+  if (h < 35 || h >= 345) {
+    return 'Red';
+  }
+  if (h < 65) {
+    return 'Orange';
+  }
+  if (h < 110) {
+    return 'Yellow';
+  }
+  if (h < 185) {
+    return 'Green';
+  }
+  return h < 270 ? 'Blue' : 'Purple';
+}
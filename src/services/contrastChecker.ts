@@ -0,0 +1,236 @@
+import { Color, apcaContrast, blend, clampToSrgb, contrastRatio, formatHex, fromOklch, parseColor, toOklch } from '../utils/color.js';
+import { TailwindClassResolver } from './tailwindClasses.js';
+
+export type ContrastLevel = 'AA' | 'AAA';
+
+export interface ColorPair {
+  foreground: string;
+  background: string;
+}
+
+export interface ResolvedColor {
+  input: string;
+  color: Color; // As given, possibly translucent
+  token?: { family: string; step: string }; // Set for palette tokens such as `zinc-500/50`
+}
+
+export interface ContrastSuggestion {
+  value: string; // Token such as `zinc-600` or a hex color
+  ratio: number;
+  apca: number;
+}
+
+export interface ContrastResult {
+  foreground: string;
+  background: string;
+  error?: string; // Set when a color could not be read; nothing else is
+  ratio?: number; // WCAG 2 contrast ratio, 1-21
+  apca?: number; // APCA Lc
+  passes?: { aa: boolean; aaLarge: boolean; aaa: boolean; aaaLarge: boolean };
+  suggestion?: ContrastSuggestion; // Nearest foreground in the same hue that meets the requested level
+  notes: string[];
+}
+
+// WCAG 2 minimums for normal and large (24px, or 18.66px bold) text
+export const WCAG_THRESHOLDS = { aa: 4.5, aaLarge: 3, aaa: 7, aaaLarge: 4.5 };
+
+// APCA bronze-level guidance: minimum |Lc| for each use
+const APCA_LEVELS: Array<[number, string]> = [
+  [90, 'preferred for body text'],
+  [75, 'minimum for body text'],
+  [60, 'minimum for other content text (16px+ at normal weight)'],
+  [45, 'minimum for headlines and large text (24px+ or 16px+ bold)'],
+  [30, 'minimum for spot text, placeholders and non-text UI'],
+  [15, 'minimum for non-text elements such as dividers']
+];
+
+// APCA Lc a suggestion should also reach: content text for AA, body text for AAA
+const APCA_TARGETS: Record<ContrastLevel, number> = { AA: 60, AAA: 75 };
+
+// Opacity modifiers tried on a translucent token before moving to another step
+const ALPHA_STEPS = [0.1, 0.15, 0.2, 0.25, 0.3, 0.4, 0.5, 0.6, 0.7, 0.75, 0.8, 0.9, 0.95, 1];
+
+interface SuggestionTarget {
+  ratio: number; // WCAG 2 ratio
+  lc: number; // APCA |Lc|
+}
+
+// Utility prefixes stripped from tokens, so `text-zinc-500` and `bg-white/5` resolve like `zinc-500`
+const UTILITY_PREFIX_PATTERN = /^(?:text|bg|border(?:-[xytrblse])?|divide|ring|ring-offset|outline|fill|stroke|decoration|placeholder|caret|accent|shadow|inset-shadow|from|via|to)-/;
+
+// 1% OKLCH lightness steps tried in each direction when adjusting a raw color
+const LIGHTNESS_STEPS = 100;
+
+/**
+ * Checks text and background color pairs against WCAG 2 and APCA. Colors can be CSS values or
+ * Tailwind palette tokens with opacity modifiers; translucent colors are composited first.
+ */
+export class ContrastChecker {
+  constructor(private readonly resolver: TailwindClassResolver) {}
+
+  /**
+   * Checks one pair
+   * @param level - Level the suggestion should meet for normal-size text
+   * @param backdrop - What a translucent background sits on; white when omitted
+   */
+  check(pair: ColorPair, level: ContrastLevel = 'AA', backdrop = 'white'): ContrastResult {
+    const result: ContrastResult = { foreground: pair.foreground, background: pair.background, notes: [] };
+    const foreground = this.resolve(pair.foreground);
+    const background = this.resolve(pair.background);
+    const base = this.resolve(backdrop);
+    const unreadable = [foreground, background, base].find(color => typeof color === 'string');
+    if (typeof unreadable === 'string') {
+      result.error = unreadable;
+      return result;
+    }
+    const [fg, bg, under] = [foreground, background, base] as ResolvedColor[];
+
+    const backgroundColor = blend(bg.color, blend(under.color, parseColor('white')!));
+    const textColor = blend(fg.color, backgroundColor);
+    if (bg.color.alpha < 1) {
+      result.notes.push(`The background is translucent; it was composited over ${backdrop} to ${formatHex(backgroundColor)}. Pass \`backdrop\` if it sits on something else.`);
+    }
+    if (fg.color.alpha < 1) {
+      result.notes.push(`The foreground is translucent; it was composited over the background to ${formatHex(textColor)}.`);
+    }
+
+    const ratio = contrastRatio(textColor, backgroundColor);
+    result.ratio = ratio;
+    result.apca = apcaContrast(textColor, backgroundColor);
+    result.passes = {
+      aa: ratio >= WCAG_THRESHOLDS.aa,
+      aaLarge: ratio >= WCAG_THRESHOLDS.aaLarge,
+      aaa: ratio >= WCAG_THRESHOLDS.aaa,
+      aaaLarge: ratio >= WCAG_THRESHOLDS.aaaLarge
+    };
+
+    const target = level === 'AAA' ? WCAG_THRESHOLDS.aaa : WCAG_THRESHOLDS.aa;
+    if (ratio < target) {
+      const suggest = (goal: SuggestionTarget) => fg.token
+        ? this.suggestToken(fg, backgroundColor, goal) ?? this.suggestColor(textColor, backgroundColor, goal)
+        : this.suggestColor(textColor, backgroundColor, goal);
+      // A suggestion should pass APCA too; one that meets WCAG 2 alone is offered with a note
+      result.suggestion = suggest({ ratio: target, lc: APCA_TARGETS[level] });
+      if (!result.suggestion) {
+        result.suggestion = suggest({ ratio: target, lc: 0 });
+        if (result.suggestion) {
+          result.notes.push(`No color in the foreground's hue reaches both ${target}:1 and APCA Lc ${APCA_TARGETS[level]} on this background; \`${result.suggestion.value}\` meets WCAG 2 only, at APCA Lc ${Math.abs(result.suggestion.apca).toFixed(1)} (${ContrastChecker.describeApca(result.suggestion.apca)}). Consider changing the background.`);
+        }
+      }
+      if (!result.suggestion) {
+        result.notes.push(`No color in the foreground's hue reaches ${target}:1 on this background; change the background instead.`);
+      }
+    }
+    return result;
+  }
+
+  /**
+   * Describes what an APCA value is good for
+   */
+  static describeApca(lc: number): string {
+    const level = APCA_LEVELS.find(([minimum]) => Math.abs(lc) >= minimum);
+    return level ? level[1] : 'too low for any text';
+  }
+
+  /**
+   * Reads a CSS color or a palette token such as `zinc-950/5`, `text-white` or `bg-[#f5f5f5]`
+   * @returns The color, or an error message
+   */
+  private resolve(input: string): ResolvedColor | string {
+    const text = input.trim();
+    const direct = parseColor(text);
+    if (direct) {
+      return { input, color: direct };
+    }
+
+    const match = /^(.+?)(?:\/(\d+(?:\.\d+)?|\[(\d*\.?\d+)(%?)\]))?$/.exec(text.replace(UTILITY_PREFIX_PATTERN, ''));
+    if (!match) {
+      return `Unrecognized color \`${input}\``;
+    }
+    const [, name, modifier, arbitraryAlpha, percent] = match;
+    const alpha = arbitraryAlpha !== undefined
+      ? parseFloat(arbitraryAlpha) / (percent ? 100 : 1)
+      : modifier !== undefined ? parseFloat(modifier) / 100 : 1;
+    if (!(alpha >= 0 && alpha <= 1)) {
+      return `Invalid opacity modifier in \`${input}\``;
+    }
+
+    const arbitrary = /^\[(.+)\]$/.exec(name);
+    const value = arbitrary ? arbitrary[1].replace(/_/g, ' ') : this.resolver.themeValue(`--color-${name}`);
+    const color = value && parseColor(value);
+    if (!color) {
+      return `\`${input}\` is not a CSS color or a Tailwind CSS palette color`;
+    }
+    const token = /^([a-z]+)-(\d+)$/.exec(name);
+    return {
+      input,
+      color: { ...color, alpha: color.alpha * alpha },
+      token: token ? { family: token[1], step: token[2] } : undefined
+    };
+  }
+
+  /**
+   * Returns the passing step of the token's palette family closest to the original, searching both
+   * lighter and darker steps. A translucent token first tries higher opacities of its own step, and
+   * other steps keep its opacity modifier when they still pass with it
+   */
+  private suggestToken(token: ResolvedColor, background: Color, target: SuggestionTarget): ContrastSuggestion | undefined {
+    const { family, step } = token.token!;
+    const steps = this.resolver.themeKeys('color')
+      .filter(key => key.startsWith(`${family}-`) && /^\d+$/.test(key.slice(family.length + 1)))
+      .map(key => key.slice(family.length + 1));
+    const index = steps.indexOf(step);
+    const color = (candidate: string) => parseColor(this.resolver.themeValue(`--color-${family}-${candidate}`)!)!;
+    // Nearest steps first; at equal distance, the direction away from the background (darker on
+    // light backgrounds) comes first
+    const darker = contrastRatio(color(steps[steps.length - 1]), background) > contrastRatio(color(steps[0]), background);
+    const candidates = steps
+      .map((candidate, i) => ({ candidate, distance: Math.abs(i - index), away: i > index === darker }))
+      .filter(({ distance }) => distance > 0 || token.color.alpha < 1)
+      .sort((a, b) => a.distance - b.distance || Number(b.away) - Number(a.away))
+      .map(({ candidate }) => candidate);
+    const alphas = token.color.alpha < 1 ? [token.color.alpha, ...ALPHA_STEPS.filter(alpha => alpha > token.color.alpha)] : [1];
+
+    for (const candidate of candidates) {
+      for (const alpha of alphas) {
+        const text = blend({ ...color(candidate), alpha }, background);
+        const ratio = contrastRatio(text, background);
+        const apca = apcaContrast(text, background);
+        if (ratio >= target.ratio && Math.abs(apca) >= target.lc) {
+          const modifier = alpha < 1 ? `/${Math.round(alpha * 100)}` : '';
+          return { value: `${family}-${candidate}${modifier}`, ratio, apca };
+        }
+      }
+    }
+    return undefined;
+  }
+
+  /**
+   * Moves the color's OKLCH lightness toward black or white, keeping hue and chroma, until it
+   * passes; the smallest change that passes wins
+   */
+  private suggestColor(text: Color, background: Color, target: SuggestionTarget): ContrastSuggestion | undefined {
+    const { l, c, h } = toOklch(text);
+    let best: ContrastSuggestion | undefined;
+    let bestShift = Infinity;
+    for (const direction of [-1, 1]) {
+      for (let i = 1; i <= LIGHTNESS_STEPS; i++) {
+        const lightness = l + direction * i * 0.01;
+        if (lightness < 0 || lightness > 1) {
+          break;
+        }
+        const candidate = clampToSrgb(fromOklch({ l: lightness, c, h }));
+        const ratio = contrastRatio(candidate, background);
+        const apca = apcaContrast(candidate, background);
+        if (ratio >= target.ratio && Math.abs(apca) >= target.lc) {
+          if (i < bestShift) {
+            best = { value: formatHex(candidate), ratio, apca };
+            bestShift = i;
+          }
+          break;
+        }
+      }
+    }
+    return best;
+  }
+}
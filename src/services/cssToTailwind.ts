@@ -0,0 +1,986 @@
+import { Color, JUST_NOTICEABLE_DIFFERENCE, colorDistance, formatOklch, parseColor, toOklch } from '../utils/color.js';
+import { JsValue, findClosingBracket, isJsObject, parseJsLiteral } from '../utils/jsLiteral.js';
+import { TailwindClassResolver, UtilityTemplate } from './tailwindClasses.js';
+import { TailwindClassLinter } from './tailwindLint.js';
+
+export type MatchKind = 'exact' | 'approximate' | 'arbitrary' | 'omitted';
+
+export interface ConvertedDeclaration {
+  css: string; // Declarations the classes stand for, after shorthands are split, e.g. `padding-inline: 16px`
+  context?: string; // Pseudo-classes and at-rules the declarations sit under, e.g. `:hover`
+  classes: string[];
+  kind: MatchKind;
+  note?: string;
+}
+
+export interface ConvertedElement {
+  selector?: string; // Element the classes go on; absent for bare declarations and style objects
+  classes: string[]; // Sorted the way Tailwind CSS orders classes
+  declarations: ConvertedDeclaration[];
+  notes: string[];
+}
+
+export interface CssConversion {
+  source: 'css' | 'style-object';
+  elements: ConvertedElement[];
+}
+
+interface Declaration {
+  property: string;
+  value: string;
+  important: boolean;
+  position: number; // Index in the rule, kept by the longhands a shorthand expands to
+}
+
+interface InputRule {
+  selector: string;
+  atRules: string[];
+  declarations: Declaration[];
+  notes: string[];
+}
+
+interface Match {
+  classes: string[];
+  kind: MatchKind;
+  note?: string;
+}
+
+interface Context {
+  fontSize?: number; // Element font size in px, for em and unitless line-height values
+  pseudoElement: boolean;
+}
+
+// Top, right, bottom and left longhands, with the logical and all-sides properties they collapse into
+const BOX_GROUPS = [
+  ['padding', 'padding-top', 'padding-right', 'padding-bottom', 'padding-left', 'padding-block', 'padding-inline'],
+  ['margin', 'margin-top', 'margin-right', 'margin-bottom', 'margin-left', 'margin-block', 'margin-inline'],
+  ['inset', 'top', 'right', 'bottom', 'left', 'inset-block', 'inset-inline'],
+  ['border-width', 'border-top-width', 'border-right-width', 'border-bottom-width', 'border-left-width', 'border-block-width', 'border-inline-width'],
+  ['border-color', 'border-top-color', 'border-right-color', 'border-bottom-color', 'border-left-color', 'border-block-color', 'border-inline-color'],
+  ['border-radius', 'border-top-left-radius', 'border-top-right-radius', 'border-bottom-right-radius', 'border-bottom-left-radius']
+];
+
+// Declarations Preflight or the browser already apply, which design tools export anyway
+const DEFAULTS: Record<string, { value: string; reason: string }> = {
+  'border-style': { value: 'solid', reason: 'Preflight gives every element `border-style: solid`, so a border width alone draws a solid border.' },
+  'box-sizing': { value: 'border-box', reason: 'Preflight sets `box-sizing: border-box` on every element.' },
+  'font-style': { value: 'normal', reason: '`normal` is the default font style.' }
+};
+
+// React style properties that take plain numbers rather than pixels
+const UNITLESS_PROPERTIES = new Set([
+  'animation-iteration-count', 'aspect-ratio', 'column-count', 'columns', 'fill-opacity', 'flex', 'flex-grow', 'flex-shrink',
+  'font-weight', 'grid-area', 'grid-column', 'grid-column-end', 'grid-column-start', 'grid-row', 'grid-row-end',
+  'grid-row-start', 'line-clamp', 'line-height', 'opacity', 'order', 'orphans', 'scale', 'stroke-opacity', 'tab-size',
+  'widows', 'z-index', 'zoom', '-webkit-line-clamp'
+]);
+
+const BORDER_STYLES = new Set(['none', 'hidden', 'dotted', 'dashed', 'solid', 'double', 'groove', 'ridge', 'inset', 'outset']);
+const FONT_WEIGHTS: Record<string, string> = { normal: '400', bold: '700' };
+const PLACEHOLDER_PATTERN = /<[\w-]+>/;
+const NUMBER_PATTERN = /^-?(?:\d+\.?\d*|\.\d+)$/;
+const CUSTOM_PROPERTY_PATTERN = /^var\((--[\w-]+)\s*(?:,\s*(.+))?\)$/;
+
+/**
+ * Converts CSS, such as the declarations design tools export, to Tailwind CSS v4 classes
+ * by matching each value against the utilities and theme the docs define
+ */
+export class CssToTailwindConverter {
+  private readonly linter: TailwindClassLinter;
+  private palette?: Array<{ name: string; color: Color }>;
+
+  constructor(private readonly resolver: TailwindClassResolver) {
+    this.linter = new TailwindClassLinter(resolver);
+  }
+
+  /**
+   * Converts a stylesheet, a declaration list or a React style object
+   * @param input - CSS such as `.card { padding: 8px 16px; }` or `padding: 8px`, or `{ paddingTop: 8 }`
+   * @returns Classes for each element the input styles, with how each declaration was matched
+   */
+  convert(input: string): CssConversion {
+    const styleObject = parseStyleObject(input);
+    const rules = styleObject ?? parseCss(input);
+    const elements = new Map<string, ConvertedElement>();
+
+    for (const rule of rules) {
+      const { base, pseudos } = splitSelector(rule.selector);
+      const element = elements.get(base) ?? { selector: base || undefined, classes: [], declarations: [], notes: [] };
+      elements.set(base, element);
+      element.notes.push(...rule.notes);
+
+      const variants = [
+        ...rule.atRules.map(atRule => this.variantForAtRule(atRule, element.notes)),
+        ...pseudos.map(pseudo => this.variantForPseudo(pseudo))
+      ];
+      const prefix = variants.map(variant => `${variant}:`).join('');
+      const context = [...pseudos, ...rule.atRules].join(' ') || undefined;
+      const pseudoElement = variants.some(variant => variant === 'before' || variant === 'after');
+
+      for (const converted of this.convertDeclarations(rule.declarations, pseudoElement)) {
+        element.declarations.push({ ...converted, context, classes: converted.classes.map(name => `${prefix}${name}`) });
+      }
+    }
+
+    for (const element of elements.values()) {
+      element.classes = this.linter.sortClasses([...new Set(element.declarations.flatMap(declaration => declaration.classes))]);
+    }
+    return { source: styleObject ? 'style-object' : 'css', elements: [...elements.values()].filter(element => element.declarations.length > 0 || element.notes.length > 0) };
+  }
+
+  private convertDeclarations(input: Declaration[], pseudoElement: boolean): ConvertedDeclaration[] {
+    const results: Array<ConvertedDeclaration & { position: number }> = [];
+    const add = (covered: Declaration[], match: Match) => results.push({
+      css: formatDeclarations(covered),
+      ...match,
+      position: Math.min(...covered.map(declaration => declaration.position))
+    });
+    const latest = new Map<string, Declaration>();
+    for (const declaration of input.flatMap(expandShorthand)) {
+      const previous = latest.get(declaration.property);
+      if (previous?.important && !declaration.important) {
+        add([declaration], { classes: [], kind: 'omitted', note: 'Overridden by an earlier `!important` declaration of the same property.' });
+        continue;
+      }
+      if (previous) {
+        add([previous], { classes: [], kind: 'omitted', note: 'Overridden by a later declaration of the same property.' });
+        latest.delete(declaration.property);
+      }
+      latest.set(declaration.property, declaration);
+    }
+
+    const declarations = collapseBoxGroups([...latest.values()]);
+    const fontSize = declarations.find(declaration => declaration.property === 'font-size');
+    const context: Context = { fontSize: fontSize && this.toPx(fontSize.value, 'font-size', { pseudoElement }), pseudoElement };
+    const remaining = new Set(declarations);
+
+    const typography = this.matchFontSize(declarations, context);
+    if (typography) {
+      typography.covered.forEach(declaration => remaining.delete(declaration));
+      add(typography.covered, typography.match);
+    }
+
+    for (const { declarations: covered, match } of this.matchCombinedRows([...remaining], context)) {
+      covered.forEach(declaration => remaining.delete(declaration));
+      add(covered, match);
+    }
+
+    const matched = [...remaining].map(declaration => ({ covered: [declaration], match: this.matchDeclaration(declaration, context) }));
+
+    // width and height with the same value become one size-* class
+    const single = (property: string) => matched.find(entry => entry.covered[0].property === property && entry.match.classes.length === 1);
+    const width = single('width');
+    const height = single('height');
+    if (width && height && width.match.classes[0].slice(1) === height.match.classes[0].slice(1)) {
+      const size = `size${width.match.classes[0].slice(1)}`;
+      if (!this.resolver.resolve(size).error) {
+        matched.splice(matched.indexOf(height), 1);
+        width.covered.push(...height.covered);
+        width.match = { ...width.match, classes: [size], note: [width.match.note, height.match.note].filter(Boolean).join(' ') || undefined };
+      }
+    }
+
+    for (const { covered, match } of matched) {
+      add(covered, match);
+    }
+    return results.sort((a, b) => a.position - b.position).map(({ position, ...result }) => result);
+  }
+
+  /**
+   * Maps font-size to a theme text size, folding line-height into it (`text-sm/6`) when both are set
+   */
+  private matchFontSize(declarations: Declaration[], context: Context): { covered: Declaration[]; match: Match } | undefined {
+    const fontSize = declarations.find(declaration => declaration.property === 'font-size');
+    if (!fontSize || context.fontSize === undefined) {
+      return undefined;
+    }
+
+    const important = fontSize.important ? '!' : '';
+    const sizes = this.resolver.themeKeys('text')
+      .map(key => ({ key, px: this.toPx(this.resolver.themeValue(`--text-${key}`) ?? '', 'font-size', context) }))
+      .filter((entry): entry is { key: string; px: number } => entry.px !== undefined);
+    const size = sizes.find(entry => Math.abs(entry.px - context.fontSize!) < 0.01)?.key;
+    if (!size) {
+      const nearest = sizes.sort((a, b) => Math.abs(a.px - context.fontSize!) - Math.abs(b.px - context.fontSize!))[0];
+      return {
+        covered: [fontSize],
+        match: {
+          classes: [`text-[${encodeArbitrary(fontSize.value)}]${important}`],
+          kind: 'arbitrary',
+          note: nearest ? `No theme font size is ${fontSize.value}; the nearest is \`text-${nearest.key}\` (${formatNumber(nearest.px)}px).` : undefined
+        }
+      };
+    }
+
+    const lineHeight = declarations.find(declaration => declaration.property === 'line-height');
+    const defaultLineHeight = this.toPx(this.themeResolved(`var(--text-${size}--line-height)`), 'line-height', context);
+    if (!lineHeight) {
+      return {
+        covered: [fontSize],
+        match: {
+          classes: [`text-${size}${important}`],
+          kind: 'exact',
+          note: defaultLineHeight === undefined ? undefined : `\`text-${size}\` also sets line-height to ${Number(defaultLineHeight.toFixed(2))}px; add a \`/<line-height>\` modifier to change it.`
+        }
+      };
+    }
+
+    const lineHeightPx = this.toPx(lineHeight.value, 'line-height', context);
+    if (lineHeightPx !== undefined && defaultLineHeight !== undefined && Math.abs(lineHeightPx - defaultLineHeight) < 0.01) {
+      return { covered: [fontSize, lineHeight], match: { classes: [`text-${size}${important}`], kind: 'exact' } };
+    }
+    const leading = this.matchDeclaration({ ...lineHeight, important: false }, context);
+    const modifier = leading.kind === 'exact' && /^leading-[\d.]+$/.test(leading.classes[0] ?? '')
+      ? leading.classes[0].slice('leading-'.length)
+      : `[${encodeArbitrary(lineHeight.value)}]`;
+    return { covered: [fontSize, lineHeight], match: { classes: [`text-${size}/${modifier}${important}`], kind: 'exact' } };
+  }
+
+  /**
+   * Finds fixed utilities that set several of the declarations at once, such as `truncate` or `sr-only`
+   */
+  private matchCombinedRows(declarations: Declaration[], context: Context): Array<{ declarations: Declaration[]; match: Match }> {
+    const byProperty = new Map(declarations.map(declaration => [declaration.property, declaration]));
+    const templates = new Set(declarations.flatMap(declaration => this.resolver.utilitiesFor(declaration.property)));
+    const candidates = [...templates]
+      .filter(template => template.declarations.length > 1 && !PLACEHOLDER_PATTERN.test(template.pattern) &&
+        !template.declarations.some(declaration => declaration.property === 'font-size'))
+      .sort((a, b) => b.declarations.length - a.declarations.length);
+
+    const matches: Array<{ declarations: Declaration[]; match: Match }> = [];
+    for (const template of candidates) {
+      const covered = template.declarations.map(({ property, value }) => {
+        const declaration = byProperty.get(property);
+        return declaration && this.sameValue(this.themeResolved(value), declaration.value, property, context) ? declaration : undefined;
+      });
+      if (covered.every(Boolean) && new Set(covered.map(declaration => declaration!.important)).size === 1) {
+        covered.forEach(declaration => byProperty.delete(declaration!.property));
+        matches.push({
+          declarations: covered as Declaration[],
+          match: { classes: [`${template.pattern}${covered[0]!.important ? '!' : ''}`], kind: 'exact' }
+        });
+      }
+    }
+    return matches;
+  }
+
+  private matchDeclaration(declaration: Declaration, context: Context): Match {
+    const { property, value, important } = declaration;
+    const finish = (match: Match): Match => important ? { ...match, classes: match.classes.map(name => `${name}!`) } : match;
+
+    const fallback = DEFAULTS[property];
+    if (fallback && fallback.value === value.toLowerCase()) {
+      return { classes: [], kind: 'omitted', note: fallback.reason };
+    }
+    if (property === 'content' && context.pseudoElement && /^(?:""|'')$/.test(value)) {
+      return { classes: [], kind: 'omitted', note: '`before:` and `after:` set `content` for you.' };
+    }
+
+    const templates = this.resolver.utilitiesFor(property).filter(template => template.declarations.length === 1);
+    if (templates.length === 0) {
+      return finish({
+        classes: [`[${property}:${encodeArbitrary(value)}]`],
+        kind: 'arbitrary',
+        note: `No utility sets \`${property}\`, so this uses an arbitrary property.`
+      });
+    }
+
+    const match = this.matchVariable(templates, property, value, context) ??
+      this.matchFixed(templates, property, value, context) ??
+      this.matchColor(templates, property, value) ??
+      this.matchNumeric(templates, property, value, context);
+    if (match) {
+      return finish(match);
+    }
+
+    if (/radius$/.test(property) && (this.toPx(value, property, context) ?? 0) >= 999) {
+      const full = templates.find(template => template.declarations[0].value === 'calc(infinity * 1px)');
+      if (full) {
+        return finish({ classes: [full.pattern], kind: 'approximate', note: `\`${full.pattern}\` uses an infinite radius, which draws the same pill shape as ${value}.` });
+      }
+    }
+
+    return finish(this.matchArbitrary(templates, property, value, context));
+  }
+
+  /**
+   * Maps `var(--x)` to the theme utility for that variable, or to the `(--x)` custom property syntax
+   */
+  private matchVariable(templates: UtilityTemplate[], property: string, value: string, context: Context): Match | undefined {
+    const variable = CUSTOM_PROPERTY_PATTERN.exec(value);
+    if (!variable) {
+      return undefined;
+    }
+
+    const themed = templates.find(template => template.declarations[0].value === `var(${variable[1]})` && !variable[2]) ??
+      (/^--color-/.test(variable[1]) && !variable[2]
+        ? templates.find(template => template.pattern.includes('<color>') && this.resolver.themeValue(variable[1]) !== undefined)
+        : undefined);
+    if (themed && !PLACEHOLDER_PATTERN.test(themed.pattern)) {
+      return { classes: [themed.pattern], kind: 'exact' };
+    }
+    if (themed) {
+      return { classes: [themed.pattern.replace('<color>', variable[1].slice('--color-'.length))], kind: 'exact' };
+    }
+
+    const custom = templates.find(template => /\((?:[\w-]+:)?<custom-property>\)/.test(template.pattern) &&
+      template.declarations[0].value === 'var(<custom-property>)');
+    if (!custom) {
+      return undefined;
+    }
+    const argument = variable[2] ? `${variable[1]},${encodeArbitrary(variable[2])}` : variable[1];
+    const className = custom.pattern.replace('<custom-property>', argument);
+    if (!this.setsProperty(className, property)) {
+      return undefined;
+    }
+
+    let note: string | undefined;
+    if (variable[2]) {
+      const withoutVariable = this.matchDeclaration({ property, value: variable[2], important: false, position: 0 }, context);
+      if (withoutVariable.kind !== 'arbitrary' && withoutVariable.classes.length > 0) {
+        note = `Keeps the design variable \`${variable[1]}\`; its fallback alone maps to \`${withoutVariable.classes.join(' ')}\`.`;
+      }
+    }
+    return { classes: [className], kind: 'exact', note };
+  }
+
+  /**
+   * Matches rows without placeholders, including theme tokens such as `rounded-lg` or `tracking-tight`
+   */
+  private matchFixed(templates: UtilityTemplate[], property: string, value: string, context: Context): Match | undefined {
+    const fixed = templates
+      .filter(template => !PLACEHOLDER_PATTERN.test(template.pattern))
+      .filter(template => this.sameValue(this.themeResolved(template.declarations[0].value), value, property, context))
+      .sort((a, b) => a.pattern.length - b.pattern.length);
+    return fixed.length > 0 ? { classes: [fixed[0].pattern], kind: 'exact' } : undefined;
+  }
+
+  /**
+   * Maps a color to the nearest theme color, with an opacity modifier for translucent colors
+   */
+  private matchColor(templates: UtilityTemplate[], property: string, value: string): Match | undefined {
+    const color = parseColor(value);
+    const template = templates.find(candidate => candidate.pattern.includes('<color>'));
+    if (!color || !template) {
+      return undefined;
+    }
+
+    const nearest = this.nearestThemeColor(color);
+    // Hex alpha steps by 1/255, so the nearest whole percentage is as close as the value can be written
+    const alpha = Math.round(color.alpha * 100);
+    const modifier = alpha >= 100 ? '' : `/${alpha}`;
+    const className = `${template.pattern.replace('<color>', nearest.name)}${modifier}`;
+    const described = `${nearest.name} (${this.resolver.themeValue(`--color-${nearest.name}`)})`;
+
+    if (nearest.distance < 0.002) {
+      return { classes: [className], kind: 'exact' };
+    }
+    if (nearest.legacy) {
+      return {
+        classes: [className],
+        kind: 'approximate',
+        note: `${value} is ${nearest.name} from the Tailwind CSS v3 palette; v4 keeps its lightness and hue but raises its chroma: ${this.resolver.themeValue(`--color-${nearest.name}`)}.`
+      };
+    }
+    if (nearest.distance < JUST_NOTICEABLE_DIFFERENCE) {
+      return {
+        classes: [className],
+        kind: 'approximate',
+        note: `${value} is close to ${described}: ΔE ${nearest.distance.toFixed(3)} in OKLab, below the ${JUST_NOTICEABLE_DIFFERENCE} where differences start to show.`
+      };
+    }
+    const arbitrary = this.matchArbitrary(templates, property, value, { pseudoElement: false });
+    return {
+      ...arbitrary,
+      note: `No theme color is close to ${value} (${formatOklch(color)}); the nearest is ${described}, ΔE ${nearest.distance.toFixed(3)}.`
+    };
+  }
+
+  /**
+   * Solves value-taking rows for their value: spacing multiples (`p-<number>`), fractions (`w-<fraction>`)
+   * and plain numbers with units (`opacity-<number>`, `duration-<number>`)
+   */
+  private matchNumeric(templates: UtilityTemplate[], property: string, value: string, context: Context): Match | undefined {
+    const spacing = this.toPx(this.themeResolved('var(--spacing)'), property, context);
+    const candidates: string[] = [];
+
+    for (const template of templates) {
+      const placeholder = PLACEHOLDER_PATTERN.exec(template.pattern)?.[0];
+      const css = template.declarations[0].value;
+      if (!placeholder || !/^<(?:number|fraction|percentage|angle)>$/.test(placeholder)) {
+        continue;
+      }
+
+      const spacingForm = /^calc\(var\(--spacing\) \* (-?)<[\w-]+>\)$/.exec(css);
+      const fractionForm = /^calc\(<fraction> \* (-?)100%\)$/.exec(css);
+      if (spacingForm) {
+        const px = this.toPx(value, property, context);
+        const steps = px === undefined || !spacing ? undefined : (px / spacing) * (spacingForm[1] ? -1 : 1);
+        if (steps !== undefined && steps >= 0 && Math.abs(steps * 4 - Math.round(steps * 4)) < 1e-6) {
+          candidates.push(template.pattern.replace(placeholder, formatNumber(steps)));
+        }
+      } else if (fractionForm) {
+        const percent = /^(-?\d*\.?\d+)%$/.exec(value);
+        const fraction = percent && toFraction((Number(percent[1]) / 100) * (fractionForm[1] ? -1 : 1));
+        if (fraction) {
+          candidates.push(template.pattern.replace(placeholder, fraction));
+        }
+      } else {
+        const pattern = new RegExp(`^${escapeRegExp(css).replace(escapeRegExp(placeholder), '(\\d*\\.?\\d+)')}$`);
+        for (const form of numericForms(value, property)) {
+          const number = pattern.exec(form)?.[1];
+          if (number !== undefined) {
+            candidates.push(template.pattern.replace(placeholder, formatNumber(Number(number))));
+            break;
+          }
+        }
+      }
+    }
+
+    // Negative values reuse the positive utility with a leading dash (-mt-2, -translate-x-4)
+    if (candidates.length === 0 && value.startsWith('-') && !value.startsWith('--')) {
+      const positive = this.matchNumeric(templates, property, value.slice(1), context);
+      const negated = positive?.classes.map(name => `-${name}`);
+      return negated && negated.every(name => this.setsProperty(name, property)) ? { classes: negated, kind: 'exact' } : undefined;
+    }
+
+    const best = candidates.filter(name => this.setsProperty(name, property)).sort((a, b) => a.length - b.length)[0];
+    return best ? { classes: [best], kind: 'exact' } : undefined;
+  }
+
+  /**
+   * Falls back to an arbitrary value (`rounded-[10px]`), naming the closest theme token when there is one
+   */
+  private matchArbitrary(templates: UtilityTemplate[], property: string, value: string, context: Context): Match {
+    const encoded = encodeArbitrary(value);
+    const arbitrary = templates
+      .filter(template => template.pattern.endsWith('[<value>]') && template.declarations[0].value === '<value>')
+      .sort((a, b) => a.pattern.length - b.pattern.length);
+    const hint = parseColor(value) ? 'color' : 'length';
+
+    let className: string | undefined;
+    for (const template of arbitrary) {
+      for (const candidate of [`[${encoded}]`, `[${hint}:${encoded}]`]) {
+        const name = template.pattern.replace('[<value>]', candidate);
+        if (this.setsProperty(name, property)) {
+          className = name;
+          break;
+        }
+      }
+      if (className) {
+        break;
+      }
+    }
+
+    const nearest = this.nearestToken(templates, property, value, context);
+    return {
+      classes: [className ?? `[${property}:${encoded}]`],
+      kind: 'arbitrary',
+      note: nearest ? `No theme value matches ${value}; the nearest is \`${nearest.className}\` (${nearest.value}).` : undefined
+    };
+  }
+
+  private nearestToken(templates: UtilityTemplate[], property: string, value: string, context: Context): { className: string; value: string } | undefined {
+    const px = this.toPx(value, property, context);
+    if (px === undefined) {
+      return undefined;
+    }
+
+    const tokens = templates
+      .filter(template => !PLACEHOLDER_PATTERN.test(template.pattern) && !template.pattern.startsWith('-'))
+      .map(template => ({ className: template.pattern, resolved: this.themeResolved(template.declarations[0].value) }))
+      .map(token => ({ ...token, px: this.toPx(token.resolved, property, context) }))
+      .filter((token): token is { className: string; resolved: string; px: number } => token.px !== undefined && Number.isFinite(token.px));
+
+    const spacing = templates.find(template => /^calc\(var\(--spacing\) \* <[\w-]+>\)$/.test(template.declarations[0].value));
+    const unit = this.toPx(this.themeResolved('var(--spacing)'), property, context);
+    if (spacing && unit && px >= 0) {
+      const steps = Math.round((px / unit) * 4) / 4;
+      tokens.push({ className: spacing.pattern.replace(PLACEHOLDER_PATTERN, formatNumber(steps)), resolved: '', px: steps * unit });
+    }
+
+    const nearest = tokens.sort((a, b) => Math.abs(a.px - px) - Math.abs(b.px - px))[0];
+    if (!nearest || Math.abs(nearest.px - px) > Math.max(4, px * 0.25)) {
+      return undefined;
+    }
+    const described = /px$/.test(nearest.resolved) || !nearest.resolved ? `${formatNumber(nearest.px)}px` : `${nearest.resolved}, ${formatNumber(nearest.px)}px`;
+    return { className: nearest.className, value: described };
+  }
+
+  /**
+   * Finds the theme color closest to a color. Tailwind CSS v4 kept the lightness and hue of every
+   * v3 palette color and raised its chroma, so a v3 hex value, which design kits still use,
+   * counts as that color when lightness and hue agree.
+   */
+  private nearestThemeColor(color: Color): { name: string; distance: number; legacy: boolean } {
+    if (!this.palette) {
+      this.palette = this.resolver.themeKeys('color')
+        .map(name => ({ name, color: parseColor(this.resolver.themeValue(`--color-${name}`) ?? '') }))
+        .filter((entry): entry is { name: string; color: Color } => entry.color !== undefined);
+    }
+
+    let best = { name: 'black', distance: Infinity, legacy: false };
+    let legacy: typeof best | undefined;
+    const lch = toOklch(color);
+    for (const entry of this.palette) {
+      const distance = colorDistance(color, entry.color);
+      if (distance < best.distance) {
+        best = { name: entry.name, distance, legacy: false };
+      }
+      const theme = toOklch(entry.color);
+      const hueDifference = Math.abs(((lch.h - theme.h + 540) % 360) - 180);
+      if (!legacy && Math.abs(lch.l - theme.l) < 0.003 && hueDifference < 0.5 && lch.c > 0.02 && lch.c <= theme.c) {
+        legacy = { name: entry.name, distance, legacy: true };
+      }
+    }
+    return best.distance >= JUST_NOTICEABLE_DIFFERENCE && legacy ? legacy : best;
+  }
+
+  private variantForAtRule(atRule: string, notes: string[]): string {
+    const normalized = atRule
+      .replace(/\s+/g, ' ')
+      .replace(/^@media (?:only )?screen and /, '@media ')
+      .replace(/\((min|max)-width:\s*([^)]+)\)/g, (_, bound: string, width: string) => {
+        const px = /^(\d*\.?\d+)px$/.exec(width.trim());
+        return `(width ${bound === 'min' ? '>=' : '<'} ${px ? `${formatNumber(Number(px[1]) / 16)}rem` : width.trim()})`;
+      });
+    const known = this.resolver.variantForHeader(normalized);
+    if (known) {
+      if (/max-width/.test(atRule)) {
+        notes.push(`\`${known}:\` applies below the breakpoint, excluding it; \`${atRule}\` includes it.`);
+      }
+      return known;
+    }
+
+    const width = /^@media \((min|max)-width:\s*([^)]+)\)$/.exec(atRule.trim());
+    return width ? `${width[1]}-[${width[2].trim()}]` : `[${atRule.trim().replace(/\s+/g, '_')}]`;
+  }
+
+  private variantForPseudo(pseudo: string): string {
+    const known = this.resolver.variantForHeader(`&${pseudo}`);
+    if (known) {
+      return known;
+    }
+    const negated = /^:not\((:[\w-]+)\)$/.exec(pseudo);
+    const inner = negated && this.resolver.variantForHeader(`&${negated[1]}`);
+    return inner ? `not-${inner}` : `[&${pseudo.replace(/\s+/g, '_')}]`;
+  }
+
+  private setsProperty(className: string, property: string): boolean {
+    const resolved = this.resolver.resolve(className);
+    return !resolved.error && resolved.declarations.some(declaration => declaration.property === property);
+  }
+
+  /**
+   * Replaces theme variables with their values and evaluates simple divisions, so
+   * `var(--text-sm--line-height)` reads `1.4286`
+   */
+  private themeResolved(value: string): string {
+    let resolved = value;
+    for (let i = 0; i < 4 && resolved.includes('var(--'); i++) {
+      resolved = resolved.replace(/var\((--[\w.-]+)\)/g, (whole, name: string) => this.resolver.themeValue(name) ?? whole);
+    }
+    return resolved.replace(/calc\(\s*(\d*\.?\d+)\s*\/\s*(\d*\.?\d+)\s*\)/g, (_, a: string, b: string) => formatNumber(Number(a) / Number(b)));
+  }
+
+  private sameValue(template: string, value: string, property: string, context: Context): boolean {
+    const a = normalizeValue(template, property);
+    const b = normalizeValue(value, property);
+    if (a === b) {
+      return true;
+    }
+
+    // A unitless line height scales with the font size, so it only matches another unitless one
+    if (property === 'line-height' && NUMBER_PATTERN.test(a) !== NUMBER_PATTERN.test(b)) {
+      return false;
+    }
+
+    const colorA = parseColor(a);
+    const colorB = parseColor(b);
+    if (colorA && colorB) {
+      return colorDistance(colorA, colorB) < 0.002 && Math.abs(colorA.alpha - colorB.alpha) < 0.005;
+    }
+
+    const pxA = this.toPx(a, property, context);
+    const pxB = this.toPx(b, property, context);
+    if (pxA !== undefined && pxB !== undefined) {
+      return Math.abs(pxA - pxB) < 0.01;
+    }
+    return NUMBER_PATTERN.test(a) && NUMBER_PATTERN.test(b) && Math.abs(Number(a) - Number(b)) < 1e-4;
+  }
+
+  /**
+   * Converts a length to pixels, resolving em against the font size and unitless line heights
+   * @returns Pixels, or undefined when the value is not a length this can compare
+   */
+  private toPx(value: string, property: string, context: Context): number | undefined {
+    const trimmed = value.trim();
+    if (trimmed === 'calc(infinity * 1px)') {
+      return Infinity;
+    }
+    const match = /^(-?\d*\.?\d+)(px|rem|em|%)?$/.exec(trimmed);
+    if (!match) {
+      return undefined;
+    }
+    const number = Number(match[1]);
+    const relative = property === 'line-height' || property === 'letter-spacing' ? context.fontSize : undefined;
+    switch (match[2]) {
+      case 'px':
+        return number;
+      case 'rem':
+        return number * 16;
+      case 'em':
+        return relative === undefined && property !== 'font-size' ? undefined : number * (relative ?? 16);
+      case '%':
+        return property === 'line-height' && relative !== undefined ? (number / 100) * relative : undefined;
+      default:
+        if (number === 0) {
+          return 0;
+        }
+        return property === 'line-height' && relative !== undefined ? number * relative : undefined;
+    }
+  }
+}
+
+/**
+ * Splits shorthands into the longhands utilities set, e.g. `border: 1px solid #e5e7eb`
+ * into border-width, border-style and border-color
+ */
+function expandShorthand(declaration: Declaration): Declaration[] {
+  const { property, value } = declaration;
+  const parts = splitTopLevel(value, ' ');
+  const make = (name: string, part: string): Declaration => ({ ...declaration, property: name, value: part });
+  const group = BOX_GROUPS.find(([shorthand]) => shorthand === property);
+
+  if (group && parts.length > 1 && parts.length <= 4 && !value.includes('/')) {
+    const [top, right = top, bottom = top, left = right] = parts;
+    return [make(group[1], top), make(group[2], right), make(group[3], bottom), make(group[4], left)];
+  }
+
+  switch (property) {
+    case 'gap':
+      return parts.length === 2 ? [make('row-gap', parts[0]), make('column-gap', parts[1])] : [declaration];
+    case 'overflow':
+      return parts.length === 2 ? [make('overflow-x', parts[0]), make('overflow-y', parts[1])] : [declaration];
+    case 'background':
+      if (parts.length === 1 && (parseColor(value) || CUSTOM_PROPERTY_PATTERN.test(value))) {
+        return [make('background-color', value)];
+      }
+      return /^(?:(?:repeating-)?(?:linear|radial|conic)-gradient|url)\(/.test(value) && parts.length === 1 ? [make('background-image', value)] : [declaration];
+    case 'text-decoration':
+      return parts.length === 1 && /^(?:none|underline|overline|line-through)$/.test(value) ? [make('text-decoration-line', value)] : [declaration];
+    case 'flex': {
+      if (parts.length === 1 || /^1 1 0(?:%|px)?$/.test(value)) {
+        return [make('flex', parts.length === 1 ? value : '1')];
+      }
+      const [grow, second, basis] = parts;
+      const shrinkGiven = NUMBER_PATTERN.test(second);
+      return [
+        make('flex-grow', grow),
+        ...(shrinkGiven ? [make('flex-shrink', second)] : []),
+        make('flex-basis', (shrinkGiven ? basis : second) ?? '0%')
+      ];
+    }
+    default: {
+      const border = /^(border(?:-(?:top|right|bottom|left))?|outline)$/.exec(property);
+      if (!border) {
+        return [declaration];
+      }
+      const expanded: Declaration[] = [];
+      for (const part of parts) {
+        if (BORDER_STYLES.has(part)) {
+          expanded.push(make(property === 'outline' ? 'outline-style' : 'border-style', part));
+        } else if (/^(?:\d*\.?\d+[a-z]*|thin|medium|thick)$/.test(part)) {
+          expanded.push(make(`${property}-width`, part));
+        } else {
+          expanded.push(make(`${property}-color`, part));
+        }
+      }
+      return expanded;
+    }
+  }
+}
+
+/**
+ * Folds matching sides back together: equal top and bottom become `*-block`, all four equal the shorthand
+ */
+function collapseBoxGroups(declarations: Declaration[]): Declaration[] {
+  let result = declarations;
+  for (const [all, top, right, bottom, left, block, inline] of BOX_GROUPS) {
+    const find = (name: string) => result.find(declaration => declaration.property === name);
+    const sides = [find(top), find(right), find(bottom), find(left)];
+    const same = (a?: Declaration, b?: Declaration) => !!a && !!b && a.value === b.value && a.important === b.important;
+    const replace = (removed: Array<Declaration | undefined>, added: Declaration) => {
+      const index = Math.min(...removed.map(declaration => result.indexOf(declaration!)));
+      result = result.filter(declaration => !removed.includes(declaration));
+      result.splice(index, 0, added);
+    };
+
+    if (sides.every((side, _, list) => same(side, list[0]))) {
+      replace(sides, { ...sides[0]!, property: all });
+      continue;
+    }
+    if (block && same(sides[0], sides[2])) {
+      replace([sides[0], sides[2]], { ...sides[0]!, property: block });
+    }
+    if (inline && same(sides[1], sides[3])) {
+      replace([sides[1], sides[3]], { ...sides[1]!, property: inline });
+    }
+  }
+  return result;
+}
+
+function parseCss(input: string): InputRule[] {
+  const rules: InputRule[] = [];
+  const text = input.replace(/\/\*[\s\S]*?\*\//g, '');
+
+  const visit = (body: string, selector: string, atRules: string[]) => {
+    const rule: InputRule = { selector, atRules, declarations: [], notes: [] };
+    rules.push(rule);
+    let start = 0;
+    let pos = 0;
+    while (pos < body.length) {
+      const char = body[pos];
+      if (char === '(' || char === '"' || char === "'") {
+        const end = char === '(' ? findClosingBracket(body, pos) : body.indexOf(char, pos + 1);
+        pos = end === -1 ? body.length : end + 1;
+        continue;
+      }
+      if (char === ';') {
+        addDeclaration(rule, body.slice(start, pos));
+        start = pos + 1;
+      } else if (char === '{') {
+        const header = body.slice(start, pos).trim();
+        const close = findClosingBracket(body, pos);
+        const inner = body.slice(pos + 1, close === -1 ? body.length : close);
+        if (/^@(?:media|supports|container)\b/.test(header)) {
+          visit(inner, selector, [...atRules, header]);
+        } else if (header.startsWith('@')) {
+          rule.notes.push(`Skipped \`${header.split(/\s/)[0]}\`: at-rules other than @media, @supports and @container have no class equivalent.`);
+        } else {
+          for (const part of splitTopLevel(header, ',')) {
+            visit(inner, nestSelector(selector, part), atRules);
+          }
+        }
+        pos = close === -1 ? body.length : close + 1;
+        start = pos;
+        continue;
+      }
+      pos++;
+    }
+    addDeclaration(rule, body.slice(start));
+  };
+
+  visit(text, '', []);
+  return rules.filter(rule => rule.declarations.length > 0 || rule.notes.length > 0);
+}
+
+function addDeclaration(rule: InputRule, text: string): void {
+  const match = /^\s*(--[\w-]+|-?[a-zA-Z][\w-]*)\s*:\s*([\s\S]+?)\s*$/.exec(text);
+  if (!match) {
+    if (text.trim()) {
+      rule.notes.push(`Skipped \`${text.trim()}\`: not a declaration.`);
+    }
+    return;
+  }
+  const important = /\s*!important$/i.test(match[2]);
+  const property = match[1].startsWith('--') ? match[1] : match[1].toLowerCase();
+  rule.declarations.push({
+    property,
+    value: match[2].replace(/\s*!important$/i, '').replace(/\s+/g, ' '),
+    important,
+    position: rule.declarations.length
+  });
+}
+
+/**
+ * Reads a React style object such as `{ paddingTop: 8, color: 'red' }` or `style={{ ... }}`;
+ * nested objects keyed by `:hover` or `@media ...` become rules of their own
+ * @returns The rules, or undefined when the input is not an object literal
+ */
+function parseStyleObject(input: string): InputRule[] | undefined {
+  let text = input.trim().replace(/^style\s*=\s*/, '');
+  if (/^\{\s*\{/.test(text) && /\}\s*\}$/.test(text)) {
+    text = text.slice(1, -1).trim();
+  }
+  if (!text.startsWith('{')) {
+    return undefined;
+  }
+
+  let value: JsValue;
+  try {
+    value = parseJsLiteral(text);
+  } catch {
+    return undefined;
+  }
+  if (!isJsObject(value)) {
+    return undefined;
+  }
+
+  const rules: InputRule[] = [];
+  const visit = (object: Record<string, JsValue>, selector: string, atRules: string[]) => {
+    const rule: InputRule = { selector, atRules, declarations: [], notes: [] };
+    rules.push(rule);
+    for (const [key, entry] of Object.entries(object)) {
+      if (isJsObject(entry)) {
+        if (key.startsWith('@')) {
+          visit(entry, selector, [...atRules, key]);
+        } else {
+          visit(entry, nestSelector(selector, key), atRules);
+        }
+        continue;
+      }
+      const property = key.startsWith('--') ? key : key.replace(/^(Webkit|Moz|ms)(?=[A-Z])/, '-$1').replace(/[A-Z]/g, char => `-${char.toLowerCase()}`).toLowerCase();
+      if (typeof entry === 'number') {
+        const unitless = UNITLESS_PROPERTIES.has(property) || property.startsWith('--') || entry === 0;
+        addDeclaration(rule, `${property}: ${unitless ? entry : `${entry}px`}`);
+      } else if (typeof entry === 'string') {
+        addDeclaration(rule, `${property}: ${entry}`);
+      } else {
+        rule.notes.push(`Skipped \`${key}\`: its value is computed at runtime.`);
+      }
+    }
+  };
+  visit(value, '', []);
+  return rules.filter(rule => rule.declarations.length > 0 || rule.notes.length > 0);
+}
+
+function nestSelector(parent: string, selector: string): string {
+  const trimmed = selector.trim();
+  if (trimmed.includes('&')) {
+    return trimmed.replace(/&/g, parent);
+  }
+  return parent ? `${parent} ${trimmed}` : trimmed;
+}
+
+/**
+ * Splits the trailing pseudo-classes and pseudo-elements off a selector, since those become variants
+ * @returns The element's selector and pseudos such as `:hover` and `::before`, in order
+ */
+function splitSelector(selector: string): { base: string; pseudos: string[] } {
+  let depth = 0;
+  let compound = 0;
+  let pseudoStart = -1;
+  for (let i = 0; i < selector.length; i++) {
+    const char = selector[i];
+    if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && /[\s>+~]/.test(char)) {
+      compound = i + 1;
+      pseudoStart = -1;
+    } else if (depth === 0 && char === ':' && pseudoStart === -1) {
+      pseudoStart = i;
+    }
+  }
+  if (pseudoStart === -1 || pseudoStart < compound) {
+    return { base: selector.trim() === '&' ? '' : selector.trim(), pseudos: [] };
+  }
+
+  const pseudos: string[] = [];
+  const text = selector.slice(pseudoStart);
+  depth = 0;
+  let start = 0;
+  for (let i = 1; i < text.length; i++) {
+    const char = text[i];
+    if (char === '(') {
+      depth++;
+    } else if (char === ')') {
+      depth--;
+    } else if (depth === 0 && char === ':' && text[i - 1] !== ':') {
+      pseudos.push(text.slice(start, i));
+      start = i;
+    }
+  }
+  pseudos.push(text.slice(start));
+
+  const base = selector.slice(0, pseudoStart).trim();
+  return { base: base === '&' ? '' : base, pseudos };
+}
+
+function splitTopLevel(text: string, separator: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let quote = '';
+  let current = '';
+  for (const char of text.trim()) {
+    if (quote) {
+      quote = char === quote ? '' : quote;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+    } else if (char === '(' || char === '[') {
+      depth++;
+    } else if (char === ')' || char === ']') {
+      depth--;
+    } else if (depth === 0 && (separator === ' ' ? /\s/.test(char) : char === separator)) {
+      if (current.trim()) {
+        parts.push(current.trim());
+      }
+      current = '';
+      continue;
+    }
+    current += char;
+  }
+  if (current.trim()) {
+    parts.push(current.trim());
+  }
+  return parts;
+}
+
+function normalizeValue(value: string, property: string): string {
+  const normalized = value.trim().replace(/\s+/g, ' ').replace(/\s*,\s*/g, ', ').replace(/'/g, '"');
+  if (property === 'font-weight') {
+    return FONT_WEIGHTS[normalized] ?? normalized;
+  }
+  return /^[\w-]+$/.test(normalized) ? normalized.toLowerCase() : normalized;
+}
+
+/**
+ * Spellings of a numeric value the reference rows may use, e.g. `0.5` opacity as `50%`
+ * and `0.2s` as `200ms`
+ */
+function numericForms(value: string, property: string): string[] {
+  const forms = [value.replace(/\s+/g, ' ')];
+  const seconds = /^(\d*\.?\d+)s$/.exec(value);
+  if (seconds) {
+    forms.push(`${formatNumber(Number(seconds[1]) * 1000)}ms`);
+  }
+  if (/opacity$/.test(property) && NUMBER_PATTERN.test(value)) {
+    forms.push(`${formatNumber(Number(value) * 100)}%`);
+  }
+  const degrees = /^(\d*\.?\d+)deg$/.exec(value);
+  if (degrees) {
+    forms.push(degrees[1]);
+  }
+  return forms;
+}
+
+function toFraction(value: number): string | undefined {
+  if (Number.isInteger(value)) {
+    return undefined;
+  }
+  for (const denominator of [2, 3, 4, 5, 6, 12]) {
+    const numerator = value * denominator;
+    if (numerator > 0 && Math.abs(numerator - Math.round(numerator)) < 1e-3) {
+      return `${Math.round(numerator)}/${denominator}`;
+    }
+  }
+  return undefined;
+}
+
+function encodeArbitrary(value: string): string {
+  return value.trim().replace(/_/g, '\\_').replace(/\s*,\s*/g, ',').replace(/\s+/g, '_');
+}
+
+function formatDeclarations(declarations: Declaration[]): string {
+  return declarations.map(({ property, value, important }) => `${property}: ${value}${important ? ' !important' : ''}`).join('; ');
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+}
@@ -0,0 +1,202 @@
+import { DocSection } from '../types.js';
+import { tokenize } from '../utils/textAnalysis.js';
+import { CodeExample, extractCodeExamples } from './codeExampleService.js';
+import { ParsedDocument } from './docsParser.js';
+
+// Removed and added sections this similar are reported as one renamed section
+const RENAME_SIMILARITY = 0.6;
+
+// Sections in both versions below this similarity are reported as changed
+const CHANGE_SIMILARITY = 0.98;
+
+export interface SectionChange {
+  before: DocSection;
+  after: DocSection;
+  similarity: number; // Jaccard similarity of the sections' own terms, 0-1
+  addedCode: CodeExample[];
+  removedCode: CodeExample[];
+}
+
+export interface DocsDiff {
+  added: DocSection[];
+  removed: DocSection[];
+  renamed: SectionChange[];
+  changed: SectionChange[];
+  unchangedCount: number;
+}
+
+/**
+ * Compares a section subtree between two versions of a documentation file.
+ * Sections are matched by their breadcrumb relative to the compared roots; unmatched
+ * sections with similar text are paired up as renames.
+ * @param before - Older document
+ * @param beforeRoot - Root of the compared subtree in the older document
+ * @param after - Newer document
+ * @param afterRoot - Root of the compared subtree in the newer document
+ * @returns Added, removed, renamed and changed sections, in document order
+ */
+export function diffSections(
+  before: ParsedDocument,
+  beforeRoot: DocSection,
+  after: ParsedDocument,
+  afterRoot: DocSection
+): DocsDiff {
+  const beforeSections = collectSubtree(beforeRoot);
+  const afterSections = collectSubtree(afterRoot);
+  const beforeByKey = keyByRelativePath(beforeSections, beforeRoot);
+  const afterByKey = keyByRelativePath(afterSections, afterRoot);
+
+  const beforeCode = groupCodeBySection(extractCodeExamples(before, before.fileName), beforeSections);
+  const afterCode = groupCodeBySection(extractCodeExamples(after, after.fileName), afterSections);
+  const termsOf = (document: ParsedDocument, section: DocSection) => new Set(tokenize(document.getOwnContent(section)));
+
+  const compare = (oldSection: DocSection, newSection: DocSection): SectionChange => {
+    const oldCode = beforeCode.get(oldSection) ?? [];
+    const newCode = afterCode.get(newSection) ?? [];
+    const oldKeys = new Set(oldCode.map(example => normalizeCode(example.code)));
+    const newKeys = new Set(newCode.map(example => normalizeCode(example.code)));
+    return {
+      before: oldSection,
+      after: newSection,
+      similarity: jaccard(termsOf(before, oldSection), termsOf(after, newSection)),
+      addedCode: newCode.filter(example => !oldKeys.has(normalizeCode(example.code))),
+      removedCode: oldCode.filter(example => !newKeys.has(normalizeCode(example.code)))
+    };
+  };
+
+  const diff: DocsDiff = { added: [], removed: [], renamed: [], changed: [], unchangedCount: 0 };
+
+  for (const [key, oldSection] of beforeByKey) {
+    const newSection = afterByKey.get(key);
+    if (!newSection) {
+      diff.removed.push(oldSection);
+      continue;
+    }
+    const change = compare(oldSection, newSection);
+    if (change.similarity < CHANGE_SIMILARITY || change.addedCode.length > 0 || change.removedCode.length > 0) {
+      diff.changed.push(change);
+    } else {
+      diff.unchangedCount++;
+    }
+  }
+  for (const [key, newSection] of afterByKey) {
+    if (!beforeByKey.has(key)) {
+      diff.added.push(newSection);
+    }
+  }
+
+  // Pair each removed section with its most similar added section under the same parent, best
+  // pairs first. Parents are paired before their children, so a renamed page's sections still pair
+  const beforeKeys = new Map([...beforeByKey].map(([key, section]) => [section, key]));
+  const afterKeys = new Map([...afterByKey].map(([key, section]) => [section, key]));
+  const beforeParents = parentsOf(beforeRoot);
+  const afterParents = parentsOf(afterRoot);
+  const renamedTo = new Map<DocSection, DocSection>();
+  const sameParent = (change: SectionChange) => {
+    const oldParent = beforeParents.get(change.before);
+    const newParent = afterParents.get(change.after);
+    if (!oldParent || !newParent) {
+      return oldParent === newParent;
+    }
+    return beforeKeys.get(oldParent) === afterKeys.get(newParent) || renamedTo.get(oldParent) === newParent;
+  };
+
+  const candidates: SectionChange[] = [];
+  for (const oldSection of diff.removed) {
+    for (const newSection of diff.added) {
+      const change = compare(oldSection, newSection);
+      if (change.similarity >= RENAME_SIMILARITY) {
+        candidates.push(change);
+      }
+    }
+  }
+  candidates.sort((a, b) => a.before.path.length - b.before.path.length || b.similarity - a.similarity);
+  const paired = new Set<DocSection>();
+  for (const change of candidates) {
+    if (!paired.has(change.before) && !paired.has(change.after) && sameParent(change)) {
+      paired.add(change.before);
+      paired.add(change.after);
+      renamedTo.set(change.before, change.after);
+      diff.renamed.push(change);
+    }
+  }
+
+  diff.removed = diff.removed.filter(section => !paired.has(section));
+  diff.added = diff.added.filter(section => !paired.has(section));
+  diff.renamed.sort((a, b) => a.after.startLine - b.after.startLine);
+  return diff;
+}
+
+function collectSubtree(root: DocSection): DocSection[] {
+  const sections: DocSection[] = [];
+  const visit = (section: DocSection) => {
+    sections.push(section);
+    section.children.forEach(visit);
+  };
+  visit(root);
+  return sections;
+}
+
+/**
+ * Maps each section of a subtree to its parent; the root has none
+ */
+function parentsOf(root: DocSection): Map<DocSection, DocSection> {
+  const parents = new Map<DocSection, DocSection>();
+  const visit = (section: DocSection) => {
+    for (const child of section.children) {
+      parents.set(child, section);
+      visit(child);
+    }
+  };
+  visit(root);
+  return parents;
+}
+
+/**
+ * Keys sections by their breadcrumb below the root; repeated headings get a numeric suffix
+ */
+function keyByRelativePath(sections: DocSection[], root: DocSection): Map<string, DocSection> {
+  const byKey = new Map<string, DocSection>();
+  for (const section of sections) {
+    const base = section.path.slice(root.path.length)
+      .map(segment => segment.toLowerCase().replace(/`/g, '').trim())
+      .join(' > ');
+    let key = base;
+    for (let n = 2; byKey.has(key); n++) {
+      key = `${base} #${n}`;
+    }
+    byKey.set(key, section);
+  }
+  return byKey;
+}
+
+/**
+ * Assigns each code example to the innermost subtree section containing it
+ */
+function groupCodeBySection(examples: CodeExample[], sections: DocSection[]): Map<DocSection, CodeExample[]> {
+  const wanted = new Set(sections);
+  const grouped = new Map<DocSection, CodeExample[]>();
+  for (const example of examples) {
+    if (wanted.has(example.section)) {
+      const list = grouped.get(example.section) ?? [];
+      list.push(example);
+      grouped.set(example.section, list);
+    }
+  }
+  return grouped;
+}
+
+function normalizeCode(code: string): string {
+  return code.split('\n').map(line => line.trim()).filter(Boolean).join('\n');
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  if (a.size === 0 && b.size === 0) {
+    return 1;
+  }
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) shared++;
+  }
+  return shared / (a.size + b.size - shared);
+}
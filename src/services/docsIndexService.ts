@@ -0,0 +1,78 @@
+import { createHash } from 'crypto';
+import path from 'path';
+import { SecureFileService } from './fileService.js';
+import { ParsedDocument, parseDocument } from './docsParser.js';
+import { IndexCacheService } from './indexCacheService.js';
+import { SearchIndex } from './searchIndex.js';
+
+interface DocsEntry {
+  content: string;
+  document: ParsedDocument;
+  index?: Promise<SearchIndex>; // Shared by concurrent callers while it loads
+}
+
+/**
+ * Parses documentation files into section trees and holds one search index per file.
+ * Documents and indexes are rebuilt only when the underlying file content changes,
+ * and indexes persist across restarts through the index cache.
+ */
+export class DocsIndexService {
+  private entries = new Map<string, DocsEntry>();
+
+  constructor(
+    private readonly fileService: SecureFileService,
+    private readonly maxFileSize: number,
+    private readonly indexCache: IndexCacheService = new IndexCacheService(null)
+  ) {}
+
+  /**
+   * Gets the parsed section tree for a documentation file
+   * @param filePath - Full path to the documentation file
+   * @returns Promise resolving to the parsed document
+   */
+  async getDocument(filePath: string): Promise<ParsedDocument> {
+    return (await this.getEntry(filePath)).document;
+  }
+
+  /**
+   * Gets the search index for a documentation file, loading it from the index cache
+   * or building it on first use
+   * @param filePath - Full path to the documentation file
+   * @returns Promise resolving to the file's search index
+   */
+  async getIndex(filePath: string): Promise<SearchIndex> {
+    const entry = await this.getEntry(filePath);
+    if (!entry.index) {
+      // The path hash keeps same-named files in different directories apart
+      const pathHash = createHash('sha1').update(filePath).digest('hex').slice(0, 8);
+      entry.index = this.indexCache.getOrBuild(`${path.basename(filePath)}-${pathHash}`, [entry.document]);
+    }
+    return entry.index;
+  }
+
+  /**
+   * Loads the search indexes of documentation files ahead of their first search
+   * @param filePaths - Full paths to the documentation files
+   */
+  async preload(filePaths: string[]): Promise<void> {
+    for (const filePath of filePaths) {
+      await this.getIndex(filePath);
+    }
+  }
+
+  private async getEntry(filePath: string): Promise<DocsEntry> {
+    const content = await this.fileService.readFullDocsFile(filePath, this.maxFileSize);
+
+    const existing = this.entries.get(filePath);
+    if (existing && existing.content === content) {
+      return existing;
+    }
+
+    const entry: DocsEntry = {
+      content,
+      document: parseDocument(content, path.basename(filePath))
+    };
+    this.entries.set(filePath, entry);
+    return entry;
+  }
+}
@@ -0,0 +1,335 @@
+import { DocSection } from '../types.js';
+import { estimateTokens } from '../utils/textAnalysis.js';
+
+const HEADING_PATTERN = /^(#{1,6})\s+(.+?)\s*#*\s*$/;
+const FENCE_PATTERN = /^\s*(```|~~~)/;
+const FRONTMATTER_RULE = /^-{80}$/;
+const FRONTMATTER_FIELD = /^(\w+):\s*"?(.*?)"?\s*$/;
+const PACKED_FILE_PATTERN = /^<file path="([^"]+)">/;
+const PACKED_TITLE_PATTERN = /^export const title = "(.*)";/;
+const PACKED_DESCRIPTION_PATTERN = /^export const description = "(.*)";/;
+const NEXTJS_DOCS_URL = 'https://nextjs.org/docs/';
+
+// Labels for the top-level Next.js docs sections, used to tell apart pages both routers share
+const NEXTJS_ROUTER_LABELS: Record<string, string> = {
+  app: 'App Router',
+  pages: 'Pages Router'
+};
+
+// How far into a packed file to look for its `export const title`
+const PACKED_METADATA_LOOKAHEAD = 30;
+
+interface PageStart {
+  title: string;
+  sourceFile: string;
+  description?: string;
+  parentKey?: string;
+  key?: string;
+  nextLine: number; // Index of the first line after the page header
+}
+
+/**
+ * A documentation file parsed into a tree of sections.
+ * Supports the Next.js llms-full format (frontmatter-delimited pages), Repomix packs
+ * (`<file path>` blocks) and plain Markdown.
+ */
+export class ParsedDocument {
+  /** Top-level sections in document order */
+  readonly roots: DocSection[] = [];
+  /** Every section in document order */
+  readonly sections: DocSection[] = [];
+
+  constructor(readonly lines: string[], readonly fileName: string) {}
+
+  /**
+   * Returns the full text of a section, including nested headings
+   * @param section - Section to read
+   * @returns Section text
+   */
+  getBody(section: DocSection): string {
+    return this.lines.slice(section.startLine - 1, section.endLine).join('\n');
+  }
+
+  /**
+   * Returns only the section's own text, stopping at its first child heading
+   * @param section - Section to read
+   * @returns Section text without nested sections
+   */
+  getOwnContent(section: DocSection): string {
+    return this.lines.slice(section.startLine - 1, section.contentEndLine).join('\n');
+  }
+
+  /**
+   * Estimates the token cost of a section's full body, as returned by getBody
+   * @param section - Section to measure
+   * @returns Approximate token count
+   */
+  getTokenEstimate(section: DocSection): number {
+    let chars = 0;
+    for (let i = section.startLine - 1; i < section.endLine; i++) {
+      chars += this.lines[i].length + 1;
+    }
+    return estimateTokens(chars);
+  }
+
+  /**
+   * Finds sections by breadcrumb path such as "Getting Started > Installation > Manual installation".
+   * Comparison is case-insensitive; full-path matches come first, followed by sections whose
+   * breadcrumb ends with the given segments.
+   * @param breadcrumb - Path segments separated by ">"
+   * @returns Matching sections, best matches first
+   */
+  findByPath(breadcrumb: string): DocSection[] {
+    const wanted = breadcrumb.split('>').map(normalizeSegment).filter(Boolean);
+    if (wanted.length === 0) {
+      return [];
+    }
+
+    const exact: DocSection[] = [];
+    const suffix: DocSection[] = [];
+
+    for (const section of this.sections) {
+      if (section.path.length < wanted.length) {
+        continue;
+      }
+      const tail = section.path.slice(section.path.length - wanted.length).map(normalizeSegment);
+      if (tail.every((segment, i) => segment === wanted[i])) {
+        (section.path.length === wanted.length ? exact : suffix).push(section);
+      }
+    }
+
+    return [...exact, ...suffix];
+  }
+}
+
+/**
+ * Parses documentation content into a section tree
+ * @param content - Full text of the documentation file
+ * @param fileName - Name of the file, used as the source for plain Markdown sections
+ * @returns Parsed document with a flat section list and a root tree
+ */
+export function parseDocument(content: string, fileName: string): ParsedDocument {
+  const lines = content.split('\n');
+  const doc = new ParsedDocument(lines, fileName);
+  const pagesByKey = new Map<string, DocSection>();
+
+  // Open sections from the current page (level 0) down to the deepest heading
+  let stack: DocSection[] = [];
+  let pendingTitleHeading: string | null = null;
+  let inFence = false;
+
+  const closeSections = (sections: DocSection[], endLine: number) => {
+    for (const section of sections) {
+      section.endLine = endLine;
+    }
+  };
+
+  const addSection = (
+    fields: Omit<DocSection, 'id' | 'path' | 'endLine' | 'contentEndLine' | 'children'>,
+    parent: DocSection | undefined
+  ): DocSection => {
+    const section: DocSection = {
+      id: doc.sections.length,
+      path: parent ? [...parent.path, fields.title] : [fields.title],
+      ...fields,
+      endLine: fields.startLine,
+      contentEndLine: fields.startLine,
+      children: []
+    };
+    if (parent) {
+      parent.children.push(section);
+    } else {
+      doc.roots.push(section);
+    }
+    doc.sections.push(section);
+    return section;
+  };
+
+  let i = 0;
+  while (i < lines.length) {
+    const line = lines[i];
+    const lineNumber = i + 1;
+
+    // Packed file boundaries win over an unbalanced fence left open by the previous file
+    const page = !inFence || PACKED_FILE_PATTERN.test(line) ? detectPageStart(lines, i) : null;
+    if (page) {
+      closeSections(stack, lineNumber - 1);
+      inFence = false;
+
+      let parent: DocSection | undefined;
+      for (let key = page.parentKey; key && !parent; key = parentKeyOf(key)) {
+        parent = pagesByKey.get(key);
+      }
+
+      // Top-level pages both routers have ("Guides", "API Reference") get the router in their
+      // title, the way the docs already name "Getting Started - Pages Router"
+      let title = page.title;
+      const router = page.key?.split('/')[0];
+      if (!parent && router && doc.roots.some(root => root.title === title)) {
+        title = `${title} - ${NEXTJS_ROUTER_LABELS[router] ?? router}`;
+      }
+
+      const pageSection = addSection({
+        title,
+        level: 0,
+        sourceFile: page.sourceFile,
+        description: page.description,
+        startLine: lineNumber
+      }, parent);
+
+      if (page.key) {
+        pagesByKey.set(page.key, pageSection);
+      }
+
+      stack = [pageSection];
+      pendingTitleHeading = page.title;
+      i = page.nextLine;
+      continue;
+    }
+
+    if (FENCE_PATTERN.test(line)) {
+      inFence = !inFence;
+    } else if (!inFence) {
+      const heading = HEADING_PATTERN.exec(line);
+      if (heading) {
+        const level = heading[1].length;
+        const title = heading[2];
+
+        // Pages repeat their title as a leading "# Title" heading; fold it into the page node
+        if (pendingTitleHeading !== null && level === 1 && title === pendingTitleHeading) {
+          pendingTitleHeading = null;
+          i++;
+          continue;
+        }
+        pendingTitleHeading = null;
+
+        let popAt = stack.length;
+        while (popAt > 0 && stack[popAt - 1].level >= level) {
+          popAt--;
+        }
+        closeSections(stack.slice(popAt), lineNumber - 1);
+        stack = stack.slice(0, popAt);
+
+        const parent = stack[stack.length - 1];
+        const section = addSection({
+          title,
+          level,
+          sourceFile: parent?.sourceFile ?? fileName,
+          startLine: lineNumber
+        }, parent);
+        stack.push(section);
+      }
+    }
+
+    i++;
+  }
+
+  closeSections(stack, lines.length);
+
+  // A section's own content runs until the next section begins, wherever it sits in the tree
+  doc.sections.forEach((section, index) => {
+    const next = doc.sections[index + 1];
+    section.contentEndLine = Math.min(section.endLine, next ? next.startLine - 1 : lines.length);
+  });
+
+  return doc;
+}
+
+/**
+ * Wraps content without a heading structure (component sources, generated summaries)
+ * in a document holding a single section, so it can be indexed alongside parsed docs
+ * @param content - Text of the item
+ * @param fileName - Name identifying the item
+ * @param title - Section title
+ * @returns Document with one section spanning the whole content
+ */
+export function createSingleSectionDocument(content: string, fileName: string, title: string): ParsedDocument {
+  const doc = new ParsedDocument(content.split('\n'), fileName);
+  const lineCount = doc.lines.length;
+  const section: DocSection = {
+    id: 0,
+    title,
+    level: 0,
+    path: [title],
+    sourceFile: fileName,
+    startLine: 1,
+    endLine: lineCount,
+    contentEndLine: lineCount,
+    children: []
+  };
+  doc.roots.push(section);
+  doc.sections.push(section);
+  return doc;
+}
+
+/**
+ * Recognizes the start of a page: a Next.js frontmatter block or a Repomix `<file path>` tag
+ */
+function detectPageStart(lines: string[], index: number): PageStart | null {
+  const line = lines[index];
+
+  if (FRONTMATTER_RULE.test(line) && lines[index + 1]?.startsWith('title:')) {
+    const fields: Record<string, string> = {};
+    let end = index + 1;
+    while (end < lines.length && !FRONTMATTER_RULE.test(lines[end])) {
+      const field = FRONTMATTER_FIELD.exec(lines[end]);
+      if (field) {
+        fields[field[1]] = field[2];
+      }
+      end++;
+    }
+
+    const source = fields.source ?? '';
+    const key = source.startsWith(NEXTJS_DOCS_URL) ? source.slice(NEXTJS_DOCS_URL.length) : undefined;
+
+    return {
+      title: fields.title || 'Untitled',
+      sourceFile: source,
+      description: fields.description,
+      key,
+      parentKey: key ? parentKeyOf(key) : undefined,
+      nextLine: end + 1
+    };
+  }
+
+  const packed = PACKED_FILE_PATTERN.exec(line);
+  if (packed) {
+    let title: string | undefined;
+    let description: string | undefined;
+    for (let j = index + 1; j < Math.min(lines.length, index + PACKED_METADATA_LOOKAHEAD); j++) {
+      if (PACKED_FILE_PATTERN.test(lines[j])) break;
+      title ??= PACKED_TITLE_PATTERN.exec(lines[j])?.[1];
+      description ??= PACKED_DESCRIPTION_PATTERN.exec(lines[j])?.[1];
+    }
+
+    return {
+      title: title ?? titleFromPackedPath(packed[1]),
+      sourceFile: packed[1],
+      description,
+      nextLine: index + 1
+    };
+  }
+
+  return null;
+}
+
+function parentKeyOf(key: string): string | undefined {
+  const slash = key.lastIndexOf('/');
+  return slash > 0 ? key.slice(0, slash) : undefined;
+}
+
+function normalizeSegment(segment: string): string {
+  return segment.trim().toLowerCase().replace(/`/g, '').replace(/\s+/g, ' ');
+}
+
+/**
+ * Derives a readable title from a packed file path ("src/docs/padding.mdx" → "padding",
+ * "src/blog/headless-ui-v2/index.mdx" → "headless-ui-v2")
+ */
+function titleFromPackedPath(filePath: string): string {
+  const segments = filePath.replace(/\.mdx?$/, '').split('/');
+  const last = segments[segments.length - 1];
+  return (last === 'index' || last === 'page') && segments.length > 1
+    ? segments[segments.length - 2]
+    : last;
+}
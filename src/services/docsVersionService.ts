@@ -0,0 +1,146 @@
+import { existsSync, promises as fs } from 'fs';
+import path from 'path';
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { createAuditLog } from '../utils/errorHandler.js';
+
+export type VersionedFramework = 'nextjs' | 'tailwind';
+
+// Versions of the docs files shipped at the top of each framework's docs directory
+export const BUNDLED_DOCS_VERSIONS: Record<VersionedFramework, string> = {
+  nextjs: '15',
+  tailwind: '4'
+};
+
+// Version labels are used as directory names, so only dotted numbers are accepted
+const VERSION_PATTERN = /^\d+(\.\d+)*$/;
+
+const FRAMEWORK_LABELS: Record<VersionedFramework, string> = {
+  nextjs: 'Next.js',
+  tailwind: 'Tailwind CSS'
+};
+
+/**
+ * Locates the documentation file for each installed version of a framework.
+ *
+ * The bundled docs live at the top of the framework's docs directory
+ * (e.g. content/docs/nextjs/nextjs-full.txt); other versions live in subdirectories named
+ * after the version and use the same file name (e.g. content/docs/nextjs/14/nextjs-full.txt).
+ */
+export class DocsVersionService {
+  private readonly defaultVersions: Record<VersionedFramework, string>;
+
+  /**
+   * @param bundledPaths - Path of the bundled docs file for each framework
+   * @param configuredVersions - Version used when a tool call does not ask for one; falls back
+   *   to the bundled version when the configured one is not a version number or is not installed
+   */
+  constructor(
+    private readonly bundledPaths: Record<VersionedFramework, string>,
+    configuredVersions: Record<VersionedFramework, string>
+  ) {
+    this.defaultVersions = { ...BUNDLED_DOCS_VERSIONS };
+    for (const framework of Object.keys(configuredVersions) as VersionedFramework[]) {
+      const version = normalizeVersion(configuredVersions[framework]);
+      if (VERSION_PATTERN.test(version) && existsSync(this.pathFor(framework, version))) {
+        this.defaultVersions[framework] = version;
+      } else {
+        createAuditLog('warn', 'docs_version_missing', {
+          framework,
+          version,
+          fallback: BUNDLED_DOCS_VERSIONS[framework]
+        });
+      }
+    }
+  }
+
+  /**
+   * Returns the version tools use when none is requested
+   * @param framework - Framework to look up
+   * @returns Normalized version label
+   */
+  getDefaultVersion(framework: VersionedFramework): string {
+    return this.defaultVersions[framework];
+  }
+
+  /**
+   * Lists the installed versions of a framework's docs, newest first
+   * @param framework - Framework to list
+   * @returns Version labels such as ["15", "14"]
+   */
+  async listVersions(framework: VersionedFramework): Promise<string[]> {
+    const bundledPath = this.bundledPaths[framework];
+    const versions = new Set([BUNDLED_DOCS_VERSIONS[framework]]);
+
+    try {
+      const docsDir = path.dirname(bundledPath);
+      for (const entry of await fs.readdir(docsDir, { withFileTypes: true })) {
+        if (entry.isDirectory() && VERSION_PATTERN.test(entry.name) && existsSync(path.join(docsDir, entry.name, path.basename(bundledPath)))) {
+          versions.add(entry.name);
+        }
+      }
+    } catch {
+      // Only the bundled version is available without a readable docs directory
+    }
+
+    return [...versions].sort(compareVersionsDescending);
+  }
+
+  /**
+   * Resolves a requested version to its docs file
+   * @param framework - Framework whose docs are wanted
+   * @param version - Requested version such as "14", "v14" or "14.2"; defaults to the configured version
+   * @returns Full path to the docs file and the version it holds
+   * @throws McpError if the version is not installed
+   */
+  async resolve(framework: VersionedFramework, version?: string): Promise<{ version: string; filePath: string }> {
+    const requested = normalizeVersion(version ?? this.defaultVersions[framework]);
+    const available = await this.listVersions(framework);
+
+    // Exact label first, then the newest installed release of the same major version
+    const major = requested.split('.')[0];
+    const match = available.find(candidate => candidate === requested) ??
+      available.find(candidate => candidate.split('.')[0] === major);
+
+    if (!match) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `${FRAMEWORK_LABELS[framework]} docs version '${version}' is not installed. Available versions: ${available.join(', ')}`
+      );
+    }
+
+    return { version: match, filePath: this.pathFor(framework, match) };
+  }
+
+  /**
+   * Returns where a version's docs file lives, whether or not it is installed
+   * @param framework - Framework whose docs are wanted
+   * @param version - Normalized version label
+   * @returns Full path to the docs file
+   */
+  pathFor(framework: VersionedFramework, version: string): string {
+    const bundledPath = this.bundledPaths[framework];
+    if (version === BUNDLED_DOCS_VERSIONS[framework]) {
+      return bundledPath;
+    }
+    return path.join(path.dirname(bundledPath), version, path.basename(bundledPath));
+  }
+}
+
+/**
+ * Strips a leading "v" and surrounding whitespace from a version label
+ */
+export function normalizeVersion(version: string): string {
+  return version.trim().replace(/^v/i, '');
+}
+
+function compareVersionsDescending(a: string, b: string): number {
+  const aParts = a.split('.').map(Number);
+  const bParts = b.split('.').map(Number);
+  for (let i = 0; i < Math.max(aParts.length, bParts.length); i++) {
+    const difference = (bParts[i] ?? 0) - (aParts[i] ?? 0);
+    if (difference !== 0 && !Number.isNaN(difference)) {
+      return difference;
+    }
+  }
+  return b.localeCompare(a);
+}
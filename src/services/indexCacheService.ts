@@ -0,0 +1,104 @@
+import { createHash } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { createAuditLog } from '../utils/errorHandler.js';
+import { ParsedDocument } from './docsParser.js';
+import { SearchIndex, SerializedSearchIndex } from './searchIndex.js';
+
+// Bump when section parsing, tokenization, stemming or the serialized layout changes, so old caches are ignored
+const INDEX_FORMAT_VERSION = 2;
+
+interface CacheFile {
+  version: number;
+  hash: string;
+  index: SerializedSearchIndex;
+}
+
+/**
+ * Persists search indexes to a cache directory so cold starts can skip tokenization.
+ * Cache files are keyed by a hash of the indexed content: an index is rebuilt only when
+ * one of its documents changed, and a damaged or unwritable cache simply falls back to building.
+ */
+export class IndexCacheService {
+  /**
+   * @param cacheDir - Directory for cache files, or null to disable persistence
+   */
+  constructor(private readonly cacheDir: string | null) {}
+
+  /**
+   * Loads the index for a set of documents from disk, building and saving it when missing or stale
+   * @param name - Stable name for the index, such as the docs file name
+   * @param documents - Documents to index, in the order the index should use
+   * @returns Promise resolving to the search index
+   */
+  async getOrBuild(name: string, documents: ParsedDocument[]): Promise<SearchIndex> {
+    if (!this.cacheDir) {
+      return new SearchIndex(documents);
+    }
+
+    const hash = hashDocuments(documents);
+    const prefix = `${name.replace(/[^\w.-]/g, '_')}.`;
+    const cachePath = path.join(this.cacheDir, `${prefix}${hash.slice(0, 16)}.json`);
+
+    const cached = await this.read(cachePath, hash);
+    if (cached) {
+      return new SearchIndex(documents, cached);
+    }
+
+    const index = new SearchIndex(documents);
+    await this.write(cachePath, prefix, { version: INDEX_FORMAT_VERSION, hash, index: index.serialize() });
+    return index;
+  }
+
+  private async read(cachePath: string, hash: string): Promise<SerializedSearchIndex | null> {
+    try {
+      const data: CacheFile = JSON.parse(await fs.readFile(cachePath, 'utf-8'));
+      if (data.version === INDEX_FORMAT_VERSION && data.hash === hash) {
+        return data.index;
+      }
+    } catch {
+      // Missing or unreadable cache files are rebuilt
+    }
+    return null;
+  }
+
+  private async write(cachePath: string, prefix: string, data: CacheFile): Promise<void> {
+    try {
+      await fs.mkdir(this.cacheDir!, { recursive: true });
+
+      // Write to a temporary file first so a concurrent reader never sees a partial index
+      const tempPath = `${cachePath}.${process.pid}.tmp`;
+      await fs.writeFile(tempPath, JSON.stringify(data));
+      await fs.rename(tempPath, cachePath);
+
+      // Drop indexes built for earlier versions of the same content
+      const cacheFile = path.basename(cachePath);
+      for (const file of await fs.readdir(this.cacheDir!)) {
+        if (file.startsWith(prefix) && file.endsWith('.json') && file !== cacheFile) {
+          await fs.unlink(path.join(this.cacheDir!, file)).catch(() => undefined);
+        }
+      }
+    } catch (error: any) {
+      createAuditLog('warn', 'index_cache_write_failed', {
+        cacheDir: this.cacheDir,
+        error: error.message
+      });
+    }
+  }
+}
+
+/**
+ * Hashes the content and section structure of documents, in order
+ */
+function hashDocuments(documents: ParsedDocument[]): string {
+  const hash = createHash('sha256');
+  for (const document of documents) {
+    hash.update(`${document.fileName}\0${document.sections.length}\0`);
+    for (const line of document.lines) {
+      hash.update(line);
+      hash.update('\n');
+    }
+    hash.update('\0');
+  }
+  return hash.digest('hex');
+}
@@ -0,0 +1,1299 @@
+import path from 'path';
+import { findClosingBracket } from '../utils/jsLiteral.js';
+import { parseImports } from './codeExampleService.js';
+
+export type PagesFileKind = 'page' | 'api' | 'app' | 'document' | 'not-found' | 'error';
+
+export interface MigrationStep {
+  change: string;
+  docs: string[]; // Breadcrumbs (or breadcrumb suffixes) of the Next.js docs sections that describe the change
+}
+
+export interface ProposedFile {
+  path: string;
+  code: string;
+}
+
+export interface PagesMigrationPlan {
+  kind: PagesFileKind;
+  sourcePath: string;
+  route: string;
+  detected: string[]; // Pages Router APIs and patterns found in the file
+  files: ProposedFile[];
+  steps: MigrationStep[];
+  warnings: string[]; // Things the proposal could not translate
+}
+
+// Sections of the bundled Next.js docs cited by the migration steps
+const DOCS = {
+  rootLayout: 'Migrating from `pages` to `app` > Step 2: Creating a Root Layout',
+  appAndDocument: 'Step 2: Creating a Root Layout > Migrating `_document.js` and `_app.js`',
+  getLayout: 'Step 2: Creating a Root Layout > Migrating the `getLayout()` pattern to Layouts (Optional)',
+  nextHead: 'Migrating from `pages` to `app` > Step 3: Migrating `next/head`',
+  pages: 'Migrating from `pages` to `app` > Step 4: Migrating Pages',
+  routingHooks: 'Migrating from `pages` to `app` > Step 5: Migrating Routing Hooks',
+  getServerSideProps: 'Step 6: Migrating Data Fetching Methods > Server-side Rendering (`getServerSideProps`)',
+  requestObject: 'Step 6: Migrating Data Fetching Methods > Accessing Request Object',
+  getStaticProps: 'Step 6: Migrating Data Fetching Methods > Static Site Generation (`getStaticProps`)',
+  getStaticPaths: 'Step 6: Migrating Data Fetching Methods > Dynamic paths (`getStaticPaths`)',
+  fallback: 'Step 6: Migrating Data Fetching Methods > Replacing `fallback`',
+  revalidate: 'Step 6: Migrating Data Fetching Methods > Incremental Static Regeneration (`getStaticProps` with `revalidate`)',
+  apiRoutes: 'Step 6: Migrating Data Fetching Methods > API Routes',
+  routeHandlers: 'File-system conventions > route.js',
+  segmentConfig: 'File-system conventions > Route Segment Config',
+  generateMetadata: 'Functions > generateMetadata',
+  notFoundFile: 'File-system conventions > not-found.js',
+  errorFile: 'File-system conventions > error.js',
+  serverAndClient: 'Getting Started > Server and Client Components',
+  fetchingData: 'Getting Started > Fetching Data',
+  cssInJs: 'CSS-in-JS'
+};
+
+const DATA_FUNCTIONS = ['getServerSideProps', 'getStaticProps', 'getStaticPaths'] as const;
+const CLIENT_PATTERN = /\buse[A-Z]\w*\s*\(|\bon[A-Z]\w*=\{|\b(?:window|document|localStorage|sessionStorage|navigator)\./;
+const DYNAMIC_SEGMENT_PATTERN = /^\[{1,2}(?:\.\.\.)?(\w+)\]{1,2}$/;
+const IMPORT_STATEMENT_PATTERN = /^[ \t]*import\s+(?:[\s\S]*?\s+from\s+)?['"][^'"]+['"];?[ \t]*\n?/gm;
+const HEAD_BLOCK_PATTERN = /[ \t]*<Head>([\s\S]*?)<\/Head>[ \t]*\n?/g;
+
+// File names the App Router reserves in a route folder, which a moved page component must not take
+const RESERVED_FILE_NAMES = new Set(['page', 'layout', 'template', 'loading', 'error', 'global-error', 'not-found', 'route', 'default']);
+
+interface FunctionSpan {
+  name: string;
+  start: number;
+  end: number;
+  text: string;
+  params: string;
+  body: string; // Text between the body braces
+}
+
+interface RouteInfo {
+  kind: PagesFileKind;
+  route: string;
+  appDir: string;
+  sourceDir?: string; // Directory of the original file, relative to the project (or src/) root
+  dynamicParams: string[];
+}
+
+/**
+ * Collects steps, warnings and detected features while a plan is built
+ */
+class PlanBuilder {
+  readonly detected: string[] = [];
+  readonly steps: MigrationStep[] = [];
+  readonly warnings: string[] = [];
+  readonly files: ProposedFile[] = [];
+
+  detect(feature: string): void {
+    if (!this.detected.includes(feature)) {
+      this.detected.push(feature);
+    }
+  }
+
+  step(change: string, ...docs: string[]): void {
+    this.steps.push({ change, docs });
+  }
+
+  warn(message: string): void {
+    if (!this.warnings.includes(message)) {
+      this.warnings.push(message);
+    }
+  }
+}
+
+/**
+ * Proposes the App Router equivalent of a Pages Router file. The file's own code is kept
+ * wherever possible: data functions are called from an async Server Component, interactive
+ * components move to a Client Component, and API routes become route handlers.
+ * Nothing is executed; patterns that cannot be translated are returned as warnings.
+ * @param sourcePath - Path of the file under pages/, used to derive the route; the kind of file is guessed when omitted
+ * @param source - Source of the file
+ * @returns Proposed app/ files with the steps taken and the docs sections behind each
+ */
+export function planPagesMigration(sourcePath: string | undefined, source: string): PagesMigrationPlan {
+  const route = resolveRoute(sourcePath, source);
+  const typescript = sourcePath ? /\.tsx?$/.test(sourcePath) : /:\s*(?:NextPage|AppProps|GetServerSideProps|GetStaticProps|NextApi\w+|React\.\w+)\b/.test(source);
+  const plan = new PlanBuilder();
+
+  // Every proposed file lands in the route's app/ folder, so relative imports are rebased once up front
+  if (route.sourceDir) {
+    source = rebaseRelativeImports(source, route.sourceDir, route.appDir);
+  }
+
+  switch (route.kind) {
+    case 'api':
+      planApiRoute(source, route, typescript, plan);
+      break;
+    case 'app':
+      planCustomApp(source, typescript, plan);
+      break;
+    case 'document':
+      planCustomDocument(source, typescript, plan);
+      break;
+    case 'not-found':
+    case 'error':
+      planSpecialPage(source, route.kind, typescript, plan);
+      break;
+    default:
+      planPage(source, route, typescript, plan);
+  }
+
+  return {
+    kind: route.kind,
+    sourcePath: sourcePath ?? `pages/${route.kind === 'api' ? 'api/handler' : 'page'}${typescript ? '.tsx' : '.js'}`,
+    route: route.route,
+    detected: plan.detected,
+    files: plan.files,
+    steps: plan.steps,
+    warnings: plan.warnings
+  };
+}
+
+function resolveRoute(sourcePath: string | undefined, source: string): RouteInfo {
+  if (!sourcePath) {
+    const kind: PagesFileKind = /\bNextApi(?:Request|Response|Handler)\b|export\s+default\s+(?:async\s+)?function\s*\w*\s*\(\s*req\b/.test(source)
+      ? 'api'
+      : /from\s+['"]next\/document['"]/.test(source)
+        ? 'document'
+        : /\bAppProps\b|<Component\s+\{\.\.\.pageProps\}/.test(source)
+          ? 'app'
+          : 'page';
+    return { kind, route: kind === 'api' ? '/api/…' : '/', appDir: kind === 'api' ? 'app/api/…' : 'app', dynamicParams: [] };
+  }
+
+  const normalized = sourcePath.replace(/\\/g, '/').replace(/^(?:\.\/)?(?:src\/)?/, '');
+  const relative = normalized.replace(/^.*?\bpages\//, '').replace(/\.(?:tsx?|jsx?|mdx?)$/, '');
+  const segments = relative.split('/').filter(Boolean);
+  if (segments[segments.length - 1] === 'index') {
+    segments.pop();
+  }
+
+  const special: Record<string, PagesFileKind> = { _app: 'app', _document: 'document', '404': 'not-found', '500': 'error', _error: 'error' };
+  const kind: PagesFileKind = special[relative] ?? (segments[0] === 'api' ? 'api' : 'page');
+  const dynamicParams = segments
+    .map(segment => DYNAMIC_SEGMENT_PATTERN.exec(segment)?.[1])
+    .filter((name): name is string => name !== undefined);
+
+  return {
+    kind,
+    route: kind === 'page' || kind === 'api' ? `/${segments.join('/')}` : '/',
+    appDir: kind === 'page' || kind === 'api' ? ['app', ...segments].join('/') : 'app',
+    sourceDir: path.posix.dirname(`pages/${relative}`),
+    dynamicParams
+  };
+}
+
+function planPage(source: string, route: RouteInfo, typescript: boolean, plan: PlanBuilder): void {
+  const ext = typescript ? 'tsx' : 'js';
+  const dataFunctions = DATA_FUNCTIONS
+    .map(name => findExportedFunction(source, name))
+    .filter((span): span is FunctionSpan => span !== undefined);
+  const gssp = dataFunctions.find(span => span.name === 'getServerSideProps');
+  const gsp = dataFunctions.find(span => span.name === 'getStaticProps');
+  const paths = dataFunctions.find(span => span.name === 'getStaticPaths');
+
+  for (const span of dataFunctions) {
+    plan.detect(span.name);
+  }
+  if (/\.getInitialProps\s*=/.test(source)) {
+    plan.detect('getInitialProps');
+    plan.warn('getInitialProps is not supported in the App Router; move its data fetching into the async page component.');
+    plan.step('Replace getInitialProps with data fetching in the Server Component page.', DOCS.pages, DOCS.fetchingData);
+  }
+
+  // Everything except the data functions stays with the component
+  let rest = removeSpans(source, dataFunctions);
+  const head = extractHead(rest, plan);
+  rest = head.source;
+  rest = removeGetLayout(rest, plan);
+
+  // The generated page is `Page`, so an unnamed component or one already called Page is renamed
+  const exportedName = findDefaultExportName(rest);
+  const needsClient = CLIENT_PATTERN.test(stripImports(rest)) || /from\s+['"]next\/router['"]/.test(rest);
+  let component = exportedName && exportedName !== 'Page' ? exportedName : 'PageContent';
+  // A client component gets its own file, which must not take a name such as page.tsx
+  if (needsClient && (component === 'PageContent' || RESERVED_FILE_NAMES.has(kebabCase(component)))) {
+    component = 'PageClient';
+  }
+  if (/from\s+['"]next\/router['"]/.test(rest)) {
+    rest = migrateRouterUsage(rest, route.dynamicParams, plan);
+  }
+  checkLegacyApis(rest, plan);
+
+  const pagePath = `${route.appDir}/page.${ext}`;
+  const needsQuery = gssp !== undefined && /\bquery\b/.test(gssp.params + gssp.body);
+  const nextHeaders = new Set<string>();
+  const migratedData = dataFunctions.map(span => migrateDataFunction(span, route, typescript, needsQuery, nextHeaders));
+  const dataCode = migratedData.join('\n\n');
+  // Generated code would compile and then fail on the missing request, so the page is described instead
+  const runnable = migratedData.every(code => code !== null);
+  const config = segmentConfig(gssp, gsp, paths, plan);
+  const propsType = typescript ? `: PageProps<'${route.route}'>` : '';
+
+  // Without data functions, a server-safe page moves over as it is
+  if (dataFunctions.length === 0 && !needsClient) {
+    plan.files.push({ path: pagePath, code: tidy(joinBlocks([head.metadataImport(typescript), rest.trim(), head.metadata(typescript)])) });
+    plan.step(`Move the page to ${pagePath}; it becomes a Server Component with no changes.`, DOCS.pages, DOCS.serverAndClient);
+    return;
+  }
+
+  const pageBody: string[] = [];
+  const pageImports: string[] = nextHeaders.size > 0 ? [`import { ${[...nextHeaders].sort().join(', ')} } from 'next/headers'`] : [];
+  let render = `<${component} />`;
+
+  if (gssp || gsp) {
+    const data = (gssp ?? gsp)!;
+    pageBody.push(`  const params = await props.params`);
+    if (needsQuery) {
+      pageBody.push(`  const query = await props.searchParams`);
+    }
+    pageBody.push(`  const result = await ${data.name}({ params${needsQuery ? ', query' : ''} })`);
+
+    const navigation: string[] = [];
+    if (/\bnotFound\s*:/.test(data.body)) {
+      pageBody.push(`  if ('notFound' in result) notFound()`);
+      navigation.push('notFound');
+    }
+    if (/\bredirect\s*:/.test(data.body)) {
+      pageBody.push(`  if ('redirect' in result) redirect(result.redirect.destination)`);
+      navigation.push('redirect');
+    }
+    if (navigation.length > 0) {
+      pageImports.push(`import { ${navigation.join(', ')} } from 'next/navigation'`);
+    }
+    render = `<${component} {...result.props} />`;
+  }
+
+  if (gssp) {
+    plan.step('Call the data fetching code from an async Server Component page; `export const dynamic = \'force-dynamic\'` keeps rendering on every request like getServerSideProps.',
+      DOCS.getServerSideProps, DOCS.segmentConfig);
+    if (!runnable) {
+      plan.warn(`getServerSideProps uses \`req\`/\`res\` beyond reading cookies and headers (or passes its whole context on), which Server Components do not receive, so ${pagePath} was not generated. Rewrite those parts with headers() and cookies() from next/headers, then call it from the page as the steps describe.`);
+      plan.step('Read request headers and cookies with the next/headers functions instead of the Node.js request.', DOCS.requestObject);
+    } else if (nextHeaders.size > 0) {
+      plan.step(`Read request ${[...nextHeaders].sort().join(' and ')} with the next/headers functions instead of the Node.js request; the proposal already does.`, DOCS.requestObject);
+    }
+  }
+  if (gsp) {
+    plan.step('Fetch the getStaticProps data in the async page component; the page is prerendered at build time as before.', DOCS.getStaticProps);
+  }
+  if (paths) {
+    plan.step('Replace getStaticPaths with generateStaticParams, which returns the params objects directly.', DOCS.getStaticPaths);
+  }
+
+  const generateStaticParams = paths
+    ? [
+      `export async function generateStaticParams() {`,
+      `  const { paths } = await getStaticPaths()`,
+      `  // generateStaticParams returns params objects; convert any string paths to { ${route.dynamicParams.map(name => `${name}: …`).join(', ') || 'param: …'} }`,
+      `  return paths.map((path) => path.params)`,
+      `}`
+    ].join('\n')
+    : '';
+
+  if (needsClient) {
+    const clientName = kebabCase(component);
+    const clientPath = `${route.appDir}/${clientName}.${ext}`;
+    const clientSource = pruneUnusedImports(`'use client'\n\n${rest.trim()}`);
+    plan.files.push({ path: clientPath, code: tidy(clientSource) });
+    plan.step(`Move the page component to a Client Component (${clientPath}) because it uses state, effects, event handlers or browser APIs.`, DOCS.pages, DOCS.serverAndClient);
+    if (/Infer(?:GetServerSideProps|GetStaticProps)Type/.test(rest)) {
+      plan.warn('The client component can no longer infer its props from the data function; replace InferGetServerSidePropsType/InferGetStaticPropsType with an explicit props type.');
+    }
+
+    const dataImports = selectImports(source, `${dataCode}\n${generateStaticParams}`);
+    const page = joinBlocks([
+      [...dataImports, ...pageImports, head.metadataImport(typescript), `import ${component} from './${clientName}'`].filter(Boolean).join('\n'),
+      head.metadata(typescript),
+      config,
+      generateStaticParams,
+      dataCode,
+      pageComponent(dataFunctions.length > 0, propsType, pageBody, render, gssp !== undefined || gsp !== undefined)
+    ]);
+    if (runnable) {
+      plan.files.push({ path: pagePath, code: tidy(pruneUnusedImports(page)) });
+    }
+  } else {
+    // The component can render on the server, so it stays in page.tsx under its own name
+    const withoutDefault = nameDefaultExport(rest, exportedName, component)
+      .replace(/export\s+default\s+(async\s+)?function\s+/, '$1function ')
+      .replace(new RegExp(`^export\\s+default\\s+${component}\\s*;?\\s*$`, 'm'), '');
+    const [imports, code] = splitImports(withoutDefault);
+    const page = joinBlocks([
+      [...imports, ...pageImports, head.metadataImport(typescript)].filter(Boolean).join('\n'),
+      head.metadata(typescript),
+      config,
+      generateStaticParams,
+      dataCode,
+      code.trim(),
+      pageComponent(true, propsType, pageBody, render, gssp !== undefined || gsp !== undefined)
+    ]);
+    if (runnable) {
+      plan.files.push({ path: pagePath, code: tidy(pruneUnusedImports(page)) });
+    }
+    plan.step(`Create ${pagePath} as an async Server Component; the page component has no client-only code, so it renders on the server.`, DOCS.pages, DOCS.serverAndClient);
+  }
+}
+
+/**
+ * Gives the default-exported page component the name the generated page renders it by
+ * @param exportedName - Its current name; undefined for `export default function (` or an arrow function
+ */
+function nameDefaultExport(source: string, exportedName: string | undefined, name: string): string {
+  if (exportedName === name) {
+    return source;
+  }
+  if (exportedName) {
+    // Only the declaration and the default export are renamed; JSX text such as <h1>Page</h1> is left alone
+    return source
+      .replace(new RegExp(`\\bfunction\\s+${exportedName}\\b`), `function ${name}`)
+      .replace(new RegExp(`\\b((?:const|let|var)\\s+)${exportedName}\\b`), `$1${name}`)
+      .replace(new RegExp(`^([ \\t]*export\\s+default\\s+)${exportedName}(\\s*;?\\s*)$`, 'm'), `$1${name}$2`);
+  }
+  if (/export\s+default\s+(?:async\s+)?function\s*\(/.test(source)) {
+    return source.replace(/export\s+default\s+(async\s+)?function\s*\(/, `export default $1function ${name}(`);
+  }
+  // `export default (props) => ...` runs to the end of its statement, so the export moves below it
+  return source.replace(/export\s+default\s+(?=(?:async\s*)?(?:\([^)]*\)|\w+)\s*=>)/, `const ${name} = `) + `\nexport default ${name}\n`;
+}
+
+function pageComponent(async: boolean, propsType: string, body: string[], render: string, usesProps: boolean): string {
+  return [
+    `export default ${async ? 'async ' : ''}function Page(${usesProps ? `props${propsType}` : ''}) {`,
+    ...body,
+    `  return ${render}`,
+    `}`
+  ].join('\n');
+}
+
+function segmentConfig(
+  gssp: FunctionSpan | undefined,
+  gsp: FunctionSpan | undefined,
+  paths: FunctionSpan | undefined,
+  plan: PlanBuilder
+): string {
+  const lines: string[] = [];
+  if (gssp) {
+    lines.push(`export const dynamic = 'force-dynamic'`);
+  }
+
+  const revalidate = gsp ? /\brevalidate\s*:\s*(\d+|false)\b/.exec(gsp.body) : null;
+  if (revalidate) {
+    plan.detect('Incremental Static Regeneration (revalidate)');
+    lines.push(`export const revalidate = ${revalidate[1]}`);
+    plan.step(`Move the revalidate option to the route segment config (\`export const revalidate = ${revalidate[1]}\`) or to the fetch calls.`, DOCS.revalidate, DOCS.segmentConfig);
+  } else if (gsp && /\brevalidate\s*:/.test(gsp.body)) {
+    plan.warn('getStaticProps returns a computed revalidate value; set `export const revalidate` to a constant or pass `next: { revalidate }` to fetch.');
+  }
+
+  const fallback = paths ? /\bfallback\s*:\s*(true|false|['"]blocking['"])/.exec(paths.body) : null;
+  if (fallback) {
+    plan.detect(`getStaticPaths fallback: ${fallback[1]}`);
+    if (fallback[1] === 'false') {
+      lines.push(`export const dynamicParams = false`);
+    }
+    plan.step(fallback[1] === 'false'
+      ? 'Replace `fallback: false` with `export const dynamicParams = false` so unknown params return 404.'
+      : `Drop \`fallback: ${fallback[1]}\`: unknown params render on demand by default (dynamicParams = true); add a loading.js file for a fallback UI.`,
+    DOCS.fallback);
+  }
+
+  return lines.join('\n');
+}
+
+function planApiRoute(source: string, route: RouteInfo, typescript: boolean, plan: PlanBuilder): void {
+  plan.detect('API route');
+  const routePath = `${route.appDir}/route.${typescript ? 'ts' : 'js'}`;
+  const handler = findDefaultExportFunction(source);
+
+  if (!handler) {
+    plan.warn('Could not find the default-exported handler function; wrapped handlers (e.g. `export default withAuth(handler)`) need their wrapper applied inside each route handler.');
+    plan.files.push({
+      path: routePath,
+      code: `export async function GET(request${typescript ? ': Request' : ''}) {\n  return Response.json({})\n}\n`
+    });
+    plan.step('Replace the API route with a route handler exporting one function per HTTP method.', DOCS.apiRoutes, DOCS.routeHandlers);
+    return;
+  }
+
+  const [reqName, resName] = handler.params.split(',').map(param => param.trim().split(/[\s:=]/)[0]);
+  const branches = splitMethodBranches(handler.body, reqName ?? 'req');
+  if (branches.inferred) {
+    plan.warn('The API route answered every HTTP method; the route handler only exports GET. Export other methods as needed.');
+  }
+  if (branches.fallthrough === 'GET') {
+    plan.warn('The code after the `req.method` checks answered every other method; it became the GET handler, and other methods now get 405 Method Not Allowed. Export it under more methods if they should get the same response.');
+  } else if (branches.fallthrough === 'unassigned') {
+    plan.warn('The code after the `req.method` checks answered every other method, but GET already has its own branch, so that code was left out. Copy it into the handlers of the methods that need it.');
+  }
+
+  const handlers = branches.methods.map(({ method, body }) =>
+    buildRouteHandler(method, body, reqName ?? 'req', resName ?? 'res', route, typescript, plan));
+
+  let rest = removeSpans(source, [handler]);
+  rest = rest.replace(/^export\s+default\s+\w+\s*;?\s*$/m, '');
+  if (/export\s+const\s+config\s*=/.test(rest)) {
+    const config = findExportedConst(rest, 'config');
+    if (config) {
+      rest = removeSpans(rest, [config]);
+    }
+    plan.warn('`export const config` (bodyParser, responseLimit, externalResolver) does not apply to route handlers; read the body with request.json(), request.text() or request.formData().');
+  }
+
+  const [imports, code] = splitImports(rest);
+  const needsNextRequest = typescript && handlers.some(text => /\bNextRequest\b/.test(text));
+  const file = joinBlocks([
+    [...imports, needsNextRequest ? `import type { NextRequest } from 'next/server'` : ''].filter(Boolean).join('\n'),
+    code.trim(),
+    handlers.join('\n\n')
+  ]);
+  plan.files.push({ path: routePath, code: tidy(pruneUnusedImports(file)) });
+
+  plan.step(`Replace the API route with ${routePath}, exporting ${branches.methods.map(branch => branch.method).join(', ')} functions that take a Web Request and return a Response.`,
+    DOCS.apiRoutes, DOCS.routeHandlers);
+  if (route.dynamicParams.length > 0) {
+    plan.step(`Read the dynamic segments (${route.dynamicParams.join(', ')}) from the awaited \`params\` in the second route handler argument instead of req.query.`, DOCS.routeHandlers);
+  }
+}
+
+/**
+ * Reads the code between or after `if (req.method === 'X')` blocks: nothing for the `else`
+ * joining two checks, the block contents for a final `else { ... }`
+ */
+function elseBranch(text: string): string {
+  const elseBlock = /^\s*else\s*\{/.exec(text);
+  if (elseBlock) {
+    const close = findClosingBracket(text, elseBlock[0].length - 1);
+    if (close !== -1) {
+      return text.slice(elseBlock[0].length, close) + text.slice(close + 1);
+    }
+  }
+  return text.replace(/^\s*else\s*$/, '');
+}
+
+function hasStatements(code: string): boolean {
+  return code.replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '').replace(/[\s;]/g, '') !== '';
+}
+
+/**
+ * Splits an API handler body into per-method bodies from `if (req.method === 'X')` blocks,
+ * `switch (req.method)` cases or a `req.method !== 'X'` guard
+ */
+function splitMethodBranches(body: string, req: string): {
+  methods: Array<{ method: string; body: string }>;
+  inferred: boolean;
+  fallthrough?: 'GET' | 'unassigned'; // What became of the code after `if (req.method === 'X')` blocks
+} {
+  const methodRef = `${req}\\.method`;
+  const methods: Array<{ method: string; body: string }> = [];
+
+  const ifPattern = new RegExp(`if\\s*\\(\\s*${methodRef}\\s*===?\\s*['"](\\w+)['"]\\s*\\)\\s*\\{`, 'g');
+  let preamble: string | undefined;
+  let fallback = '';
+  let cursor = 0;
+  for (const match of body.matchAll(ifPattern)) {
+    const open = match.index! + match[0].length - 1;
+    const close = findClosingBracket(body, open);
+    if (close !== -1 && match.index! >= cursor) {
+      methods.push({ method: match[1].toUpperCase(), body: body.slice(open + 1, close) });
+      if (preamble === undefined) {
+        preamble = body.slice(0, match.index);
+      } else {
+        fallback += elseBranch(body.slice(cursor, match.index));
+      }
+      cursor = close + 1;
+    }
+  }
+  if (methods.length > 0) {
+    fallback += elseBranch(body.slice(cursor));
+    // Code before the checks runs for every method; code after them answers the methods no branch returned for
+    const withPreamble = (code: string) => [preamble!, code].filter(hasStatements).map(part => reindent(part, '')).join('\n');
+    for (const branch of methods) {
+      branch.body = withPreamble(branch.body);
+    }
+    if (!hasStatements(fallback)) {
+      return { methods, inferred: false };
+    }
+    if (methods.some(branch => branch.method === 'GET')) {
+      return { methods, inferred: false, fallthrough: 'unassigned' };
+    }
+    methods.push({ method: 'GET', body: withPreamble(fallback) });
+    return { methods, inferred: false, fallthrough: 'GET' };
+  }
+
+  const switchMatch = new RegExp(`switch\\s*\\(\\s*${methodRef}\\s*\\)\\s*\\{`).exec(body);
+  if (switchMatch) {
+    const open = switchMatch.index + switchMatch[0].length - 1;
+    const close = findClosingBracket(body, open);
+    const switchBody = body.slice(open + 1, close === -1 ? body.length : close);
+    const labels = [...switchBody.matchAll(/\bcase\s+['"](\w+)['"]\s*:|\bdefault\s*:/g)];
+    labels.forEach((label, i) => {
+      if (!label[1]) {
+        return;
+      }
+      const start = label.index! + label[0].length;
+      const end = i + 1 < labels.length ? labels[i + 1].index! : switchBody.length;
+      let caseBody = switchBody.slice(start, end).replace(/\bbreak\s*;?\s*$/, '');
+      if (/^\s*\{[\s\S]*\}\s*$/.test(caseBody)) {
+        caseBody = caseBody.trim().slice(1, -1).replace(/\bbreak\s*;?\s*$/, '');
+      }
+      if (caseBody.trim()) {
+        methods.push({ method: label[1].toUpperCase(), body: caseBody });
+      }
+    });
+    if (methods.length > 0) {
+      return { methods, inferred: false };
+    }
+  }
+
+  const guard = new RegExp(`if\\s*\\(\\s*${methodRef}\\s*!==?\\s*['"](\\w+)['"]\\s*\\)\\s*\\{`).exec(body);
+  if (guard) {
+    const open = guard.index + guard[0].length - 1;
+    const close = findClosingBracket(body, open);
+    if (close !== -1) {
+      return { methods: [{ method: guard[1].toUpperCase(), body: body.slice(0, guard.index) + body.slice(close + 1) }], inferred: false };
+    }
+  }
+
+  return { methods: [{ method: 'GET', body }], inferred: true };
+}
+
+function buildRouteHandler(
+  method: string,
+  body: string,
+  req: string,
+  res: string,
+  route: RouteInfo,
+  typescript: boolean,
+  plan: PlanBuilder
+): string {
+  let code = rewriteResponses(body, res, plan);
+  const dynamic = new Set(route.dynamicParams);
+  let usesParams = false;
+  let usesSearchParams = false;
+  let usesBody = false;
+
+  // const { id, page } = req.query
+  code = code.replace(new RegExp(`\\b${req}\\.query\\b(?!\\s*(?:\\.|\\[))`, 'g'), () => {
+    usesParams = dynamic.size > 0 || usesParams;
+    usesSearchParams = true;
+    return dynamic.size > 0 ? '{ ...Object.fromEntries(searchParams), ...params }' : 'Object.fromEntries(searchParams)';
+  });
+  code = code.replace(new RegExp(`\\b${req}\\.query(?:\\.(\\w+)|\\[\\s*['"]([^'"]+)['"]\\s*\\])`, 'g'), (_match, dotted: string, bracketed: string) => {
+    const name = dotted ?? bracketed;
+    if (dynamic.has(name)) {
+      usesParams = true;
+      return `params.${name}`;
+    }
+    usesSearchParams = true;
+    return `searchParams.get('${name}')`;
+  });
+  code = code.replace(new RegExp(`\\b${req}\\.body\\b`, 'g'), () => {
+    usesBody = true;
+    return 'body';
+  });
+  code = code.replace(new RegExp(`\\b${req}\\.headers(?:\\.([\\w]+)|\\[\\s*['"]([^'"]+)['"]\\s*\\])`, 'g'),
+    (_match, dotted: string, bracketed: string) => `request.headers.get('${(dotted ?? bracketed).toLowerCase()}')`);
+  code = code.replace(new RegExp(`\\b${req}\\.cookies(?:\\.([\\w]+)|\\[\\s*['"]([^'"]+)['"]\\s*\\])`, 'g'),
+    (_match, dotted: string, bracketed: string) => `request.cookies.get('${dotted ?? bracketed}')?.value`);
+  code = code.replace(new RegExp(`\\b${req}\\.(method|url)\\b`, 'g'), 'request.$1');
+
+  if (new RegExp(`\\b${req}\\b`).test(code)) {
+    plan.warn(`The ${method} handler still passes the Node.js request (\`${req}\`) somewhere; helpers that expect it (e.g. getSession({ req })) need their App Router equivalents.`);
+  }
+  if (new RegExp(`\\b${res}\\b`).test(code)) {
+    plan.warn(`The ${method} handler still uses \`${res}\` in ways that could not be rewritten; return a Response instead of writing to it.`);
+  }
+
+  const prelude: string[] = [];
+  if (usesParams) {
+    prelude.push('const params = await ctx.params');
+  }
+  if (usesSearchParams) {
+    prelude.push('const searchParams = request.nextUrl.searchParams');
+  }
+  if (usesBody) {
+    prelude.push('const body = await request.json()');
+  }
+
+  const requestType = typescript ? (usesSearchParams || /request\.cookies/.test(code) ? ': NextRequest' : ': Request') : '';
+  const args = usesParams
+    ? `request${requestType}, ctx${typescript ? `: RouteContext<'${route.route}'>` : ''}`
+    : `request${requestType}`;
+
+  return [
+    `export async function ${method}(${args}) {`,
+    ...prelude.map(line => `  ${line}`),
+    reindent(code, '  '),
+    `}`
+  ].filter(line => line.trim()).join('\n');
+}
+
+/**
+ * Rewrites `res.status(404).json({...})` style chains into returned Response objects. Headers
+ * from `res.setHeader()` go into the init of the Responses returned after them
+ */
+function rewriteResponses(body: string, res: string, plan: PlanBuilder): string {
+  let output = '';
+  let cursor = 0;
+  const headers = new Map<string, string>();
+  let unsentHeaders = false;
+  const chainStart = new RegExp(`(return\\s+)?\\b${res}\\s*\\.\\s*(\\w+)\\s*\\(`, 'g');
+
+  for (let match = chainStart.exec(body); match; match = chainStart.exec(body)) {
+    const calls: Array<{ name: string; args: string }> = [];
+    let pos = match.index + match[0].length - 1;
+    let name = match[2];
+
+    for (;;) {
+      const close = findClosingBracket(body, pos);
+      if (close === -1) {
+        break;
+      }
+      calls.push({ name, args: body.slice(pos + 1, close).trim() });
+      const next = /^\s*\.\s*(\w+)\s*\(/.exec(body.slice(close + 1));
+      pos = close + 1;
+      if (!next) {
+        break;
+      }
+      name = next[1];
+      pos += next[0].length - 1;
+    }
+
+    const replacement = responseExpression(calls, headers, plan);
+    if (replacement === null) {
+      continue;
+    }
+    // A statement that only set headers goes away with its line
+    if (replacement === '') {
+      const statementEnd = /^[ \t]*;?[ \t]*\n?/.exec(body.slice(pos))![0].length;
+      output += body.slice(cursor, match.index).replace(/[ \t]*$/, '');
+      cursor = pos + statementEnd;
+      chainStart.lastIndex = cursor;
+      unsentHeaders = true;
+      continue;
+    }
+    unsentHeaders = false;
+    // `res.status(204).end(); return` already returns through the new Response
+    if (replacement.startsWith('return ')) {
+      const bareReturn = /^[ \t]*;?\s*return[ \t]*(?:;|(?=\n|\}|$))/.exec(body.slice(pos));
+      pos += bareReturn ? bareReturn[0].length : 0;
+    }
+    output += body.slice(cursor, match.index) + replacement;
+    cursor = pos;
+    chainStart.lastIndex = pos;
+  }
+
+  if (unsentHeaders) {
+    plan.warn('Some `res.setHeader()` calls come after the last response the handler sends; add those headers to the Response init (`{ headers: { ... } }`) where they belong.');
+  }
+  return output + body.slice(cursor);
+}
+
+/**
+ * Builds the Response for one `res` call chain
+ * @param headers - Headers set so far, by name; `setHeader` calls add to it
+ * @returns The return statement, an empty string for a chain that only sets headers, or null to leave the chain alone
+ */
+function responseExpression(calls: Array<{ name: string; args: string }>, headers: Map<string, string>, plan: PlanBuilder): string | null {
+  let status: string | undefined;
+  const init = () => {
+    const fields = [
+      status ? `status: ${status}` : '',
+      headers.size > 0 ? `headers: { ${[...headers].map(([key, value]) => `${key}: ${value}`).join(', ')} }` : ''
+    ].filter(Boolean);
+    return fields.length > 0 ? `, { ${fields.join(', ')} }` : '';
+  };
+
+  for (const { name, args } of calls) {
+    switch (name) {
+      case 'status':
+        status = args;
+        break;
+      case 'json':
+        return `return Response.json(${args}${init()})`;
+      case 'send':
+        return /^[{[]/.test(args)
+          ? `return Response.json(${args}${init()})`
+          : `return new Response(${args || 'null'}${init()})`;
+      case 'end':
+        return `return new Response(${args || 'null'}${init()})`;
+      case 'redirect': {
+        const [first, second] = splitArguments(args);
+        const [code, url] = second ? [first, second] : [status ?? '307', first];
+        return `return Response.redirect(new URL(${url}, request.url), ${code})`;
+      }
+      case 'setHeader': {
+        const [key, value] = splitArguments(args);
+        headers.set(/^(['"`]).*\1$/.test(key) ? key : `[${key}]`, value ?? "''");
+        break;
+      }
+      default:
+        plan.warn(`\`res.${name}()\` has no direct route handler equivalent and was left unchanged.`);
+        return null;
+    }
+  }
+  if (status) {
+    return `return new Response(null${init()})`;
+  }
+  return calls.every(call => call.name === 'setHeader') ? '' : null;
+}
+
+function planCustomApp(source: string, typescript: boolean, plan: PlanBuilder): void {
+  plan.detect('Custom App (_app)');
+  const ext = typescript ? 'tsx' : 'js';
+  const app = findDefaultExportFunction(source);
+
+  let rest = app ? removeSpans(source, [app]) : source;
+  rest = rest.replace(/^export\s+default\s+\w+\s*;?\s*$/m, '');
+  const [imports, code] = splitImports(rest);
+  const cssImports = imports.filter(statement => /^\s*import\s+['"][^'"]+\.(?:css|scss|sass)['"]/.test(statement));
+  const otherImports = imports.filter(statement => !cssImports.includes(statement));
+
+  const appBody = app ? extractHead(app.body, plan) : { source: '', metadataImport: () => '', metadata: () => '' };
+  if (app && /getLayout/.test(app.body)) {
+    plan.detect('getLayout pattern');
+    plan.warn('Per-page getLayout functions are not called in the App Router; turn each layout into a layout.js file in the route folders that use it.');
+    plan.step('Replace the getLayout pattern with nested layout.js files.', DOCS.getLayout);
+  }
+
+  const componentPattern = /<Component\s+\{\s*\.\.\.pageProps\s*\}[^>]*\/>/;
+  // Layout files take over from getLayout, so the page element is rendered as it is
+  const pageElement = appBody.source
+    .replace(/^[ \t]*const\s+getLayout\s*=.*\n/m, '')
+    .replace(/getLayout\(\s*(<Component\s+\{\s*\.\.\.pageProps\s*\}[^>]*\/>)\s*\)/, '$1');
+  const providerBody = pageElement.replace(componentPattern, '{children}');
+  const hasProviders = app !== undefined && componentPattern.test(pageElement) && !/^\s*return\s*\(?\s*\{children\}\s*\)?\s*;?\s*$/.test(providerBody.trim());
+
+  if (hasProviders) {
+    if (/\bpageProps\b/.test(providerBody) || /\bpageProps\s*:\s*\{/.test(app!.params)) {
+      plan.warn('The providers read pageProps (e.g. pageProps.session), which layouts do not receive; fetch that data in the layout and pass it to <Providers> as a prop.');
+    }
+    const providers = joinBlocks([
+      `'use client'`,
+      otherImports.join('\n'),
+      code.trim(),
+      [
+        `export function Providers({ children }${typescript ? ': { children: React.ReactNode }' : ''}) {`,
+        reindent(providerBody, '  '),
+        `}`
+      ].join('\n')
+    ]);
+    plan.files.push({ path: `app/providers.${ext}`, code: tidy(pruneUnusedImports(dropUnusedTypes(providers))) });
+    plan.step('Move context providers from _app into a Client Component (app/providers) rendered by the root layout.', DOCS.appAndDocument, DOCS.serverAndClient);
+  }
+
+  const layout = joinBlocks([
+    [...cssImports, appBody.metadataImport(typescript), hasProviders ? `import { Providers } from './providers'` : ''].filter(Boolean).join('\n'),
+    appBody.metadata(typescript),
+    rootLayout(typescript, '<html lang="en">', '<body>', hasProviders ? '<Providers>{children}</Providers>' : '{children}', [])
+  ]);
+  plan.files.push({ path: `app/layout.${ext}`, code: tidy(layout) });
+  plan.step('Create the root layout (app/layout) with <html> and <body>, and import the global styles there instead of in _app.', DOCS.rootLayout, DOCS.appAndDocument);
+  plan.step('Keep pages/_app until every route has moved to app/; the root layout does not apply to pages/.', DOCS.appAndDocument);
+  checkLegacyApis(source, plan);
+}
+
+function planCustomDocument(source: string, typescript: boolean, plan: PlanBuilder): void {
+  plan.detect('Custom Document (_document)');
+  const ext = typescript ? 'tsx' : 'js';
+
+  const htmlTag = /<Html\b([^>]*)>/.exec(source);
+  const bodyTag = /<body\b([^>]*)>/.exec(source);
+  const htmlAttributes = htmlTag?.[1].trim() || 'lang="en"';
+  const bodyAttributes = bodyTag?.[1].trim() ?? '';
+
+  const headContent = /<Head>([\s\S]*?)<\/Head>/.exec(source)?.[1].trim() ?? '';
+  const headElements = headContent ? headContent.split('\n').map(line => line.trim()).filter(Boolean) : [];
+  if (headElements.length > 0) {
+    plan.warn('Tags from the document <Head> were copied into <head> in the root layout; prefer the Metadata API for meta tags and next/font for font links.');
+    plan.step('Move <head> tags into the Metadata API (or keep them in the root layout\'s <head>).', DOCS.nextHead, DOCS.rootLayout);
+  }
+
+  let bodyContent = '{children}';
+  const bodyBlock = /<body\b[^>]*>([\s\S]*?)<\/body>/.exec(source)?.[1];
+  if (bodyBlock) {
+    const extra = bodyBlock
+      .replace(/<Main\s*\/>/, '{children}')
+      .replace(/<NextScript\s*\/>/, '')
+      .split('\n').map(line => line.trim()).filter(Boolean);
+    bodyContent = extra.join('\n') || '{children}';
+  }
+
+  if (/getInitialProps|renderPage|ServerStyleSheet/.test(source)) {
+    plan.detect('Document.getInitialProps');
+    plan.warn('Document.getInitialProps (often used for CSS-in-JS server rendering) has no App Router equivalent; use a style registry with useServerInsertedHTML.');
+    plan.step('Replace CSS-in-JS collection in Document.getInitialProps with a style registry component.', DOCS.cssInJs);
+  }
+
+  const [imports] = splitImports(source);
+  const keptImports = imports.filter(statement => !/from\s+['"]next\/document['"]/.test(statement));
+  const layout = joinBlocks([
+    keptImports.join('\n'),
+    rootLayout(typescript, `<html ${htmlAttributes}>`, bodyAttributes ? `<body ${bodyAttributes}>` : '<body>', bodyContent, headElements)
+  ]);
+  plan.files.push({ path: `app/layout.${ext}`, code: tidy(pruneUnusedImports(layout)) });
+  plan.step('Move the <html> and <body> markup from _document into the root layout (app/layout); <Main /> becomes {children} and <NextScript /> is no longer needed.', DOCS.rootLayout, DOCS.appAndDocument);
+}
+
+function planSpecialPage(source: string, kind: 'not-found' | 'error', typescript: boolean, plan: PlanBuilder): void {
+  const ext = typescript ? 'tsx' : 'js';
+
+  // Special files cannot export metadata, but React hoists <title> and <meta> rendered anywhere
+  let rest = source.replace(/<Head>([\s\S]*?)<\/Head>/g, '<>$1</>');
+  if (rest !== source) {
+    plan.detect('next/head');
+    rest = rest.replace(/^[ \t]*import\s+\w+\s+from\s+['"]next\/head['"];?[ \t]*\n?/m, '');
+    plan.step('Render the <title> and <meta> tags from next/head directly; React places them in the document head.', DOCS.nextHead);
+  }
+
+  if (kind === 'not-found') {
+    plan.detect('Custom 404 page');
+    plan.files.push({ path: `app/not-found.${ext}`, code: tidy(pruneUnusedImports(rest)) });
+    plan.step('Move the custom 404 page to app/not-found; call notFound() from next/navigation to render it from a route.', DOCS.notFoundFile);
+    return;
+  }
+
+  plan.detect('Custom error page');
+  if (/statusCode/.test(rest)) {
+    plan.warn('error.js receives { error, reset } instead of statusCode; show a generic message and offer reset().');
+  }
+  rest = rest.replace(/^\s*['"]use client['"];?\s*\n/, '');
+  plan.files.push({ path: `app/error.${ext}`, code: tidy(pruneUnusedImports(`'use client'\n\n${rest.trim()}`)) });
+  plan.step('Move the error page to app/error, a Client Component that receives { error, reset }; add app/global-error for errors in the root layout.', DOCS.errorFile);
+}
+
+function rootLayout(typescript: boolean, html: string, body: string, content: string, head: string[]): string {
+  const lines = [
+    `export default function RootLayout({ children }${typescript ? ': { children: React.ReactNode }' : ''}) {`,
+    `  return (`,
+    `    ${html}`
+  ];
+  if (head.length > 0) {
+    lines.push(`      <head>`, ...head.map(line => `        ${line}`), `      </head>`);
+  }
+  lines.push(`      ${body}`, ...content.split('\n').map(line => `        ${line}`), `      </body>`, `    </html>`, `  )`, `}`);
+  return lines.join('\n');
+}
+
+/**
+ * Removes next/head blocks and turns static titles and descriptions into a metadata export
+ */
+function extractHead(source: string, plan: PlanBuilder) {
+  const metadata: Record<string, string> = {};
+  let dynamic = false;
+
+  const stripped = source.replace(HEAD_BLOCK_PATTERN, (_match, content: string) => {
+    const title = /<title>([\s\S]*?)<\/title>/.exec(content)?.[1].trim();
+    const description = /<meta\s+name=["']description["']\s+content=(?:"([^"]*)"|'([^']*)'|\{([^}]*)\})/.exec(content);
+    if (title !== undefined) {
+      if (/[{}]/.test(title)) {
+        dynamic = true;
+      } else {
+        metadata.title = title;
+      }
+    }
+    if (description) {
+      if (description[3] !== undefined) {
+        dynamic = true;
+      } else {
+        metadata.description = description[1] ?? description[2];
+      }
+    }
+    return '';
+  });
+
+  const usesHead = stripped !== source || /from\s+['"]next\/head['"]/.test(source);
+  if (usesHead) {
+    plan.detect('next/head');
+    plan.step('Replace next/head with the Metadata API (`export const metadata` or generateMetadata).', DOCS.nextHead);
+  }
+  if (dynamic) {
+    plan.warn('The <Head> tags use dynamic values; export generateMetadata from the page and compute them from the same data.');
+    plan.step('Compute dynamic titles and descriptions in generateMetadata.', DOCS.generateMetadata);
+  }
+
+  const entries = Object.entries(metadata);
+  return {
+    source: stripped.replace(/^[ \t]*import\s+\w+\s+from\s+['"]next\/head['"];?[ \t]*\n?/m, ''),
+    metadataImport: (typescript: boolean) => entries.length > 0 && typescript ? `import type { Metadata } from 'next'` : '',
+    metadata: (typescript: boolean) => entries.length > 0
+      ? `export const metadata${typescript ? ': Metadata' : ''} = {\n${entries.map(([key, value]) => `  ${key}: ${JSON.stringify(value)},`).join('\n')}\n}`
+      : ''
+  };
+}
+
+function removeGetLayout(source: string, plan: PlanBuilder): string {
+  const assignment = /^[ \t]*\w+\.getLayout\s*=/m.exec(source);
+  if (!assignment) {
+    return source;
+  }
+  plan.detect('getLayout pattern');
+  plan.warn('The page defines getLayout; move that layout into a layout.js file in the route folder.');
+  plan.step('Replace the page\'s getLayout with a nested layout.js file.', DOCS.getLayout);
+
+  // Remove through the end of the assigned function or expression
+  const open = source.slice(assignment.index).search(/[({]/);
+  const close = open === -1 ? -1 : findClosingBracket(source, assignment.index + open);
+  const end = close === -1 ? source.indexOf('\n', assignment.index) : close + 1;
+  return source.slice(0, assignment.index) + source.slice(end).replace(/^[ \t]*;?[ \t]*(?:\)[ \t]*;?)?\n?/, '');
+}
+
+/**
+ * Switches next/router to next/navigation, rewriting the router fields that have direct replacements
+ */
+function migrateRouterUsage(source: string, dynamicParams: string[], plan: PlanBuilder): string {
+  plan.detect('next/router');
+  plan.step('Import useRouter from next/navigation; read the path and params with usePathname, useSearchParams and useParams.', DOCS.routingHooks);
+
+  const dynamic = new Set(dynamicParams);
+  const hooks = new Set(['useRouter']);
+  let output = source.replace(/(['"])next\/router\1/g, '$1next/navigation$1');
+
+  output = output.replace(/\b(\w+)\.query(?:\.(\w+)|\[\s*['"]([^'"]+)['"]\s*\])/g, (match, object: string, dotted: string, bracketed: string) => {
+    if (object !== 'router') {
+      return match;
+    }
+    const name = dotted ?? bracketed;
+    if (dynamic.has(name)) {
+      hooks.add('useParams');
+      return `params.${name}`;
+    }
+    hooks.add('useSearchParams');
+    return `searchParams.get('${name}')`;
+  });
+  output = output.replace(/\brouter\.pathname\b/g, () => {
+    hooks.add('usePathname');
+    return 'pathname';
+  });
+
+  if (/\brouter\.query\b/.test(output)) {
+    plan.warn('`router.query` is used as a whole; read dynamic segments with useParams() and the query string with useSearchParams().');
+  }
+  if (/\brouter\.(?:asPath|basePath|locale|locales|isFallback|isReady|events)\b/.test(output)) {
+    plan.warn('router.asPath, isReady, isFallback, events and locale have no next/navigation equivalent; use usePathname/useSearchParams, or handle i18n in the route structure.');
+  }
+  if (/\brouter\.(?:push|replace)\s*\(\s*\{/.test(output)) {
+    plan.warn('router.push/replace take a URL string in the App Router; build the string instead of passing a URL object.');
+  }
+
+  // Declare the extra hooks next to the existing useRouter call
+  const extraHooks = [...hooks].filter(hook => hook !== 'useRouter');
+  if (extraHooks.length > 0) {
+    output = output.replace(/^([ \t]*)const\s+router\s*=\s*useRouter\(\)[ \t]*;?/m, (line, indent: string) => [
+      line,
+      ...extraHooks.map(hook => `${indent}const ${{ useParams: 'params', useSearchParams: 'searchParams', usePathname: 'pathname' }[hook]} = ${hook}()`)
+    ].join('\n'));
+    output = output.replace(/import\s*\{([^}]*)\}\s*from\s*(['"])next\/navigation\2/, (_match, names: string, quote: string) => {
+      const all = new Set([...names.split(',').map(name => name.trim()).filter(Boolean), ...extraHooks]);
+      return `import { ${[...all].join(', ')} } from ${quote}next/navigation${quote}`;
+    });
+  }
+
+  // Drop router if only the replaced fields used it
+  if (!/\brouter\b(?!\s*=\s*useRouter)/.test(output.replace(/const\s+router\s*=\s*useRouter\(\)/, ''))) {
+    output = output.replace(/^[ \t]*const\s+router\s*=\s*useRouter\(\)[ \t]*;?[ \t]*\n/m, '');
+  }
+  return output;
+}
+
+function checkLegacyApis(source: string, plan: PlanBuilder): void {
+  if (/from\s+['"]next\/legacy\/image['"]/.test(source)) {
+    plan.warn('next/legacy/image is not supported in the App Router; switch to next/image.');
+  }
+  if (/\buseAmp\b|amp\s*:\s*(?:true|['"]hybrid['"])/.test(source)) {
+    plan.warn('AMP pages are not supported in the App Router.');
+  }
+  if (/<Link\b[^>]*>\s*<a\b/.test(source)) {
+    plan.warn('<Link> renders its own <a>; remove the nested <a> and move its props onto <Link>.');
+  }
+}
+
+function findExportedFunction(source: string, name: string): FunctionSpan | undefined {
+  const declaration = new RegExp(`^[ \\t]*export\\s+(?:async\\s+)?function\\s+${name}\\s*(?:<[^>]*>)?\\s*\\(`, 'm').exec(source);
+  if (declaration) {
+    return functionSpanFrom(source, name, declaration.index, declaration.index + declaration[0].length - 1);
+  }
+
+  const constant = new RegExp(`^[ \\t]*export\\s+const\\s+${name}\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:function\\s*\\w*\\s*)?\\(`, 'm').exec(source);
+  if (constant) {
+    return functionSpanFrom(source, name, constant.index, constant.index + constant[0].length - 1);
+  }
+  return undefined;
+}
+
+function findExportedConst(source: string, name: string): FunctionSpan | undefined {
+  const declaration = new RegExp(`^[ \\t]*export\\s+const\\s+${name}\\s*(?::[^=]+)?=\\s*\\{`, 'm').exec(source);
+  if (!declaration) {
+    return undefined;
+  }
+  const open = declaration.index + declaration[0].length - 1;
+  const close = findClosingBracket(source, open);
+  if (close === -1) {
+    return undefined;
+  }
+  const end = /^;?/.exec(source.slice(close + 1))![0].length + close + 1;
+  return { name, start: declaration.index, end, text: source.slice(declaration.index, end), params: '', body: source.slice(open + 1, close) };
+}
+
+/**
+ * Finds the default-exported function, whether declared inline or exported by name
+ */
+function findDefaultExportFunction(source: string): FunctionSpan | undefined {
+  const inline = /^[ \t]*export\s+default\s+(?:async\s+)?function\s*(\w*)\s*(?:<[^>]*>)?\s*\(/m.exec(source);
+  if (inline) {
+    return functionSpanFrom(source, inline[1] || 'handler', inline.index, inline.index + inline[0].length - 1);
+  }
+
+  const name = /^[ \t]*export\s+default\s+(\w+)\s*;?\s*$/m.exec(source)?.[1];
+  if (!name) {
+    return undefined;
+  }
+  const declaration = new RegExp(`^[ \\t]*(?:async\\s+)?function\\s+${name}\\s*(?:<[^>]*>)?\\s*\\(|^[ \\t]*(?:const|let)\\s+${name}\\s*(?::[^=]+)?=\\s*(?:async\\s*)?(?:function\\s*\\w*\\s*)?\\(`, 'm').exec(source);
+  return declaration
+    ? functionSpanFrom(source, name, declaration.index, declaration.index + declaration[0].length - 1)
+    : undefined;
+}
+
+function findDefaultExportName(source: string): string | undefined {
+  return /export\s+default\s+(?:async\s+)?function\s+(\w+)/.exec(source)?.[1] ??
+    /^[ \t]*export\s+default\s+(\w+)\s*;?\s*$/m.exec(source)?.[1];
+}
+
+function functionSpanFrom(source: string, name: string, start: number, paramsOpen: number): FunctionSpan | undefined {
+  const paramsClose = findClosingBracket(source, paramsOpen);
+  if (paramsClose === -1) {
+    return undefined;
+  }
+
+  // Skip a return type annotation and the arrow, then expect the body brace
+  let bodyOpen = paramsClose + 1;
+  while (bodyOpen < source.length && source[bodyOpen] !== '{') {
+    if (source[bodyOpen] === '<' || source[bodyOpen] === '(') {
+      const close = source[bodyOpen] === '(' ? findClosingBracket(source, bodyOpen) : source.indexOf('>', bodyOpen);
+      bodyOpen = close === -1 ? source.length : close + 1;
+    } else {
+      bodyOpen++;
+    }
+  }
+  const bodyClose = findClosingBracket(source, bodyOpen);
+  if (bodyClose === -1) {
+    return undefined;
+  }
+
+  const end = bodyClose + 1 + /^;?/.exec(source.slice(bodyClose + 1))![0].length;
+  return {
+    name,
+    start,
+    end,
+    text: source.slice(start, end).trim(),
+    params: source.slice(paramsOpen + 1, paramsClose),
+    body: source.slice(bodyOpen + 1, bodyClose)
+  };
+}
+
+function removeSpans(source: string, spans: FunctionSpan[]): string {
+  let output = source;
+  for (const span of [...spans].sort((a, b) => b.start - a.start)) {
+    output = output.slice(0, span.start) + output.slice(span.end);
+  }
+  return output;
+}
+
+/**
+ * Removes Pages Router type annotations from a data function kept in an app/ file
+ */
+/**
+ * Turns a data function into a plain function the page calls with `{ params, query }`. Reads of
+ * `req.cookies` and `req.headers` become cookies() and headers() from next/headers, and in
+ * TypeScript the GetServerSideProps/GetStaticProps annotation gives way to an inline type of that
+ * argument, so the context parameter stays typed
+ * @param nextHeaders - Collects the next/headers functions the code now calls
+ * @returns The code, or null when it still needs the Node.js request or response
+ */
+function migrateDataFunction(span: FunctionSpan, route: RouteInfo, typescript: boolean, needsQuery: boolean, nextHeaders: Set<string>): string | null {
+  let text = stripDataFunctionTypes(span.text.replace(/^export\s+/, ''));
+  const param = span.params.trim();
+  if (span.name === 'getStaticPaths' || !param) {
+    return text;
+  }
+
+  // The parameter without its type: `context` or a pattern such as `{ params, req }`
+  let pattern = param.startsWith('{') ? param.slice(0, findClosingBracket(param, 0) + 1) : param.replace(/\s*:[\s\S]*$/, '');
+  const destructured = pattern.startsWith('{');
+  const request = destructured ? 'req' : `${pattern}\\.req`;
+
+  let body = span.body;
+  body = body.replace(new RegExp(`\\b${request}\\.(cookies|headers)(?:\\.(\\w+)|\\[\\s*['"]([^'"]+)['"]\\s*\\])`, 'g'),
+    (_match, kind: string, dotted: string, bracketed: string) => {
+      nextHeaders.add(kind);
+      const name = dotted ?? bracketed;
+      return kind === 'cookies' ? `(await cookies()).get('${name}')?.value` : `(await headers()).get('${name.toLowerCase()}')`;
+    });
+
+  // Whatever still reaches for the request or response, or hands the whole context on, cannot run
+  if (destructured) {
+    const entries = splitArguments(pattern.slice(1, -1));
+    const kept = entries.filter(entry => !/^(?:req|res)$/.test(entry) || new RegExp(`\\b${entry}\\b`).test(body));
+    if (kept.some(entry => /^(?:req|res)\b/.test(entry))) {
+      return null;
+    }
+    pattern = kept.length > 0 ? `{ ${kept.join(', ')} }` : '{}';
+  } else if (new RegExp(`\\b${pattern}(?:\\.(?:req|res)\\b|(?!\\s*(?:\\.|\\?\\.)))`).test(body)) {
+    return null;
+  }
+
+  text = text.replace(span.body, body);
+  if (!typescript) {
+    return text.replace(`(${span.params})`, `(${pattern})`);
+  }
+  const props = `PageProps<'${route.route}'>`;
+  const contextType = `{ params: Awaited<${props}['params']>${needsQuery ? `; query: Awaited<${props}['searchParams']>` : ''} }`;
+  return text.replace(`(${span.params})`, `(${pattern}: ${contextType})`);
+}
+
+function stripDataFunctionTypes(text: string): string {
+  return text.replace(/(const\s+\w+)\s*:\s*(?:GetServerSideProps|GetStaticProps|GetStaticPaths)\b(?:<[^=]*>)?\s*=/, '$1 =');
+}
+
+function splitImports(source: string): [string[], string] {
+  const imports: string[] = [];
+  const code = source.replace(IMPORT_STATEMENT_PATTERN, statement => {
+    imports.push(statement.trim());
+    return '';
+  });
+  return [imports, code];
+}
+
+function stripImports(source: string): string {
+  return splitImports(source)[1];
+}
+
+/**
+ * Picks the import statements of a module whose bindings are used by a piece of code
+ */
+function selectImports(source: string, code: string): string[] {
+  return splitImports(source)[0].filter(statement => {
+    const bindings = parseImports(statement).map(entry => entry.name).filter(Boolean);
+    return bindings.some(binding => new RegExp(`\\b${escapeRegExp(binding)}\\b`).test(code));
+  });
+}
+
+/**
+ * Drops named imports (and whole statements) whose bindings a generated file no longer uses.
+ * React imports and side-effect imports are kept.
+ */
+function pruneUnusedImports(code: string): string {
+  const body = splitImports(code)[1];
+  const used = (binding: string) => new RegExp(`\\b${escapeRegExp(binding)}\\b`).test(body);
+
+  return code.replace(IMPORT_STATEMENT_PATTERN, statement => {
+    if (!/\bfrom\b/.test(statement) || /from\s+['"]react['"]/.test(statement)) {
+      return statement;
+    }
+
+    const named = /\{([^}]*)\}/.exec(statement);
+    const defaultBinding = /^\s*import\s+(?:type\s+)?([\w$]+)\s*(?:,|\s+from)/.exec(statement)?.[1];
+    const namespace = /\*\s+as\s+([\w$]+)/.exec(statement)?.[1];
+
+    const keptNamed = named
+      ? named[1].split(',').map(part => part.trim()).filter(part => part && used(part.replace(/^type\s+/, '').split(/\s+as\s+/).pop()!.trim()))
+      : [];
+    const keepDefault = defaultBinding !== undefined && used(defaultBinding);
+    const keepNamespace = namespace !== undefined && used(namespace);
+
+    if (!keepDefault && !keepNamespace && keptNamed.length === 0) {
+      return '';
+    }
+    if (!named || keptNamed.length === named[1].split(',').filter(part => part.trim()).length) {
+      return statement;
+    }
+    const clause = [keepDefault ? defaultBinding : '', keptNamed.length > 0 ? `{ ${keptNamed.join(', ')} }` : ''].filter(Boolean).join(', ');
+    return statement.replace(/import\s+(type\s+)?[\s\S]*?\s+from/, (_match, type: string | undefined) => `import ${type ?? ''}${clause} from`);
+  });
+}
+
+/**
+ * Drops module-private type aliases and interfaces nothing refers to any more, such as the
+ * AppProps-based props type of a moved _app component, so their imports can go too
+ */
+function dropUnusedTypes(code: string): string {
+  const declaration = /^(?:type\s+(\w+)\b[\s\S]*?(?=\n[ \t]*\n|\n(?:export|type|interface|const|let|var|function|import)\b|$)|interface\s+(\w+)\b[^{]*\{)/gm;
+  for (;;) {
+    let removed = false;
+    for (const match of code.matchAll(declaration)) {
+      const name = match[1] ?? match[2];
+      let end = match.index! + match[0].length;
+      if (match[2]) {
+        const close = findClosingBracket(code, end - 1);
+        end = close === -1 ? code.length : close + 1;
+      }
+      const others = code.slice(0, match.index) + code.slice(end);
+      if (!new RegExp(`\\b${name}\\b`).test(others)) {
+        code = code.slice(0, match.index) + code.slice(end).replace(/^;?[ \t]*\n?/, '');
+        removed = true;
+        break;
+      }
+    }
+    if (!removed) {
+      return code;
+    }
+  }
+}
+
+function splitArguments(args: string): string[] {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < args.length; i++) {
+    const char = args[i];
+    if ('([{'.includes(char)) {
+      depth++;
+    } else if (')]}'.includes(char)) {
+      depth--;
+    } else if (char === ',' && depth === 0) {
+      parts.push(args.slice(start, i).trim());
+      start = i + 1;
+    }
+  }
+  parts.push(args.slice(start).trim());
+  return parts.filter(Boolean);
+}
+
+/**
+ * Rewrites relative module specifiers so they resolve the same from another directory
+ */
+function rebaseRelativeImports(source: string, fromDir: string, toDir: string): string {
+  if (fromDir === toDir) {
+    return source;
+  }
+  return source.replace(/(\bfrom\s+|\bimport\s+|\bimport\(\s*|\brequire\(\s*)(['"])(\.\.?\/[^'"]*)\2/g, (_match, prefix: string, quote: string, specifier: string) => {
+    const target = path.posix.join(fromDir, specifier);
+    const rebased = path.posix.relative(toDir, target);
+    return `${prefix}${quote}${rebased.startsWith('.') ? rebased : `./${rebased}`}${quote}`;
+  });
+}
+
+function joinBlocks(blocks: string[]): string {
+  return blocks.map(block => block.trim()).filter(Boolean).join('\n\n');
+}
+
+function tidy(code: string): string {
+  return `${code.replace(/\n{3,}/g, '\n\n').trim()}\n`;
+}
+
+function reindent(text: string, indent: string): string {
+  const lines = text.replace(/^\s*\n/, '').trimEnd().split('\n');
+  const indentOf = (line: string) => /^\s*/.exec(line)![0].length;
+  const measured = lines.filter(line => line.trim());
+  const common = measured.length > 0 ? Math.min(...measured.map(indentOf)) : 0;
+  return lines.map(line => line.trim() ? indent + line.slice(common) : '').join('\n');
+}
+
+function kebabCase(name: string): string {
+  return name.replace(/([a-z0-9])([A-Z])/g, '$1-$2').toLowerCase();
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
@@ -0,0 +1,447 @@
+import { DocSection } from '../types.js';
+import { editDistance, fuzzyTolerance, isStopWord, splitWords, stem, tokenize } from '../utils/textAnalysis.js';
+import { ParsedDocument } from './docsParser.js';
+
+// BM25 tuning parameters (standard Okapi defaults)
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+// Heading terms count this many times toward a section's term frequency
+const TITLE_WEIGHT = 3;
+
+// Multiplier applied when the whole query appears verbatim in a section
+const PHRASE_BOOST = 1.5;
+
+// Multiplier applied when every query term appears in the section title
+const TITLE_MATCH_BOOST = 2;
+
+// Fuzzy expansions of an unknown query term count for this share of an exact match
+const FUZZY_WEIGHT = 0.8;
+
+// How many vocabulary neighbours an unknown term expands to
+const FUZZY_CANDIDATES = 3;
+
+const SNIPPET_CONTEXT_LINES = 3;
+
+// Hyphenated identifiers such as utility classes ("text-ellipsis") and CLI flags
+const COMPOUND_PATTERN = /[a-z0-9]+(?:-[a-z0-9]+)+/gi;
+
+export interface SearchHit {
+  document: ParsedDocument;
+  section: DocSection;
+  score: number;
+  matchedTerms: string[];
+  snippet: string;
+  snippetStartLine: number;
+  expansion?: string; // Alternative query that produced this hit, when not the original
+}
+
+interface IndexEntry {
+  document: ParsedDocument;
+  section: DocSection;
+}
+
+export interface SerializedSearchIndex {
+  postings: Array<[string, number[]]>;
+  sectionLengths: number[];
+}
+
+interface ExpandedTerm {
+  term: string;
+  queryIndex: number; // Position of the original query term this expansion stands for
+  weight: number;
+}
+
+interface Vocabulary {
+  surfaceForms: Map<string, string>; // stem -> most common word form
+  compounds: Map<string, number>; // hyphenated identifier -> occurrences
+}
+
+/**
+ * Inverted index over the sections of one or more parsed documents,
+ * ranked with BM25 so multi-word queries favour sections where the terms co-occur.
+ * Each section is indexed on its own text only, so parents and children do not double-count.
+ */
+export class SearchIndex {
+  private readonly postings = new Map<string, number[]>(); // term -> [entryId, tf, entryId, tf, ...]
+  private readonly sectionLengths: number[] = [];
+  private readonly averageSectionLength: number;
+
+  private readonly entries: IndexEntry[];
+  private vocabulary?: Vocabulary;
+
+  /**
+   * @param documents - Documents whose sections are indexed, in a stable order
+   * @param serialized - Previously built postings for the same documents, restored instead of re-tokenizing
+   */
+  constructor(documents: ParsedDocument[], serialized?: SerializedSearchIndex) {
+    this.entries = documents.flatMap(document => document.sections.map(section => ({ document, section })));
+
+    if (serialized && serialized.sectionLengths.length === this.entries.length) {
+      for (const [term, list] of serialized.postings) {
+        this.postings.set(term, list);
+      }
+      this.sectionLengths = serialized.sectionLengths;
+    } else {
+      this.build();
+    }
+
+    const totalLength = this.sectionLengths.reduce((sum, length) => sum + length, 0);
+    this.averageSectionLength = this.entries.length > 0 ? totalLength / this.entries.length : 0;
+  }
+
+  /**
+   * Exports the postings so the index can be restored without re-tokenizing its documents
+   * @returns Plain data suitable for JSON serialization
+   */
+  serialize(): SerializedSearchIndex {
+    return {
+      postings: [...this.postings],
+      sectionLengths: this.sectionLengths
+    };
+  }
+
+  /** Number of indexed sections */
+  get sectionCount(): number {
+    return this.entries.length;
+  }
+
+  /**
+   * Ranks sections against a free-text query. Query terms missing from the index are
+   * expanded to close vocabulary terms, so typos still find the intended sections.
+   * @param query - The search query
+   * @param limit - Maximum number of hits to return
+   * @param filter - Optional predicate restricting which documents may appear in the results
+   * @returns Hits ordered by descending relevance
+   */
+  search(query: string, limit: number, filter?: (document: ParsedDocument) => boolean): SearchHit[] {
+    query = this.correctCompounds(query).query;
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0) {
+      return [];
+    }
+
+    const expanded = this.expandTerms(queryTerms);
+    const scores = new Map<number, number>();
+    const matches = new Map<number, Map<number, string>>(); // entryId -> query term index -> matched term
+    const sectionCount = this.entries.length;
+
+    for (const { term, queryIndex, weight } of expanded) {
+      const list = this.postings.get(term)!;
+      const documentFrequency = list.length / 2;
+      const idf = Math.log(1 + (sectionCount - documentFrequency + 0.5) / (documentFrequency + 0.5));
+
+      for (let i = 0; i < list.length; i += 2) {
+        const entryId = list[i];
+        if (filter && !filter(this.entries[entryId].document)) {
+          continue;
+        }
+        const tf = list[i + 1];
+        const lengthNorm = 1 - BM25_B + BM25_B * (this.sectionLengths[entryId] / this.averageSectionLength);
+        const termScore = weight * idf * (tf * (BM25_K1 + 1)) / (tf + BM25_K1 * lengthNorm);
+
+        scores.set(entryId, (scores.get(entryId) ?? 0) + termScore);
+        let matched = matches.get(entryId);
+        if (!matched) {
+          matched = new Map();
+          matches.set(entryId, matched);
+        }
+        if (!matched.has(queryIndex)) {
+          matched.set(queryIndex, term);
+        }
+      }
+    }
+
+    // Coordination factor: sections containing every query term outrank partial matches
+    const ranked = [...scores.entries()].map(([entryId, score]) => ({
+      entryId,
+      score: score * (matches.get(entryId)!.size / queryTerms.length)
+    }));
+    ranked.sort((a, b) => b.score - a.score);
+
+    // Phrase and title boosts are only worth computing for the head of the ranking
+    const phrase = query.toLowerCase().trim().replace(/\s+/g, ' ');
+    const candidates = ranked.slice(0, Math.max(limit * 4, 20));
+    for (const candidate of candidates) {
+      const titleTerms = new Set(tokenize(this.entries[candidate.entryId].section.title));
+      if (queryTerms.every((_, queryIndex) =>
+        expanded.some(entry => entry.queryIndex === queryIndex && titleTerms.has(entry.term)))) {
+        candidate.score *= TITLE_MATCH_BOOST;
+      }
+      if (queryTerms.length > 1 && this.sectionText(candidate.entryId).toLowerCase().includes(phrase)) {
+        candidate.score *= PHRASE_BOOST;
+      }
+    }
+    candidates.sort((a, b) => b.score - a.score);
+
+    const snippetTerms = expanded.map(entry => entry.term);
+    return candidates.slice(0, limit).map(({ entryId, score }) => {
+      const { document, section } = this.entries[entryId];
+      const { snippet, startLine } = this.buildSnippet(document, section, snippetTerms);
+      return {
+        document,
+        section,
+        score: Math.round(score * 100) / 100,
+        matchedTerms: [...matches.get(entryId)!.values()],
+        snippet,
+        snippetStartLine: startLine
+      };
+    });
+  }
+
+  /**
+   * Ranks sections against a query and alternative phrasings of it, interleaving the two rankings
+   * @param query - The search query
+   * @param expansions - Alternative queries, such as current names for a deprecated API
+   * @param limit - Maximum number of hits to return
+   * @param filter - Optional predicate restricting which documents may appear in the results
+   * @returns Hits ordered by descending relevance; hits that only an expansion found carry it in `expansion`
+   */
+  searchWithExpansions(query: string, expansions: string[], limit: number, filter?: (document: ParsedDocument) => boolean): SearchHit[] {
+    const direct = this.search(query, limit, filter);
+    if (expansions.length === 0) {
+      return direct;
+    }
+
+    const alternatives = expansions
+      .flatMap(expansion => this.search(expansion, limit, filter).map(hit => ({ ...hit, expansion })))
+      .sort((a, b) => b.score - a.score);
+
+    // Alternate between the two rankings: scores from different queries are not comparable,
+    // and callers asking with an old name want both the old docs and the current equivalent
+    const merged: SearchHit[] = [];
+    const seen = new Set<DocSection>();
+    const queues = [direct, alternatives];
+    for (let turn = 0; merged.length < limit && queues.some(queue => queue.length > 0); turn++) {
+      const queue = queues[turn % 2].length > 0 ? queues[turn % 2] : queues[(turn + 1) % 2];
+      const hit = queue.shift()!;
+      if (!seen.has(hit.section)) {
+        seen.add(hit.section);
+        merged.push(hit);
+      }
+    }
+    return merged;
+  }
+
+  /**
+   * Suggests corrected queries for words that do not occur anywhere in the index
+   * @param query - The search query
+   * @param maxSuggestions - Maximum number of alternative queries
+   * @returns Corrected queries, best first; empty when every word is known
+   */
+  suggest(query: string, maxSuggestions: number = 3): string[] {
+    const { query: corrected, corrected: compoundFixes } = this.correctCompounds(query);
+    const corrections = new Map<string, string[]>();
+
+    for (const word of new Set(splitWords(corrected))) {
+      if (isStopWord(word) || this.postings.has(stem(word))) {
+        continue;
+      }
+      const candidates = this.findSimilarTerms(stem(word), FUZZY_CANDIDATES)
+        .map(({ term }) => this.getSurfaceForm(term))
+        .filter((surface, i, all) => surface !== word && all.indexOf(surface) === i);
+      if (candidates.length > 0) {
+        corrections.set(word, candidates);
+      }
+    }
+
+    if (corrections.size === 0 && compoundFixes.size === 0) {
+      return [];
+    }
+
+    const suggestions: string[] = [];
+    for (let rank = 0; rank < maxSuggestions; rank++) {
+      const suggestion = corrected.trim().replace(/[a-z0-9]+/gi, word => {
+        const candidates = corrections.get(word.toLowerCase());
+        return candidates ? candidates[Math.min(rank, candidates.length - 1)] : word;
+      });
+      if (!suggestions.includes(suggestion)) {
+        suggestions.push(suggestion);
+      }
+    }
+    return suggestions;
+  }
+
+  /**
+   * Pairs each query term with the index terms it should match: itself when indexed,
+   * otherwise its nearest vocabulary neighbours at a reduced weight
+   */
+  private expandTerms(queryTerms: string[]): ExpandedTerm[] {
+    const expanded: ExpandedTerm[] = [];
+
+    queryTerms.forEach((term, queryIndex) => {
+      if (this.postings.has(term)) {
+        expanded.push({ term, queryIndex, weight: 1 });
+        return;
+      }
+      for (const { term: similar } of this.findSimilarTerms(term, FUZZY_CANDIDATES)) {
+        expanded.push({ term: similar, queryIndex, weight: FUZZY_WEIGHT });
+      }
+    });
+
+    return expanded;
+  }
+
+  /**
+   * Finds indexed terms within the fuzzy tolerance of a term, closest and most common first
+   */
+  private findSimilarTerms(term: string, limit: number): Array<{ term: string; distance: number; frequency: number }> {
+    const tolerance = fuzzyTolerance(term.length);
+    if (tolerance === 0) {
+      return [];
+    }
+
+    const similar: Array<{ term: string; distance: number; frequency: number }> = [];
+    for (const [candidate, list] of this.postings) {
+      if (Math.abs(candidate.length - term.length) > tolerance) {
+        continue;
+      }
+      const distance = editDistance(term, candidate, tolerance);
+      if (distance <= tolerance) {
+        similar.push({ term: candidate, distance, frequency: list.length / 2 });
+      }
+    }
+
+    similar.sort((a, b) => a.distance - b.distance || b.frequency - a.frequency);
+    return similar.slice(0, limit);
+  }
+
+  /**
+   * Maps a stemmed term back to a real word from the corpus for display
+   */
+  private getSurfaceForm(term: string): string {
+    return this.getVocabulary().surfaceForms.get(term) ?? term;
+  }
+
+  /**
+   * Replaces hyphenated identifiers that never occur in the corpus ("text-ellipses")
+   * with the closest one that does ("text-ellipsis"), since their parts are often real words
+   * @returns The query with corrected identifiers, and the corrections that were made
+   */
+  private correctCompounds(query: string): { query: string; corrected: Map<string, string> } {
+    const corrected = new Map<string, string>();
+    if (!query.includes('-')) {
+      return { query, corrected };
+    }
+
+    const { compounds } = this.getVocabulary();
+    const rewritten = query.replace(COMPOUND_PATTERN, match => {
+      const compound = match.toLowerCase();
+      if (compounds.has(compound)) {
+        return match;
+      }
+      const tolerance = fuzzyTolerance(compound.length);
+      let best: { compound: string; distance: number; frequency: number } | null = null;
+      for (const [candidate, frequency] of compounds) {
+        const distance = editDistance(compound, candidate, tolerance);
+        if (distance <= tolerance &&
+            (!best || distance < best.distance || (distance === best.distance && frequency > best.frequency))) {
+          best = { compound: candidate, distance, frequency };
+        }
+      }
+      if (!best) {
+        return match;
+      }
+      corrected.set(compound, best.compound);
+      return best.compound;
+    });
+
+    return { query: rewritten, corrected };
+  }
+
+  /**
+   * Collects display forms for stems and the hyphenated identifiers used in the corpus.
+   * Built lazily because it is only needed for queries with unknown words or identifiers.
+   */
+  private getVocabulary(): Vocabulary {
+    if (!this.vocabulary) {
+      const counts = new Map<string, Map<string, number>>();
+      const compounds = new Map<string, number>();
+
+      for (const { document, section } of this.entries) {
+        const text = section.title + '\n' + document.getOwnContent(section);
+        for (const word of splitWords(text)) {
+          if (isStopWord(word)) continue;
+          const stemmed = stem(word);
+          let forms = counts.get(stemmed);
+          if (!forms) {
+            forms = new Map();
+            counts.set(stemmed, forms);
+          }
+          forms.set(word, (forms.get(word) ?? 0) + 1);
+        }
+        for (const compound of text.toLowerCase().match(COMPOUND_PATTERN) ?? []) {
+          compounds.set(compound, (compounds.get(compound) ?? 0) + 1);
+        }
+      }
+
+      const surfaceForms = new Map<string, string>();
+      for (const [stemmed, forms] of counts) {
+        const [mostCommon] = [...forms.entries()].sort((a, b) => b[1] - a[1])[0];
+        surfaceForms.set(stemmed, mostCommon);
+      }
+      this.vocabulary = { surfaceForms, compounds };
+    }
+
+    return this.vocabulary;
+  }
+
+  private build(): void {
+    this.entries.forEach(({ document, section }, entryId) => {
+      const frequencies = new Map<string, number>();
+      const addTerms = (text: string, weight: number) => {
+        for (const term of tokenize(text)) {
+          frequencies.set(term, (frequencies.get(term) ?? 0) + weight);
+        }
+      };
+
+      addTerms(section.title, TITLE_WEIGHT);
+      addTerms(document.getOwnContent(section), 1);
+
+      let length = 0;
+      for (const [term, tf] of frequencies) {
+        let list = this.postings.get(term);
+        if (!list) {
+          list = [];
+          this.postings.set(term, list);
+        }
+        list.push(entryId, tf);
+        length += tf;
+      }
+
+      this.sectionLengths.push(length);
+    });
+  }
+
+  private sectionText(entryId: number): string {
+    const { document, section } = this.entries[entryId];
+    return document.getOwnContent(section);
+  }
+
+  /**
+   * Picks the line in a section with the most distinct query terms and returns it with surrounding context
+   */
+  private buildSnippet(document: ParsedDocument, section: DocSection, queryTerms: string[]): { snippet: string; startLine: number } {
+    const { lines } = document;
+    let bestLine = section.startLine;
+    let bestCount = 0;
+
+    for (let lineNumber = section.startLine; lineNumber <= section.contentEndLine; lineNumber++) {
+      const lineTerms = new Set(tokenize(lines[lineNumber - 1]));
+      const count = queryTerms.filter(term => lineTerms.has(term)).length;
+      if (count > bestCount) {
+        bestCount = count;
+        bestLine = lineNumber;
+        if (count === queryTerms.length) break;
+      }
+    }
+
+    const startLine = Math.max(section.startLine, bestLine - SNIPPET_CONTEXT_LINES);
+    const endLine = Math.min(section.contentEndLine, bestLine + SNIPPET_CONTEXT_LINES);
+
+    return {
+      snippet: lines.slice(startLine - 1, endLine).join('\n'),
+      startLine
+    };
+  }
+}
@@ -0,0 +1,1447 @@
+import { DocSection } from '../types.js';
+import { findClosingBracket } from '../utils/jsLiteral.js';
+import { extractCodeExamples } from './codeExampleService.js';
+import { ParsedDocument } from './docsParser.js';
+
+export interface CssDeclaration {
+  property: string;
+  value: string;
+  selector?: string; // Nested selector the declaration sits under, e.g. `& > :not(:last-child)`
+  comment?: string; // Resolved theme value, e.g. `oklch(0.623 0.214 259.815)`
+}
+
+export interface ResolvedVariant {
+  name: string;
+  headers: string[]; // Wrapping at-rules and `&` selectors, outermost first
+  docs?: DocSection;
+}
+
+export interface ParsedClass {
+  className: string;
+  variants: string[]; // Outermost first, as written
+  utility: string; // Utility with its modifier, without variants or the important flag
+  important: boolean;
+}
+
+export interface ResolvedClass extends ParsedClass {
+  resolvedVariants: ResolvedVariant[];
+  declarations: CssDeclaration[];
+  pattern?: string; // Docs reference row the utility matched, e.g. `px-[<value>]`
+  page?: DocSection; // Docs page that documents the utility
+  example?: DocSection; // Subsection of the page closest to how the class is used
+  note?: string;
+  error?: string;
+  suggestions?: string[]; // Known classes close to an unrecognized one
+}
+
+export interface UtilityTemplate {
+  pattern: string;
+  declarations: CssDeclaration[]; // As the reference row writes them, placeholders such as `<number>` left in
+  page: DocSection;
+}
+
+interface UtilityRow {
+  pattern: string;
+  css: string;
+  page: DocSection;
+  regex?: RegExp;
+  placeholders?: string[];
+}
+
+interface VariantRule {
+  headers: string[];
+  docs: string;
+  declarations?: CssDeclaration[]; // Added to the utility's own declarations, e.g. `content` for ::before
+}
+
+type ValueType = 'color' | 'image' | 'other';
+type TableValue = string | number | boolean | null | TableValue[] | TableFunction | { [key: string]: TableValue };
+type TableFunction = (...args: TableValue[]) => TableValue;
+
+const API_TABLE_PATTERN = /<ApiTable\s+rows=\{/g;
+const THEME_FILENAME = 'tailwindcss/theme.css';
+const THEME_VARIABLE_PATTERN = /^\s*(--[\w.-]+)\s*:\s*(.+?);\s*$/;
+const ARROW_PATTERN = /^(\([^()]*\)|[A-Za-z_$][\w$]*)\s*=>/;
+
+// Placeholders used in the docs reference tables, with the class text they accept
+const PLACEHOLDERS: Record<string, string> = {
+  number: '(\\d+(?:\\.\\d+)?)',
+  fraction: '(\\d+\\/\\d+)',
+  ratio: '(\\d+\\/\\d+)',
+  percentage: '(\\d+(?:\\.\\d+)?%)',
+  angle: '(\\d+(?:\\.\\d+)?)',
+  color: '([a-z]+(?:-\\d+)?)',
+  size: '([a-z0-9]+)',
+  'custom-property': '(--[\\w-]+(?:,.+)?)',
+  value: '(.+)'
+};
+
+// Rank of each placeholder when several rows match; named and typed values win over arbitrary ones
+const PLACEHOLDER_RANK: Record<string, number> = {
+  color: 1,
+  size: 1,
+  number: 2,
+  fraction: 2,
+  ratio: 2,
+  percentage: 2,
+  angle: 2,
+  'custom-property': 3,
+  value: 4
+};
+
+const STATES = 'Hover, focus, and other states';
+const PSEUDO_CLASSES = `${STATES} > Pseudo-classes`;
+const PSEUDO_ELEMENTS = `${STATES} > Pseudo-elements`;
+const MEDIA_QUERIES = `${STATES} > Media and feature queries`;
+const ATTRIBUTES = `${STATES} > Attribute selectors`;
+
+const VARIANT_DOCS = {
+  interaction: `${PSEUDO_CLASSES} > :hover, :focus, and :active`,
+  structural: `${PSEUDO_CLASSES} > :first, :last, :odd, and :even`,
+  form: `${PSEUDO_CLASSES} > :required and :disabled`,
+  has: `${PSEUDO_CLASSES} > :has()`,
+  not: `${PSEUDO_CLASSES} > :not()`,
+  group: `${PSEUDO_CLASSES} > Styling based on parent state`,
+  peer: `${PSEUDO_CLASSES} > Styling based on sibling state`,
+  aria: `${ATTRIBUTES} > ARIA states`,
+  data: `${ATTRIBUTES} > Data attributes`,
+  supports: `${MEDIA_QUERIES} > @supports`,
+  breakpoints: 'Responsive design > Overview',
+  breakpointRange: 'Responsive design > Working mobile-first > Targeting a breakpoint range',
+  customBreakpoint: 'Responsive design > Using custom breakpoints > Using arbitrary values',
+  containers: 'Responsive design > Container queries',
+  arbitrary: `${STATES} > Custom variants > Using arbitrary variants`,
+  arbitraryProperty: 'Adding custom styles > Using arbitrary values > Arbitrary properties'
+};
+
+const STATIC_VARIANTS: Record<string, VariantRule> = {
+  hover: { headers: ['@media (hover: hover)', '&:hover'], docs: VARIANT_DOCS.interaction },
+  ...selectorVariants(['focus', 'focus-within', 'focus-visible', 'active', 'visited', 'target'], VARIANT_DOCS.interaction),
+  first: { headers: ['&:first-child'], docs: VARIANT_DOCS.structural },
+  last: { headers: ['&:last-child'], docs: VARIANT_DOCS.structural },
+  only: { headers: ['&:only-child'], docs: VARIANT_DOCS.structural },
+  odd: { headers: ['&:nth-child(odd)'], docs: VARIANT_DOCS.structural },
+  even: { headers: ['&:nth-child(even)'], docs: VARIANT_DOCS.structural },
+  ...selectorVariants(['first-of-type', 'last-of-type', 'only-of-type', 'empty'], VARIANT_DOCS.structural),
+  ...selectorVariants([
+    'disabled', 'enabled', 'checked', 'indeterminate', 'default', 'optional', 'required', 'valid', 'invalid',
+    'user-valid', 'user-invalid', 'in-range', 'out-of-range', 'placeholder-shown', 'autofill', 'read-only'
+  ], VARIANT_DOCS.form),
+  'details-content': { headers: ['&::details-content'], docs: VARIANT_DOCS.form },
+  inert: { headers: ['&:is([inert], [inert] *)'], docs: `${ATTRIBUTES} > Styling inert elements` },
+  open: { headers: ['&:is([open], :popover-open, :open)'], docs: `${ATTRIBUTES} > Open/closed state` },
+  rtl: { headers: ['&:where(:dir(rtl), [dir="rtl"], [dir="rtl"] *)'], docs: `${ATTRIBUTES} > RTL support` },
+  ltr: { headers: ['&:where(:dir(ltr), [dir="ltr"], [dir="ltr"] *)'], docs: `${ATTRIBUTES} > RTL support` },
+  before: { headers: ['&::before'], docs: `${PSEUDO_ELEMENTS} > ::before and ::after`, declarations: [{ property: 'content', value: 'var(--tw-content)' }] },
+  after: { headers: ['&::after'], docs: `${PSEUDO_ELEMENTS} > ::before and ::after`, declarations: [{ property: 'content', value: 'var(--tw-content)' }] },
+  'first-letter': { headers: ['&::first-letter'], docs: `${PSEUDO_ELEMENTS} > ::first-line and ::first-letter` },
+  'first-line': { headers: ['&::first-line'], docs: `${PSEUDO_ELEMENTS} > ::first-line and ::first-letter` },
+  marker: { headers: ['&::marker, & *::marker'], docs: `${PSEUDO_ELEMENTS} > ::marker` },
+  selection: { headers: ['&::selection, & *::selection'], docs: `${PSEUDO_ELEMENTS} > ::selection` },
+  file: { headers: ['&::file-selector-button'], docs: `${PSEUDO_ELEMENTS} > ::file` },
+  backdrop: { headers: ['&::backdrop'], docs: `${PSEUDO_ELEMENTS} > ::backdrop` },
+  placeholder: { headers: ['&::placeholder'], docs: `${PSEUDO_ELEMENTS} > ::placeholder` },
+  dark: { headers: ['@media (prefers-color-scheme: dark)'], docs: 'Dark mode > Overview' },
+  'motion-safe': { headers: ['@media (prefers-reduced-motion: no-preference)'], docs: `${MEDIA_QUERIES} > prefers-reduced-motion` },
+  'motion-reduce': { headers: ['@media (prefers-reduced-motion: reduce)'], docs: `${MEDIA_QUERIES} > prefers-reduced-motion` },
+  'contrast-more': { headers: ['@media (prefers-contrast: more)'], docs: `${MEDIA_QUERIES} > prefers-contrast` },
+  'contrast-less': { headers: ['@media (prefers-contrast: less)'], docs: `${MEDIA_QUERIES} > prefers-contrast` },
+  'forced-colors': { headers: ['@media (forced-colors: active)'], docs: `${MEDIA_QUERIES} > forced-colors` },
+  'inverted-colors': { headers: ['@media (inverted-colors: inverted)'], docs: `${MEDIA_QUERIES} > inverted-colors` },
+  ...Object.fromEntries(['fine', 'coarse', 'none'].flatMap(value => [
+    [`pointer-${value}`, { headers: [`@media (pointer: ${value})`], docs: `${MEDIA_QUERIES} > pointer and any-pointer` }],
+    [`any-pointer-${value}`, { headers: [`@media (any-pointer: ${value})`], docs: `${MEDIA_QUERIES} > pointer and any-pointer` }]
+  ])),
+  portrait: { headers: ['@media (orientation: portrait)'], docs: `${MEDIA_QUERIES} > orientation` },
+  landscape: { headers: ['@media (orientation: landscape)'], docs: `${MEDIA_QUERIES} > orientation` },
+  noscript: { headers: ['@media (scripting: none)'], docs: `${MEDIA_QUERIES} > scripting` },
+  print: { headers: ['@media print'], docs: `${MEDIA_QUERIES} > print` },
+  starting: { headers: ['@starting-style'], docs: `${MEDIA_QUERIES} > @starting-style` },
+  '*': { headers: [':is(& > *)'], docs: `${STATES} > Child selectors > Styling direct children` },
+  '**': { headers: [':is(& *)'], docs: `${STATES} > Child selectors > Styling all descendants` },
+  ...Object.fromEntries(['busy', 'checked', 'disabled', 'expanded', 'hidden', 'pressed', 'readonly', 'required', 'selected']
+    .map(state => [`aria-${state}`, { headers: [`&[aria-${state}="true"]`], docs: VARIANT_DOCS.aria }]))
+};
+
+// Utilities Tailwind CSS v4 still generates that the reference tables leave out
+const UNLISTED_UTILITIES: Record<string, { declarations: CssDeclaration[]; docs: string }> = {
+  'ring-inset': { declarations: [{ property: '--tw-ring-inset', value: 'inset' }], docs: 'box-shadow > Examples > Adding a ring' }
+};
+
+// Theme namespaces whose utilities the reference tables leave out, e.g. leading-relaxed from --leading-relaxed
+const THEME_UTILITIES = [
+  { namespace: 'leading', property: 'line-height', page: 'line-height' }
+];
+
+// Marker classes that other variants refer to; they generate no CSS of their own
+const MARKER_CLASSES: Record<string, string> = {
+  group: VARIANT_DOCS.group,
+  peer: VARIANT_DOCS.peer
+};
+
+function selectorVariants(names: string[], docs: string): Record<string, VariantRule> {
+  return Object.fromEntries(names.map(name => [name, { headers: [`&:${name}`], docs }]));
+}
+
+/**
+ * Resolves Tailwind CSS class names to the CSS they generate, using the reference tables
+ * (`<ApiTable>` rows) and default theme published in the Tailwind docs, so every answer
+ * points back at the page that documents the utility.
+ */
+export class TailwindClassResolver {
+  private readonly rowsByRoot = new Map<string, UtilityRow[]>();
+  private readonly theme = new Map<string, string>();
+  private readonly colors = new Set<string>();
+  private readonly textSizes = new Set<string>();
+  private readonly variants: Record<string, VariantRule> = { ...STATIC_VARIANTS };
+  private templatesByProperty?: Map<string, UtilityTemplate[]>;
+
+  constructor(private readonly document: ParsedDocument) {
+    this.loadTheme();
+    this.loadReferenceTables();
+    this.loadThemeUtilities();
+  }
+
+  /** Number of reference rows loaded from the docs */
+  get rowCount(): number {
+    let count = 0;
+    for (const rows of this.rowsByRoot.values()) {
+      count += rows.length;
+    }
+    return count;
+  }
+
+  /**
+   * Lists the keys of a theme namespace in the order the default theme declares them
+   * @param namespace - Namespace without dashes, e.g. `breakpoint` for `--breakpoint-sm`
+   * @returns Keys such as `sm`, `md`, `lg`
+   */
+  themeKeys(namespace: string): string[] {
+    const prefix = `--${namespace}-`;
+    return [...this.theme.keys()]
+      .filter(name => name.startsWith(prefix) && !name.slice(prefix.length).includes('--'))
+      .map(name => name.slice(prefix.length));
+  }
+
+  /**
+   * Checks whether a name is a built-in or theme-derived variant such as `hover`, `md` or `@lg`
+   * @param name - Variant without the trailing colon
+   */
+  isKnownVariant(name: string): boolean {
+    return this.resolveVariant(name) !== undefined;
+  }
+
+  /**
+   * Resolves a class name to its variants, CSS declarations and documentation
+   * @param className - Class such as `md:hover:bg-blue-500/50` or `px-[calc(--spacing(3.5)-1px)]`
+   * @returns The resolution; `error` is set when a variant or the utility is not recognized
+   */
+  resolve(className: string): ResolvedClass {
+    const parsed = parseClassName(className);
+    const resolved: ResolvedClass = { ...parsed, resolvedVariants: [], declarations: [] };
+
+    for (const name of parsed.variants) {
+      const variant = this.resolveVariant(name);
+      if (!variant) {
+        resolved.error = `Unknown variant '${name}:'`;
+        resolved.suggestions = closestMatches(name, Object.keys(this.variants))
+          .map(suggestion => className.replace(`${name}:`, `${suggestion}:`));
+        return resolved;
+      }
+      resolved.resolvedVariants.push(variant);
+    }
+
+    const marker = /^(group|peer)(?:\/[\w-]+)?$/.exec(parsed.utility);
+    if (marker) {
+      resolved.page = this.findSection(MARKER_CLASSES[marker[1]]);
+      resolved.note = `\`${marker[1]}\` marks an element for ${marker[1]}-* variants and generates no CSS of its own.`;
+      return resolved;
+    }
+
+    const utility = this.resolveUtility(parsed.utility);
+    if ('error' in utility) {
+      resolved.error = utility.error;
+      if (utility.error.startsWith('Unknown utility')) {
+        const prefix = className.slice(0, className.length - parsed.utility.length - (parsed.important ? 1 : 0));
+        resolved.suggestions = this.suggestUtilities(parsed.utility).map(suggestion => `${prefix}${suggestion}`);
+      }
+      return resolved;
+    }
+
+    const extra = parsed.variants.flatMap(name => this.variantRule(name)?.declarations ?? []);
+    resolved.declarations = [...utility.declarations, ...extra].map(declaration => ({
+      ...declaration,
+      value: parsed.important ? `${declaration.value} !important` : declaration.value,
+      comment: declaration.comment ?? this.describeValue(declaration.value)
+    }));
+    resolved.pattern = utility.pattern;
+    resolved.page = utility.page;
+    resolved.example = utility.page ? this.pickExample(utility.page, parsed, utility.pattern) : undefined;
+    return resolved;
+  }
+
+  /**
+   * Renders a resolved class as nested CSS, the way Tailwind CSS v4 documents generated rules
+   * @param resolved - Result of resolve()
+   * @returns CSS text; empty when the class generates no CSS
+   */
+  toCss(resolved: ResolvedClass): string {
+    if (resolved.declarations.length === 0) {
+      return '';
+    }
+
+    const headers = resolved.resolvedVariants.flatMap(variant => variant.headers);
+    const lines: string[] = [];
+    const depth = headers.length + 1;
+    const pad = (level: number) => '  '.repeat(level);
+
+    lines.push(`.${escapeClassName(resolved.className)} {`);
+    headers.forEach((header, i) => lines.push(`${pad(i + 1)}${header} {`));
+
+    const groups = new Map<string, CssDeclaration[]>();
+    for (const declaration of resolved.declarations) {
+      const key = declaration.selector ?? '';
+      groups.set(key, [...(groups.get(key) ?? []), declaration]);
+    }
+    for (const [selector, declarations] of groups) {
+      const level = selector ? depth + 1 : depth;
+      if (selector) {
+        lines.push(`${pad(depth)}${selector} {`);
+      }
+      for (const { property, value, comment } of declarations) {
+        lines.push(`${pad(level)}${property}: ${value};${comment ? ` /* ${comment} */` : ''}`);
+      }
+      if (selector) {
+        lines.push(`${pad(depth)}}`);
+      }
+    }
+
+    for (let i = headers.length; i >= 0; i--) {
+      lines.push(`${pad(i)}}`);
+    }
+    return lines.join('\n');
+  }
+
+  /**
+   * Lists the reference rows whose pattern starts with a prefix, for suggestions
+   * @param prefix - Utility prefix such as `bg-`
+   * @returns Row patterns
+   */
+  patternsStartingWith(prefix: string): string[] {
+    const patterns = new Set<string>();
+    for (const [root, rows] of this.rowsByRoot) {
+      if (root.startsWith(prefix)) {
+        rows.forEach(row => patterns.add(row.pattern));
+      }
+    }
+    return [...patterns];
+  }
+
+  /**
+   * Looks up a variable in the default theme
+   * @param name - Variable such as `--spacing` or `--text-sm--line-height`
+   * @returns Its value as the theme declares it, e.g. `calc(1.25 / 0.875)`
+   */
+  themeValue(name: string): string | undefined {
+    return this.theme.get(name);
+  }
+
+  /**
+   * Lists the reference rows that set a CSS property, for mapping CSS back to utilities.
+   * Rows that style children (divide-*, space-*) are left out.
+   * @param property - Property such as `padding-top`
+   * @returns Rows in docs order
+   */
+  utilitiesFor(property: string): UtilityTemplate[] {
+    if (!this.templatesByProperty) {
+      this.templatesByProperty = new Map();
+      for (const rows of this.rowsByRoot.values()) {
+        for (const row of rows) {
+          const declarations = parseCssDeclarations(row.css);
+          if (declarations.length === 0 || declarations.some(declaration => declaration.selector)) {
+            continue;
+          }
+          const template = { pattern: row.pattern, declarations, page: row.page };
+          for (const name of new Set(declarations.map(declaration => declaration.property))) {
+            this.templatesByProperty.set(name, [...(this.templatesByProperty.get(name) ?? []), template]);
+          }
+        }
+      }
+    }
+    return this.templatesByProperty.get(property) ?? [];
+  }
+
+  /**
+   * Finds the variant that generates a selector or at-rule, the reverse of resolve() for variants
+   * @param header - `&` selector or at-rule such as `&:hover` or `@media (width >= 48rem)`
+   * @returns The shortest built-in or theme variant ending in that header, e.g. `hover` or `md`
+   */
+  variantForHeader(header: string): string | undefined {
+    return Object.entries(this.variants)
+      .filter(([, rule]) => rule.headers[rule.headers.length - 1] === header)
+      .map(([name]) => name)
+      .sort((a, b) => a.length - b.length)[0];
+  }
+
+  /**
+   * Lists known utilities within a small edit distance of an unrecognized one, keeping its modifier
+   */
+  private suggestUtilities(utility: string): string[] {
+    const slash = lastTopLevelSlash(utility);
+    const base = slash === -1 ? utility : utility.slice(0, slash);
+    const number = /\d+(?:\.\d+)?$/.exec(base)?.[0];
+    const candidates = new Set<string>(Object.keys(UNLISTED_UTILITIES));
+
+    for (const rows of this.rowsByRoot.values()) {
+      for (const row of rows) {
+        const { pattern, placeholders } = compileRow(row);
+        if (placeholders!.length === 0) {
+          candidates.add(pattern);
+        } else if (placeholders!.length === 1 && placeholders![0] === 'color') {
+          this.colors.forEach(color => candidates.add(pattern.replace('<color>', color)));
+        } else if (placeholders!.length === 1 && placeholders![0] === 'size') {
+          this.textSizes.forEach(size => candidates.add(pattern.replace('<size>', size)));
+        } else if (placeholders!.length === 1 && placeholders![0] === 'number' && number) {
+          candidates.add(pattern.replace('<number>', number));
+        }
+      }
+    }
+
+    const modifier = slash === -1 ? '' : utility.slice(slash);
+    return closestMatches(base, [...candidates]).map(suggestion => `${suggestion}${modifier}`);
+  }
+
+  private resolveUtility(utility: string): { declarations: CssDeclaration[]; pattern?: string; page?: DocSection } | { error: string } {
+    // Arbitrary properties: [mask-type:luminance], [--btn-bg:var(--color-zinc-900)]/90
+    const property = /^\[(--[\w-]+|[a-z][a-z-]*):(.+)\](?:\/(.+))?$/.exec(utility);
+    if (property) {
+      let value = normalizeArbitraryValue(property[2]);
+      if (property[3]) {
+        const alpha = opacityValue(property[3]);
+        if (!alpha) {
+          return { error: `Invalid opacity modifier '/${property[3]}'` };
+        }
+        value = mixWithTransparent(value, alpha);
+      }
+      return {
+        declarations: [{ property: property[1], value }],
+        pattern: '[<property>:<value>]',
+        page: this.findSection(VARIANT_DOCS.arbitraryProperty)
+      };
+    }
+
+    const match = this.matchRow(utility);
+    if (match) {
+      return { declarations: parseCssDeclarations(match.css), pattern: match.row.pattern, page: match.row.page };
+    }
+
+    const container = /^@container(?:\/([\w-]+))?$/.exec(utility);
+    if (container) {
+      const declarations = [{ property: 'container-type', value: 'inline-size' }];
+      if (container[1]) {
+        declarations.push({ property: 'container-name', value: container[1] });
+      }
+      return { declarations, pattern: container[1] ? '@container/<name>' : '@container', page: this.findSection(VARIANT_DOCS.containers) };
+    }
+
+    const unlisted = UNLISTED_UTILITIES[utility];
+    if (unlisted) {
+      return { declarations: unlisted.declarations, pattern: utility, page: this.findSection(unlisted.docs) };
+    }
+
+    // Any value-taking utility can be negated, even when its table lists no negative row (-z-10, -mx-(--gutter))
+    if (utility.startsWith('-')) {
+      const positive = this.matchRow(utility.slice(1));
+      if (positive && positive.row.placeholders!.length > 0 && !isColorRow(positive.row)) {
+        const declarations = parseCssDeclarations(positive.css).map(declaration => ({ ...declaration, value: `calc(${declaration.value} * -1)` }));
+        return { declarations, pattern: `-${positive.row.pattern}`, page: positive.row.page };
+      }
+    }
+
+    // Color opacity modifiers: bg-black/5, text-(--btn-icon)/50
+    const slash = lastTopLevelSlash(utility);
+    if (slash !== -1) {
+      const base = this.matchRow(utility.slice(0, slash));
+      const modifier = utility.slice(slash + 1);
+      if (base) {
+        if (!isColorRow(base.row)) {
+          return { error: `'${utility.slice(0, slash)}' is not a color utility, so it does not take a '/${modifier}' modifier` };
+        }
+        const alpha = opacityValue(modifier);
+        if (!alpha) {
+          return { error: `Invalid opacity modifier '/${modifier}'` };
+        }
+        const declarations = parseCssDeclarations(base.css).map(declaration => ({
+          ...declaration,
+          value: declaration.value === 'inherit' ? declaration.value : mixWithTransparent(declaration.value, alpha)
+        }));
+        return { declarations, pattern: `${base.row.pattern}/<alpha>`, page: base.row.page };
+      }
+    }
+
+    return { error: `Unknown utility '${utility}'` };
+  }
+
+  private matchRow(utility: string, type?: ValueType): { row: UtilityRow; css: string } | undefined {
+    let candidates: Array<{ row: UtilityRow; values: string[]; rank: number }> = [];
+
+    for (const root of candidateRoots(utility)) {
+      for (const row of this.rowsByRoot.get(root) ?? []) {
+        const compiled = compileRow(row);
+        const match = compiled.regex!.exec(utility);
+        if (!match) {
+          continue;
+        }
+        const values = match.slice(1);
+        if (!values.every((value, i) => this.acceptsValue(compiled.placeholders![i], value))) {
+          continue;
+        }
+        const rank = compiled.placeholders!.reduce((total, name) => Math.max(total, PLACEHOLDER_RANK[name] ?? 4), 0);
+        candidates.push({ row, values, rank });
+      }
+    }
+
+    if (type) {
+      candidates = candidates.filter(candidate => rowValueType(candidate.row) === type);
+    }
+    if (candidates.length === 0) {
+      // Type hints on custom properties pick between same-prefixed utilities: text-(color:--x), bg-(image:--x)
+      const hinted = /^(.+-)\((color|image|url|[a-z-]+):(--.+)\)$/.exec(utility);
+      return hinted
+        ? this.matchRow(`${hinted[1]}(${hinted[3]})`, hinted[2] === 'color' ? 'color' : /^(?:image|url)$/.test(hinted[2]) ? 'image' : 'other')
+        : undefined;
+    }
+
+    const bestRank = Math.min(...candidates.map(candidate => candidate.rank));
+    let best = candidates.filter(candidate => candidate.rank === bestRank);
+
+    // Several pages accept any arbitrary value (bg-[...] is a color, an image, a size or a position); infer from the value
+    if (best.length > 1) {
+      const type = inferValueType(best[0].values[best[0].values.length - 1] ?? '');
+      const typed = best.filter(candidate => rowValueType(candidate.row) === type);
+      const untyped = best.filter(candidate => rowValueType(candidate.row) === 'other');
+      best = typed.length > 0 ? typed : untyped.length > 0 ? untyped : best;
+    }
+
+    const { row, values } = best[0];
+    let css = row.css;
+    row.placeholders!.forEach((name, i) => {
+      // Most color rows spell out var(--color-<color>), a few (from-<color>) use the bare placeholder
+      if (name === 'color') {
+        css = css.split('var(--color-<color>)').join('<color>');
+      }
+      css = css.split(`<${name}>`).join(this.substitute(name, values[i]));
+    });
+    return { row, css };
+  }
+
+  private acceptsValue(placeholder: string, value: string): boolean {
+    switch (placeholder) {
+      case 'color':
+        return this.colors.has(value);
+      case 'size':
+        return this.textSizes.has(value);
+      default:
+        return true;
+    }
+  }
+
+  private substitute(placeholder: string, value: string): string {
+    switch (placeholder) {
+      case 'size':
+        return `var(--text-${value})`;
+      case 'color':
+        return `var(--color-${value})`;
+      case 'angle':
+        return `${value}deg`;
+      case 'custom-property':
+        return normalizeArbitraryValue(value);
+      case 'value':
+        return normalizeArbitraryValue(value.replace(/^(?:color|length|image|url|number|percentage|position|family-name|line-width|bg-size):/, ''));
+      default:
+        return value;
+    }
+  }
+
+  private resolveVariant(name: string): ResolvedVariant | undefined {
+    const rule = this.variantRule(name);
+    return rule ? { name, headers: rule.headers, docs: this.findSection(rule.docs) } : undefined;
+  }
+
+  private variantRule(name: string): VariantRule | undefined {
+    if (this.variants[name]) {
+      return this.variants[name];
+    }
+
+    // Arbitrary variants: [&_p], [.dark_&], [@supports(display:grid)]
+    const arbitrary = /^\[(.+)\]$/.exec(name);
+    if (arbitrary) {
+      const selector = arbitrary[1].replace(/_/g, ' ');
+      return {
+        headers: [selector.startsWith('@') || selector.includes('&') ? selector : `&${selector}`],
+        docs: VARIANT_DOCS.arbitrary
+      };
+    }
+
+    const compound = /^(group|peer)-(.+?)(?:\/([\w-]+))?$/.exec(name);
+    if (compound) {
+      const [, kind, innerName, groupName] = compound;
+      const marker = `:where(.${kind}${groupName ? `\\/${groupName}` : ''})`;
+      const inner = innerName.startsWith('[')
+        ? { headers: [`&${innerName.slice(1, -1).replace(/_/g, ' ').replace(/^&/, '')}`], docs: VARIANT_DOCS.arbitrary }
+        : this.variantRule(innerName);
+      const transformed = inner && transformSelector(inner, selector => {
+        const scoped = selector.replace(/&/g, marker);
+        return kind === 'group' ? `&:is(${scoped} *)` : `&:is(${scoped} ~ *)`;
+      });
+      return transformed && { ...transformed, docs: kind === 'group' ? VARIANT_DOCS.group : VARIANT_DOCS.peer };
+    }
+
+    const functional = /^(has|not|in)-(.+)$/.exec(name);
+    if (functional) {
+      const [, kind, innerName] = functional;
+      if (innerName.startsWith('[')) {
+        const selector = innerName.slice(1, -1).replace(/_/g, ' ');
+        const header = kind === 'has' ? `&:has(${selector})` : kind === 'not' ? `&:not(${selector})` : `:where(${selector}) &`;
+        return { headers: [header], docs: kind === 'not' ? VARIANT_DOCS.not : VARIANT_DOCS.has };
+      }
+      const inner = this.variantRule(innerName);
+      if (!inner) {
+        return undefined;
+      }
+      if (kind === 'not' && !inner.headers.some(header => header.includes('&'))) {
+        return { headers: inner.headers.map(header => header.replace(/^@media /, '@media not ')), docs: VARIANT_DOCS.not };
+      }
+      const transformed = transformSelector(inner, selector => {
+        const subject = selector.replace(/&/g, '*');
+        return kind === 'has' ? `&:has(${subject})` : kind === 'not' ? `&:not(${subject})` : `:where(${subject}) &`;
+      }, kind === 'not');
+      return transformed && { ...transformed, docs: kind === 'not' ? VARIANT_DOCS.not : kind === 'has' ? VARIANT_DOCS.has : VARIANT_DOCS.group };
+    }
+
+    const nth = /^nth-(last-of-type|of-type|last)?-?(\d+|\[.+\])$/.exec(name);
+    if (nth) {
+      const pseudo = { 'last-of-type': 'nth-last-of-type', 'of-type': 'nth-of-type', last: 'nth-last-child' }[nth[1] ?? ''] ?? 'nth-child';
+      const argument = nth[2].startsWith('[') ? nth[2].slice(1, -1).replace(/_/g, ' ') : nth[2];
+      return { headers: [`&:${pseudo}(${argument})`], docs: VARIANT_DOCS.structural };
+    }
+
+    const attribute = /^(data|aria)-(.+)$/.exec(name);
+    if (attribute) {
+      const [, kind, value] = attribute;
+      const bracketed = /^\[([\w-]+)(?:([~|^$*]?=)(.+))?\]$/.exec(value);
+      if (bracketed) {
+        const [, attr, operator, attrValue] = bracketed;
+        const unquoted = attrValue?.replace(/^['"]|['"]$/g, '').replace(/_/g, ' ');
+        return {
+          headers: [`&[${kind}-${attr}${operator ? `${operator}"${unquoted}"` : ''}]`],
+          docs: kind === 'data' ? VARIANT_DOCS.data : VARIANT_DOCS.aria
+        };
+      }
+      if (kind === 'data' && /^[\w-]+$/.test(value)) {
+        return { headers: [`&[data-${value}]`], docs: VARIANT_DOCS.data };
+      }
+      return undefined;
+    }
+
+    const supports = /^supports-(?:\[(.+)\]|([\w-]+))$/.exec(name);
+    if (supports) {
+      const condition = supports[1]
+        ? supports[1].replace(/_/g, ' ')
+        : `${supports[2]}: var(--tw)`;
+      return { headers: [`@supports ${/^[(\w-]+\(/.test(condition) || condition.startsWith('(') ? condition : `(${condition.replace(/:\s*/, ': ')})`}`], docs: VARIANT_DOCS.supports };
+    }
+
+    const range = /^(@)?(min|max)-\[(.+)\]$/.exec(name);
+    if (range) {
+      const [, container, bound, value] = range;
+      return {
+        headers: [`${container ? '@container' : '@media'} (width ${bound === 'min' ? '>=' : '<'} ${value.replace(/_/g, ' ')})`],
+        docs: container ? VARIANT_DOCS.containers : VARIANT_DOCS.customBreakpoint
+      };
+    }
+
+    const arbitraryContainer = /^@\[(.+)\](?:\/([\w-]+))?$/.exec(name);
+    if (arbitraryContainer) {
+      return {
+        headers: [`@container${arbitraryContainer[2] ? ` ${arbitraryContainer[2]}` : ''} (width >= ${arbitraryContainer[1]})`],
+        docs: VARIANT_DOCS.containers
+      };
+    }
+
+    // Named container queries: @md/sidebar, @max-md/sidebar
+    const namedContainer = /^(@(?:max-)?[\w]+)\/([\w-]+)$/.exec(name);
+    if (namedContainer && this.variants[namedContainer[1]]) {
+      const rule = this.variants[namedContainer[1]];
+      return { ...rule, headers: rule.headers.map(header => header.replace('@container ', `@container ${namedContainer[2]} `)) };
+    }
+
+    return undefined;
+  }
+
+  private loadTheme(): void {
+    const themeBlock = extractCodeExamples(this.document, 'tailwind').find(example => example.filename === THEME_FILENAME);
+    for (const line of themeBlock?.code.split('\n') ?? []) {
+      const match = THEME_VARIABLE_PATTERN.exec(line);
+      if (match) {
+        this.theme.set(match[1], match[2]);
+      }
+    }
+
+    for (const [name, value] of this.theme) {
+      let match: RegExpExecArray | null;
+      if ((match = /^--color-([\w-]+)$/.exec(name))) {
+        this.colors.add(match[1]);
+      } else if ((match = /^--text-([\w]+)$/.exec(name))) {
+        this.textSizes.add(match[1]);
+      } else if ((match = /^--breakpoint-([\w]+)$/.exec(name))) {
+        this.variants[match[1]] = { headers: [`@media (width >= ${value})`], docs: VARIANT_DOCS.breakpoints };
+        this.variants[`max-${match[1]}`] = { headers: [`@media (width < ${value})`], docs: VARIANT_DOCS.breakpointRange };
+      } else if ((match = /^--container-([\w]+)$/.exec(name))) {
+        this.variants[`@${match[1]}`] = { headers: [`@container (width >= ${value})`], docs: VARIANT_DOCS.containers };
+        this.variants[`@max-${match[1]}`] = { headers: [`@container (width < ${value})`], docs: VARIANT_DOCS.containers };
+      }
+    }
+  }
+
+  private loadReferenceTables(): void {
+    for (const page of this.document.sections) {
+      if (page.level !== 0 || !/^src\/docs\/[^/]+\.mdx$/.test(page.sourceFile)) {
+        continue;
+      }
+
+      const body = this.document.getBody(page);
+      for (const match of body.matchAll(API_TABLE_PATTERN)) {
+        const open = match.index! + match[0].length - 1;
+        const close = findClosingBracket(body, open);
+        if (close === -1) {
+          continue;
+        }
+
+        let rows: TableValue;
+        try {
+          rows = TableEvaluator.evaluate(body.slice(open + 1, close), {
+            colors: { '<color>': '' },
+            Object: { entries: (value: TableValue) => Object.entries(value as Record<string, TableValue>) }
+          });
+        } catch {
+          // A table built with code the evaluator does not follow is skipped rather than half-read
+          continue;
+        }
+
+        for (const row of Array.isArray(rows) ? rows : []) {
+          if (Array.isArray(row) && typeof row[0] === 'string' && typeof row[1] === 'string') {
+            this.addRow({ pattern: row[0], css: row[1], page });
+          }
+        }
+      }
+    }
+  }
+
+  private loadThemeUtilities(): void {
+    for (const { namespace, property, page } of THEME_UTILITIES) {
+      const section = this.findSection(page);
+      if (!section) {
+        continue;
+      }
+      for (const key of this.themeKeys(namespace)) {
+        this.addRow({ pattern: `${namespace}-${key}`, css: `${property}: var(--${namespace}-${key});`, page: section });
+      }
+    }
+  }
+
+  private addRow(row: UtilityRow): void {
+    const root = /^[^<[(]*/.exec(row.pattern)![0];
+    const rows = this.rowsByRoot.get(root) ?? [];
+    // Later pages repeat some rows (e.g. bg-<color> on the gradient pages); the first page owns them
+    if (!rows.some(existing => existing.pattern === row.pattern && existing.page === row.page)) {
+      rows.push(row);
+      this.rowsByRoot.set(root, rows);
+    }
+  }
+
+  private describeValue(value: string): string | undefined {
+    const variable = /^var\((--[\w.-]+)\)$/.exec(value);
+    if (variable) {
+      return this.theme.get(variable[1]);
+    }
+
+    const spacing = /^calc\(var\(--spacing\) \* (-?\d*\.?\d+)\)$/.exec(value);
+    const unit = /^(\d*\.?\d+)rem$/.exec(this.theme.get('--spacing') ?? '');
+    if (spacing && unit) {
+      const rem = Number(spacing[1]) * Number(unit[1]);
+      return `${Number(rem.toFixed(4))}rem (${Number((rem * 16).toFixed(2))}px)`;
+    }
+
+    const color = /var\((--color-[\w-]+)\)/.exec(value);
+    const colorValue = color && this.theme.get(color[1]);
+    return colorValue ? `${color![1]}: ${colorValue}` : undefined;
+  }
+
+  private pickExample(page: DocSection, parsed: ParsedClass, pattern = ''): DocSection | undefined {
+    const descendants: DocSection[] = [];
+    const collect = (section: DocSection) => {
+      for (const child of section.children) {
+        descendants.push(child);
+        collect(child);
+      }
+    };
+    collect(page);
+
+    const wanted = pattern.endsWith('/<alpha>')
+      ? /opacity/i
+      : /[[(]/.test(parsed.utility)
+        ? /custom value/i
+        : parsed.utility.startsWith('-')
+          ? /negative/i
+          : parsed.variants.some(variant => this.variants[variant]?.docs === VARIANT_DOCS.breakpoints)
+            ? /responsive/i
+            : undefined;
+    const special = wanted && descendants.find(section => wanted.test(section.title));
+    if (special) {
+      return special;
+    }
+
+    // Otherwise the first example whose markup uses the utility, e.g. "Screen-reader only" for sr-only
+    const root = /^-?([^<[(]*?)-?(?:<|\[|\(|$)/.exec(pattern)?.[1] || parsed.utility.replace(/^-/, '');
+    const usage = new RegExp(`(?<![\\w-])-?${root.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&')}(?![\\w])`);
+    return descendants.find(section => section.children.length === 0 && usage.test(this.document.getOwnContent(section))) ??
+      descendants.find(section => /basic example/i.test(section.title)) ??
+      descendants.find(section => section.children.length === 0);
+  }
+
+  private findSection(breadcrumb: string): DocSection | undefined {
+    return this.document.findByPath(breadcrumb)[0];
+  }
+}
+
+/**
+ * Splits a class name into its variants, utility and important flag, respecting brackets
+ * so `[&>*]:p-2` and `data-[state=open]:block` split where Tailwind splits them
+ * @param className - Class such as `sm:*:data-[slot=icon]:size-4` or `!mt-0`
+ * @returns Parsed parts
+ */
+export function parseClassName(className: string): ParsedClass {
+  const parts: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < className.length; i++) {
+    const char = className[i];
+    if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      parts.push(className.slice(start, i));
+      start = i + 1;
+    }
+  }
+
+  let utility = className.slice(start);
+  let important = false;
+  if (utility.endsWith('!')) {
+    utility = utility.slice(0, -1);
+    important = true;
+  } else if (utility.startsWith('!')) {
+    utility = utility.slice(1);
+    important = true;
+  }
+
+  return { className, variants: parts, utility, important };
+}
+
+/**
+ * Splits a class list on whitespace and commas, leaving commas inside brackets alone
+ * @param text - Classes as written in a className, or separated by commas
+ * @returns Unique class names in order
+ */
+export function splitClassList(text: string): string[] {
+  const classes: string[] = [];
+  let depth = 0;
+  let current = '';
+  for (const char of `${text} `) {
+    if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth = Math.max(0, depth - 1);
+    }
+    if (depth === 0 && (/\s/.test(char) || char === ',')) {
+      if (current && !classes.includes(current)) {
+        classes.push(current);
+      }
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  return classes;
+}
+
+/**
+ * Finds the candidates closest to a misspelled word by edit distance
+ * @param limit - Maximum number of matches to return
+ */
+function closestMatches(word: string, candidates: string[], limit = 3): string[] {
+  const maxDistance = Math.max(1, Math.min(3, Math.floor(word.length / 4)));
+  return candidates
+    .map(candidate => ({ candidate, distance: editDistance(word, candidate, maxDistance) }))
+    .filter(({ distance }) => distance <= maxDistance)
+    .sort((a, b) => a.distance - b.distance || a.candidate.length - b.candidate.length)
+    .slice(0, limit)
+    .map(({ candidate }) => candidate);
+}
+
+/**
+ * Levenshtein distance, giving up early once it exceeds `max`
+ */
+function editDistance(a: string, b: string, max: number): number {
+  if (Math.abs(a.length - b.length) > max) {
+    return max + 1;
+  }
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i);
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1));
+    }
+    if (Math.min(...current) > max) {
+      return max + 1;
+    }
+    previous = current;
+  }
+  return previous[b.length];
+}
+
+function compileRow(row: UtilityRow): UtilityRow {
+  if (!row.regex) {
+    const placeholders: string[] = [];
+    const source = row.pattern.split(/(<[a-z-]+>)/).map(part => {
+      const placeholder = /^<([a-z-]+)>$/.exec(part)?.[1];
+      if (placeholder && PLACEHOLDERS[placeholder]) {
+        placeholders.push(placeholder);
+        return PLACEHOLDERS[placeholder];
+      }
+      return part.replace(/[.*+?^${}()|[\]\\/]/g, '\\$&');
+    }).join('');
+    row.regex = new RegExp(`^${source}$`);
+    row.placeholders = placeholders;
+  }
+  return row;
+}
+
+/**
+ * Lists the row roots that could match a utility: the whole utility and each prefix ending in a dash
+ */
+function candidateRoots(utility: string): string[] {
+  const roots = [utility];
+  for (let i = utility.length - 1; i >= 0; i--) {
+    if (utility[i] === '-') {
+      roots.push(utility.slice(0, i + 1));
+    }
+  }
+  return roots;
+}
+
+function isColorRow(row: UtilityRow): boolean {
+  return rowValueType(row) === 'color';
+}
+
+function rowValueType(row: UtilityRow): ValueType {
+  const property = /^\s*(?:&[^{]*\{\s*)?([\w-]+)/.exec(row.css)?.[1] ?? '';
+  if (/color$|^(?:fill|stroke)$|^--tw-[\w-]*color$/.test(property) || row.pattern.includes('<color>')) {
+    return 'color';
+  }
+  return /image$/.test(property) ? 'image' : 'other';
+}
+
+function inferValueType(value: string): ValueType {
+  if (/^color:/.test(value) || /^(?:#[0-9a-f]{3,8}|(?:rgba?|hsla?|hwb|lab|lch|oklab|oklch|color|color-mix)\(|var\(--color-|--theme\(--color-|--alpha\()/i.test(value) ||
+      /^(?:transparent|currentcolor|[a-z]+)$/i.test(value) && !/^(?:auto|none|cover|contain|inherit|initial)$/i.test(value)) {
+    return 'color';
+  }
+  return /^(?:image:|url\(|(?:repeating-)?(?:linear|radial|conic)-gradient\(|image-set\()/i.test(value) ? 'image' : 'other';
+}
+
+function lastTopLevelSlash(utility: string): number {
+  let depth = 0;
+  for (let i = utility.length - 1; i >= 0; i--) {
+    const char = utility[i];
+    if (char === ']' || char === ')') {
+      depth++;
+    } else if (char === '[' || char === '(') {
+      depth--;
+    } else if (char === '/' && depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+function opacityValue(modifier: string): string | undefined {
+  if (/^\d+(?:\.\d+)?$/.test(modifier)) {
+    return `${modifier}%`;
+  }
+  const arbitrary = /^\[(.+)\]$/.exec(modifier);
+  if (arbitrary) {
+    return /^0?\.\d+$|^1$/.test(arbitrary[1]) ? `${Number(arbitrary[1]) * 100}%` : arbitrary[1];
+  }
+  const variable = /^\((--[\w-]+)\)$/.exec(modifier);
+  return variable ? `var(${variable[1]})` : undefined;
+}
+
+function mixWithTransparent(value: string, alpha: string): string {
+  return `color-mix(in oklab, ${value} ${alpha}, transparent)`;
+}
+
+/**
+ * Converts an arbitrary value as written in a class into CSS: underscores become spaces,
+ * --spacing() and --theme() calls expand, and math operators get the spaces CSS requires
+ */
+function normalizeArbitraryValue(value: string): string {
+  let css = value
+    .replace(/\\_/g, '\u0000')
+    .replace(/(url\([^)]*\))|_/g, (match, url: string | undefined) => url ?? ' ')
+    .replace(/\u0000/g, '_');
+
+  css = css.replace(/--spacing\(([^()]+)\)/g, 'calc(var(--spacing) * $1)');
+  css = css.replace(/--(?:theme|alpha)\(\s*((?:[^()]|\([^()]*\))+?)\s*\/\s*([\d.]+%?)\s*\)/g, (_match, color: string, alpha: string) =>
+    mixWithTransparent(color.startsWith('--') ? `var(${color})` : color, alpha.endsWith('%') ? alpha : `${Number(alpha) * 100}%`));
+  css = css.replace(/--theme\(\s*(--[\w.-]+)\s*\)/g, 'var($1)');
+
+  return css.replace(/(\)|\d[a-z%]*)([+-])(?=[\d.(]|var\()/gi, '$1 $2 ');
+}
+
+/**
+ * Splits the styles column of a reference row into declarations, keeping one level of nesting
+ */
+function parseCssDeclarations(css: string): CssDeclaration[] {
+  const declarations: CssDeclaration[] = [];
+  const text = css.replace(/\/\*[\s\S]*?\*\//g, '');
+  const blockPattern = /([^{};]+)\{([^{}]*)\}|([^{};]+);?/g;
+
+  for (const match of text.matchAll(blockPattern)) {
+    const [, selector, block, single] = match;
+    const body = block ?? single;
+    for (const part of body.split(/;|\n/)) {
+      // A few docs rows omit the colon after custom properties (`--tw-shadow-color inherit`)
+      const declaration = /^\s*(--[\w-]+|[a-z-]+)\s*:?\s+(.+?)\s*$/.exec(part) ?? /^\s*([a-z-]+|--[\w-]+)\s*:\s*(.+?)\s*$/.exec(part);
+      if (declaration) {
+        declarations.push({ property: declaration[1], value: declaration[2], selector: selector?.trim() || undefined });
+      }
+    }
+  }
+  return declarations;
+}
+
+/**
+ * Applies a transformation to the selector header of a variant, keeping its at-rules
+ * @param dropAtRules - Whether at-rules such as `@media (hover: hover)` are dropped, as when negating
+ */
+function transformSelector(rule: VariantRule, transform: (selector: string) => string, dropAtRules = false): VariantRule | undefined {
+  const selectorIndex = rule.headers.findIndex(header => header.includes('&'));
+  if (selectorIndex === -1) {
+    return undefined;
+  }
+  const headers = rule.headers
+    .map((header, i) => i === selectorIndex ? transform(header) : header)
+    .filter((header, i) => !dropAtRules || i === selectorIndex);
+  return { headers, docs: rule.docs };
+}
+
+function escapeClassName(className: string): string {
+  return className.replace(/[^\w-]/g, char => `\\${char}`).replace(/^(\d)/, '\\3$1 ');
+}
+
+class UnsupportedExpression extends Error {}
+
+/**
+ * Evaluates the small subset of JavaScript the docs use to build reference table rows:
+ * literals, template strings, arrays with spreads, arrow functions, ternaries and the
+ * map/flatMap/join/concat calls. Anything else throws, so no docs code is ever executed.
+ */
+class TableEvaluator {
+  private pos = 0;
+
+  private constructor(private readonly source: string, private readonly scope: Record<string, TableValue>) {}
+
+  static evaluate(source: string, scope: Record<string, TableValue>): TableValue {
+    const evaluator = new TableEvaluator(source, scope);
+    const value = evaluator.parseExpression();
+    evaluator.skipTrivia();
+    if (evaluator.pos < source.length) {
+      throw new UnsupportedExpression(`Unexpected '${source.slice(evaluator.pos, evaluator.pos + 20)}'`);
+    }
+    return value;
+  }
+
+  private parseExpression(): TableValue {
+    this.skipTrivia();
+    const arrow = ARROW_PATTERN.exec(this.source.slice(this.pos));
+    if (arrow) {
+      this.pos += arrow[0].length;
+      return this.parseArrowBody(arrow[1]);
+    }
+
+    const condition = this.parsePostfix();
+    this.skipTrivia();
+    if (this.source[this.pos] === '?') {
+      this.pos++;
+      const whenTrue = this.parseExpression();
+      this.expect(':');
+      const whenFalse = this.parseExpression();
+      return condition ? whenTrue : whenFalse;
+    }
+    return condition;
+  }
+
+  private parseArrowBody(params: string): TableFunction {
+    this.skipTrivia();
+    const scope = this.scope;
+
+    if (this.source[this.pos] === '{') {
+      const close = findClosingBracket(this.source, this.pos);
+      const block = this.source.slice(this.pos + 1, close);
+      this.pos = close + 1;
+      return (...args) => runBlock(block, bindParameters(params, args, scope));
+    }
+
+    const start = this.pos;
+    this.pos = expressionEnd(this.source, start);
+    const body = this.source.slice(start, this.pos);
+    return (...args) => TableEvaluator.evaluate(body, bindParameters(params, args, scope));
+  }
+
+  private parsePostfix(): TableValue {
+    let value = this.parsePrimary();
+
+    for (;;) {
+      this.skipTrivia();
+      const char = this.source[this.pos];
+      if (char === '(' && typeof value === 'function') {
+        value = value(...this.parseArguments());
+      } else if (char === '.' && /[A-Za-z_$]/.test(this.source[this.pos + 1] ?? '')) {
+        this.pos++;
+        const name = this.readIdentifier();
+        this.skipTrivia();
+        const member = value && typeof value === 'object' && !Array.isArray(value) ? value[name] : undefined;
+        if (this.source[this.pos] === '(' && typeof member === 'function') {
+          value = member(...this.parseArguments());
+        } else if (this.source[this.pos] === '(') {
+          value = callMethod(value, name, this.parseArguments());
+        } else if (value && typeof value === 'object' && !Array.isArray(value)) {
+          value = value[name];
+        } else {
+          throw new UnsupportedExpression(`Property '${name}'`);
+        }
+      } else {
+        return value;
+      }
+    }
+  }
+
+  private parsePrimary(): TableValue {
+    this.skipTrivia();
+    const char = this.source[this.pos];
+
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '{') {
+      return this.parseObject();
+    }
+    if (char === '"' || char === "'") {
+      return this.readString();
+    }
+    if (char === '`') {
+      return this.readTemplate();
+    }
+    if (char === '(') {
+      this.pos++;
+      const value = this.parseExpression();
+      this.expect(')');
+      return value;
+    }
+
+    const number = /^-?\d+(?:\.\d+)?/.exec(this.source.slice(this.pos));
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+
+    const name = this.readIdentifier();
+    if (name === 'dedent' && this.source[this.pos] === '`') {
+      return dedent(this.readTemplate());
+    }
+    const keywords: Record<string, TableValue> = { true: true, false: false, null: null };
+    if (name in keywords) {
+      return keywords[name];
+    }
+    if (name in this.scope) {
+      return this.scope[name];
+    }
+    throw new UnsupportedExpression(`Unknown identifier '${name}'`);
+  }
+
+  private parseArray(): TableValue[] {
+    const items: TableValue[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipTrivia();
+      if (this.source[this.pos] === ']') {
+        this.pos++;
+        return items;
+      }
+      if (this.source.startsWith('...', this.pos)) {
+        this.pos += 3;
+        const spread = this.parseExpression();
+        if (!Array.isArray(spread)) {
+          throw new UnsupportedExpression('Spread of a non-array');
+        }
+        items.push(...spread);
+      } else {
+        items.push(this.parseExpression());
+      }
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== ']') {
+        throw new UnsupportedExpression('Malformed array');
+      }
+    }
+  }
+
+  private parseObject(): { [key: string]: TableValue } {
+    const object: { [key: string]: TableValue } = {};
+    this.pos++;
+    for (;;) {
+      this.skipTrivia();
+      if (this.source[this.pos] === '}') {
+        this.pos++;
+        return object;
+      }
+      const char = this.source[this.pos];
+      const key = char === '"' || char === "'" ? this.readString() : this.readIdentifier();
+      this.skipTrivia();
+      if (this.source[this.pos] === ':') {
+        this.pos++;
+        object[key] = this.parseExpression();
+      } else {
+        object[key] = this.scope[key];
+      }
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== '}') {
+        throw new UnsupportedExpression('Malformed object');
+      }
+    }
+  }
+
+  private parseArguments(): TableValue[] {
+    const args: TableValue[] = [];
+    this.pos++;
+    for (;;) {
+      this.skipTrivia();
+      if (this.source[this.pos] === ')') {
+        this.pos++;
+        return args;
+      }
+      args.push(this.parseExpression());
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== ')') {
+        throw new UnsupportedExpression('Malformed arguments');
+      }
+    }
+  }
+
+  private readString(): string {
+    const quote = this.source[this.pos++];
+    let text = '';
+    while (this.pos < this.source.length && this.source[this.pos] !== quote) {
+      if (this.source[this.pos] === '\\') {
+        text += unescapeCharacter(this.source[this.pos + 1]);
+        this.pos += 2;
+      } else {
+        text += this.source[this.pos++];
+      }
+    }
+    this.pos++;
+    return text;
+  }
+
+  private readTemplate(): string {
+    let text = '';
+    this.pos++;
+    while (this.pos < this.source.length && this.source[this.pos] !== '`') {
+      if (this.source[this.pos] === '\\') {
+        text += unescapeCharacter(this.source[this.pos + 1]);
+        this.pos += 2;
+      } else if (this.source.startsWith('${', this.pos)) {
+        const close = findClosingBracket(this.source, this.pos + 1);
+        if (close === -1) {
+          throw new UnsupportedExpression('Unclosed template substitution');
+        }
+        text += String(TableEvaluator.evaluate(this.source.slice(this.pos + 2, close), this.scope));
+        this.pos = close + 1;
+      } else {
+        text += this.source[this.pos++];
+      }
+    }
+    this.pos++;
+    return text;
+  }
+
+  private readIdentifier(): string {
+    const name = /^[A-Za-z_$][\w$]*/.exec(this.source.slice(this.pos))?.[0];
+    if (!name) {
+      throw new UnsupportedExpression(`Unexpected '${this.source.slice(this.pos, this.pos + 20)}'`);
+    }
+    this.pos += name.length;
+    return name;
+  }
+
+  private expect(char: string): void {
+    this.skipTrivia();
+    if (this.source[this.pos] !== char) {
+      throw new UnsupportedExpression(`Expected '${char}'`);
+    }
+    this.pos++;
+  }
+
+  private skipTrivia(): void {
+    for (;;) {
+      const rest = this.source.slice(this.pos);
+      const trivia = /^(?:\s+|\/\/[^\n]*|\/\*[\s\S]*?\*\/)+/.exec(rest);
+      if (!trivia) {
+        return;
+      }
+      this.pos += trivia[0].length;
+    }
+  }
+}
+
+function callMethod(value: TableValue, name: string, args: TableValue[]): TableValue {
+  const [first] = args;
+  if (Array.isArray(value)) {
+    switch (name) {
+      case 'map':
+        return value.map(item => (first as TableFunction)(item));
+      case 'flatMap':
+        return value.flatMap(item => {
+          const result = (first as TableFunction)(item);
+          return Array.isArray(result) ? result : [result];
+        });
+      case 'join':
+        return value.map(String).join(typeof first === 'string' ? first : ',');
+      case 'concat':
+        return value.concat(...args);
+    }
+  }
+  if (typeof value === 'string' && name === 'concat') {
+    return value + args.map(String).join('');
+  }
+  throw new UnsupportedExpression(`Method '${name}'`);
+}
+
+/**
+ * Binds arrow function parameters, including `([a, b])` and `({ a, b })` destructuring
+ */
+function bindParameters(params: string, args: TableValue[], scope: Record<string, TableValue>): Record<string, TableValue> {
+  const bound = { ...scope };
+  const list = params.replace(/^\(|\)$/g, '').trim();
+  const parameters = list.startsWith('[') || list.startsWith('{') ? [list] : list.split(',').map(param => param.trim()).filter(Boolean);
+
+  parameters.forEach((param, i) => {
+    const arg = args[i];
+    const names = param.slice(1, -1).split(',').map(name => name.trim());
+    if (param.startsWith('[')) {
+      names.forEach((name, j) => {
+        bound[name] = Array.isArray(arg) ? arg[j] : null;
+      });
+    } else if (param.startsWith('{')) {
+      names.forEach(name => {
+        bound[name] = arg && typeof arg === 'object' && !Array.isArray(arg) ? arg[name] : null;
+      });
+    } else {
+      bound[param] = arg;
+    }
+  });
+  return bound;
+}
+
+/**
+ * Runs a function body made of `const` declarations and a `return`
+ */
+function runBlock(block: string, scope: Record<string, TableValue>): TableValue {
+  const local = { ...scope };
+  let pos = 0;
+  while (pos < block.length) {
+    const statement = /^\s*(?:const|let)\s+([A-Za-z_$][\w$]*)\s*=|^\s*return\b/.exec(block.slice(pos));
+    if (!statement) {
+      if (block.slice(pos).trim() === '') {
+        break;
+      }
+      throw new UnsupportedExpression('Unsupported statement');
+    }
+    const start = pos + statement[0].length;
+    const end = expressionEnd(block, start, true);
+    const value = TableEvaluator.evaluate(block.slice(start, end), local);
+    if (!statement[1]) {
+      return value;
+    }
+    local[statement[1]] = value;
+    pos = block[end] === ';' ? end + 1 : end;
+  }
+  return null;
+}
+
+/**
+ * Finds where an expression starting at `start` ends: at a comma, closing bracket or
+ * (for statements) semicolon outside any brackets, strings or templates
+ */
+function expressionEnd(source: string, start: number, statement = false): number {
+  let pos = start;
+  while (pos < source.length) {
+    const char = source[pos];
+    if (char === '(' || char === '[' || char === '{') {
+      const close = findClosingBracket(source, pos);
+      pos = close === -1 ? source.length : close + 1;
+    } else if (char === '"' || char === "'" || char === '`') {
+      pos = skipQuoted(source, pos);
+    } else if (char === ')' || char === ']' || char === '}' || (char === ',' && !statement) || (char === ';' && statement)) {
+      return pos;
+    } else {
+      pos++;
+    }
+  }
+  return pos;
+}
+
+function skipQuoted(source: string, start: number): number {
+  const quote = source[start];
+  let pos = start + 1;
+  while (pos < source.length && source[pos] !== quote) {
+    if (source[pos] === '\\') {
+      pos += 2;
+    } else if (quote === '`' && source.startsWith('${', pos)) {
+      const close = findClosingBracket(source, pos + 1);
+      pos = close === -1 ? source.length : close + 1;
+    } else {
+      pos++;
+    }
+  }
+  return pos + 1;
+}
+
+function unescapeCharacter(char: string): string {
+  return ({ n: '\n', t: '\t' } as Record<string, string>)[char] ?? char;
+}
+
+function dedent(text: string): string {
+  const lines = text.replace(/^\n/, '').replace(/\n\s*$/, '').split('\n');
+  const indents = lines.filter(line => line.trim()).map(line => /^\s*/.exec(line)![0].length);
+  const common = indents.length > 0 ? Math.min(...indents) : 0;
+  return lines.map(line => line.slice(common)).join('\n');
+}
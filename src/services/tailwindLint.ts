@@ -0,0 +1,507 @@
+import { findClosingBracket } from '../utils/jsLiteral.js';
+import { ResolvedClass, TailwindClassResolver, parseClassName } from './tailwindClasses.js';
+import { migrateClassName } from './tailwindMigration.js';
+
+export type LintRule = 'unknown-class' | 'deprecated' | 'duplicate' | 'conflict' | 'redundant-variant' | 'variant-order';
+
+export interface LintFinding {
+  rule: LintRule;
+  severity: 'error' | 'warning' | 'info';
+  classes: string[];
+  message: string;
+  fix?: string; // Replaces the classes involved; an empty string removes them
+  suggestions?: string[]; // Likely intended classes, for unknown classes where no fix is certain
+}
+
+export interface ClassListLint {
+  text: string;
+  line?: number; // Line of the snippet the list starts on
+  findings: LintFinding[];
+  fixed: string; // The list with every fix applied; suggestions for unknown classes are left out
+}
+
+interface Entry {
+  name: string;
+  resolved: ResolvedClass;
+  properties: string; // Sorted property list of the bare utility, the key for conflicts
+}
+
+const CLASS_TOKEN_PATTERN = /^!?-?[a-z0-9@*[][\w@*&>:/.%#=,'"()[\]!-]*$/;
+const CLASS_CONTEXT_PATTERN = /\b(?:class|className|class:list|tw)\s*=\s*\{?\s*$|\b(?:clsx|cn|cx|classNames|twMerge|twJoin)\(\s*(?:[^()]*,\s*)?$/;
+const OPACITY_UTILITY_PATTERN = /^(bg|text|border|divide|ring|placeholder)-opacity-(\d+|\[[^\]]+\])$/;
+
+// Variant order Tailwind CSS v4 emits rules in; breakpoints and containers expand from the theme
+const VARIANT_ORDER = [
+  '*', '**', 'not', 'group', 'peer',
+  'first-letter', 'first-line', 'marker', 'selection', 'file', 'placeholder', 'backdrop', 'details-content', 'before', 'after',
+  'first', 'last', 'only', 'odd', 'even', 'first-of-type', 'last-of-type', 'only-of-type', 'visited', 'target', 'open',
+  'default', 'checked', 'indeterminate', 'placeholder-shown', 'autofill', 'optional', 'required', 'valid', 'invalid',
+  'user-valid', 'user-invalid', 'in-range', 'out-of-range', 'read-only', 'empty', 'focus-within', 'hover', 'focus',
+  'focus-visible', 'active', 'enabled', 'disabled', 'inert', 'in', 'has', 'aria', 'data', 'nth', 'nth-last',
+  'nth-of-type', 'nth-last-of-type', 'supports', 'motion-safe', 'motion-reduce', 'contrast-more', 'contrast-less',
+  '<max>', '<min>', '<container-max>', '<container-min>',
+  'portrait', 'landscape', 'ltr', 'rtl', 'dark', 'starting', 'print', 'forced-colors', 'inverted-colors',
+  'pointer-none', 'pointer-coarse', 'pointer-fine', 'any-pointer-none', 'any-pointer-coarse', 'any-pointer-fine', 'noscript',
+  '<arbitrary>'
+];
+
+/**
+ * Checks Tailwind CSS class lists for mistakes and style problems against the utilities
+ * and variants the docs define
+ */
+export class TailwindClassLinter {
+  private readonly variantRanks = new Map<string, number>();
+
+  constructor(private readonly resolver: TailwindClassResolver) {
+    const breakpoints = resolver.themeKeys('breakpoint');
+    const containers = resolver.themeKeys('container');
+    const expanded = VARIANT_ORDER.flatMap(name => {
+      switch (name) {
+        // Max-width variants sort widest first so the narrowest one wins, min-width variants the other way round
+        case '<max>':
+          return ['max-[]', ...[...breakpoints].reverse().map(key => `max-${key}`)];
+        case '<min>':
+          return [...breakpoints, 'min-[]'];
+        case '<container-max>':
+          return ['@max-[]', ...[...containers].reverse().map(key => `@max-${key}`)];
+        case '<container-min>':
+          return [...containers.map(key => `@${key}`), '@min-[]', '@[]'];
+        default:
+          return [name];
+      }
+    });
+    expanded.forEach((name, i) => this.variantRanks.set(name, i));
+  }
+
+  /**
+   * Lints one class list
+   * @param text - Whitespace-separated classes, e.g. the value of a className attribute
+   * @param line - Line the list starts on, when it comes from a snippet
+   * @returns Findings and the list with fixes applied
+   */
+  lintClassList(text: string, line?: number): ClassListLint {
+    const findings: Array<{ finding: LintFinding; positions: number[] }> = [];
+    const report = (finding: LintFinding, positions: number[]) => findings.push({ finding, positions });
+
+    const entries: Entry[] = text.trim().split(/\s+/).filter(Boolean).map(name => this.entryFor(name));
+
+    entries.forEach((entry, i) => {
+      const migrated = migrateClassName(entry.name);
+
+      if (!entry.resolved.error) {
+        this.checkVariantRepeats(entry, i, report);
+        // v3 names that v4 kept for a different size or style, such as shadow-sm and outline-none
+        if (migrated !== entry.name && !this.resolver.resolve(migrated).error) {
+          report({
+            rule: 'deprecated',
+            severity: 'warning',
+            classes: [entry.name],
+            message: `\`${entry.name}\` changed meaning in Tailwind CSS v4; what v3 called \`${entry.name}\` is \`${migrated}\` now. Keep it if the list was written for v4.`,
+            fix: migrated
+          }, [i]);
+        }
+        return;
+      }
+
+      if (migrated !== entry.name && !this.resolver.resolve(migrated).error) {
+        report({
+          rule: 'deprecated',
+          severity: 'warning',
+          classes: [entry.name],
+          message: `\`${entry.name}\` is a Tailwind CSS v3 name; v4 calls it \`${migrated}\`.`,
+          fix: migrated
+        }, [i]);
+        return;
+      }
+
+      const opacity = OPACITY_UTILITY_PATTERN.exec(entry.resolved.utility);
+      if (opacity) {
+        this.checkOpacityUtility(entries, i, opacity[1], opacity[2], report);
+        return;
+      }
+
+      report({
+        rule: 'unknown-class',
+        severity: 'error',
+        classes: [entry.name],
+        message: `\`${entry.name}\`: ${entry.resolved.error}. Tailwind CSS generates nothing for it unless your own CSS defines it.`,
+        suggestions: entry.resolved.suggestions?.length ? entry.resolved.suggestions : undefined
+      }, [i]);
+    });
+
+    this.checkDuplicatesAndConflicts(entries, report);
+    this.checkRedundantBreakpoints(entries, report);
+
+    // Apply fixes: the first class a finding names takes the fix, the others are dropped
+    const fixedNames: Array<string | null> = entries.map(entry => entry.name);
+    for (const { finding, positions } of findings) {
+      if (finding.fix === undefined || positions.some(position => fixedNames[position] === null)) {
+        continue;
+      }
+      const [first, ...rest] = positions;
+      fixedNames[first] = finding.fix || null;
+      rest.forEach(position => {
+        fixedNames[position] = null;
+      });
+    }
+    const remaining = fixedNames.filter((name): name is string => name !== null);
+
+    const sorted = this.sortClasses(remaining);
+    if (sorted.some((name, i) => name !== remaining[i])) {
+      const firstMoved = sorted.findIndex((name, i) => name !== remaining[i]);
+      report({
+        rule: 'variant-order',
+        severity: 'info',
+        classes: [sorted[firstMoved]],
+        message: `Classes are not in Tailwind's variant order (classes without variants first, then by the order Tailwind emits their variants in); \`${sorted[firstMoved]}\` should come earlier. Classes under the same variants are not reordered.`,
+        fix: sorted.join(' ')
+      }, []);
+    }
+
+    return {
+      text,
+      line,
+      findings: findings.map(({ finding }) => finding),
+      fixed: sorted.join(' ')
+    };
+  }
+
+  /**
+   * Finds the class lists in a JSX/TSX snippet and lints each one
+   * @param source - Snippet or whole component file
+   * @returns One result per class list that has findings, in source order
+   */
+  lintSource(source: string): { checked: number; lists: ClassListLint[] } {
+    let checked = 0;
+    const lists: ClassListLint[] = [];
+    for (const candidate of extractClassStrings(source)) {
+      const names = candidate.text.trim().split(/\s+/).filter(Boolean);
+      if (names.length === 0 || !names.every(name => CLASS_TOKEN_PATTERN.test(name))) {
+        continue;
+      }
+      // Outside class attributes and clsx() calls, only strings that are mostly Tailwind classes count as class lists
+      if (!candidate.inClassContext) {
+        const known = names.filter(name => !this.resolver.resolve(name).error).length;
+        if (known === 0 || known * 2 < names.length) {
+          continue;
+        }
+      }
+
+      checked++;
+      const result = this.lintClassList(candidate.text, candidate.line);
+      if (result.findings.length > 0) {
+        lists.push(result);
+      }
+    }
+    return { checked, lists };
+  }
+
+  /**
+   * Sorts classes by variant: unknown classes first, then by the variants each class uses in
+   * Tailwind's variant order; classes with the same variants keep their relative order
+   */
+  sortClasses(names: string[]): string[] {
+    // Arbitrary variants rank after every built-in one, each on its own, ordered by their text
+    const arbitrary = [...new Set(names.flatMap(name => parseClassName(name).variants.filter(variant => variant.startsWith('['))))].sort();
+    const keyed = names.map((name, i) => ({ name, i, key: this.sortKey(name, arbitrary) }));
+    keyed.sort((a, b) => (a.key < b.key ? -1 : a.key > b.key ? 1 : a.i - b.i));
+    return keyed.map(({ name }) => name);
+  }
+
+  private sortKey(name: string, arbitrary: string[]): bigint {
+    const resolved = this.resolver.resolve(name);
+    if (resolved.error) {
+      return -1n;
+    }
+    return resolved.variants.reduce((key, variant) => {
+      const rank = variant.startsWith('[')
+        ? this.variantRanks.get('<arbitrary>')! + arbitrary.indexOf(variant)
+        : this.variantRank(variant);
+      return key | (1n << BigInt(rank));
+    }, 0n);
+  }
+
+  private variantRank(variant: string): number {
+    const name = variant.replace(/\/[\w-]+$/, '');
+    const candidates = [
+      name,
+      name.replace(/\[.*\]$/, '[]'),
+      /^(group|peer|not|in|has|aria|data|supports)-/.exec(name)?.[1],
+      /^(nth(?:-last)?(?:-of-type)?)-/.exec(name)?.[1]
+    ];
+    for (const candidate of candidates) {
+      if (candidate !== undefined && this.variantRanks.has(candidate)) {
+        return this.variantRanks.get(candidate)!;
+      }
+    }
+    return this.variantRanks.get('<arbitrary>')!;
+  }
+
+  private entryFor(name: string): Entry {
+    const resolved = this.resolver.resolve(name);
+    let properties = '';
+    if (!resolved.error) {
+      // Properties of the utility alone, so content: var(--tw-content) from before:/after: does not count.
+      // Axis utilities share a property and fill in the other axis from a variable (translate-x, scale-y), so those variables are part of the key
+      const bare = this.resolver.resolve(resolved.utility);
+      properties = bare.declarations
+        .map(declaration => {
+          const axes = [...declaration.value.matchAll(/var\((--tw-[\w-]+)\)/g)].map(match => match[1]);
+          return `${declaration.selector ? `${declaration.selector} ` : ''}${declaration.property}${axes.length > 0 ? ` (with ${axes.join(', ')})` : ''}`;
+        })
+        .sort()
+        .join(', ');
+    }
+    return { name, resolved, properties };
+  }
+
+  private checkVariantRepeats(entry: Entry, position: number, report: (finding: LintFinding, positions: number[]) => void): void {
+    const unique = [...new Set(entry.resolved.variants)];
+    if (unique.length < entry.resolved.variants.length) {
+      const repeated = entry.resolved.variants.find((variant, i) => entry.resolved.variants.indexOf(variant) !== i)!;
+      const fix = [...unique, `${entry.resolved.important ? '!' : ''}${entry.resolved.utility}`].join(':');
+      report({
+        rule: 'redundant-variant',
+        severity: 'warning',
+        classes: [entry.name],
+        message: `\`${repeated}:\` appears more than once in \`${entry.name}\`; once is enough.`,
+        fix
+      }, [position]);
+    }
+  }
+
+  private checkOpacityUtility(
+    entries: Entry[],
+    position: number,
+    kind: string,
+    amount: string,
+    report: (finding: LintFinding, positions: number[]) => void
+  ): void {
+    const entry = entries[position];
+    const prefix = entry.resolved.variants.map(variant => `${variant}:`).join('');
+    const colorKind = kind === 'placeholder' ? 'text' : kind;
+    const colorPosition = entries.findIndex(candidate =>
+      !candidate.resolved.error &&
+      candidate.resolved.variants.join(':') === entry.resolved.variants.join(':') &&
+      candidate.resolved.utility.startsWith(`${colorKind}-`) &&
+      !candidate.resolved.utility.includes('/') &&
+      candidate.resolved.pattern?.includes('<color>'));
+    const value = amount.replace(/^\[(.+)\]$/, '[$1]');
+
+    if (colorPosition === -1) {
+      report({
+        rule: 'deprecated',
+        severity: 'warning',
+        classes: [entry.name],
+        message: `\`${entry.name}\` was removed in Tailwind CSS v4; put the opacity on the color class instead, e.g. \`${prefix}${colorKind}-black/${value}\`.`
+      }, [position]);
+      return;
+    }
+
+    const color = entries[colorPosition];
+    report({
+      rule: 'deprecated',
+      severity: 'warning',
+      classes: [color.name, entry.name],
+      message: `\`${entry.name}\` was removed in Tailwind CSS v4; use an opacity modifier on \`${color.name}\` instead.`,
+      fix: `${color.name}/${value}`
+    }, [colorPosition, position]);
+  }
+
+  private checkDuplicatesAndConflicts(entries: Entry[], report: (finding: LintFinding, positions: number[]) => void): void {
+    const groups = new Map<string, number[]>();
+    entries.forEach((entry, i) => {
+      if (entry.resolved.error || !entry.properties) {
+        return;
+      }
+      const key = `${entry.resolved.variants.join(':')}|${entry.resolved.important}|${entry.properties}`;
+      groups.set(key, [...(groups.get(key) ?? []), i]);
+    });
+
+    for (const positions of groups.values()) {
+      if (positions.length < 2) {
+        continue;
+      }
+      const names = positions.map(position => entries[position].name);
+      const distinct = [...new Set(names)];
+      const last = names[names.length - 1];
+
+      if (distinct.length === 1) {
+        report({
+          rule: 'duplicate',
+          severity: 'warning',
+          classes: names,
+          message: `\`${last}\` is listed ${names.length} times.`,
+          fix: last
+        }, positions);
+        continue;
+      }
+
+      const properties = entries[positions[0]].properties;
+      report({
+        rule: 'conflict',
+        severity: 'warning',
+        classes: names,
+        message: `${distinct.map(name => `\`${name}\``).join(' and ')} ${distinct.length === 2 ? 'both' : 'all'} set ${properties}; only one applies, and the order in the class list does not decide which.`,
+        fix: last
+      }, positions);
+    }
+  }
+
+  /**
+   * Flags breakpoint classes that repeat the value already in effect from a smaller breakpoint,
+   * such as `md:p-4` after `p-4` with nothing in between. When a class whose CSS comes between
+   * the two sets the same property (`sm:ml-2` between `first:ml-0` and `sm:first:ml-0`), the
+   * repeat may be what overrides it, so it is only mentioned
+   */
+  private checkRedundantBreakpoints(entries: Entry[], report: (finding: LintFinding, positions: number[]) => void): void {
+    const breakpoints = this.resolver.themeKeys('breakpoint');
+    const groups = new Map<string, Array<{ position: number; rank: number }>>();
+
+    entries.forEach((entry, position) => {
+      if (entry.resolved.error || !entry.properties) {
+        return;
+      }
+      const responsive = entry.resolved.variants.filter(variant => breakpoints.includes(variant));
+      if (responsive.length > 1 || entry.resolved.variants.some(variant => /^(?:max|min)-/.test(variant))) {
+        return;
+      }
+      const others = entry.resolved.variants.filter(variant => !breakpoints.includes(variant));
+      const key = `${others.join(':')}|${entry.resolved.important}|${entry.properties}`;
+      const rank = responsive.length === 0 ? -1 : breakpoints.indexOf(responsive[0]);
+      groups.set(key, [...(groups.get(key) ?? []), { position, rank }]);
+    });
+
+    for (const group of groups.values()) {
+      group.sort((a, b) => a.rank - b.rank);
+      for (let i = 1; i < group.length; i++) {
+        const previous = entries[group[i - 1].position];
+        const current = entries[group[i].position];
+        if (group[i].rank === group[i - 1].rank || current.resolved.utility !== previous.resolved.utility) {
+          continue;
+        }
+
+        // Classes Tailwind emits after the earlier one and before the later one win over the earlier one
+        const [low, high] = [this.sortKey(previous.name, []), this.sortKey(current.name, [])];
+        const families = propertyFamilies(current);
+        const between = entries
+          .filter(entry => {
+            if (entry.resolved.error || !entry.properties) {
+              return false;
+            }
+            const key = this.sortKey(entry.name, []);
+            return key > low && key < high && propertyFamilies(entry).some(family => families.includes(family));
+          })
+          .map(entry => entry.name);
+
+        if (between.length === 0) {
+          report({
+            rule: 'redundant-variant',
+            severity: 'warning',
+            classes: [current.name],
+            message: `\`${current.name}\` repeats \`${previous.name}\`, which already applies at that width.`,
+            fix: ''
+          }, [group[i].position]);
+        } else {
+          report({
+            rule: 'redundant-variant',
+            severity: 'info',
+            classes: [current.name],
+            message: `\`${current.name}\` repeats \`${previous.name}\`, but ${between.map(name => `\`${name}\``).join(' and ')} ${between.length === 1 ? 'comes' : 'come'} between them in Tailwind's CSS and ${between.length === 1 ? 'sets' : 'set'} the same property; keep it if it is there to override ${between.length === 1 ? 'that class' : 'them'}.`
+          }, [group[i].position]);
+        }
+      }
+    }
+  }
+}
+
+/**
+ * Reduces the properties a class sets to properties without sides, so `ml-2` and `mx-0` overlap.
+ * Border and outline widths also set the line style in v4, so `border-t` overlaps `border-none`
+ */
+function propertyFamilies(entry: Entry): string[] {
+  return [...new Set(entry.resolved.declarations.flatMap(declaration => {
+    const property = declaration.property.replace(/-(?:top|right|bottom|left|inline|block|x|y|start|end)(?=-|$)/g, '');
+    return /^(?:border|outline)-width$/.test(property) ? [property, property.replace(/width$/, 'style')] : [property];
+  }))];
+}
+
+/**
+ * Finds string literals in a snippet that may hold class lists, skipping comments.
+ * Template literals contribute their static text; class names cut by an interpolation are dropped.
+ */
+function extractClassStrings(source: string): Array<{ text: string; line: number; inClassContext: boolean }> {
+  const strings: Array<{ text: string; line: number; inClassContext: boolean }> = [];
+  // Offsets only move forward, so lines are counted incrementally
+  let line = 1;
+  let counted = 0;
+  const lineAt = (offset: number) => {
+    for (; counted < offset; counted++) {
+      if (source[counted] === '\n') {
+        line++;
+      }
+    }
+    return line;
+  };
+  let pos = 0;
+
+  while (pos < source.length) {
+    const char = source[pos];
+
+    if (source.startsWith('//', pos)) {
+      const end = source.indexOf('\n', pos);
+      pos = end === -1 ? source.length : end;
+      continue;
+    }
+    if (source.startsWith('/*', pos)) {
+      const end = source.indexOf('*/', pos + 2);
+      pos = end === -1 ? source.length : end + 2;
+      continue;
+    }
+
+    if (char === '"' || char === "'" || char === '`') {
+      const inClassContext = CLASS_CONTEXT_PATTERN.test(source.slice(Math.max(0, pos - 60), pos));
+      const start = pos;
+      const pieces: string[] = [''];
+      pos++;
+      while (pos < source.length && source[pos] !== char) {
+        if (source[pos] === '\\') {
+          pieces[pieces.length - 1] += source.slice(pos, pos + 2);
+          pos += 2;
+        } else if (char === '`' && source.startsWith('${', pos)) {
+          const close = findClosingBracket(source, pos + 1);
+          pos = close === -1 ? source.length : close + 1;
+          pieces.push('');
+        } else if (char !== '`' && source[pos] === '\n') {
+          // An unterminated quote, like an apostrophe in JSX text, ends at the line break
+          break;
+        } else {
+          pieces[pieces.length - 1] += source[pos++];
+        }
+      }
+      if (source[pos] !== char) {
+        pos = start + 1;
+        continue;
+      }
+      pos++;
+
+      const text = pieces.map((piece, i) => {
+        let trimmed = piece;
+        if (i > 0) {
+          trimmed = trimmed.replace(/^\S+/, '');
+        }
+        if (i < pieces.length - 1) {
+          trimmed = trimmed.replace(/\S+$/, '');
+        }
+        return trimmed;
+      }).join(' ').trim().replace(/\s+/g, ' ');
+      if (text) {
+        strings.push({ text, line: lineAt(start), inClassContext });
+      }
+      continue;
+    }
+
+    pos++;
+  }
+  return strings;
+}
@@ -0,0 +1,1215 @@
+import { JsExpression, JsObject, JsValue, isJsObject, parseDefaultExport, parseJsLiteral } from '../utils/jsLiteral.js';
+import { parseImports } from './codeExampleService.js';
+
+// v3 utilities renamed in v4, from the upgrade guide
+export const V3_CLASS_RENAMES: Record<string, string> = {
+  'shadow-sm': 'shadow-xs',
+  'shadow': 'shadow-sm',
+  'drop-shadow-sm': 'drop-shadow-xs',
+  'drop-shadow': 'drop-shadow-sm',
+  'blur-sm': 'blur-xs',
+  'blur': 'blur-sm',
+  'backdrop-blur-sm': 'backdrop-blur-xs',
+  'backdrop-blur': 'backdrop-blur-sm',
+  'rounded-sm': 'rounded-xs',
+  'rounded': 'rounded-sm',
+  'outline-none': 'outline-hidden',
+  'ring': 'ring-3',
+  'flex-grow': 'grow',
+  'flex-grow-0': 'grow-0',
+  'flex-shrink': 'shrink',
+  'flex-shrink-0': 'shrink-0',
+  'overflow-ellipsis': 'text-ellipsis',
+  'decoration-slice': 'box-decoration-slice',
+  'decoration-clone': 'box-decoration-clone'
+};
+
+// Renamed utilities that are also plain English words, only rewritten where a string is clearly a class list
+const BARE_RENAMES = new Set(['shadow', 'drop-shadow', 'blur', 'backdrop-blur', 'rounded', 'ring']);
+
+const ROUNDED_SIDE_PATTERN = /^rounded-(t|r|b|l|s|e|tl|tr|br|bl|ss|se|es|ee)(-sm)?$/;
+const GRADIENT_PATTERN = /^bg-gradient-to-(t|tr|r|br|b|bl|l|tl)$/;
+const ARBITRARY_VARIABLE_PATTERN = /-\[(--[\w-]+)\]$/;
+const OPACITY_UTILITY_PATTERN = /^(bg|text|border|divide|ring|placeholder)-opacity-(\d+|\[[^\]]+\])$/;
+const BORDER_WIDTH_PATTERN = /^(border|divide)(-[xytrblse])?(-\d+)?$/;
+const BORDER_COLOR_PATTERN = /^(border|divide)(-[xytrblse])?-(inherit|current|transparent|black|white|[a-z]+-\d{2,3}|\[(#|rgb|hsl|oklch|color|var)|\(--)/;
+const CLASS_TOKEN_PATTERN = /^!?-?[a-z0-9@*[][\w@*&>:/.%#=,'()[\]-]*!?$/;
+const CLASS_CONTEXT_PATTERN = /\b(?:class|className|class:list|tw)\s*=\s*\{?\s*$/;
+
+// Theme keys backed by a v4 theme variable namespace
+const THEME_NAMESPACES: Record<string, string> = {
+  colors: 'color',
+  fontFamily: 'font',
+  fontSize: 'text',
+  fontWeight: 'font-weight',
+  letterSpacing: 'tracking',
+  lineHeight: 'leading',
+  screens: 'breakpoint',
+  maxWidth: 'container',
+  spacing: 'spacing',
+  borderRadius: 'radius',
+  boxShadow: 'shadow',
+  dropShadow: 'drop-shadow',
+  blur: 'blur',
+  perspective: 'perspective',
+  aspectRatio: 'aspect',
+  transitionTimingFunction: 'ease',
+  animation: 'animate'
+};
+
+// Theme keys without a namespace in v4; each value becomes a custom utility
+const THEME_UTILITIES: Record<string, { utility: string; property: string; native?: (key: string, value: string) => boolean }> = {
+  backgroundImage: { utility: 'bg', property: 'background-image' },
+  gridTemplateColumns: { utility: 'grid-cols', property: 'grid-template-columns', native: (key, value) => value === `repeat(${key}, minmax(0, 1fr))` },
+  gridTemplateRows: { utility: 'grid-rows', property: 'grid-template-rows', native: (key, value) => value === `repeat(${key}, minmax(0, 1fr))` },
+  gridColumn: { utility: 'col', property: 'grid-column' },
+  gridRow: { utility: 'row', property: 'grid-row' },
+  zIndex: { utility: 'z', property: 'z-index', native: (key, value) => key === value },
+  opacity: { utility: 'opacity', property: 'opacity', native: (key, value) => Math.round(Number(value) * 100) === Number(key) },
+  transitionDuration: { utility: 'duration', property: 'transition-duration', native: (key, value) => value === `${key}ms` },
+  transitionDelay: { utility: 'delay', property: 'transition-delay', native: (key, value) => value === `${key}ms` },
+  transitionProperty: { utility: 'transition', property: 'transition-property' },
+  width: { utility: 'w', property: 'width', native: isSpacingMultiple },
+  height: { utility: 'h', property: 'height', native: isSpacingMultiple },
+  minWidth: { utility: 'min-w', property: 'min-width', native: isSpacingMultiple },
+  minHeight: { utility: 'min-h', property: 'min-height', native: isSpacingMultiple },
+  maxHeight: { utility: 'max-h', property: 'max-height', native: isSpacingMultiple },
+  flex: { utility: 'flex', property: 'flex' },
+  cursor: { utility: 'cursor', property: 'cursor' },
+  outlineOffset: { utility: 'outline-offset', property: 'outline-offset', native: (key, value) => value === `${key}px` },
+  borderWidth: { utility: 'border', property: 'border-width', native: (key, value) => value === `${key}px` }
+};
+
+const DEFAULT_PALETTES = new Set([
+  'slate', 'gray', 'zinc', 'neutral', 'stone', 'red', 'orange', 'amber', 'yellow', 'lime', 'green',
+  'emerald', 'teal', 'cyan', 'sky', 'blue', 'indigo', 'violet', 'purple', 'fuchsia', 'pink', 'rose'
+]);
+
+// Deprecated v3 palette names and the palettes they pointed to
+const PALETTE_ALIASES: Record<string, string> = {
+  lightBlue: 'sky',
+  warmGray: 'stone',
+  trueGray: 'neutral',
+  coolGray: 'gray',
+  blueGray: 'slate'
+};
+
+const PALETTE_SHADES = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+const SPECIAL_COLORS: Record<string, string> = {
+  white: 'var(--color-white)',
+  black: 'var(--color-black)',
+  transparent: 'transparent',
+  current: 'currentColor',
+  inherit: 'inherit'
+};
+
+// v4 default font stacks, for configs that spread defaultTheme.fontFamily
+const DEFAULT_FONT_STACKS: Record<string, string> = {
+  sans: 'ui-sans-serif, system-ui, sans-serif, "Apple Color Emoji", "Segoe UI Emoji", "Segoe UI Symbol", "Noto Color Emoji"',
+  serif: 'ui-serif, Georgia, Cambria, "Times New Roman", Times, serif',
+  mono: 'ui-monospace, SFMono-Regular, Menlo, Monaco, Consolas, "Liberation Mono", "Courier New", monospace'
+};
+
+// Official plugins whose features are built into v4
+const BUILT_IN_PLUGINS: Record<string, string> = {
+  '@tailwindcss/container-queries': 'Container queries (@container, @sm:) are built into v4',
+  '@tailwindcss/line-clamp': 'line-clamp-* utilities are built in since v3.3',
+  '@tailwindcss/aspect-ratio': 'aspect-* utilities are built in; the plugin\'s aspect-w-*/aspect-h-* classes need replacing with aspect-[w/h]'
+};
+
+export interface TailwindMigrationInput {
+  config?: string; // Source of tailwind.config.js/ts
+  css?: string; // Main stylesheet
+  source?: string; // Markup or components whose class names should be rewritten
+}
+
+export interface ClassRename {
+  from: string;
+  to: string;
+  count: number;
+}
+
+export interface TailwindMigrationResult {
+  css?: string;
+  source?: string;
+  renames: ClassRename[];
+  warnings: string[]; // Things the caller has to translate or check by hand
+  notes: string[]; // Changes made automatically that are worth knowing about
+}
+
+interface ConfigTranslation {
+  importOptions: string[];
+  directives: string[]; // @plugin, @source and @custom-variant lines
+  theme: string[];
+  keyframes: string[];
+  utilities: string[];
+  prefix?: string; // v3 class prefix, such as "tw-"
+}
+
+/**
+ * Collects warnings and notes without duplicates, and tallies class renames
+ */
+class MigrationReport {
+  readonly warnings = new Set<string>();
+  readonly notes = new Set<string>();
+  readonly renames = new Map<string, ClassRename>();
+
+  warn(message: string): void {
+    this.warnings.add(message);
+  }
+
+  note(message: string): void {
+    this.notes.add(message);
+  }
+
+  rename(from: string, to: string): void {
+    const key = `${from}\0${to}`;
+    const existing = this.renames.get(key);
+    if (existing) {
+      existing.count++;
+    } else {
+      this.renames.set(key, { from, to, count: 1 });
+    }
+  }
+}
+
+/**
+ * Migrates a Tailwind CSS v3 project to v4: translates tailwind.config.js into CSS
+ * (@import "tailwindcss", @theme, @plugin, @custom-variant, @utility), updates the stylesheet,
+ * and renames v3 utilities in markup. Nothing is evaluated; config values that are not plain
+ * literals are reported as warnings instead.
+ * @param input - Config source, stylesheet and markup; any subset may be given
+ * @returns The migrated stylesheet and markup with the renames made and what needs manual work
+ */
+export function migrateTailwind(input: TailwindMigrationInput): TailwindMigrationResult {
+  const report = new MigrationReport();
+  const translation = input.config !== undefined
+    ? translateConfig(input.config, report)
+    : { importOptions: [], directives: [], theme: [], keyframes: [], utilities: [] };
+
+  const result: TailwindMigrationResult = { renames: [], warnings: [], notes: [] };
+
+  if (input.css !== undefined || input.config !== undefined) {
+    result.css = migrateStylesheet(input.css ?? '', translation, report);
+  }
+  if (input.source !== undefined) {
+    result.source = migrateSourceClasses(input.source, translation.prefix, report);
+  }
+
+  result.renames = [...report.renames.values()].sort((a, b) => b.count - a.count || a.from.localeCompare(b.from));
+  result.warnings = [...report.warnings];
+  result.notes = [...report.notes];
+  return result;
+}
+
+/**
+ * Rewrites a single v3 class name to its v4 equivalent
+ * @param className - Class such as `hover:!shadow-sm`
+ * @param prefix - v3 prefix from the config (e.g. "tw-"); classes without it are left alone
+ * @returns The v4 class name, identical to the input when nothing changed
+ */
+export function migrateClassName(className: string, prefix?: string): string {
+  const parts = splitClassName(className, prefix);
+  if (!parts) {
+    return className;
+  }
+  return joinClassName({ ...parts, utility: renameUtility(parts.utility) ?? parts.utility }, prefix);
+}
+
+function translateConfig(source: string, report: MigrationReport): ConfigTranslation {
+  const translation: ConfigTranslation = { importOptions: [], directives: [], theme: [], keyframes: [], utilities: [] };
+
+  const parsed = parseDefaultExport(source);
+  const config = parsed ? parsed.value : parseJsLiteral(source.trim());
+  if (!isJsObject(config)) {
+    report.warn('Could not find a config object to translate; expected `module.exports = {...}` or `export default {...}`.');
+    return translation;
+  }
+  if (parsed?.wrapper) {
+    report.warn(`The config is wrapped in \`${parsed.wrapper}(...)\`; anything that helper adds (presets, plugins, colors) is not translated.`);
+  }
+
+  // Module bindings such as `colors` -> "tailwindcss/colors"
+  const bindings = new Map(parseImports(source)
+    .filter(entry => entry.name)
+    .map(entry => [entry.name, entry.module]));
+
+  for (const [key, value] of Object.entries(config)) {
+    switch (key) {
+      case 'content':
+        translateContent(value, translation, report);
+        break;
+      case 'safelist':
+      case 'blocklist':
+        translateSafelist(key, value, translation, report);
+        break;
+      case 'darkMode':
+        translateDarkMode(value, translation, report);
+        break;
+      case 'prefix':
+        if (typeof value === 'string' && value.length > 0) {
+          const v4Prefix = value.replace(/[-_:]+$/, '');
+          translation.prefix = value;
+          translation.importOptions.push(`prefix(${v4Prefix})`);
+          report.note(`Prefixes look like variants in v4: \`${value}flex\` becomes \`${v4Prefix}:flex\`, always first (\`${v4Prefix}:hover:flex\`).`);
+          if (!/^[a-z]+$/.test(v4Prefix)) {
+            report.warn(`v4 prefixes may only contain lowercase letters; \`${v4Prefix}\` needs renaming.`);
+          }
+        }
+        break;
+      case 'important':
+        if (value === true) {
+          translation.importOptions.push('important');
+        } else if (typeof value === 'string') {
+          report.warn(`\`important: '${value}'\` has no v4 equivalent; nest the import's utilities under that selector yourself or drop it.`);
+        }
+        break;
+      case 'theme':
+        if (isJsObject(value)) {
+          translateTheme(value, bindings, translation, report);
+        } else {
+          report.warn('`theme` is not an object literal and was not translated.');
+        }
+        break;
+      case 'plugins':
+        translatePlugins(value, bindings, translation, report);
+        break;
+      case 'presets':
+        report.warn('Presets are not translated; merge the preset\'s theme and plugins into this config and run the migration again.');
+        break;
+      case 'corePlugins':
+        report.warn('`corePlugins` is not supported in v4; utilities can no longer be disabled.');
+        break;
+      case 'separator':
+        report.warn('`separator` is not supported in v4; variants always use `:`.');
+        break;
+      case 'future':
+      case 'experimental':
+        report.note(`Dropped \`${key}\` flags; v4 has no equivalent options.`);
+        break;
+      default:
+        report.warn(`Unknown config option \`${key}\` was not translated.`);
+    }
+  }
+
+  return translation;
+}
+
+function translateContent(value: JsValue, translation: ConfigTranslation, report: MigrationReport): void {
+  const files = isJsObject(value) ? value.files : value;
+  if (!Array.isArray(files)) {
+    report.warn('`content` is not a list of paths and was not translated; v4 detects sources automatically, use @source for anything it misses.');
+    return;
+  }
+
+  let detected = 0;
+  for (const entry of files) {
+    if (typeof entry !== 'string') {
+      report.warn('Raw `content` entries are not supported; use `@source inline("...")` for classes that are not in source files.');
+    } else if (entry.includes('node_modules')) {
+      // Automatic detection skips node_modules, so these must stay explicit
+      translation.directives.push(`@source "${entry}";`);
+      report.warn(`\`@source "${entry}"\` is resolved relative to the stylesheet, not the config file; adjust the path.`);
+    } else {
+      detected++;
+    }
+  }
+
+  if (detected > 0) {
+    report.note(`Dropped ${detected} \`content\` path${detected === 1 ? '' : 's'}: v4 detects source files automatically (everything not ignored by .gitignore).`);
+  }
+  if (isJsObject(value) && (value.extract !== undefined || value.transform !== undefined)) {
+    report.warn('`content.extract` and `content.transform` are not supported in v4.');
+  }
+}
+
+function translateSafelist(key: 'safelist' | 'blocklist', value: JsValue, translation: ConfigTranslation, report: MigrationReport): void {
+  if (!Array.isArray(value)) {
+    report.warn(`\`${key}\` is not a list and was not translated.`);
+    return;
+  }
+
+  const classes = value.filter((entry): entry is string => typeof entry === 'string');
+  if (classes.length > 0) {
+    const directive = key === 'safelist' ? '@source inline' : '@source not inline';
+    translation.directives.push(`${directive}("${classes.map(name => migrateClassName(name)).join(' ')}");`);
+  }
+  if (classes.length < value.length) {
+    report.warn(`Pattern entries in \`${key}\` cannot be translated; list the classes with brace expansion instead, e.g. \`@source inline("bg-red-{100..900..100}")\`.`);
+  }
+}
+
+function translateDarkMode(value: JsValue, translation: ConfigTranslation, report: MigrationReport): void {
+  const [strategy, selector] = Array.isArray(value) ? value : [value];
+
+  if (strategy === 'media' || strategy === undefined) {
+    return;
+  }
+  if ((strategy === 'class' || strategy === 'selector') && (selector === undefined || typeof selector === 'string')) {
+    const target = selector ?? '.dark';
+    translation.directives.push(`@custom-variant dark (&:where(${target}, ${target} *));`);
+    return;
+  }
+  if (strategy === 'variant' && typeof selector === 'string') {
+    translation.directives.push(`@custom-variant dark (${selector});`);
+    return;
+  }
+
+  report.warn('The `darkMode` setting could not be translated; declare it with `@custom-variant dark (...)`.');
+}
+
+function translatePlugins(value: JsValue, bindings: Map<string, string>, translation: ConfigTranslation, report: MigrationReport): void {
+  if (!Array.isArray(value)) {
+    report.warn('`plugins` is not a list and was not translated.');
+    return;
+  }
+
+  for (const plugin of value) {
+    if (!(plugin instanceof JsExpression)) {
+      report.warn('Inline plugin objects are not translated; rewrite them with @utility and @custom-variant.');
+      continue;
+    }
+
+    let module: string | undefined;
+    let options: JsValue | undefined;
+
+    const required = /^require\(\s*['"]([^'"]+)['"]\s*\)\s*(?:\(([\s\S]*)\))?$/.exec(plugin.source);
+    if (required) {
+      module = required[1];
+      options = required[2]?.trim() ? parseJsLiteral(required[2]) : undefined;
+    } else if (plugin.reference && bindings.has(plugin.reference)) {
+      module = bindings.get(plugin.reference);
+    } else if (plugin.call && bindings.has(plugin.call.callee) && bindings.get(plugin.call.callee) !== 'tailwindcss/plugin') {
+      module = bindings.get(plugin.call.callee);
+      options = plugin.call.args[0];
+    }
+
+    if (!module) {
+      report.warn(`Plugin \`${truncate(plugin.source)}\` is defined inline; rewrite it with @utility and @custom-variant, or move it to a file and load it with @plugin.`);
+      continue;
+    }
+    if (module in BUILT_IN_PLUGINS) {
+      report.note(`Dropped ${module}: ${BUILT_IN_PLUGINS[module]}.`);
+      continue;
+    }
+    if (module.startsWith('.')) {
+      report.warn(`\`@plugin "${module}"\` is resolved relative to the stylesheet, not the config file; check the path.`);
+    }
+
+    const declarations = isJsObject(options)
+      ? Object.entries(options).filter(([, option]) => ['string', 'number', 'boolean'].includes(typeof option))
+      : [];
+    if (options !== undefined && (!isJsObject(options) || declarations.length < Object.keys(options).length)) {
+      report.warn(`Some options for ${module} could not be translated; only string, number and boolean options can be set in CSS.`);
+    }
+    translation.directives.push(declarations.length > 0
+      ? `@plugin "${module}" {\n${declarations.map(([name, option]) => `  ${name}: ${option};`).join('\n')}\n}`
+      : `@plugin "${module}";`);
+  }
+}
+
+function translateTheme(theme: JsObject, bindings: Map<string, string>, translation: ConfigTranslation, report: MigrationReport): void {
+  const extend = isJsObject(theme.extend) ? theme.extend : {};
+  if (theme.extend !== undefined && !isJsObject(theme.extend)) {
+    report.warn('`theme.extend` is not an object literal and was not translated.');
+  }
+
+  const groups: Array<[JsObject, boolean]> = [[theme, true], [extend, false]];
+  for (const [values, override] of groups) {
+    for (const [key, value] of Object.entries(values)) {
+      if (key === 'extend') {
+        continue;
+      }
+      const location = `theme.${override ? '' : 'extend.'}${key}`;
+
+      if (value instanceof JsExpression && !value.reference) {
+        report.warn(`\`${location}\` is computed by code and was not translated; define its values in @theme by hand.`);
+        continue;
+      }
+
+      if (key === 'container') {
+        translateContainer(value, translation, report);
+      } else if (key === 'keyframes') {
+        translateKeyframes(value, translation, report);
+      } else if (key in THEME_NAMESPACES) {
+        const namespace = THEME_NAMESPACES[key];
+        if (override) {
+          translation.theme.push(`--${namespace}-*: initial;`);
+          report.note(`\`theme.${key}\` replaced the default scale, so the @theme block resets it with \`--${namespace}-*: initial\`.`);
+        }
+        translateNamespace(key, namespace, value, override, bindings, translation, report);
+      } else if (key in THEME_UTILITIES) {
+        translateThemeUtilities(key, value, location, bindings, translation, report);
+      } else if (key === 'backgroundColor' || key === 'textColor' || key === 'borderColor') {
+        report.warn(`\`${location}\` colors apply to every color utility in v4 once added to @theme as --color-*; move them there if that is acceptable.`);
+      } else {
+        report.warn(`\`${location}\` has no v4 theme namespace and was not translated; use arbitrary values or @utility.`);
+      }
+    }
+  }
+}
+
+function translateNamespace(
+  key: string,
+  namespace: string,
+  value: JsValue,
+  override: boolean,
+  bindings: Map<string, string>,
+  translation: ConfigTranslation,
+  report: MigrationReport
+): void {
+  if (key === 'colors') {
+    for (const [name, color] of flattenColors(value, bindings, override, report)) {
+      translation.theme.push(`--color-${name}: ${color};`);
+    }
+    return;
+  }
+
+  if (!isJsObject(value)) {
+    report.warn(`\`theme.${key}\` is not an object literal and was not translated.`);
+    return;
+  }
+
+  for (const [name, entry] of Object.entries(value)) {
+    if (name === 'DEFAULT') {
+      report.warn(`\`theme.${key}.DEFAULT\` has no v4 theme variable; style the bare utility with @utility instead.`);
+      continue;
+    }
+    const variable = `--${namespace}-${escapeName(name)}`;
+
+    if (key === 'fontSize') {
+      translation.theme.push(...translateFontSize(variable, entry, report));
+      continue;
+    }
+    if (key === 'fontFamily') {
+      const stack = fontStack(entry, bindings);
+      if (stack === null) {
+        report.warn(`\`theme.fontFamily.${name}\` could not be translated.`);
+      } else if (stack !== `var(--font-${name})`) {
+        translation.theme.push(`${variable}: ${stack};`);
+      }
+      if (Array.isArray(entry) && Array.isArray(entry[0])) {
+        report.warn(`Font feature settings on \`theme.fontFamily.${name}\` are not translated; add \`${variable}--font-feature-settings\` by hand.`);
+      }
+      continue;
+    }
+    if (key === 'screens' && isJsObject(entry)) {
+      if (typeof entry.min === 'string' && entry.max === undefined && entry.raw === undefined) {
+        translation.theme.push(`${variable}: ${entry.min};`);
+      } else {
+        report.warn(`Breakpoint \`${name}\` uses max/raw ranges, which v4 theme variables cannot express; use a @custom-variant.`);
+      }
+      continue;
+    }
+    if (key === 'spacing' && typeof entry === 'string' && !override && isSpacingMultiple(name, entry)) {
+      report.note(`Dropped spacing \`${name}\`: v4 generates every multiple of the 0.25rem spacing scale.`);
+      continue;
+    }
+
+    const css = cssValue(entry, bindings, report);
+    if (css === null) {
+      report.warn(`\`theme.${key}.${name}\` could not be translated.`);
+    } else {
+      translation.theme.push(`${variable}: ${css};`);
+    }
+  }
+}
+
+function translateFontSize(variable: string, entry: JsValue, report: MigrationReport): string[] {
+  const [size, settings] = Array.isArray(entry) ? entry : [entry];
+  if (typeof size !== 'string') {
+    report.warn(`Font size \`${variable}\` could not be translated.`);
+    return [];
+  }
+
+  const lines = [`${variable}: ${size};`];
+  const extra: Record<string, JsValue | undefined> = typeof settings === 'string'
+    ? { 'line-height': settings }
+    : isJsObject(settings)
+      ? { 'line-height': settings.lineHeight, 'letter-spacing': settings.letterSpacing, 'font-weight': settings.fontWeight }
+      : {};
+  for (const [property, setting] of Object.entries(extra)) {
+    if (typeof setting === 'string' || typeof setting === 'number') {
+      lines.push(`${variable}--${property}: ${setting};`);
+    }
+  }
+  return lines;
+}
+
+function translateThemeUtilities(
+  key: string,
+  value: JsValue,
+  location: string,
+  bindings: Map<string, string>,
+  translation: ConfigTranslation,
+  report: MigrationReport
+): void {
+  if (!isJsObject(value)) {
+    report.warn(`\`${location}\` is not an object literal and was not translated.`);
+    return;
+  }
+
+  const { utility, property, native } = THEME_UTILITIES[key];
+  for (const [name, entry] of Object.entries(value)) {
+    const css = cssValue(entry, bindings, report);
+    if (css === null) {
+      report.warn(`\`${location}.${name}\` could not be translated.`);
+    } else if (native?.(name, css)) {
+      report.note(`Dropped \`${location}.${name}\`: \`${utility}-${name}\` works without configuration in v4.`);
+    } else {
+      const className = name === 'DEFAULT' ? utility : `${utility}-${name}`;
+      translation.utilities.push(`@utility ${escapeName(className)} {\n  ${property}: ${css};\n}`);
+    }
+  }
+}
+
+function translateContainer(value: JsValue, translation: ConfigTranslation, report: MigrationReport): void {
+  if (!isJsObject(value)) {
+    report.warn('`theme.container` is not an object literal and was not translated.');
+    return;
+  }
+
+  const body: string[] = [];
+  if (value.center === true) {
+    body.push('margin-inline: auto;');
+  }
+  if (typeof value.padding === 'string') {
+    body.push(`padding-inline: ${value.padding};`);
+  } else if (isJsObject(value.padding)) {
+    for (const [screen, padding] of Object.entries(value.padding)) {
+      if (screen === 'DEFAULT') {
+        body.unshift(`padding-inline: ${padding};`);
+      } else {
+        body.push(`@media (width >= theme(--breakpoint-${screen})) {\n    padding-inline: ${padding};\n  }`);
+      }
+    }
+  }
+  if (value.screens !== undefined) {
+    report.warn('`theme.container.screens` is not supported in v4; container max-widths follow the breakpoints.');
+  }
+
+  if (body.length > 0) {
+    translation.utilities.push(`@utility container {\n${body.map(line => `  ${line}`).join('\n')}\n}`);
+  }
+}
+
+function translateKeyframes(value: JsValue, translation: ConfigTranslation, report: MigrationReport): void {
+  if (!isJsObject(value)) {
+    report.warn('`theme.keyframes` is not an object literal and was not translated.');
+    return;
+  }
+
+  for (const [name, frames] of Object.entries(value)) {
+    if (!isJsObject(frames)) {
+      report.warn(`Keyframes \`${name}\` could not be translated.`);
+      continue;
+    }
+    const body = Object.entries(frames).map(([step, declarations]) => {
+      const lines = isJsObject(declarations)
+        ? Object.entries(declarations).map(([property, declaration]) => `      ${kebabCase(property)}: ${declaration};`)
+        : [];
+      return `    ${step} {\n${lines.join('\n')}\n    }`;
+    });
+    translation.keyframes.push(`  @keyframes ${name} {\n${body.join('\n')}\n  }`);
+  }
+}
+
+/**
+ * Flattens a colors object into theme variable names and CSS values, expanding
+ * references to the default palettes such as `colors.zinc`
+ */
+function flattenColors(
+  value: JsValue,
+  bindings: Map<string, string>,
+  override: boolean,
+  report: MigrationReport,
+  name = ''
+): Array<[string, string]> {
+  if (isJsObject(value)) {
+    return Object.entries(value).flatMap(([key, entry]) => {
+      const child = key === 'DEFAULT' ? name : name ? `${name}-${escapeName(key)}` : escapeName(key);
+      return flattenColors(entry, bindings, override, report, child);
+    });
+  }
+
+  const palette = paletteReference(value, bindings);
+  if (palette !== undefined) {
+    const [paletteName, shade] = palette;
+    if (paletteName in SPECIAL_COLORS) {
+      return [[name, SPECIAL_COLORS[paletteName]]];
+    }
+    const resolved = PALETTE_ALIASES[paletteName] ?? paletteName;
+    if (!DEFAULT_PALETTES.has(resolved)) {
+      report.warn(`\`colors.${paletteName}\` is not a v4 palette; pick its replacement by hand.`);
+      return [];
+    }
+    if (shade !== undefined) {
+      return [[name, `var(--color-${resolved}-${shade})`]];
+    }
+    // Re-declaring a default palette under its own name is only needed after a reset
+    if (resolved === name && !override) {
+      return [];
+    }
+    return PALETTE_SHADES.map(step => [`${name}-${step}`, `var(--color-${resolved}-${step})`]);
+  }
+
+  const css = cssValue(value, bindings, report);
+  if (css === null) {
+    report.warn(`Color \`${name}\` could not be translated.`);
+    return [];
+  }
+  return [[name, css]];
+}
+
+/**
+ * Recognizes `colors.zinc`, `colors.zinc[500]` and `defaultTheme.colors.zinc`
+ * @returns Palette name and optional shade, or undefined for anything else
+ */
+function paletteReference(value: JsValue, bindings: Map<string, string>): [string, string | undefined] | undefined {
+  if (!(value instanceof JsExpression) || !value.reference) {
+    return undefined;
+  }
+  const [binding, ...path] = value.reference.split('.');
+  const module = bindings.get(binding);
+  if (module === 'tailwindcss/defaultTheme' && path[0] === 'colors') {
+    path.shift();
+  } else if (module !== 'tailwindcss/colors') {
+    return undefined;
+  }
+  return path.length >= 1 ? [path[0], path[1]] : undefined;
+}
+
+function fontStack(value: JsValue, bindings: Map<string, string>): string | null {
+  // [['Inter', 'sans-serif'], { fontFeatureSettings }] tuples carry the stack first
+  const stack = Array.isArray(value) && Array.isArray(value[0]) ? value[0] : value;
+  const defaultStack = (entry: JsValue) => {
+    const path = entry instanceof JsExpression ? entry.reference?.split('.') : undefined;
+    return path && bindings.get(path[0]) === 'tailwindcss/defaultTheme' && path[1] === 'fontFamily' ? path[2] : undefined;
+  };
+
+  if (!Array.isArray(stack)) {
+    const fallback = defaultStack(stack);
+    return fallback ? `var(--font-${fallback})` : typeof stack === 'string' ? stack : null;
+  }
+
+  const parts: string[] = [];
+  for (const entry of stack) {
+    const fallback = defaultStack(entry);
+    if (typeof entry === 'string') {
+      parts.push(/\s/.test(entry) && !/^["']|^var\(/.test(entry) ? `"${entry}"` : entry);
+    } else if (fallback && fallback in DEFAULT_FONT_STACKS) {
+      // Inlined rather than var(--font-sans), which would be circular when redefining --font-sans
+      parts.push(DEFAULT_FONT_STACKS[fallback]);
+    } else {
+      return null;
+    }
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Converts a config value to CSS text; arrays become comma-separated lists
+ * @returns The CSS value, or null when the value is code that cannot be translated
+ */
+function cssValue(value: JsValue, bindings: Map<string, string>, report: MigrationReport): string | null {
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value === 'string') {
+    return translateCssFunctions(value, report, false);
+  }
+  if (Array.isArray(value)) {
+    const parts = value.map(entry => cssValue(entry, bindings, report));
+    return parts.every(part => part !== null) ? parts.join(', ') : null;
+  }
+  const palette = paletteReference(value, bindings);
+  if (palette?.[1] !== undefined) {
+    return `var(--color-${PALETTE_ALIASES[palette[0]] ?? palette[0]}-${palette[1]})`;
+  }
+  return null;
+}
+
+function migrateStylesheet(css: string, translation: ConfigTranslation, report: MigrationReport): string {
+  const header = buildHeader(translation);
+  let output = css;
+  let headerPlaced = false;
+
+  // @tailwind directives and the v3 per-layer imports collapse into one import
+  output = output.replace(
+    /^[ \t]*(?:@tailwind\s+(base|components|utilities|variants|screens)|@import\s+["']tailwindcss\/(base|components|utilities)(?:\.css)?["'])\s*;[ \t]*\n?/gm,
+    () => {
+      if (headerPlaced) {
+        return '';
+      }
+      headerPlaced = true;
+      return `${header}\n`;
+    }
+  );
+
+  output = output.replace(/^[ \t]*@config\s+["'][^"']+["']\s*;[ \t]*\n?/gm, () => {
+    report.note('Removed @config: the JavaScript config is translated into CSS.');
+    return '';
+  });
+
+  if (!headerPlaced) {
+    const existingImport = /^[ \t]*@import\s+["']tailwindcss["'][^;]*;[ \t]*\n?/m.exec(output);
+    if (existingImport) {
+      const afterImport = header.slice(header.indexOf('\n') + 1).trimStart();
+      const insertAt = existingImport.index + existingImport[0].length;
+      output = afterImport
+        ? `${output.slice(0, insertAt)}\n${afterImport}\n${output.slice(insertAt)}`
+        : output;
+    } else {
+      output = output.trim() ? `${header}\n\n${output.trimStart()}` : `${header}\n`;
+    }
+  }
+
+  output = output.replace(/@screen\s+([\w-]+)\s*\{/g, (_match, screen: string) =>
+    `@media (width >= theme(--breakpoint-${screen})) {`);
+
+  output = translateCssFunctions(output, report, true);
+
+  output = output.replace(/@apply\s+([^;{}]+);/g, (_match, classes: string) =>
+    `@apply ${migrateClassList(classes, translation.prefix, report, true)};`);
+
+  output = convertLayers(output, report);
+
+  return output.replace(/\n{3,}/g, '\n\n');
+}
+
+function buildHeader(translation: ConfigTranslation): string {
+  const options = translation.importOptions.length > 0 ? ` ${translation.importOptions.join(' ')}` : '';
+  const blocks = [`@import "tailwindcss"${options};`];
+
+  if (translation.directives.length > 0) {
+    // Plugins first, then sources, then variants, as in the v4 docs
+    const order = ['@plugin', '@source', '@custom-variant'];
+    const rank = (directive: string) => order.findIndex(name => directive.startsWith(name));
+    blocks.push([...translation.directives].sort((a, b) => rank(a) - rank(b)).join('\n'));
+  }
+  if (translation.theme.length > 0 || translation.keyframes.length > 0) {
+    const body = translation.theme.map(line => `  ${line}`);
+    if (translation.keyframes.length > 0) {
+      body.push('', ...translation.keyframes);
+    }
+    blocks.push(`@theme {\n${body.join('\n')}\n}`);
+  }
+  blocks.push(...translation.utilities);
+
+  return blocks.join('\n\n');
+}
+
+/**
+ * Replaces theme() lookups with CSS variables, and strips the <alpha-value> placeholder
+ * that v4 no longer needs. theme() stays in media queries, where variables are not allowed.
+ */
+function translateCssFunctions(css: string, report: MigrationReport, stylesheet: boolean): string {
+  let output = css.replace(/\btheme\(\s*(['"]?)([\w.\-[\]/]+)\1\s*(?:\/\s*([^)]+?))?\s*\)/g, (match, _quote, path: string, alpha: string | undefined, offset: number) => {
+    if (path.startsWith('--')) {
+      return match;
+    }
+    const segments = path.replace(/\[([^\]]+)\]/g, '.$1').split('.').filter(segment => segment && segment !== 'DEFAULT');
+    const namespace = THEME_NAMESPACES[segments[0]];
+    if (!namespace || segments.length < 2) {
+      report.warn(`\`${match}\` has no v4 theme variable; replace it by hand.`);
+      return match;
+    }
+
+    const variable = `--${namespace}-${segments.slice(1).map(escapeName).join('-')}`;
+    const lineStart = stylesheet ? css.lastIndexOf('\n', offset) + 1 : 0;
+    const inAtRule = stylesheet && /^\s*@(?:media|container|supports)\b/.test(css.slice(lineStart, offset));
+    if (alpha) {
+      return `theme(${variable} / ${alpha.trim()})`;
+    }
+    return inAtRule ? `theme(${variable})` : `var(${variable})`;
+  });
+
+  output = output.replace(/\b(rgba?|hsla?)\((var\(--[\w-]+\))\s*(?:\/|,)\s*<alpha-value>\s*\)/g, (_match, fn: string, variable: string) => {
+    report.note('Removed `<alpha-value>` placeholders: v4 applies opacity modifiers to any color with color-mix().');
+    return `${fn.replace(/a$/, '')}(${variable})`;
+  });
+  if (output.includes('<alpha-value>')) {
+    report.warn('Some `<alpha-value>` placeholders could not be removed automatically.');
+  }
+
+  return output;
+}
+
+/**
+ * Turns single-class rules in `@layer utilities` and `@layer components` into @utility blocks
+ */
+function convertLayers(css: string, report: MigrationReport): string {
+  let output = '';
+  let cursor = 0;
+  const layerPattern = /@layer\s+(utilities|components)\s*\{/g;
+
+  for (let match = layerPattern.exec(css); match; match = layerPattern.exec(css)) {
+    const open = match.index + match[0].length - 1;
+    const close = findBlockEnd(css, open);
+    if (close === -1) {
+      break;
+    }
+
+    const utilities: string[] = [];
+    const remaining: string[] = [];
+    let pendingComments: string[] = [];
+
+    for (const item of splitCssItems(css.slice(open + 1, close))) {
+      if (item.type === 'comment') {
+        pendingComments.push(item.text);
+        continue;
+      }
+      const className = item.type === 'rule' ? /^\.((?:[\w-]|\\.)+)$/.exec(item.selector)?.[1] : undefined;
+      if (item.type === 'rule' && className) {
+        utilities.push([...pendingComments, `@utility ${className.replace(/\\/g, '')} {\n${reindent(item.body, '  ')}\n}`].join('\n'));
+      } else {
+        remaining.push(...pendingComments, item.text);
+      }
+      pendingComments = [];
+    }
+    remaining.push(...pendingComments);
+
+    if (remaining.length > 0) {
+      report.warn(`Rules in @layer ${match[1]} that are not a single class selector were left in place; in v4 they are plain CSS and do not work with variants.`);
+    }
+    if (utilities.length > 0) {
+      report.note(`Converted ${utilities.length} rule${utilities.length === 1 ? '' : 's'} from @layer ${match[1]} to @utility.`);
+    }
+
+    const replacement = [
+      ...utilities,
+      ...(remaining.length > 0 ? [`@layer ${match[1]} {\n${remaining.map(text => reindent(text, '  ')).join('\n\n')}\n}`] : [])
+    ].join('\n\n');
+
+    output += css.slice(cursor, match.index) + replacement;
+    cursor = close + 1;
+    layerPattern.lastIndex = cursor;
+  }
+
+  return output + css.slice(cursor);
+}
+
+type CssItem =
+  | { type: 'comment'; text: string }
+  | { type: 'rule'; selector: string; body: string; text: string }
+  | { type: 'other'; text: string };
+
+/**
+ * Splits the body of a block into its top-level comments, rules and other statements
+ */
+function splitCssItems(body: string): CssItem[] {
+  const items: CssItem[] = [];
+  let pos = 0;
+
+  while (pos < body.length) {
+    const rest = body.slice(pos);
+    const leading = /^\s*/.exec(rest)![0].length;
+    pos += leading;
+    if (pos >= body.length) {
+      break;
+    }
+
+    if (body.startsWith('/*', pos)) {
+      const end = body.indexOf('*/', pos + 2);
+      const stop = end === -1 ? body.length : end + 2;
+      items.push({ type: 'comment', text: body.slice(pos, stop) });
+      pos = stop;
+      continue;
+    }
+
+    const brace = body.indexOf('{', pos);
+    const semicolon = body.indexOf(';', pos);
+    if (brace === -1 || (semicolon !== -1 && semicolon < brace)) {
+      const stop = semicolon === -1 ? body.length : semicolon + 1;
+      items.push({ type: 'other', text: body.slice(pos, stop).trim() });
+      pos = stop;
+      continue;
+    }
+
+    const close = findBlockEnd(body, brace);
+    const stop = close === -1 ? body.length : close + 1;
+    const selector = body.slice(pos, brace).trim();
+    const text = body.slice(pos, stop);
+    items.push(selector.startsWith('@')
+      ? { type: 'other', text }
+      : { type: 'rule', selector, body: body.slice(brace + 1, close === -1 ? body.length : close), text });
+    pos = stop;
+  }
+
+  return items;
+}
+
+function findBlockEnd(css: string, open: number): number {
+  let depth = 0;
+  for (let i = open; i < css.length; i++) {
+    const char = css[i];
+    if (char === '/' && css[i + 1] === '*') {
+      const end = css.indexOf('*/', i + 2);
+      i = end === -1 ? css.length : end + 1;
+    } else if (char === '"' || char === "'") {
+      const end = css.indexOf(char, i + 1);
+      i = end === -1 ? css.length : end;
+    } else if (char === '{') {
+      depth++;
+    } else if (char === '}' && --depth === 0) {
+      return i;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Strips the common indentation of a block of CSS and indents it with a new prefix.
+ * A first line without indentation (a selector sliced from its line) is not measured.
+ */
+function reindent(text: string, indent: string): string {
+  const lines = text.replace(/^\s*\n/, '').trimEnd().split('\n');
+  const measured = (/^\s/.test(lines[0]) ? lines : lines.slice(1)).filter(line => line.trim());
+  const indentOf = (line: string) => /^\s*/.exec(line)![0].length;
+  const common = measured.length > 0 ? Math.min(...measured.map(indentOf)) : 0;
+  return lines
+    .map(line => line.trim() ? indent + line.slice(Math.min(common, indentOf(line))) : '')
+    .join('\n');
+}
+
+interface ClassParts {
+  variants: string[];
+  important: boolean;
+  negative: boolean;
+  utility: string;
+}
+
+/**
+ * Rewrites class names inside the string literals of markup or component source.
+ * Strings in class attributes are always rewritten; other strings only when they look like class lists.
+ */
+function migrateSourceClasses(source: string, prefix: string | undefined, report: MigrationReport): string {
+  return source.replace(/"(?:\\.|[^"\\\n])*"|'(?:\\.|[^'\\\n])*'|`(?:\\.|[^`\\])*`/g, (literal, offset: number) => {
+    const quote = literal[0];
+    const body = literal.slice(1, -1);
+    const inClassAttribute = CLASS_CONTEXT_PATTERN.test(source.slice(Math.max(0, offset - 40), offset));
+
+    if (quote !== '`') {
+      return quote + migrateClassList(body, prefix, report, inClassAttribute) + quote;
+    }
+
+    // Template literals: rewrite the static text between interpolations, leaving partial class names alone
+    const pieces = body.split(/(\$\{[^}]*\})/);
+    return quote + pieces.map((piece, i) => {
+      if (i % 2 === 1) {
+        return piece;
+      }
+      const leadingPartial = i > 0 && /^\S/.test(piece) ? /^\S+/.exec(piece)![0] : '';
+      const trailingPartial = i < pieces.length - 1 && /\S$/.test(piece) ? /\S+$/.exec(piece)![0] : '';
+      if (leadingPartial.length + trailingPartial.length >= piece.length) {
+        return piece;
+      }
+      const middle = piece.slice(leadingPartial.length, piece.length - trailingPartial.length);
+      return leadingPartial + migrateClassList(middle, prefix, report, inClassAttribute) + trailingPartial;
+    }).join('') + quote;
+  });
+}
+
+/**
+ * Rewrites a whitespace-separated class list, merging *-opacity-* utilities into color modifiers
+ * @param classes - Class list, whitespace preserved
+ * @param prefix - v3 class prefix, if any
+ * @param report - Receives renames and warnings
+ * @param isClassList - True when the text is known to be classes; otherwise it must look like a class list
+ */
+function migrateClassList(classes: string, prefix: string | undefined, report: MigrationReport, isClassList: boolean): string {
+  const tokens = classes.split(/(\s+)/);
+  const names = tokens.filter((_token, i) => i % 2 === 0 && tokens[i]);
+
+  const looksLikeClasses = names.length > 0 &&
+    names.every(name => CLASS_TOKEN_PATTERN.test(name)) &&
+    names.some(name => /[-:]/.test(name));
+  if (!isClassList && !looksLikeClasses) {
+    return classes;
+  }
+  const allowBare = isClassList || names.length >= 2;
+
+  const parsed = tokens.map((token, i) => i % 2 === 0 && token ? splitClassName(token, prefix) : null);
+  const mergedFrom = new Map<number, string>();
+  mergeOpacityUtilities(tokens, parsed, mergedFrom, report);
+  checkBorderColors(parsed, report);
+
+  return tokens.map((token, i) => {
+    const parts = parsed[i];
+    if (!parts) {
+      return token;
+    }
+
+    let utility = parts.utility;
+    const renamed = renameUtility(utility);
+    if (renamed && (allowBare || !BARE_RENAMES.has(utility))) {
+      if (utility === 'ring') {
+        report.note('`ring` is 1px and currentColor in v4; `ring-3` keeps the width, add `ring-blue-500` where you relied on the old default color.');
+      }
+      utility = renamed;
+    }
+
+    if (parts.variants.length >= 2 && parts.variants.some(variant => variant.startsWith('*') || variant.startsWith('prose-'))) {
+      report.warn(`Variants now apply left to right: check the order in \`${token}\`.`);
+    }
+    if (/^space-[xy]-/.test(utility)) {
+      report.note('space-x-* and space-y-* use a new selector in v4; switch to flex/grid with gap-* if spacing looks off.');
+    }
+
+    const rewritten = joinClassName({ ...parts, utility }, prefix);
+    if (rewritten !== token) {
+      report.rename(mergedFrom.get(i) ?? token, rewritten);
+    }
+    return rewritten;
+  }).join('');
+}
+
+/**
+ * Folds `bg-opacity-50` into a color utility in the same list, giving `bg-black/50`
+ */
+function mergeOpacityUtilities(
+  tokens: string[],
+  parsed: Array<ClassParts | null>,
+  mergedFrom: Map<number, string>,
+  report: MigrationReport
+): void {
+  parsed.forEach((parts, i) => {
+    const opacity = parts ? OPACITY_UTILITY_PATTERN.exec(parts.utility) : null;
+    if (!parts || !opacity) {
+      return;
+    }
+
+    const [, kind, amount] = opacity;
+    const variantKey = parts.variants.join(':');
+    const colorIndex = parsed.findIndex(candidate =>
+      candidate !== null &&
+      candidate.variants.join(':') === variantKey &&
+      candidate.utility.startsWith(`${kind}-`) &&
+      !candidate.utility.includes('/') &&
+      !OPACITY_UTILITY_PATTERN.test(candidate.utility) &&
+      /^[a-z]+-(?:[a-z]+-\d{2,3}|black|white|\[.+\])$/.test(candidate.utility));
+
+    const original = tokens[i];
+    if (colorIndex === -1) {
+      report.warn(`\`${original}\` was removed in v4 and has no matching color utility to merge into; use an opacity modifier such as \`${kind}-black/${amount.replace(/[[\]]/g, '')}\`.`);
+      return;
+    }
+
+    mergedFrom.set(colorIndex, `${tokens[colorIndex]} ${original}`);
+    parsed[colorIndex]!.utility += `/${amount}`;
+    // Drop the opacity class together with the whitespace that separated it
+    tokens[i] = '';
+    parsed[i] = null;
+    tokens[i > 0 ? i - 1 : i + 1] = '';
+  });
+}
+
+function checkBorderColors(parsed: Array<ClassParts | null>, report: MigrationReport): void {
+  const utilities = parsed.filter((parts): parts is ClassParts => parts !== null).map(parts => parts.utility);
+  for (const kind of ['border', 'divide']) {
+    const hasWidth = utilities.some(utility => utility.startsWith(kind) && BORDER_WIDTH_PATTERN.test(utility) && !utility.endsWith('-0'));
+    const hasColor = utilities.some(utility => utility.startsWith(kind) && BORDER_COLOR_PATTERN.test(utility));
+    if (hasWidth && !hasColor) {
+      report.warn(`${kind}-* utilities default to currentColor in v4 instead of gray-200; add a color where a ${kind} has none (e.g. \`${kind}-gray-200\`).`);
+    }
+  }
+}
+
+function renameUtility(utility: string): string | undefined {
+  const [base, ...modifier] = utility.split('/');
+  const suffix = modifier.length > 0 ? `/${modifier.join('/')}` : '';
+
+  if (base in V3_CLASS_RENAMES) {
+    return V3_CLASS_RENAMES[base] + suffix;
+  }
+
+  const rounded = ROUNDED_SIDE_PATTERN.exec(base);
+  if (rounded) {
+    return `rounded-${rounded[1]}-${rounded[2] ? 'xs' : 'sm'}${suffix}`;
+  }
+
+  const gradient = GRADIENT_PATTERN.exec(base);
+  if (gradient) {
+    return `bg-linear-to-${gradient[1]}${suffix}`;
+  }
+
+  const growShrink = /^flex-(grow|shrink)-(\d+|\[.+\])$/.exec(base);
+  if (growShrink) {
+    return `${growShrink[1]}-${growShrink[2]}${suffix}`;
+  }
+
+  if (ARBITRARY_VARIABLE_PATTERN.test(base)) {
+    return base.replace(ARBITRARY_VARIABLE_PATTERN, '-($1)') + suffix;
+  }
+
+  return undefined;
+}
+
+/**
+ * Splits a class into variants, important flag, negative sign and utility.
+ * Colons inside arbitrary values and variants are not treated as separators.
+ */
+function splitClassName(className: string, prefix?: string): ClassParts | null {
+  const segments: string[] = [];
+  let depth = 0;
+  let start = 0;
+  for (let i = 0; i < className.length; i++) {
+    const char = className[i];
+    if (char === '[' || char === '(') {
+      depth++;
+    } else if (char === ']' || char === ')') {
+      depth--;
+    } else if (char === ':' && depth === 0) {
+      segments.push(className.slice(start, i));
+      start = i + 1;
+    }
+  }
+  segments.push(className.slice(start));
+
+  let utility = segments.pop()!;
+  let important = false;
+  if (utility.startsWith('!')) {
+    important = true;
+    utility = utility.slice(1);
+  } else if (utility.endsWith('!')) {
+    important = true;
+    utility = utility.slice(0, -1);
+  }
+
+  const negative = utility.startsWith('-');
+  if (negative) {
+    utility = utility.slice(1);
+  }
+
+  if (prefix) {
+    if (!utility.startsWith(prefix)) {
+      return null;
+    }
+    utility = utility.slice(prefix.length);
+  }
+
+  return utility ? { variants: segments, important, negative, utility } : null;
+}
+
+function joinClassName(parts: ClassParts, prefix: string | undefined): string {
+  const v4Prefix = prefix ? [prefix.replace(/[-_:]+$/, '')] : [];
+  return [...v4Prefix, ...parts.variants, `${parts.negative ? '-' : ''}${parts.utility}${parts.important ? '!' : ''}`].join(':');
+}
+
+function isSpacingMultiple(key: string, value: string): boolean {
+  return /^\d+(\.\d+)?$/.test(key) && value === `${Number(key) * 0.25}rem`;
+}
+
+function escapeName(name: string): string {
+  return name.replace(/[./]/g, '\\$&');
+}
+
+function kebabCase(property: string): string {
+  return property.startsWith('--') ? property : property.replace(/[A-Z]/g, letter => `-${letter.toLowerCase()}`);
+}
+
+function truncate(text: string, maxLength = 60): string {
+  const singleLine = text.replace(/\s+/g, ' ');
+  return singleLine.length > maxLength ? `${singleLine.slice(0, maxLength - 1)}…` : singleLine;
+}
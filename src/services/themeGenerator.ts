@@ -0,0 +1,397 @@
+import { Color, Oklch, clampToSrgb, contrastRatio, formatOklch, fromOklch, inSrgbGamut, parseColor, toOklch } from '../utils/color.js';
+import { TailwindClassResolver } from './tailwindClasses.js';
+
+export type RadiusScale = 'none' | 'subtle' | 'default' | 'rounded' | 'extra-rounded';
+export type SpacingDensity = 'compact' | 'default' | 'comfortable';
+export type DarkModeStrategy = 'media' | 'class' | 'attribute';
+
+export interface ThemeOptions {
+  primary: string; // Any CSS color parseColor accepts
+  secondary?: string;
+  fonts?: { sans?: string; display?: string; mono?: string };
+  radius?: RadiusScale;
+  density?: SpacingDensity;
+  darkMode?: DarkModeStrategy;
+}
+
+export interface RampStep {
+  step: string; // `50` to `950`
+  color: Color;
+  input: boolean; // The brand color itself, kept exactly
+}
+
+export interface ColorRamp {
+  name: string; // `primary` or `secondary`
+  reference: string; // Default palette family whose lightness and chroma curve the ramp follows
+  steps: RampStep[];
+}
+
+export interface AliasValue {
+  source: string; // Palette color the value comes from, e.g. `primary-600` or `white`
+  color: Color;
+}
+
+export interface SemanticAlias {
+  name: string; // Color name without the namespace, e.g. `brand` for `--color-brand`
+  light: AliasValue;
+  dark: AliasValue;
+  purpose: string;
+}
+
+export interface GeneratedTheme {
+  css: string;
+  ramps: ColorRamp[];
+  neutral: string; // Default gray family the surface, text and border aliases use
+  aliases: SemanticAlias[];
+  notes: string[];
+}
+
+const STEPS = ['50', '100', '200', '300', '400', '500', '600', '700', '800', '900', '950'];
+
+// Multipliers for the default --radius-* scale
+const RADIUS_FACTORS: Record<RadiusScale, number> = { 'none': 0, 'subtle': 0.5, 'default': 1, 'rounded': 1.5, 'extra-rounded': 2 };
+
+// --spacing base unit: 3.5px, 4px and 4.5px at a 16px root
+const SPACING_UNITS: Record<SpacingDensity, string> = { compact: '0.21875rem', default: '0.25rem', comfortable: '0.28125rem' };
+
+const DARK_SELECTORS: Record<DarkModeStrategy, string> = { media: ':root', class: '.dark', attribute: '[data-theme=dark]' };
+
+// Status colors from the default palette, as in the semantic pattern of color-systems.md
+const STATUS_COLORS = [
+  { name: 'success', family: 'green', purpose: 'Confirmations and completed states' },
+  { name: 'warning', family: 'amber', purpose: 'Warnings that need attention' },
+  { name: 'error', family: 'red', purpose: 'Errors and destructive actions' },
+  { name: 'info', family: 'blue', purpose: 'Neutral information and tips' }
+];
+
+const GENERIC_FONT_FAMILIES = new Set(['serif', 'sans-serif', 'monospace', 'cursive', 'fantasy', 'system-ui', 'ui-serif', 'ui-sans-serif', 'ui-monospace', 'ui-rounded']);
+
+// Below this chroma a color reads as gray and follows a gray family's curve
+const ACHROMATIC_CHROMA = 0.03;
+
+/**
+ * Builds a Tailwind CSS v4 theme from brand inputs: 50-950 ramps shaped like the default
+ * palette, semantic aliases with dark-mode values, fonts, radius and spacing. Ramps borrow the
+ * lightness and chroma curve of the default family nearest in hue, so they sit alongside the
+ * built-in colors and the brand color lands on the step whose lightness it matches.
+ */
+export class TailwindThemeGenerator {
+  private readonly families = new Map<string, Oklch[]>();
+
+  constructor(private readonly resolver: TailwindClassResolver) {
+    const colors = new Map<string, Map<string, Oklch>>();
+    for (const key of resolver.themeKeys('color')) {
+      const match = /^([a-z]+)-(\d+)$/.exec(key);
+      const color = match && parseColor(resolver.themeValue(`--color-${key}`) ?? '');
+      if (match && color) {
+        colors.set(match[1], (colors.get(match[1]) ?? new Map()).set(match[2], toOklch(color)));
+      }
+    }
+    for (const [family, steps] of colors) {
+      if (STEPS.every(step => steps.has(step))) {
+        this.families.set(family, STEPS.map(step => steps.get(step)!));
+      }
+    }
+  }
+
+  /**
+   * Generates the theme
+   * @returns CSS to paste into the main stylesheet, with the ramps and aliases it declares
+   */
+  generate(options: ThemeOptions): GeneratedTheme {
+    const darkMode = options.darkMode ?? 'class';
+    const notes: string[] = [];
+
+    const ramps = [this.buildRamp('primary', this.readColor(options.primary))];
+    if (options.secondary) {
+      ramps.push(this.buildRamp('secondary', this.readColor(options.secondary)));
+    }
+    for (const ramp of ramps) {
+      const input = ramp.steps.find(step => step.input)!;
+      notes.push(`\`${ramp.name}\` follows the lightness and chroma curve of \`${ramp.reference}\`; your color is \`${ramp.name}-${input.step}\`.`);
+    }
+
+    const neutral = this.pickNeutral(toOklch(ramps[0].steps.find(step => step.input)!.color));
+    notes.push(`Surfaces, text and borders use \`${neutral}\`, the default gray closest to the primary hue.`);
+
+    const aliases = this.buildAliases(ramps, neutral, notes);
+    const fonts = this.buildFonts(options.fonts ?? {}, notes);
+    const radius = options.radius ?? 'default';
+    const density = options.density ?? 'default';
+
+    const theme: string[] = [];
+    for (const ramp of ramps) {
+      theme.push(...ramp.steps.map(step => `  --color-${ramp.name}-${step.step}: ${formatOklch(step.color)};`), '');
+    }
+    if (fonts.theme.length > 0) {
+      theme.push(...fonts.theme, '');
+    }
+    for (const key of this.resolver.themeKeys('radius')) {
+      theme.push(`  --radius-${key}: ${scaleLength(this.resolver.themeValue(`--radius-${key}`)!, RADIUS_FACTORS[radius])};`);
+    }
+    theme.push('', `  --spacing: ${SPACING_UNITS[density]};`);
+
+    const inline = [...aliases.map(alias => `  --color-${alias.name}: var(--${alias.name});`), ...fonts.inline];
+    const values = (mode: 'light' | 'dark') => aliases.map(alias => `  --${alias.name}: ${formatOklch(alias[mode].color)}; /* ${alias[mode].source} */`);
+
+    const css = ['@import "tailwindcss";', ''];
+    if (darkMode !== 'media') {
+      css.push(`@custom-variant dark (&:where(${DARK_SELECTORS[darkMode]}, ${DARK_SELECTORS[darkMode]} *));`, '');
+    }
+    css.push('@theme {', ...theme, '}', '', '@theme inline {', ...inline, '}', '');
+    css.push(':root {', '  color-scheme: light;', ...values('light'), '}', '');
+    if (darkMode === 'media') {
+      css.push('@media (prefers-color-scheme: dark) {', ...[':root {', '  color-scheme: dark;', ...values('dark'), '}'].map(line => `  ${line}`), '}');
+    } else {
+      css.push(`${DARK_SELECTORS[darkMode]} {`, '  color-scheme: dark;', ...values('dark'), '}');
+    }
+
+    if (radius === 'none') {
+      notes.push('Radius scale `none` sets every `--radius-*` to 0 for square corners; `rounded-full` still makes pills and circles.');
+    } else if (radius !== 'default') {
+      notes.push(`Radius scale \`${radius}\` multiplies the default \`--radius-*\` values by ${RADIUS_FACTORS[radius]}; \`rounded-full\` is unaffected.`);
+    }
+    if (density !== 'default') {
+      notes.push(`Spacing density \`${density}\` sets \`--spacing\` to ${SPACING_UNITS[density]}, which rescales every spacing, sizing and inset utility (\`p-4\`, \`gap-2\`, \`w-64\`...).`);
+    }
+    notes.push(darkMode === 'media'
+      ? 'Dark values follow the operating system setting (`prefers-color-scheme`).'
+      : darkMode === 'class'
+        ? 'Dark values apply under `.dark`, the class next-themes sets on `<html>` with `attribute="class"`.'
+        : 'Dark values apply under `[data-theme=dark]`, the attribute next-themes sets with `attribute="data-theme"`.');
+
+    return { css: css.join('\n'), ramps, neutral, aliases, notes };
+  }
+
+  /**
+   * Builds a 50-950 ramp around a color. Each step takes the reference family's lightness,
+   * shifted toward the input near its anchor step, its chroma scaled by the input's and its hue
+   * drift, so a blue ramp still turns slightly violet toward 950 the way Tailwind's does.
+   * @param name - Color name the ramp is declared under, e.g. `primary`
+   */
+  buildRamp(name: string, color: Color): ColorRamp {
+    const input = toOklch(color);
+    const reference = this.referenceFamily(input);
+    const curve = this.families.get(reference)!;
+    const anchor = nearestIndex(curve.map(step => step.l), input.l);
+    const chromaScale = Math.min(2, input.c / Math.max(curve[anchor].c, 0.01));
+    // Hex and rgb() brand colors get an sRGB ramp; wide-gamut inputs keep their gamut
+    const clamp = inSrgbGamut(color);
+
+    const lightness = curve.map((step, i) => {
+      const span = i < anchor ? anchor : curve.length - 1 - anchor;
+      const weight = span === 0 ? 1 : 1 - Math.abs(i - anchor) / span;
+      return Math.min(0.99, Math.max(0.1, step.l + (input.l - curve[anchor].l) * weight));
+    });
+    // Keep steps strictly darker from 50 to 950 when the input sits far from the reference
+    for (let i = anchor - 1; i >= 0; i--) {
+      lightness[i] = Math.max(lightness[i], Math.min(0.99, lightness[i + 1] + 0.01));
+    }
+    for (let i = anchor + 1; i < curve.length; i++) {
+      lightness[i] = Math.min(lightness[i], lightness[i - 1] - 0.01);
+    }
+
+    const steps = curve.map((step, i): RampStep => {
+      if (i === anchor) {
+        return { step: STEPS[i], color, input: true };
+      }
+      const h = (input.h + hueDelta(curve[anchor].h, step.h) + 360) % 360;
+      const generated = fromOklch({ l: lightness[i], c: step.c * chromaScale, h });
+      return { step: STEPS[i], color: clamp ? clampToSrgb(generated) : generated, input: false };
+    });
+    return { name, reference, steps };
+  }
+
+  private referenceFamily(input: Oklch): string {
+    const grays = [...this.families].filter(([, curve]) => isGray(curve));
+    const candidates = input.c < ACHROMATIC_CHROMA ? grays : [...this.families].filter(([, curve]) => !isGray(curve));
+    let best = candidates[0][0];
+    let bestScore = Infinity;
+    for (const [family, curve] of candidates) {
+      const step = curve[nearestIndex(curve.map(color => color.l), input.l)];
+      const score = input.c < ACHROMATIC_CHROMA
+        ? Math.hypot(step.c - input.c, (Math.abs(hueDelta(step.h, input.h)) / 180) * Math.min(step.c, input.c))
+        : Math.abs(hueDelta(step.h, input.h));
+      if (score < bestScore) {
+        best = family;
+        bestScore = score;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Picks the gray family for surfaces: the tinted gray nearest the primary hue, or the
+   * untinted one when the primary is itself gray or no tint is close
+   * @returns Family such as `slate`, `zinc` or `stone`
+   */
+  pickNeutral(primary: Oklch): string {
+    const grays = [...this.families].filter(([, curve]) => isGray(curve));
+    const untinted = grays.find(([, curve]) => curve[5].c < 0.005)?.[0] ?? grays[0][0];
+    if (primary.c < ACHROMATIC_CHROMA) {
+      return untinted;
+    }
+    let best = untinted;
+    let bestDelta = 45;
+    for (const [family, curve] of grays) {
+      const delta = Math.abs(hueDelta(curve[5].h, primary.h));
+      if (curve[5].c >= 0.005 && delta < bestDelta) {
+        best = family;
+        bestDelta = delta;
+      }
+    }
+    return best;
+  }
+
+  /**
+   * Moves a color around the hue wheel the way the default palette would, so a complement of
+   * blue-600 comes out with the lightness and chroma orange has at 600 rather than blue's
+   * @param degrees - Hue rotation, e.g. 180 for the complement
+   */
+  rotateHue(color: Color, degrees: number): Color {
+    const input = toOklch(color);
+    const h = (input.h + degrees + 360) % 360;
+    const from = this.families.get(this.referenceFamily(input))!;
+    const to = this.families.get(this.referenceFamily({ l: input.l, c: Math.max(input.c, ACHROMATIC_CHROMA), h }))!;
+    const step = nearestIndex(from.map(candidate => candidate.l), input.l);
+    const chromaScale = Math.min(2, input.c / Math.max(from[step].c, 0.01));
+    const rotated = fromOklch({ l: Math.min(0.99, Math.max(0.1, to[step].l + input.l - from[step].l)), c: to[step].c * chromaScale, h });
+    return inSrgbGamut(color) ? clampToSrgb(rotated) : rotated;
+  }
+
+  private readColor(text: string): Color {
+    const color = parseColor(text);
+    if (!color) {
+      throw new Error(`'${text}' is not a CSS color`);
+    }
+    return { ...color, alpha: 1 };
+  }
+
+  private buildAliases(ramps: ColorRamp[], neutral: string, notes: string[]): SemanticAlias[] {
+    const palette = (family: string, step: string): AliasValue => {
+      const color = parseColor(this.resolver.themeValue(`--color-${family}-${step}`) ?? '')!;
+      return { source: `${family}-${step}`, color };
+    };
+    const white = { source: 'white', color: parseColor('#ffffff')! };
+    const surface = { light: white, dark: palette(neutral, '950') };
+    const aliases: SemanticAlias[] = [];
+
+    const [primary, secondary] = ramps;
+    aliases.push(...this.rampAliases(primary, 'brand', 'Primary buttons, links and active states', surface, neutral, notes));
+    aliases.push({ name: 'brand-subtle', light: rampValue(primary, '50'), dark: rampValue(primary, '950'), purpose: 'Tinted backgrounds for badges, selected rows and callouts' });
+    if (secondary) {
+      aliases.push(...this.rampAliases(secondary, 'accent', 'Secondary actions and highlights', surface, neutral, notes));
+    }
+
+    aliases.push(
+      { name: 'surface', ...surface, purpose: 'Page background' },
+      { name: 'surface-muted', light: palette(neutral, '50'), dark: palette(neutral, '900'), purpose: 'Cards, sidebars and inset panels' },
+      { name: 'foreground', light: palette(neutral, '950'), dark: white, purpose: 'Body text and headings' },
+      { name: 'foreground-muted', light: palette(neutral, '500'), dark: palette(neutral, '400'), purpose: 'Secondary text, captions and placeholders' },
+      { name: 'border', light: palette(neutral, '200'), dark: palette(neutral, '800'), purpose: 'Dividers and input borders' },
+      { name: 'ring', light: aliases[0].light, dark: aliases[0].dark, purpose: 'Focus rings' }
+    );
+    for (const status of STATUS_COLORS) {
+      aliases.push({ name: status.name, light: palette(status.family, '600'), dark: palette(status.family, '400'), purpose: status.purpose });
+    }
+    return aliases;
+  }
+
+  /**
+   * Aliases for one ramp: the color itself in light mode, a lighter step in dark mode so it
+   * holds up on the dark surface, and a foreground for text placed on it
+   */
+  private rampAliases(ramp: ColorRamp, name: string, purpose: string, surface: { light: AliasValue; dark: AliasValue }, neutral: string, notes: string[]): SemanticAlias[] {
+    const anchor = ramp.steps.findIndex(step => step.input);
+    const light = rampValue(ramp, STEPS[anchor]);
+    // One step lighter on dark surfaces, and further for dark brand colors until it stands out
+    let darkStep = anchor >= 4 ? anchor - 1 : anchor;
+    while (darkStep > 3 && contrastRatio(ramp.steps[darkStep].color, surface.dark.color) < 3) {
+      darkStep--;
+    }
+    const dark = rampValue(ramp, STEPS[darkStep]);
+
+    const foreground = (background: AliasValue): AliasValue => {
+      const white = { source: 'white', color: parseColor('#ffffff')! };
+      const ink = { source: `${neutral}-950`, color: parseColor(this.resolver.themeValue(`--color-${neutral}-950`) ?? '')! };
+      return contrastRatio(white.color, background.color) >= 4.5 || contrastRatio(white.color, background.color) > contrastRatio(ink.color, background.color)
+        ? white
+        : ink;
+    };
+
+    for (const [mode, value] of [['light', light], ['dark', dark]] as const) {
+      const ratio = contrastRatio(value.color, surface[mode].color);
+      if (ratio < 3) {
+        const readable = ramp.steps.find(step => contrastRatio(step.color, surface[mode].color) >= 4.5 && (mode === 'light' ? STEPS.indexOf(step.step) > anchor : STEPS.indexOf(step.step) < anchor));
+        notes.push(`\`${name}\` (${value.source}) has ${ratio.toFixed(1)}:1 contrast against the ${mode} surface, below the 3:1 WCAG minimum for UI components; fine as a fill behind \`${name}-foreground\` text, but use ${readable ? `\`${ramp.name}-${readable.step}\`` : 'a darker step'} for ${name}-colored text and icons.`);
+      }
+    }
+
+    return [
+      { name, light, dark, purpose },
+      { name: `${name}-foreground`, light: foreground(light), dark: foreground(dark), purpose: `Text and icons on \`bg-${name}\`` }
+    ];
+  }
+
+  private buildFonts(fonts: NonNullable<ThemeOptions['fonts']>, notes: string[]): { theme: string[]; inline: string[] } {
+    const theme: string[] = [];
+    const inline: string[] = [];
+    const fallbacks: Record<string, string> = {
+      sans: this.resolver.themeValue('--font-sans')!,
+      display: this.resolver.themeValue('--font-sans')!,
+      mono: this.resolver.themeValue('--font-mono')!
+    };
+
+    for (const slot of ['sans', 'display', 'mono'] as const) {
+      const family = fonts[slot]?.trim();
+      if (!family) {
+        continue;
+      }
+      // next/font exposes its family on <html> or <body> as a variable; only an inline theme sees it
+      if (family.startsWith('var(')) {
+        inline.push(`  --font-${slot}: ${family}, ${fallbacks[slot]};`);
+      } else if (family.includes(',')) {
+        theme.push(`  --font-${slot}: ${family};`);
+      } else {
+        theme.push(`  --font-${slot}: ${GENERIC_FONT_FAMILIES.has(family) ? family : `"${family.replace(/^["']|["']$/g, '')}"`}, ${fallbacks[slot]};`);
+        const variable = `--font-${family.replace(/^["']|["']$/g, '').toLowerCase().replace(/[^a-z0-9]+/g, '-')}`;
+        notes.push(`To load ${family} with next/font, give it \`variable: '${variable}'\`, put the variable class on \`<html>\` and set \`--font-${slot}: var(${variable})\` in the \`@theme inline\` block instead.`);
+      }
+    }
+    if (fonts.display) {
+      notes.push('`--font-display` adds a `font-display` utility for headings.');
+    }
+    return { theme, inline };
+  }
+}
+
+function rampValue(ramp: ColorRamp, step: string): AliasValue {
+  return { source: `${ramp.name}-${step}`, color: ramp.steps.find(candidate => candidate.step === step)!.color };
+}
+
+function isGray(curve: Oklch[]): boolean {
+  return Math.max(...curve.map(step => step.c)) < 0.05;
+}
+
+function nearestIndex(values: number[], target: number): number {
+  let best = 0;
+  values.forEach((value, i) => {
+    if (Math.abs(value - target) < Math.abs(values[best] - target)) {
+      best = i;
+    }
+  });
+  return best;
+}
+
+function hueDelta(from: number, to: number): number {
+  return ((to - from + 540) % 360) - 180;
+}
+
+function scaleLength(value: string, factor: number): string {
+  if (factor === 0) {
+    return '0';
+  }
+  const match = /^(-?[\d.]+)(rem|px)$/.exec(value);
+  return match ? `${Number((parseFloat(match[1]) * factor).toFixed(4))}${match[2]}` : `calc(${value} * ${factor})`;
+}
+
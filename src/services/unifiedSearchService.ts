@@ -0,0 +1,198 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { ContentSourceType, ServerConfig } from '../types.js';
+import { SecureFileService } from './fileService.js';
+import { DocsIndexService } from './docsIndexService.js';
+import { IndexCacheService } from './indexCacheService.js';
+import { ParsedDocument, createSingleSectionDocument } from './docsParser.js';
+import { SearchHit, SearchIndex } from './searchIndex.js';
+
+export interface FetchReference {
+  tool: string;
+  arguments: Record<string, string>;
+}
+
+export interface UnifiedSearchHit extends SearchHit {
+  sourceType: ContentSourceType;
+  fetchWith: FetchReference;
+}
+
+interface ContentSource {
+  type: ContentSourceType;
+  document: ParsedDocument;
+  fetchWith: (hit: SearchHit) => FetchReference;
+}
+
+/**
+ * Searches every bundled content type through one BM25 index, so scores are comparable
+ * across docs, patterns, components and starter kits
+ */
+export class UnifiedSearchService {
+  // Synthetic documents are cached by content so unchanged files keep their identity
+  private syntheticDocuments = new Map<string, { content: string; document: ParsedDocument }>();
+  private cached?: { documents: ParsedDocument[]; index: Promise<SearchIndex>; sources: Map<ParsedDocument, ContentSource> };
+
+  constructor(
+    private readonly docsIndexService: DocsIndexService,
+    private readonly fileService: SecureFileService,
+    private readonly config: ServerConfig,
+    private readonly indexCache: IndexCacheService = new IndexCacheService(null)
+  ) {}
+
+  /**
+   * Ranks content from all sources against a query
+   * @param query - The search query
+   * @param limit - Maximum number of hits to return
+   * @param types - Optional subset of source types to include
+   * @param expansions - Alternative queries searched alongside the original, such as API aliases
+   * @returns Hits tagged with their source type and the tool call that fetches the full item
+   */
+  async search(query: string, limit: number, types?: ContentSourceType[], expansions: string[] = []): Promise<UnifiedSearchHit[]> {
+    const { index, sources } = await this.getIndex();
+    const allowed = types && types.length > 0 ? new Set(types) : null;
+
+    const hits = index.searchWithExpansions(query, expansions, limit, allowed
+      ? document => allowed.has(sources.get(document)!.type)
+      : undefined);
+
+    return hits.map(hit => {
+      const source = sources.get(hit.document)!;
+      return { ...hit, sourceType: source.type, fetchWith: source.fetchWith(hit) };
+    });
+  }
+
+  /**
+   * Suggests corrected queries for words unknown to every content source
+   * @param query - The search query
+   * @returns Corrected queries, best first
+   */
+  async suggest(query: string): Promise<string[]> {
+    const { index } = await this.getIndex();
+    return index.suggest(query);
+  }
+
+  /**
+   * Loads the unified index ahead of the first search
+   */
+  async preload(): Promise<void> {
+    await this.getIndex();
+  }
+
+  private async getIndex() {
+    const sources = await this.loadSources();
+    const documents = sources.map(source => source.document);
+
+    // The pending index is cached too, so searches during a preload wait for it instead of building another
+    if (!this.cached ||
+        this.cached.documents.length !== documents.length ||
+        this.cached.documents.some((document, i) => document !== documents[i])) {
+      this.cached = {
+        documents,
+        index: this.indexCache.getOrBuild('unified', documents),
+        sources: new Map(sources.map(source => [source.document, source]))
+      };
+    }
+    return { index: await this.cached.index, sources: this.cached.sources };
+  }
+
+  private async loadSources(): Promise<ContentSource[]> {
+    const sources: ContentSource[] = [];
+    const sectionReference = (corpus: string) => (hit: SearchHit): FetchReference => ({
+      tool: 'get_docs_section',
+      arguments: { corpus, path: hit.section.path.join(' > ') }
+    });
+
+    sources.push({
+      type: 'nextjs-docs',
+      document: await this.docsIndexService.getDocument(this.config.nextjsDocsPath),
+      fetchWith: sectionReference('nextjs')
+    });
+    sources.push({
+      type: 'tailwind-docs',
+      document: await this.docsIndexService.getDocument(this.config.tailwindDocsPath),
+      fetchWith: sectionReference('tailwind')
+    });
+
+    for (const file of await listFiles(this.config.libraryDocsPath, '.txt')) {
+      sources.push({
+        type: 'library-docs',
+        document: await this.docsIndexService.getDocument(path.join(this.config.libraryDocsPath, file)),
+        fetchWith: sectionReference(file.replace(/\.txt$/, ''))
+      });
+    }
+
+    for (const category of ['layouts', 'pages', 'features']) {
+      const categoryPath = path.join(this.config.patternsPath, category);
+      for (const file of await listFiles(categoryPath, '.md')) {
+        const patternName = file.replace(/\.md$/, '');
+        sources.push({
+          type: 'pattern',
+          document: await this.docsIndexService.getDocument(path.join(categoryPath, file)),
+          fetchWith: () => ({ tool: 'get_pattern', arguments: { category, pattern_name: patternName } })
+        });
+      }
+    }
+
+    for (const file of await listFiles(this.config.catalystComponentsPath, '.tsx')) {
+      const componentName = file.replace(/\.tsx$/, '');
+      const filePath = path.join(this.config.catalystComponentsPath, file);
+      const content = await this.fileService.readFullDocsFile(filePath);
+      sources.push({
+        type: 'catalyst-component',
+        document: this.getSyntheticDocument(filePath, content, () =>
+          createSingleSectionDocument(content, file, `Catalyst ${componentName}`)),
+        fetchWith: () => ({ tool: 'get_catalyst_component', arguments: { component_name: componentName } })
+      });
+    }
+
+    const templates = await this.fileService.readFullDocsFile(this.config.templatesPath);
+    const kits: any[] = JSON.parse(templates).starterKits ?? [];
+    for (const kit of kits) {
+      const text = collectStrings(kit).join('\n');
+      sources.push({
+        type: 'starter-kit',
+        document: this.getSyntheticDocument(`starter-kit:${kit.id}`, text, () =>
+          createSingleSectionDocument(text, 'starter-kits.json', kit.name)),
+        fetchWith: () => ({ tool: 'get_starter_kit', arguments: { id: kit.id } })
+      });
+    }
+
+    return sources;
+  }
+
+  private getSyntheticDocument(key: string, content: string, build: () => ParsedDocument): ParsedDocument {
+    const existing = this.syntheticDocuments.get(key);
+    if (existing && existing.content === content) {
+      return existing.document;
+    }
+    const document = build();
+    this.syntheticDocuments.set(key, { content, document });
+    return document;
+  }
+}
+
+async function listFiles(dirPath: string, extension: string): Promise<string[]> {
+  try {
+    const files = await fs.readdir(dirPath);
+    return files.filter(file => file.endsWith(extension)).sort();
+  } catch {
+    // A missing content directory simply contributes no results
+    return [];
+  }
+}
+
+/**
+ * Flattens every string value of a JSON structure into a list, in document order
+ */
+function collectStrings(value: unknown): string[] {
+  if (typeof value === 'string') {
+    return [value];
+  }
+  if (Array.isArray(value)) {
+    return value.flatMap(collectStrings);
+  }
+  if (value && typeof value === 'object') {
+    return Object.values(value).flatMap(collectStrings);
+  }
+  return [];
+}
@@ -2,6 +2,27 @@
 
 import { TextContent } from "@modelcontextprotocol/sdk/types.js";
 
+// Values shared by the services and input validation; kept here so utils never import services
+export const CONTENT_SOURCE_TYPES = [
+  'nextjs-docs',
+  'tailwind-docs',
+  'library-docs',
+  'pattern',
+  'catalyst-component',
+  'starter-kit'
+] as const;
+
+export type ContentSourceType = typeof CONTENT_SOURCE_TYPES[number];
+
+export const INDUSTRY_NAMES = ['finance', 'healthcare', 'ecommerce', 'technology', 'creative', 'education', 'food', 'real-estate'] as const;
+export type Industry = typeof INDUSTRY_NAMES[number];
+
+export const COLOR_MOODS = ['trustworthy', 'calm', 'energetic', 'luxurious', 'playful', 'minimal', 'natural'] as const;
+export type ColorMood = typeof COLOR_MOODS[number];
+
+export const RADIUS_STEPS = ['none', 'xs', 'sm', 'md', 'lg', 'xl', '2xl', '3xl', '4xl'] as const;
+export type RadiusStep = typeof RADIUS_STEPS[number];
+
 // Type definitions for better type safety
 export interface ToolRequest {
   params: {
@@ -14,13 +35,31 @@ export interface ContentResponse {
   content: TextContent[];
 }
 
+export interface FullDocsArgs {
+  cursor?: string;
+  maxTokens?: number;
+  version?: string;
+}
+
+export type SearchFormat = 'markdown' | 'json';
+
 export interface SearchDocsArgs {
   query: string;
   limit?: number;
+  format?: SearchFormat;
+  version?: string;
+}
+
+export interface SearchAllArgs {
+  query: string;
+  limit?: number;
+  sources?: string[];
+  format?: SearchFormat;
 }
 
 export interface CatalystComponentArgs {
   component_name: string;
+  include_dependencies?: boolean;
 }
 
 export interface PatternArgs {
@@ -74,4 +113,109 @@ export interface ServerConfig {
   maxFileSize: number;
   largeFileSize: number; // For large documentation files (5MB)
   cacheTimeout: number;
+  indexCachePath: string | null; // Directory for persisted search indexes; null disables persistence
+  nextjsDocsVersion: string; // Version served when a tool call does not ask for one
+  tailwindDocsVersion: string;
+}
+
+export interface DocSection {
+  id: number;
+  title: string;
+  level: number; // 0 for page/file nodes, 1-6 for Markdown headings
+  path: string[]; // Breadcrumb from the root section down to this one
+  sourceFile: string; // Source URL (Next.js), packed file path (Tailwind) or docs file name
+  description?: string;
+  startLine: number; // 1-based, inclusive
+  endLine: number; // End of this section including nested headings
+  contentEndLine: number; // End of this section's own text, before its first child
+  children: DocSection[];
+}
+
+export interface DocsSectionArgs {
+  corpus: string;
+  path: string;
+}
+
+export interface DocsOutlineArgs {
+  corpus: string;
+  path?: string;
+  maxDepth?: number;
+}
+
+export interface DiffDocsVersionsArgs {
+  framework: 'nextjs' | 'tailwind';
+  from: string;
+  to?: string;
+  path?: string;
+  topic?: string;
+}
+
+export interface MigrateTailwindConfigArgs {
+  config?: string;
+  css?: string;
+  source?: string;
+}
+
+export interface MigratePagesRouterArgs {
+  source: string;
+  path?: string;
+}
+
+export interface LookupTailwindClassArgs {
+  classes: string;
+}
+
+export interface LintTailwindClassesArgs {
+  classes?: string;
+  source?: string;
+}
+
+export interface CssToTailwindArgs {
+  css: string;
+}
+
+export interface GenerateTailwindThemeArgs {
+  primary: string;
+  secondary?: string;
+  fontSans?: string;
+  fontDisplay?: string;
+  fontMono?: string;
+  radius?: 'none' | 'subtle' | 'default' | 'rounded' | 'extra-rounded';
+  density?: 'compact' | 'default' | 'comfortable';
+  darkMode?: 'media' | 'class' | 'attribute';
+}
+
+export interface GetColorDesignGuidanceArgs {
+  industry?: Industry;
+  mood?: ColorMood;
+  baseColor?: string;
+  mode?: 'light' | 'dark';
+}
+
+export interface CheckContrastArgs {
+  pairs: Array<{ foreground: string; background: string }>;
+  level?: 'AA' | 'AAA';
+  backdrop?: string;
+}
+
+export interface InstallCatalystComponentsArgs {
+  components: string[];
+  project_path: string;
+  target_dir?: string;
+  dry_run?: boolean;
+  overwrite?: boolean;
+}
+
+export interface ThemeCatalystComponentArgs {
+  component_name: string;
+  palette?: Record<string, string>;
+  radius?: RadiusStep;
+  preserve_variants?: boolean;
+}
+
+export interface FindCodeExamplesArgs {
+  query: string;
+  language?: string;
+  corpus?: string;
+  limit?: number;
 }
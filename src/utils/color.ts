@@ -0,0 +1,277 @@
+/**
+ * Color parsing and conversion in the OKLab space Tailwind CSS v4 builds its palette in.
+ * Colors are held as OKLab so distances match perceived differences; sRGB is only used
+ * to read and write hex, rgb() and hsl() values.
+ */
+
+export interface Color {
+  l: number; // Lightness, 0-1
+  a: number;
+  b: number;
+  alpha: number; // 0-1
+}
+
+export interface Oklch {
+  l: number; // Lightness, 0-1
+  c: number; // Chroma, 0 to about 0.37 inside sRGB
+  h: number; // Hue in degrees; 0 for achromatic colors
+}
+
+// Distance in OKLab below which two colors are hard to tell apart
+export const JUST_NOTICEABLE_DIFFERENCE = 0.02;
+
+const NAMED_COLORS: Record<string, string> = {
+  black: '#000000', white: '#ffffff', red: '#ff0000', green: '#008000', blue: '#0000ff', yellow: '#ffff00',
+  orange: '#ffa500', purple: '#800080', gray: '#808080', grey: '#808080', silver: '#c0c0c0', maroon: '#800000',
+  navy: '#000080', teal: '#008080', olive: '#808000', lime: '#00ff00', aqua: '#00ffff', cyan: '#00ffff',
+  fuchsia: '#ff00ff', magenta: '#ff00ff', transparent: '#00000000'
+};
+
+const FUNCTION_PATTERN = /^(rgba?|hsla?|oklch|oklab)\(\s*(.+?)\s*\)$/i;
+
+/**
+ * Parses a CSS color value
+ * @param text - Hex (`#3b82f6`, `#fff8`), `rgb()`, `hsl()`, `oklch()`, `oklab()` or a basic named color
+ * @returns The color, or undefined for anything else (variables, gradients, `currentColor`)
+ */
+export function parseColor(text: string): Color | undefined {
+  const value = text.trim().toLowerCase();
+  if (NAMED_COLORS[value]) {
+    return parseColor(NAMED_COLORS[value]);
+  }
+
+  const hex = /^#([0-9a-f]{3,4}|[0-9a-f]{6}|[0-9a-f]{8})$/.exec(value);
+  if (hex) {
+    const digits = hex[1].length <= 4 ? [...hex[1]].map(digit => digit + digit).join('') : hex[1];
+    const channel = (i: number) => parseInt(digits.slice(i * 2, i * 2 + 2), 16) / 255;
+    return fromSrgb(channel(0), channel(1), channel(2), digits.length === 8 ? channel(3) : 1);
+  }
+
+  const fn = FUNCTION_PATTERN.exec(value);
+  if (!fn) {
+    return undefined;
+  }
+  const [channels, alphaText] = splitChannels(fn[2]);
+  if (channels.length !== 3 || channels.some(channel => !/^-?(?:\d+\.?\d*|\.\d+)(?:%|deg)?$|^none$/.test(channel))) {
+    return undefined;
+  }
+  const alpha = alphaText === undefined ? 1 : readNumber(alphaText, 1);
+  const [x, y, z] = channels;
+
+  switch (fn[1]) {
+    case 'rgb':
+    case 'rgba':
+      return fromSrgb(readNumber(x, 255) / 255, readNumber(y, 255) / 255, readNumber(z, 255) / 255, alpha);
+    case 'hsl':
+    case 'hsla': {
+      const [r, g, b] = hslToSrgb(readNumber(x, 360), readNumber(y, 100) / 100, readNumber(z, 100) / 100);
+      return fromSrgb(r, g, b, alpha);
+    }
+    case 'oklch':
+      return fromOklch({ l: readNumber(x, 1), c: readNumber(y, 0.4), h: readNumber(z, 360) }, alpha);
+    default:
+      return { l: readNumber(x, 1), a: readNumber(y, 0.4), b: readNumber(z, 0.4), alpha };
+  }
+}
+
+/**
+ * Builds a color from sRGB channels
+ * @param r - Red, 0-1
+ * @param g - Green, 0-1
+ * @param b - Blue, 0-1
+ * @param alpha - Opacity, 0-1
+ */
+export function fromSrgb(r: number, g: number, b: number, alpha = 1): Color {
+  const [lr, lg, lb] = [r, g, b].map(toLinear);
+  const l = Math.cbrt(0.4122214708 * lr + 0.5363325363 * lg + 0.0514459929 * lb);
+  const m = Math.cbrt(0.2119034982 * lr + 0.6806995451 * lg + 0.1073969566 * lb);
+  const s = Math.cbrt(0.0883024619 * lr + 0.2817188376 * lg + 0.6299787005 * lb);
+  return {
+    l: 0.2104542553 * l + 0.793617785 * m - 0.0040720468 * s,
+    a: 1.9779984951 * l - 2.428592205 * m + 0.4505937099 * s,
+    b: 0.0259040371 * l + 0.7827717662 * m - 0.808675766 * s,
+    alpha
+  };
+}
+
+/**
+ * Converts a color to sRGB channels; values outside 0-1 mean the color is out of gamut
+ * @returns Red, green and blue, 0-1
+ */
+export function toSrgb(color: Color): [number, number, number] {
+  const l = (color.l + 0.3963377774 * color.a + 0.2158037573 * color.b) ** 3;
+  const m = (color.l - 0.1055613458 * color.a - 0.0638541728 * color.b) ** 3;
+  const s = (color.l - 0.0894841775 * color.a - 1.291485548 * color.b) ** 3;
+  return [
+    4.0767416621 * l - 3.3077115913 * m + 0.2309699292 * s,
+    -1.2684380046 * l + 2.6097574011 * m - 0.3413193965 * s,
+    -0.0041960863 * l - 0.7034186147 * m + 1.707614701 * s
+  ].map(fromLinear) as [number, number, number];
+}
+
+/**
+ * Builds a color from OKLCH coordinates
+ */
+export function fromOklch({ l, c, h }: Oklch, alpha = 1): Color {
+  const radians = (h * Math.PI) / 180;
+  return { l, a: c * Math.cos(radians), b: c * Math.sin(radians), alpha };
+}
+
+/**
+ * Converts a color to OKLCH coordinates
+ */
+export function toOklch(color: Color): Oklch {
+  const c = Math.hypot(color.a, color.b);
+  const h = c < 1e-4 ? 0 : ((Math.atan2(color.b, color.a) * 180) / Math.PI + 360) % 360;
+  return { l: color.l, c, h };
+}
+
+/**
+ * Checks whether a color can be shown on an sRGB display without clipping
+ */
+export function inSrgbGamut(color: Color): boolean {
+  return toSrgb(color).every(channel => channel >= -1e-4 && channel <= 1 + 1e-4);
+}
+
+/**
+ * Reduces a color's chroma until it fits sRGB, keeping its lightness and hue
+ */
+export function clampToSrgb(color: Color): Color {
+  if (inSrgbGamut(color)) {
+    return color;
+  }
+  const lch = toOklch(color);
+  let low = 0;
+  let high = lch.c;
+  while (high - low > 1e-4) {
+    const mid = (low + high) / 2;
+    if (inSrgbGamut(fromOklch({ ...lch, c: mid }))) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return fromOklch({ ...lch, c: low }, color.alpha);
+}
+
+/**
+ * Perceptual distance between two colors (Euclidean distance in OKLab, ignoring alpha)
+ * @returns 0 for identical colors; JUST_NOTICEABLE_DIFFERENCE is about where a difference shows
+ */
+export function colorDistance(x: Color, y: Color): number {
+  return Math.hypot(x.l - y.l, x.a - y.a, x.b - y.b);
+}
+
+/**
+ * Formats a color as hex, clipping it to sRGB first
+ * @returns `#rrggbb`, or `#rrggbbaa` when the color is translucent
+ */
+export function formatHex(color: Color): string {
+  const channels = toSrgb(clampToSrgb(color));
+  if (color.alpha < 1) {
+    channels.push(color.alpha);
+  }
+  return `#${channels.map(channel => Math.round(Math.min(1, Math.max(0, channel)) * 255).toString(16).padStart(2, '0')).join('')}`;
+}
+
+/**
+ * Formats a color the way the Tailwind CSS v4 theme writes its palette
+ * @returns A value such as `oklch(62.3% 0.214 259.815)` or `oklch(62.3% 0.214 259.815 / 50%)`
+ */
+export function formatOklch(color: Color): string {
+  const { l, c, h } = toOklch(color);
+  const round = (value: number, digits: number) => Number(value.toFixed(digits));
+  const alpha = color.alpha < 1 ? ` / ${round(color.alpha * 100, 1)}%` : '';
+  return `oklch(${round(l * 100, 1)}% ${round(c, 3)} ${round(h, 3)}${alpha})`;
+}
+
+/**
+ * WCAG 2 relative luminance of a color, clipped to sRGB and composited on nothing
+ * @returns 0 for black to 1 for white
+ */
+export function relativeLuminance(color: Color): number {
+  const [r, g, b] = toSrgb(clampToSrgb(color)).map(channel => toLinear(Math.min(1, Math.max(0, channel))));
+  return 0.2126 * r + 0.7152 * g + 0.0722 * b;
+}
+
+/**
+ * WCAG 2 contrast ratio between two opaque colors
+ * @returns 1 to 21; 4.5 is the AA minimum for body text
+ */
+export function contrastRatio(x: Color, y: Color): number {
+  const [light, dark] = [relativeLuminance(x), relativeLuminance(y)].sort((a, b) => b - a);
+  return (light + 0.05) / (dark + 0.05);
+}
+
+/**
+ * Composites a translucent color over an opaque one, blending in sRGB the way browsers do
+ * @returns An opaque color
+ */
+export function blend(top: Color, bottom: Color): Color {
+  if (top.alpha >= 1) {
+    return top;
+  }
+  const [tr, tg, tb] = toSrgb(clampToSrgb(top));
+  const [br, bg, bb] = toSrgb(clampToSrgb(bottom));
+  const mix = (a: number, b: number) => a * top.alpha + b * (1 - top.alpha);
+  return fromSrgb(mix(tr, br), mix(tg, bg), mix(tb, bb));
+}
+
+/**
+ * APCA lightness contrast (APCA-W3 0.0.98G-4g) of text on a background, both opaque
+ * @returns Lc from about -108 to 106; positive for dark text on a light background, negative for light on dark
+ */
+export function apcaContrast(text: Color, background: Color): number {
+  const luminance = (color: Color) => {
+    const [r, g, b] = toSrgb(clampToSrgb(color)).map(channel => Math.min(1, Math.max(0, channel)) ** 2.4);
+    const y = 0.2126729 * r + 0.7151522 * g + 0.072175 * b;
+    // Soft clamp near black, where screens flare
+    return y > 0.022 ? y : y + (0.022 - y) ** 1.414;
+  };
+  const textY = luminance(text);
+  const backgroundY = luminance(background);
+  if (Math.abs(backgroundY - textY) < 0.0005) {
+    return 0;
+  }
+  if (backgroundY > textY) {
+    const sapc = (backgroundY ** 0.56 - textY ** 0.57) * 1.14;
+    return sapc < 0.1 ? 0 : (sapc - 0.027) * 100;
+  }
+  const sapc = (backgroundY ** 0.65 - textY ** 0.62) * 1.14;
+  return sapc > -0.1 ? 0 : (sapc + 0.027) * 100;
+}
+
+function splitChannels(text: string): [string[], string | undefined] {
+  const [channels, alpha] = text.split('/').map(part => part.trim());
+  const parts = channels.includes(',') ? channels.split(',').map(part => part.trim()) : channels.split(/\s+/);
+  // Legacy comma syntax carries alpha as a fourth argument: rgba(0, 0, 0, 0.5)
+  if (alpha === undefined && parts.length === 4) {
+    return [parts.slice(0, 3), parts[3]];
+  }
+  return [parts, alpha];
+}
+
+function readNumber(text: string, percentScale: number): number {
+  if (text === 'none') {
+    return 0;
+  }
+  const number = parseFloat(text);
+  return text.endsWith('%') ? (number / 100) * percentScale : number;
+}
+
+function hslToSrgb(h: number, s: number, l: number): [number, number, number] {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, 9 - k(n), 1));
+  return [f(0), f(8), f(4)];
+}
+
+function toLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  return abs <= 0.04045 ? channel / 12.92 : Math.sign(channel) * ((abs + 0.055) / 1.055) ** 2.4;
+}
+
+function fromLinear(channel: number): number {
+  const abs = Math.abs(channel);
+  return abs <= 0.0031308 ? channel * 12.92 : Math.sign(channel) * (1.055 * abs ** (1 / 2.4) - 0.055);
+}
@@ -0,0 +1,393 @@
+/**
+ * Reads JavaScript object and array literals without evaluating any code, for config files
+ * such as tailwind.config.js. Values that are not plain literals (references, function calls,
+ * arrow functions, spreads, template strings with interpolation) are kept as expressions
+ * holding their source text, so callers can translate the ones they recognize.
+ */
+
+export type JsValue = string | number | boolean | null | JsValue[] | JsObject | JsExpression;
+
+export interface JsObject {
+  [key: string]: JsValue;
+}
+
+const REFERENCE_PATTERN = /^[A-Za-z_$][\w$]*(?:\s*(?:\.\s*[A-Za-z_$][\w$]*|\[\s*(?:\d+|'[^']*'|"[^"]*")\s*\]))*$/;
+const CALL_PATTERN = /^([A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)*)\s*\(/;
+const NUMBER_PATTERN = /^-?(?:\d+\.?\d*|\.\d+)(?:e[+-]?\d+)?/i;
+const IDENTIFIER_PATTERN = /^[A-Za-z_$][\w$]*/;
+
+/**
+ * Source text of a value that is not a plain literal
+ */
+export class JsExpression {
+  /** Dotted path for plain references such as `colors.zinc` or `defaultTheme.fontFamily.sans` */
+  readonly reference?: string;
+  /** Callee and parsed arguments for calls such as `require('@tailwindcss/forms')` */
+  readonly call?: { callee: string; args: JsValue[] };
+
+  constructor(readonly source: string, readonly spread = false) {
+    if (REFERENCE_PATTERN.test(source)) {
+      this.reference = source
+        .replace(/\s+/g, '')
+        .replace(/\[(\d+)\]/g, '.$1')
+        .replace(/\[['"]([^'"]*)['"]\]/g, '.$1');
+      return;
+    }
+
+    // Only a call spanning the whole expression counts, so `plugin(fn).handler` stays opaque
+    const call = CALL_PATTERN.exec(source);
+    if (call && source.endsWith(')')) {
+      const parser = new LiteralParser(source, call[0].length);
+      const args = parser.parseArguments();
+      if (args && parser.atEnd()) {
+        this.call = { callee: call[1].replace(/\s+/g, ''), args };
+      }
+    }
+  }
+}
+
+/**
+ * Checks whether a parsed value is a plain object literal
+ */
+export function isJsObject(value: JsValue | undefined): value is JsObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value) && !(value instanceof JsExpression);
+}
+
+/**
+ * Parses a single literal value from source text
+ * @param source - Source starting with the value, e.g. `{ darkMode: 'class' }`; trailing text is ignored
+ * @returns The parsed value
+ */
+export function parseJsLiteral(source: string): JsValue {
+  return new LiteralParser(source, 0).parseValue(false);
+}
+
+/**
+ * Finds and parses the default export of a module, following `export default config`
+ * to the variable declaration and unwrapping helpers such as `defineConfig({...})`
+ * @param source - Module source text
+ * @returns The exported value and the wrapper function it was passed through, or null when there is no default export
+ */
+export function parseDefaultExport(source: string): { value: JsValue; wrapper?: string } | null {
+  const exportMatch = /(?:module\.exports\s*=|export\s+default\s+)/.exec(source);
+  if (!exportMatch) {
+    return null;
+  }
+
+  let value = parseJsLiteral(source.slice(exportMatch.index + exportMatch[0].length));
+
+  if (value instanceof JsExpression && value.reference && !value.reference.includes('.')) {
+    const declaration = new RegExp(`(?:const|let|var)\\s+${value.reference}\\s*(?::[^=]+)?=`).exec(source);
+    if (declaration) {
+      value = parseJsLiteral(source.slice(declaration.index + declaration[0].length));
+    }
+  }
+
+  if (value instanceof JsExpression && value.call && isJsObject(value.call.args[0])) {
+    return { value: value.call.args[0], wrapper: value.call.callee };
+  }
+  return { value };
+}
+
+/**
+ * Finds the bracket closing the one at `open`, skipping strings, template literals and comments
+ * @param source - Source text
+ * @param open - Index of an opening `{`, `[` or `(`
+ * @returns Index of the matching closing bracket, or -1 when it is unbalanced
+ */
+export function findClosingBracket(source: string, open: number): number {
+  const parser = new LiteralParser(source, open + 1);
+  const close = parser.skipToClosingBracket();
+  return close < source.length ? close : -1;
+}
+
+class LiteralParser {
+  constructor(private readonly source: string, private pos: number) {}
+
+  atEnd(): boolean {
+    this.skipTrivia();
+    return this.pos >= this.source.length;
+  }
+
+  /**
+   * Parses a value; nested values that turn out to be part of a larger expression
+   * (`'a' + b`, `{...} as Config`) are re-read as expressions
+   */
+  parseValue(nested = true): JsValue {
+    this.skipTrivia();
+    const start = this.pos;
+    const value = this.parseLiteral();
+
+    if (value !== undefined) {
+      this.skipTrivia();
+      if (!nested || this.atTerminator()) {
+        return value;
+      }
+    }
+
+    this.pos = start;
+    this.skipExpression();
+    return new JsExpression(this.source.slice(start, this.pos).trim());
+  }
+
+  parseArguments(): JsValue[] | null {
+    const args: JsValue[] = [];
+    this.skipTrivia();
+    while (this.source[this.pos] !== ')') {
+      if (this.pos >= this.source.length) {
+        return null;
+      }
+      args.push(this.parseValue());
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+        this.skipTrivia();
+      } else if (this.source[this.pos] !== ')') {
+        return null;
+      }
+    }
+    this.pos++;
+    return args;
+  }
+
+  private parseLiteral(): JsValue | undefined {
+    const char = this.source[this.pos];
+    if (char === '{') {
+      return this.parseObject();
+    }
+    if (char === '[') {
+      return this.parseArray();
+    }
+    if (char === '"' || char === "'") {
+      return this.parseString();
+    }
+    if (char === '`') {
+      const start = this.pos;
+      this.skipTemplate();
+      const raw = this.source.slice(start + 1, this.pos - 1);
+      return raw.includes('${') ? undefined : unescape(raw);
+    }
+
+    const rest = this.source.slice(this.pos);
+    const number = NUMBER_PATTERN.exec(rest);
+    if (number) {
+      this.pos += number[0].length;
+      return Number(number[0]);
+    }
+    const identifier = IDENTIFIER_PATTERN.exec(rest)?.[0];
+    const keywords: Record<string, JsValue> = { true: true, false: false, null: null };
+    if (identifier && identifier in keywords) {
+      this.pos += identifier.length;
+      return keywords[identifier];
+    }
+    return undefined;
+  }
+
+  private parseObject(): JsObject | undefined {
+    const object: JsObject = {};
+    this.pos++;
+
+    for (;;) {
+      this.skipTrivia();
+      const char = this.source[this.pos];
+      if (char === '}') {
+        this.pos++;
+        return object;
+      }
+      if (char === undefined) {
+        return undefined;
+      }
+
+      if (this.source.startsWith('...', this.pos)) {
+        const start = this.pos;
+        this.pos += 3;
+        this.skipExpression();
+        const source = this.source.slice(start + 3, this.pos).trim();
+        object[`...${source}`] = new JsExpression(source, true);
+      } else {
+        const keyStart = this.pos;
+        const key = this.parseKey();
+        if (key === undefined) {
+          return undefined;
+        }
+        this.skipTrivia();
+
+        if (this.source[this.pos] === ':') {
+          this.pos++;
+          object[key] = this.parseValue();
+        } else if (this.source[this.pos] === '(') {
+          // Method shorthand: keep the whole method as source
+          this.skipExpression();
+          object[key] = new JsExpression(this.source.slice(keyStart, this.pos).trim());
+        } else {
+          object[key] = new JsExpression(key);
+        }
+      }
+
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== '}') {
+        return undefined;
+      }
+    }
+  }
+
+  private parseKey(): string | undefined {
+    const char = this.source[this.pos];
+    if (char === '"' || char === "'") {
+      return this.parseString();
+    }
+    if (char === '[') {
+      const start = this.pos;
+      this.pos++;
+      this.skipExpression();
+      this.pos++;
+      return this.source.slice(start, this.pos);
+    }
+    const key = /^(?:[\w$]+|\d+(?:\.\d+)?)/.exec(this.source.slice(this.pos))?.[0];
+    if (key) {
+      this.pos += key.length;
+    }
+    return key;
+  }
+
+  private parseArray(): JsValue[] | undefined {
+    const array: JsValue[] = [];
+    this.pos++;
+
+    for (;;) {
+      this.skipTrivia();
+      const char = this.source[this.pos];
+      if (char === ']') {
+        this.pos++;
+        return array;
+      }
+      if (char === undefined) {
+        return undefined;
+      }
+
+      if (this.source.startsWith('...', this.pos)) {
+        const start = this.pos + 3;
+        this.pos = start;
+        this.skipExpression();
+        array.push(new JsExpression(this.source.slice(start, this.pos).trim(), true));
+      } else {
+        array.push(this.parseValue());
+      }
+
+      this.skipTrivia();
+      if (this.source[this.pos] === ',') {
+        this.pos++;
+      } else if (this.source[this.pos] !== ']') {
+        return undefined;
+      }
+    }
+  }
+
+  private parseString(): string {
+    const start = this.pos;
+    this.skipString();
+    return unescape(this.source.slice(start + 1, this.pos - 1));
+  }
+
+  private atTerminator(): boolean {
+    const char = this.source[this.pos];
+    return char === undefined || char === ',' || char === '}' || char === ']' || char === ')' || char === ';';
+  }
+
+  skipToClosingBracket(): number {
+    this.skipExpression(false);
+    return this.pos;
+  }
+
+  /**
+   * Advances past an arbitrary expression, stopping at a closing bracket at depth 0
+   * and, unless disabled, at a comma or semicolon at depth 0
+   */
+  private skipExpression(stopAtSeparators = true): void {
+    let depth = 0;
+    while (this.pos < this.source.length) {
+      const char = this.source[this.pos];
+      if (this.skipComment()) {
+        continue;
+      }
+      if (char === '"' || char === "'") {
+        this.skipString();
+        continue;
+      }
+      if (char === '`') {
+        this.skipTemplate();
+        continue;
+      }
+      if (char === '{' || char === '[' || char === '(') {
+        depth++;
+      } else if (char === '}' || char === ']' || char === ')') {
+        if (depth === 0) {
+          return;
+        }
+        depth--;
+      } else if (stopAtSeparators && (char === ',' || char === ';') && depth === 0) {
+        return;
+      }
+      this.pos++;
+    }
+  }
+
+  private skipString(): void {
+    const quote = this.source[this.pos++];
+    while (this.pos < this.source.length && this.source[this.pos] !== quote && this.source[this.pos] !== '\n') {
+      this.pos += this.source[this.pos] === '\\' ? 2 : 1;
+    }
+    this.pos++;
+  }
+
+  private skipTemplate(): void {
+    this.pos++;
+    while (this.pos < this.source.length && this.source[this.pos] !== '`') {
+      if (this.source[this.pos] === '\\') {
+        this.pos += 2;
+      } else if (this.source.startsWith('${', this.pos)) {
+        this.pos += 2;
+        this.skipExpression();
+        this.pos++;
+      } else {
+        this.pos++;
+      }
+    }
+    this.pos++;
+  }
+
+  private skipComment(): boolean {
+    if (this.source.startsWith('//', this.pos)) {
+      const end = this.source.indexOf('\n', this.pos);
+      this.pos = end === -1 ? this.source.length : end + 1;
+      return true;
+    }
+    if (this.source.startsWith('/*', this.pos)) {
+      const end = this.source.indexOf('*/', this.pos + 2);
+      this.pos = end === -1 ? this.source.length : end + 2;
+      return true;
+    }
+    return false;
+  }
+
+  private skipTrivia(): void {
+    while (this.pos < this.source.length) {
+      if (/\s/.test(this.source[this.pos])) {
+        this.pos++;
+      } else if (!this.skipComment()) {
+        return;
+      }
+    }
+  }
+}
+
+function unescape(raw: string): string {
+  return raw.replace(/\\(u\{?[0-9a-fA-F]+\}?|.)/g, (_match, escaped: string) => {
+    if (escaped[0] === 'u' && escaped.length > 1) {
+      return String.fromCodePoint(parseInt(escaped.replace(/[u{}]/g, ''), 16));
+    }
+    return ({ n: '\n', t: '\t', r: '\r' } as Record<string, string>)[escaped] ?? escaped;
+  });
+}
@@ -0,0 +1,111 @@
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import { ParsedDocument } from '../services/docsParser.js';
+import { CHARS_PER_TOKEN, estimateTokens } from './textAnalysis.js';
+
+export const DEFAULT_PAGE_TOKENS = 25000;
+
+// Only back up to a section boundary if it keeps at least this share of the page budget
+const MIN_PAGE_FILL = 0.5;
+
+interface CursorPayload {
+  line: number;
+  lines: number; // Total line count when the cursor was issued, to detect stale cursors
+}
+
+export interface DocsPage {
+  text: string;
+  startLine: number;
+  endLine: number;
+  totalLines: number;
+  tokenEstimate: number;
+  nextCursor?: string;
+}
+
+/**
+ * Encodes a continuation cursor as an opaque base64url string
+ */
+export function encodeCursor(payload: CursorPayload): string {
+  return Buffer.from(JSON.stringify(payload)).toString('base64url');
+}
+
+/**
+ * Decodes and validates a continuation cursor against the current document
+ * @param cursor - Cursor returned by a previous page
+ * @param totalLines - Line count of the document being paginated
+ * @returns 1-based line the next page starts at
+ * @throws McpError if the cursor is malformed or was issued for different content
+ */
+export function decodeCursor(cursor: string, totalLines: number): number {
+  let payload: CursorPayload;
+  try {
+    payload = JSON.parse(Buffer.from(cursor, 'base64url').toString('utf-8'));
+  } catch {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor. Omit the cursor to start from the beginning.");
+  }
+
+  if (!Number.isInteger(payload?.line) || payload.line < 1 || payload.line > totalLines) {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid cursor. Omit the cursor to start from the beginning.");
+  }
+
+  if (payload.lines !== totalLines) {
+    throw new McpError(ErrorCode.InvalidParams, "Cursor is stale because the documentation has changed. Restart without a cursor.");
+  }
+
+  return payload.line;
+}
+
+/**
+ * Cuts a token-bounded page out of a document, preferring to end just before a section heading
+ * @param document - Parsed documentation file
+ * @param startLine - 1-based line to start the page at
+ * @param maxTokens - Approximate token budget for the page
+ * @returns The page text, its line range and a cursor for the next page if any
+ */
+export function paginateDocument(document: ParsedDocument, startLine: number, maxTokens: number): DocsPage {
+  const { lines } = document;
+  const totalLines = lines.length;
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+
+  let chars = 0;
+  let endLine = startLine - 1;
+  while (endLine < totalLines) {
+    const lineChars = lines[endLine].length + 1;
+    // Always include at least one line so oversized lines cannot stall pagination
+    if (endLine >= startLine && chars + lineChars > maxChars) {
+      break;
+    }
+    chars += lineChars;
+    endLine++;
+  }
+
+  if (endLine < totalLines) {
+    const boundary = lastSectionStartWithin(document, startLine, endLine);
+    if (boundary !== null) {
+      const keptChars = lines.slice(startLine - 1, boundary - 1).reduce((sum, line) => sum + line.length + 1, 0);
+      if (keptChars >= maxChars * MIN_PAGE_FILL) {
+        endLine = boundary - 1;
+        chars = keptChars;
+      }
+    }
+  }
+
+  return {
+    text: lines.slice(startLine - 1, endLine).join('\n'),
+    startLine,
+    endLine,
+    totalLines,
+    tokenEstimate: estimateTokens(chars),
+    nextCursor: endLine < totalLines ? encodeCursor({ line: endLine + 1, lines: totalLines }) : undefined
+  };
+}
+
+function lastSectionStartWithin(document: ParsedDocument, startLine: number, endLine: number): number | null {
+  let boundary: number | null = null;
+  for (const section of document.sections) {
+    if (section.startLine > endLine + 1) break;
+    if (section.startLine > startLine) {
+      boundary = section.startLine;
+    }
+  }
+  return boundary;
+}
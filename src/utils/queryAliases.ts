@@ -0,0 +1,255 @@
+/**
+ * Synonym and API-alias map for documentation search.
+ * Maps names from older APIs (Pages Router, Tailwind CSS v3) and common alternative phrasings
+ * to the terms the bundled Next.js and Tailwind CSS v4 docs actually use.
+ */
+
+import { splitWords } from './textAnalysis.js';
+
+export type AliasScope = 'nextjs' | 'tailwind';
+
+interface AliasEntry {
+  scope: AliasScope;
+  aliases: string[];   // Phrases that trigger the expansion when found in a query
+  expandTo: string[];  // Extra queries searched alongside the original
+  note: string;        // Shown to the caller to explain the expansion
+}
+
+export interface QueryExpansion {
+  alias: string;
+  queries: string[];
+  note: string;
+}
+
+const ALIASES: AliasEntry[] = [
+  // Next.js: Pages Router -> App Router
+  {
+    scope: 'nextjs',
+    aliases: ['getServerSideProps', 'gSSP'],
+    expandTo: ['dynamic rendering', 'fetch no-store', 'cookies headers dynamic APIs'],
+    note: 'Pages Router data fetching; the App Router renders dynamically when fetching uncached data in Server Components'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['getStaticProps', 'gSP'],
+    expandTo: ['static rendering', 'fetching data server components', 'caching and revalidating'],
+    note: 'Pages Router data fetching; the App Router fetches data directly in Server Components'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['getStaticPaths'],
+    expandTo: ['generateStaticParams'],
+    note: 'Pages Router API; the App Router equivalent is generateStaticParams'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['getInitialProps'],
+    expandTo: ['fetching data server components', 'layout data fetching'],
+    note: 'Legacy Pages Router API; fetch in Server Components or layouts instead'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['incremental static regeneration', 'ISR', 'revalidate prop'],
+    expandTo: ['revalidatePath revalidateTag', 'time-based revalidation'],
+    note: 'ISR in the App Router is configured with revalidate options, revalidatePath and revalidateTag'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['middleware', 'middleware.ts', 'middleware.js'],
+    expandTo: ['proxy', 'proxy.js'],
+    note: 'Middleware was renamed to Proxy (proxy.ts) in Next.js 16'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['API routes', 'pages/api', 'API route'],
+    expandTo: ['route handlers', 'route.js'],
+    note: 'Pages Router API routes are Route Handlers (route.ts) in the App Router'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['_app', '_app.js', '_app.tsx', '_document', 'custom app', 'custom document'],
+    expandTo: ['root layout', 'layout.js'],
+    note: 'The App Router replaces _app and _document with the root layout'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['next/head', 'Head component'],
+    expandTo: ['metadata', 'generateMetadata'],
+    note: 'The App Router sets <head> content through the Metadata API'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['next/router', 'useRouter pages'],
+    expandTo: ['useRouter next/navigation', 'usePathname useSearchParams'],
+    note: 'App Router hooks live in next/navigation'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['404 page', '404.js', 'custom 404'],
+    expandTo: ['not-found.js', 'notFound'],
+    note: 'The App Router uses not-found.js and the notFound function'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['500 page', '_error', 'custom error page'],
+    expandTo: ['error.js', 'global-error'],
+    note: 'The App Router handles errors with error.js boundaries'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['SSR', 'server side rendering'],
+    expandTo: ['dynamic rendering', 'server components'],
+    note: 'Server-side rendering on request is called dynamic rendering in the App Router'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['SSG', 'static site generation'],
+    expandTo: ['static rendering', 'static exports', 'generateStaticParams'],
+    note: 'Static generation is called static rendering or prerendering in the App Router'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['server actions', 'server functions', 'use server'],
+    expandTo: ['server actions', 'server functions', 'use server'],
+    note: 'Server Actions are also documented as Server Functions'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['experimental ppr', 'partial prerendering', 'PPR', 'dynamicIO'],
+    expandTo: ['cache components', 'cacheComponents'],
+    note: 'Partial Prerendering and dynamicIO are enabled through Cache Components'
+  },
+  {
+    scope: 'nextjs',
+    aliases: ['unstable_cache'],
+    expandTo: ['use cache', 'cacheTag cacheLife'],
+    note: 'The use cache directive supersedes unstable_cache'
+  },
+
+  // Tailwind CSS: v3 -> v4
+  {
+    scope: 'tailwind',
+    aliases: ['tailwind.config.js', 'tailwind.config.ts', 'tailwind config', 'theme.extend', 'extend theme'],
+    expandTo: ['@theme', 'CSS-first configuration', 'theme variables'],
+    note: 'Tailwind CSS v4 configures the theme in CSS with @theme instead of tailwind.config.js'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['darkMode class', 'darkMode', 'dark mode class', 'class strategy', 'dark: variant', 'dark variant'],
+    expandTo: ['dark mode', 'toggling dark mode manually', '@custom-variant dark'],
+    note: 'In v4 the class-based dark mode is a custom variant declared with @custom-variant dark'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['@tailwind base', '@tailwind components', '@tailwind utilities', '@tailwind directives'],
+    expandTo: ['@import "tailwindcss"', 'upgrade guide removed @tailwind directives'],
+    note: 'v4 replaces the @tailwind directives with a single @import "tailwindcss"'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['content config', 'content paths', 'purge', 'safelist'],
+    expandTo: ['@source', 'automatic content detection', 'explicitly registering sources'],
+    note: 'v4 detects sources automatically; extra paths and safelists use @source'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['plugins array', 'addUtilities', 'addComponents', 'tailwind plugin'],
+    expandTo: ['@utility', '@plugin', 'adding custom utilities'],
+    note: 'v4 defines custom utilities with @utility and loads JavaScript plugins with @plugin'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['addVariant', 'custom variant'],
+    expandTo: ['@custom-variant', 'adding custom variants'],
+    note: 'v4 registers custom variants in CSS with @custom-variant'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['theme() function', 'theme function'],
+    expandTo: ['CSS theme variables', 'var(--color'],
+    note: 'v4 exposes theme values as CSS variables; prefer var() over theme()'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['bg-opacity', 'text-opacity', 'border-opacity'],
+    expandTo: ['color opacity modifier', 'bg-black/50'],
+    note: 'The *-opacity utilities were removed in v4; use opacity modifiers such as bg-black/50'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['shadow-sm'],
+    expandTo: ['shadow-xs', 'box-shadow'],
+    note: 'v4 renamed the shadow scale: shadow-sm is now shadow-xs and shadow is now shadow-sm'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['outline-none'],
+    expandTo: ['outline-hidden', 'outline-style'],
+    note: 'v3 outline-none is outline-hidden in v4'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['flex-grow', 'flex-shrink'],
+    expandTo: ['grow', 'shrink'],
+    note: 'flex-grow and flex-shrink were renamed to grow and shrink'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['overflow-ellipsis'],
+    expandTo: ['text-ellipsis', 'text-overflow'],
+    note: 'overflow-ellipsis was renamed to text-ellipsis'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['decoration-slice', 'decoration-clone'],
+    expandTo: ['box-decoration-slice', 'box-decoration-clone'],
+    note: 'The decoration-* box utilities were renamed to box-decoration-*'
+  },
+  {
+    scope: 'tailwind',
+    aliases: ['jit', 'just-in-time'],
+    expandTo: ['arbitrary values', 'automatic content detection'],
+    note: 'Just-in-time generation is always on since v3; arbitrary values are its main feature'
+  }
+];
+
+// Pre-normalized aliases, longest first so specific phrases win over their substrings
+const NORMALIZED_ALIASES = ALIASES
+  .flatMap(entry => entry.aliases.map(alias => ({ entry, alias, normalized: normalize(alias) })))
+  .filter(({ normalized }) => normalized.length > 0)
+  .sort((a, b) => b.normalized.length - a.normalized.length);
+
+/**
+ * Finds alias expansions for a query. Aliases match whole words, ignoring case and punctuation,
+ * so "tailwind.config.js" and "Tailwind config JS" trigger the same entry.
+ * @param query - The search query
+ * @param scopes - Which alias groups to consult
+ * @returns One expansion per matched alias group, in order of the longest matching alias
+ */
+export function expandQuery(query: string, scopes: AliasScope[]): QueryExpansion[] {
+  const queryPhrase = normalize(query);
+  const paddedQuery = ` ${queryPhrase} `;
+  const expansions: QueryExpansion[] = [];
+  const used = new Set<AliasEntry>();
+
+  for (const { entry, alias, normalized } of NORMALIZED_ALIASES) {
+    if (used.has(entry) || !scopes.includes(entry.scope) || !paddedQuery.includes(` ${normalized} `)) {
+      continue;
+    }
+    used.add(entry);
+
+    // Substitute the alias in place so the rest of the query still narrows the expansion
+    const queries = entry.expandTo
+      .map(expansion => paddedQuery.replace(` ${normalized} `, ` ${expansion} `).trim())
+      .filter(expansion => normalize(expansion) !== queryPhrase);
+    if (queries.length > 0) {
+      expansions.push({ alias, queries, note: entry.note });
+    }
+  }
+
+  return expansions;
+}
+
+function normalize(text: string): string {
+  return splitWords(text).join(' ');
+}
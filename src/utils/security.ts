@@ -1,6 +1,7 @@
 import path from 'path';
 import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
-import { ValidationResult } from '../types.js';
+import { COLOR_MOODS, CONTENT_SOURCE_TYPES, INDUSTRY_NAMES, RADIUS_STEPS, ValidationResult } from '../types.js';
+import { parseColor } from './color.js';
 
 /**
  * Sanitizes and validates file paths to prevent directory traversal attacks
@@ -83,22 +84,96 @@ export function validateToolInput(toolName: string, args: any): void {
   }
 
   switch (toolName) {
+    case 'get_nextjs_full_docs':
+    case 'get_tailwind_full_docs':
+      validateFullDocsArgs(args);
+      break;
     case 'search_nextjs_docs':
     case 'search_tailwind_docs':
       validateSearchDocsArgs(args);
       break;
+    case 'search_all':
+      validateSearchDocsArgs(args);
+      validateSearchSources(args);
+      break;
     case 'get_catalyst_component':
+    case 'get_component_api':
+    case 'get_component_examples':
       validateCatalystComponentArgs(args);
       break;
     case 'get_pattern':
       validatePatternArgs(args);
       break;
+    case 'get_docs_section':
+      validateDocsSectionArgs(args);
+      break;
+    case 'get_docs_outline':
+      validateDocsOutlineArgs(args);
+      break;
+    case 'find_code_examples':
+      validateFindCodeExamplesArgs(args);
+      break;
+    case 'diff_docs_versions':
+      validateDiffDocsVersionsArgs(args);
+      break;
+    case 'migrate_tailwind_config':
+      validateMigrateTailwindConfigArgs(args);
+      break;
+    case 'migrate_pages_router':
+      validateMigratePagesRouterArgs(args);
+      break;
+    case 'lookup_tailwind_class':
+      validateLookupTailwindClassArgs(args);
+      break;
+    case 'lint_tailwind_classes':
+      validateLintTailwindClassesArgs(args);
+      break;
+    case 'css_to_tailwind':
+      validateCssToTailwindArgs(args);
+      break;
+    case 'generate_tailwind_theme':
+      validateGenerateTailwindThemeArgs(args);
+      break;
+    case 'get_color_design_guidance':
+      validateGetColorDesignGuidanceArgs(args);
+      break;
+    case 'check_contrast':
+      validateCheckContrastArgs(args);
+      break;
+    case 'install_catalyst_components':
+      validateInstallCatalystComponentsArgs(args);
+      break;
+    case 'theme_catalyst_component':
+      validateThemeCatalystComponentArgs(args);
+      break;
     default:
       // For list operations and full doc retrieval without parameters, no validation needed
       break;
   }
 }
 
+function validateFullDocsArgs(args: any): void {
+  if (args.cursor !== undefined) {
+    if (typeof args.cursor !== 'string' || args.cursor.length === 0 || args.cursor.length > 200) {
+      throw new McpError(ErrorCode.InvalidParams, "Invalid 'cursor' argument");
+    }
+
+    if (!/^[A-Za-z0-9_-]+$/.test(args.cursor)) {
+      throw new McpError(ErrorCode.InvalidParams, "Cursor contains invalid characters");
+    }
+  }
+
+  if (args.maxTokens !== undefined) {
+    if (typeof args.maxTokens !== 'number' || args.maxTokens < 1000 || args.maxTokens > 200000) {
+      throw new McpError(ErrorCode.InvalidParams, "maxTokens must be a number between 1000 and 200000");
+    }
+  }
+
+  if (args.version !== undefined) {
+    validateDocsVersion(args.version);
+  }
+}
+
 function validateSearchDocsArgs(args: any): void {
   if (!args.query || typeof args.query !== 'string') {
     throw new McpError(ErrorCode.InvalidParams, "Missing or invalid 'query' argument");
@@ -124,6 +199,39 @@ function validateSearchDocsArgs(args: any): void {
       throw new McpError(ErrorCode.InvalidParams, "Limit must be a number between 1 and 20");
     }
   }
+
+  if (args.format !== undefined && args.format !== 'markdown' && args.format !== 'json') {
+    throw new McpError(ErrorCode.InvalidParams, "Format must be 'markdown' or 'json'");
+  }
+
+  if (args.version !== undefined) {
+    validateDocsVersion(args.version);
+  }
+}
+
+function validateDocsVersion(version: any): void {
+  if (typeof version !== 'string' || !/^v?\d{1,3}(\.\d{1,3}){0,2}$/i.test(version.trim())) {
+    throw new McpError(ErrorCode.InvalidParams, "Version must look like '15', 'v14' or '14.2'");
+  }
+}
+
+function validateSearchSources(args: any): void {
+  if (args.sources === undefined) {
+    return;
+  }
+
+  if (!Array.isArray(args.sources)) {
+    throw new McpError(ErrorCode.InvalidParams, "'sources' must be an array");
+  }
+
+  const allowedSources: readonly string[] = CONTENT_SOURCE_TYPES;
+  const invalid = args.sources.filter((source: unknown) => typeof source !== 'string' || !allowedSources.includes(source));
+  if (invalid.length > 0) {
+    throw new McpError(
+      ErrorCode.InvalidParams,
+      `Invalid sources. Must be any of: ${allowedSources.join(', ')}`
+    );
+  }
 }
 
 function validateCatalystComponentArgs(args: any): void {
@@ -135,6 +243,10 @@ function validateCatalystComponentArgs(args: any): void {
   if (!validation.isValid) {
     throw new McpError(ErrorCode.InvalidParams, `Invalid component_name: ${validation.error}`);
   }
+
+  if (args.include_dependencies !== undefined && typeof args.include_dependencies !== 'boolean') {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid 'include_dependencies' argument: must be a boolean");
+  }
 }
 
 function validatePatternArgs(args: any): void {
@@ -161,3 +273,336 @@ function validatePatternArgs(args: any): void {
     throw new McpError(ErrorCode.InvalidParams, `Invalid pattern_name: ${validation.error}`);
   }
 }
+
+
+function validateDocsCorpus(corpus: any): void {
+  if (!corpus || typeof corpus !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, "Missing or invalid 'corpus' argument");
+  }
+
+  // Framework corpora may pin a docs version, as in "nextjs@14"
+  const [name, version] = corpus.split('@', 2);
+  if (version !== undefined) {
+    validateDocsVersion(version);
+  }
+
+  // Anything other than the two framework corpora is a library docs file name
+  const validation = sanitizeAndValidatePath(name, 50);
+  if (!validation.isValid) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid corpus: ${validation.error}`);
+  }
+}
+
+function validateSectionPath(sectionPath: any): void {
+  if (typeof sectionPath !== 'string' || sectionPath.trim().length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Missing or invalid 'path' argument");
+  }
+
+  if (sectionPath.length > 300) {
+    throw new McpError(ErrorCode.InvalidParams, "Section path exceeds maximum length of 300 characters");
+  }
+
+  if (/[\x00-\x1F\x7F]/.test(sectionPath)) {
+    throw new McpError(ErrorCode.InvalidParams, "Section path contains invalid characters");
+  }
+}
+
+function validateDocsSectionArgs(args: any): void {
+  validateDocsCorpus(args.corpus);
+  validateSectionPath(args.path);
+}
+
+function validateDocsOutlineArgs(args: any): void {
+  validateDocsCorpus(args.corpus);
+
+  if (args.path !== undefined) {
+    validateSectionPath(args.path);
+  }
+
+  if (args.maxDepth !== undefined) {
+    if (typeof args.maxDepth !== 'number' || !Number.isInteger(args.maxDepth) || args.maxDepth < 1 || args.maxDepth > 6) {
+      throw new McpError(ErrorCode.InvalidParams, "maxDepth must be an integer between 1 and 6");
+    }
+  }
+}
+
+function validateFindCodeExamplesArgs(args: any): void {
+  validateSearchDocsArgs(args);
+
+  if (args.corpus !== undefined) {
+    validateDocsCorpus(args.corpus);
+  }
+
+  if (args.language !== undefined) {
+    if (typeof args.language !== 'string' || !/^[a-z0-9+#-]{1,20}$/i.test(args.language)) {
+      throw new McpError(ErrorCode.InvalidParams, "Language must be a code fence tag such as 'tsx', 'js' or 'css'");
+    }
+  }
+}
+
+function validateDiffDocsVersionsArgs(args: any): void {
+  if (args.framework !== 'nextjs' && args.framework !== 'tailwind') {
+    throw new McpError(ErrorCode.InvalidParams, "Framework must be 'nextjs' or 'tailwind'");
+  }
+
+  validateDocsVersion(args.from);
+  if (args.to !== undefined) {
+    validateDocsVersion(args.to);
+  }
+
+  if (args.path === undefined && args.topic === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "Provide a section 'path' or a 'topic' to compare");
+  }
+  if (args.path !== undefined) {
+    validateSectionPath(args.path);
+  }
+  if (args.topic !== undefined) {
+    validateSearchDocsArgs({ query: args.topic });
+  }
+}
+
+function validateMigrateTailwindConfigArgs(args: any): void {
+  const inputs = ['config', 'css', 'source'].filter(name => args[name] !== undefined);
+  if (inputs.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "Provide at least one of 'config', 'css' or 'source'");
+  }
+
+  for (const name of inputs) {
+    if (typeof args[name] !== 'string') {
+      throw new McpError(ErrorCode.InvalidParams, `'${name}' must be a string`);
+    }
+    if (args[name].length > 200_000) {
+      throw new McpError(ErrorCode.InvalidParams, `'${name}' exceeds maximum length of 200000 characters`);
+    }
+  }
+}
+
+function validateMigratePagesRouterArgs(args: any): void {
+  if (!args.source || typeof args.source !== 'string') {
+    throw new McpError(ErrorCode.InvalidParams, "'source' is required and must be a string");
+  }
+  if (args.source.length > 200_000) {
+    throw new McpError(ErrorCode.InvalidParams, "'source' exceeds maximum length of 200000 characters");
+  }
+
+  if (args.path !== undefined) {
+    if (typeof args.path !== 'string' || args.path.length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, "'path' must be a non-empty string");
+    }
+    if (args.path.length > 300) {
+      throw new McpError(ErrorCode.InvalidParams, "'path' exceeds maximum length of 300 characters");
+    }
+    if (/[\x00-\x1f]/.test(args.path)) {
+      throw new McpError(ErrorCode.InvalidParams, "'path' contains invalid characters");
+    }
+    if (!/\.(?:tsx?|jsx?|mdx?)$/.test(args.path)) {
+      throw new McpError(ErrorCode.InvalidParams, "'path' must name a .js, .jsx, .ts, .tsx or .mdx file under pages/");
+    }
+  }
+}
+
+function validateLookupTailwindClassArgs(args: any): void {
+  if (!args.classes || typeof args.classes !== 'string' || args.classes.trim().length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "'classes' is required and must be a non-empty string");
+  }
+  if (args.classes.length > 5000) {
+    throw new McpError(ErrorCode.InvalidParams, "'classes' exceeds maximum length of 5000 characters");
+  }
+  if (/[\x00-\x08\x0e-\x1f]/.test(args.classes)) {
+    throw new McpError(ErrorCode.InvalidParams, "'classes' contains invalid characters");
+  }
+}
+
+function validateLintTailwindClassesArgs(args: any): void {
+  if ((args.classes === undefined) === (args.source === undefined)) {
+    throw new McpError(ErrorCode.InvalidParams, "Provide exactly one of 'classes' or 'source'");
+  }
+
+  if (args.classes !== undefined) {
+    if (typeof args.classes !== 'string' || args.classes.trim().length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, "'classes' must be a non-empty string");
+    }
+    if (args.classes.length > 5000) {
+      throw new McpError(ErrorCode.InvalidParams, "'classes' exceeds maximum length of 5000 characters");
+    }
+  }
+
+  if (args.source !== undefined) {
+    if (typeof args.source !== 'string' || args.source.trim().length === 0) {
+      throw new McpError(ErrorCode.InvalidParams, "'source' must be a non-empty string");
+    }
+    if (args.source.length > 200_000) {
+      throw new McpError(ErrorCode.InvalidParams, "'source' exceeds maximum length of 200000 characters");
+    }
+  }
+}
+
+function validateCssToTailwindArgs(args: any): void {
+  if (!args.css || typeof args.css !== 'string' || args.css.trim().length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "'css' must be a non-empty string");
+  }
+
+  if (args.css.length > 50_000) {
+    throw new McpError(ErrorCode.InvalidParams, "'css' exceeds maximum length of 50000 characters");
+  }
+}
+
+function validateGenerateTailwindThemeArgs(args: any): void {
+  for (const name of ['primary', 'secondary']) {
+    if (args[name] === undefined && name === 'secondary') {
+      continue;
+    }
+    if (typeof args[name] !== 'string' || args[name].length > 100) {
+      throw new McpError(ErrorCode.InvalidParams, `'${name}' must be a color such as '#4f46e5'`);
+    }
+    const color = parseColor(args[name]);
+    if (!color || color.alpha < 1) {
+      throw new McpError(ErrorCode.InvalidParams, `'${name}' must be an opaque hex, rgb(), hsl() or oklch() color`);
+    }
+  }
+
+  for (const name of ['fontSans', 'fontDisplay', 'fontMono']) {
+    if (args[name] !== undefined) {
+      if (typeof args[name] !== 'string' || args[name].trim().length === 0 || args[name].length > 200) {
+        throw new McpError(ErrorCode.InvalidParams, `'${name}' must be a font family name of at most 200 characters`);
+      }
+      if (/[;{}]/.test(args[name])) {
+        throw new McpError(ErrorCode.InvalidParams, `'${name}' contains invalid characters`);
+      }
+    }
+  }
+
+  const options: Record<string, string[]> = {
+    radius: ['none', 'subtle', 'default', 'rounded', 'extra-rounded'],
+    density: ['compact', 'default', 'comfortable'],
+    darkMode: ['media', 'class', 'attribute']
+  };
+  for (const [name, values] of Object.entries(options)) {
+    if (args[name] !== undefined && !values.includes(args[name])) {
+      throw new McpError(ErrorCode.InvalidParams, `'${name}' must be one of: ${values.join(', ')}`);
+    }
+  }
+}
+
+function validateGetColorDesignGuidanceArgs(args: any): void {
+  if (args === undefined || args === null) {
+    return;
+  }
+
+  if (args.industry !== undefined && !(INDUSTRY_NAMES as readonly string[]).includes(args.industry)) {
+    throw new McpError(ErrorCode.InvalidParams, `'industry' must be one of: ${INDUSTRY_NAMES.join(', ')}`);
+  }
+  if (args.mood !== undefined && !(COLOR_MOODS as readonly string[]).includes(args.mood)) {
+    throw new McpError(ErrorCode.InvalidParams, `'mood' must be one of: ${COLOR_MOODS.join(', ')}`);
+  }
+  if (args.mode !== undefined && args.mode !== 'light' && args.mode !== 'dark') {
+    throw new McpError(ErrorCode.InvalidParams, "'mode' must be 'light' or 'dark'");
+  }
+
+  if (args.baseColor !== undefined) {
+    if (typeof args.baseColor !== 'string' || args.baseColor.length > 100) {
+      throw new McpError(ErrorCode.InvalidParams, "'baseColor' must be a color such as '#4f46e5'");
+    }
+    const color = parseColor(args.baseColor);
+    if (!color || color.alpha < 1) {
+      throw new McpError(ErrorCode.InvalidParams, "'baseColor' must be an opaque hex, rgb(), hsl() or oklch() color");
+    }
+  }
+}
+
+function validateCheckContrastArgs(args: any): void {
+  if (!Array.isArray(args.pairs) || args.pairs.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "'pairs' must be a non-empty array of { foreground, background }");
+  }
+  if (args.pairs.length > 50) {
+    throw new McpError(ErrorCode.InvalidParams, "'pairs' accepts at most 50 color pairs");
+  }
+
+  for (const pair of args.pairs) {
+    for (const name of ['foreground', 'background']) {
+      if (typeof pair?.[name] !== 'string' || pair[name].trim().length === 0 || pair[name].length > 100) {
+        throw new McpError(ErrorCode.InvalidParams, `Each pair needs a '${name}' color of at most 100 characters`);
+      }
+    }
+  }
+
+  if (args.level !== undefined && args.level !== 'AA' && args.level !== 'AAA') {
+    throw new McpError(ErrorCode.InvalidParams, "'level' must be 'AA' or 'AAA'");
+  }
+
+  if (args.backdrop !== undefined && (typeof args.backdrop !== 'string' || args.backdrop.length === 0 || args.backdrop.length > 100)) {
+    throw new McpError(ErrorCode.InvalidParams, "'backdrop' must be a color of at most 100 characters");
+  }
+}
+
+function validateInstallCatalystComponentsArgs(args: any): void {
+  if (!Array.isArray(args.components) || args.components.length === 0) {
+    throw new McpError(ErrorCode.InvalidParams, "'components' must be a non-empty array of component names");
+  }
+  if (args.components.length > 30) {
+    throw new McpError(ErrorCode.InvalidParams, "'components' accepts at most 30 component names");
+  }
+  for (const name of args.components) {
+    const validation = sanitizeAndValidatePath(name, 50);
+    if (!validation.isValid) {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid component name '${name}': ${validation.error}`);
+    }
+  }
+
+  if (typeof args.project_path !== 'string' || !path.isAbsolute(args.project_path) || args.project_path.includes('\0') || args.project_path.length > 1000) {
+    throw new McpError(ErrorCode.InvalidParams, "'project_path' must be an absolute path of at most 1000 characters");
+  }
+
+  if (args.target_dir !== undefined) {
+    if (typeof args.target_dir !== 'string' || args.target_dir.trim().length === 0 || args.target_dir.length > 200) {
+      throw new McpError(ErrorCode.InvalidParams, "'target_dir' must be a relative path of at most 200 characters");
+    }
+    if (path.isAbsolute(args.target_dir) || args.target_dir.split(/[\\/]/).includes('..') || args.target_dir.includes('\0')) {
+      throw new McpError(ErrorCode.InvalidParams, "'target_dir' must be relative to the project and must not contain '..'");
+    }
+  }
+
+  for (const name of ['dry_run', 'overwrite']) {
+    if (args[name] !== undefined && typeof args[name] !== 'boolean') {
+      throw new McpError(ErrorCode.InvalidParams, `Invalid '${name}' argument: must be a boolean`);
+    }
+  }
+}
+
+function validateThemeCatalystComponentArgs(args: any): void {
+  validateCatalystComponentArgs({ component_name: args.component_name });
+
+  if (args.palette === undefined && args.radius === undefined) {
+    throw new McpError(ErrorCode.InvalidParams, "Provide 'palette', 'radius' or both");
+  }
+
+  if (args.palette !== undefined) {
+    if (typeof args.palette !== 'object' || args.palette === null || Array.isArray(args.palette)) {
+      throw new McpError(ErrorCode.InvalidParams, "'palette' must be an object such as { \"zinc\": \"slate\" }");
+    }
+    const entries = Object.entries(args.palette);
+    if (entries.length === 0 || entries.length > 30) {
+      throw new McpError(ErrorCode.InvalidParams, "'palette' must map between 1 and 30 colors");
+    }
+    const shade = /-(?:50|[1-9]00|950)$/;
+    for (const [from, to] of entries) {
+      if (!/^[a-z]+(?:-(?:50|[1-9]00|950))?$/.test(from)) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid palette key '${from}': use a palette color such as 'zinc' or 'blue-500'`);
+      }
+      if (typeof to !== 'string' || !/^[a-z][a-z0-9]*(?:-[a-z0-9]+)*$/.test(to) || to.length > 50) {
+        throw new McpError(ErrorCode.InvalidParams, `Invalid palette value for '${from}': use a color name such as 'slate' or 'indigo-600'`);
+      }
+      if (shade.test(from) !== shade.test(to)) {
+        throw new McpError(ErrorCode.InvalidParams, `Palette entry '${from}' → '${to}' must map a family to a family or a shade to a shade`);
+      }
+    }
+  }
+
+  if (args.radius !== undefined && !(RADIUS_STEPS as readonly string[]).includes(args.radius)) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid radius. Must be one of: ${RADIUS_STEPS.join(', ')}`);
+  }
+
+  if (args.preserve_variants !== undefined && typeof args.preserve_variants !== 'boolean') {
+    throw new McpError(ErrorCode.InvalidParams, "Invalid 'preserve_variants' argument: must be a boolean");
+  }
+}
\ No newline at end of file
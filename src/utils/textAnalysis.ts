@@ -0,0 +1,307 @@
+/**
+ * Text analysis helpers shared by the documentation tools:
+ * tokenization, stop-word filtering, Porter stemming, token estimation and edit distance.
+ */
+
+const STOP_WORDS = new Set([
+  'a', 'about', 'after', 'all', 'also', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'but', 'by', 'can', 'could', 'do',
+  'does', 'each', 'for', 'from', 'had', 'has', 'have', 'how', 'if', 'in', 'into',
+  'is', 'it', 'its', 'just', 'may', 'more', 'most', 'no', 'not', 'of', 'on',
+  'one', 'only', 'or', 'other', 'our', 'out', 'over', 'same', 'should', 'so',
+  'some', 'such', 'than', 'that', 'the', 'their', 'them', 'then', 'there',
+  'these', 'they', 'this', 'those', 'to', 'too', 'up', 'us', 'very', 'was', 'we',
+  'were', 'what', 'when', 'where', 'which', 'while', 'who', 'will', 'with',
+  'would', 'you', 'your'
+]);
+
+const TOKEN_PATTERN = /[a-z0-9]+/g;
+
+// Rough characters-per-token ratio for English prose and code in LLM tokenizers
+export const CHARS_PER_TOKEN = 4;
+
+/**
+ * Estimates how many LLM tokens a piece of text will consume
+ * @param charCount - Length of the text in characters
+ * @returns Approximate token count
+ */
+export function estimateTokens(charCount: number): number {
+  return Math.ceil(charCount / CHARS_PER_TOKEN);
+}
+
+/**
+ * Splits text into lowercase alphanumeric words without stemming or stop-word removal
+ * @param text - Text to split
+ * @returns Array of raw lowercase words
+ */
+export function splitWords(text: string): string[] {
+  return text.toLowerCase().match(TOKEN_PATTERN) ?? [];
+}
+
+/**
+ * Tokenizes text into stemmed search terms, dropping stop words and single characters
+ * @param text - Text to tokenize
+ * @returns Array of normalized terms (duplicates preserved for term frequency)
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const word of splitWords(text)) {
+    if (isStopWord(word)) {
+      continue;
+    }
+    terms.push(stem(word));
+  }
+  return terms;
+}
+
+/**
+ * Finds the character ranges of words in a text whose search term is in the given set
+ * @param text - Text to scan, such as a search snippet
+ * @param terms - Stemmed terms to locate
+ * @returns Start (inclusive) and end (exclusive) offsets of each matching word, in order
+ */
+export function findTermOffsets(text: string, terms: Set<string>): Array<{ start: number; end: number }> {
+  const offsets: Array<{ start: number; end: number }> = [];
+  for (const match of text.matchAll(/[a-z0-9]+/gi)) {
+    const word = match[0].toLowerCase();
+    if (!isStopWord(word) && terms.has(stem(word))) {
+      offsets.push({ start: match.index!, end: match.index! + word.length });
+    }
+  }
+  return offsets;
+}
+
+// =========================
+// PORTER STEMMER
+// =========================
+
+const STEP2_SUFFIXES: Array<[string, string]> = [
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'],
+  ['izer', 'ize'], ['bli', 'ble'], ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'],
+  ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'], ['ator', 'ate'],
+  ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'],
+  ['aliti', 'al'], ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+];
+
+const STEP3_SUFFIXES: Array<[string, string]> = [
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'],
+  ['ical', 'ic'], ['ful', ''], ['ness', '']
+];
+
+const STEP4_SUFFIXES = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment',
+  'ent', 'ion', 'ou', 'ism', 'ate', 'iti', 'ous', 'ive', 'ize'
+];
+
+function isConsonant(word: string, i: number): boolean {
+  const ch = word[i];
+  if ('aeiou'.includes(ch)) {
+    return false;
+  }
+  if (ch === 'y') {
+    return i === 0 ? true : !isConsonant(word, i - 1);
+  }
+  return true;
+}
+
+/** Counts VC sequences ("measure" in Porter's terms) in a stem */
+function measure(stemPart: string): number {
+  let count = 0;
+  let i = 0;
+  const length = stemPart.length;
+
+  while (i < length && isConsonant(stemPart, i)) i++;
+  while (i < length) {
+    while (i < length && !isConsonant(stemPart, i)) i++;
+    if (i >= length) break;
+    while (i < length && isConsonant(stemPart, i)) i++;
+    count++;
+  }
+
+  return count;
+}
+
+function containsVowel(stemPart: string): boolean {
+  for (let i = 0; i < stemPart.length; i++) {
+    if (!isConsonant(stemPart, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const length = word.length;
+  return length >= 2 &&
+    word[length - 1] === word[length - 2] &&
+    isConsonant(word, length - 1);
+}
+
+/** Consonant-vowel-consonant ending where the final consonant is not w, x or y */
+function endsWithCvc(word: string): boolean {
+  const length = word.length;
+  if (length < 3) {
+    return false;
+  }
+  const last = word[length - 1];
+  return isConsonant(word, length - 3) &&
+    !isConsonant(word, length - 2) &&
+    isConsonant(word, length - 1) &&
+    !'wxy'.includes(last);
+}
+
+function replaceSuffix(word: string, rules: Array<[string, string]>, minMeasure: number): string {
+  for (const [suffix, replacement] of rules) {
+    if (word.endsWith(suffix)) {
+      const base = word.slice(0, -suffix.length);
+      return measure(base) > minMeasure ? base + replacement : word;
+    }
+  }
+  return word;
+}
+
+/**
+ * Reduces an English word to its Porter stem ("caching" → "cach", "routes" → "rout")
+ * @param word - Lowercase word to stem
+ * @returns The stemmed word; words shorter than 3 characters or containing digits are returned unchanged
+ */
+export function stem(word: string): string {
+  if (word.length < 3 || /\d/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses')) {
+    w = w.slice(0, -2);
+  } else if (w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (!w.endsWith('ss') && w.endsWith('s')) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: past tense and gerunds
+  let step1bCleanup = false;
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) {
+      w = w.slice(0, -1);
+    }
+  } else if (w.endsWith('ed') && containsVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    step1bCleanup = true;
+  } else if (w.endsWith('ing') && containsVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    step1bCleanup = true;
+  }
+
+  if (step1bCleanup) {
+    if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+      w += 'e';
+    } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsWithCvc(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c: terminal y
+  if (w.endsWith('y') && containsVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  // Steps 2 and 3: derivational suffixes
+  w = replaceSuffix(w, STEP2_SUFFIXES, 0);
+  w = replaceSuffix(w, STEP3_SUFFIXES, 0);
+
+  // Step 4: strip remaining suffixes on long stems
+  for (const suffix of STEP4_SUFFIXES) {
+    if (w.endsWith(suffix)) {
+      const base = w.slice(0, -suffix.length);
+      if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) {
+        w = base;
+      }
+      break;
+    }
+  }
+
+  // Step 5: tidy up trailing e and double l
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsWithCvc(base))) {
+      w = base;
+    }
+  }
+  if (measure(w) > 1 && w.endsWith('ll')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+// =========================
+// EDIT DISTANCE
+// =========================
+
+/**
+ * Computes the optimal string alignment distance (Levenshtein plus adjacent transpositions),
+ * so "middelware" is one edit away from "middleware"
+ * @param a - First string
+ * @param b - Second string
+ * @param maxDistance - Stop early and return maxDistance + 1 once this bound is exceeded
+ * @returns Edit distance, capped at maxDistance + 1
+ */
+export function editDistance(a: string, b: string, maxDistance: number = Infinity): number {
+  if (Math.abs(a.length - b.length) > maxDistance) {
+    return maxDistance + 1;
+  }
+
+  let previousPrevious: number[] = [];
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i];
+    let rowMin = i;
+
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      let value = Math.min(
+        previous[j] + 1,
+        current[j - 1] + 1,
+        previous[j - 1] + cost
+      );
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        value = Math.min(value, previousPrevious[j - 2] + 1);
+      }
+      current.push(value);
+      rowMin = Math.min(rowMin, value);
+    }
+
+    if (rowMin > maxDistance) {
+      return maxDistance + 1;
+    }
+    previousPrevious = previous;
+    previous = current;
+  }
+
+  return Math.min(previous[b.length], maxDistance + 1);
+}
+
+/**
+ * Maximum edit distance tolerated for a term of the given length when fuzzy matching
+ * @param length - Length of the term
+ * @returns 0 for short terms, 1 for medium terms, 2 for long terms
+ */
+export function fuzzyTolerance(length: number): number {
+  if (length < 4) return 0;
+  if (length < 8) return 1;
+  return 2;
+}
+
+/**
+ * Returns whether a word would be dropped by tokenize as a stop word or too short
+ */
+export function isStopWord(word: string): boolean {
+  return word.length < 2 || STOP_WORDS.has(word);
+}